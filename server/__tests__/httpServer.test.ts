@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { request as httpRequest, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { Duplex } from 'node:stream';
+import { createSyncHttpServer } from '../httpServer';
+import { decodeFrame, encodeFrame } from '../websocket';
+import { createSyncStore, type SyncStore } from '../../src/sync/syncStore';
+import type { SyncMessage } from '../../src/sync/types';
+import type { Match } from '../../src/types/tournament';
+import { createTeams } from '../../src/__tests__/utils/testHelpers';
+
+const TOKEN = 'secret';
+const APP_ORIGIN = 'http://192.168.0.10:5173';
+const auth = { Authorization: `Bearer ${TOKEN}` };
+
+describe('sync http server', () => {
+  let store: SyncStore;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    store = createSyncStore();
+    server = createSyncHttpServer(store, { token: TOKEN, origins: [APP_ORIGIN] });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const post = (path: string, body: unknown) => fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...auth },
+    body: JSON.stringify(body),
+  });
+
+  async function startTournament() {
+    await post('/api/actions', {
+      clientId: 'setup',
+      requestId: 'create',
+      action: {
+        type: 'CREATE_TOURNAMENT',
+        payload: {
+          name: 'REST Cup',
+          system: 'round-robin',
+          numberOfCourts: 2,
+          setsPerMatch: 1,
+          pointsPerSet: 21,
+          tiebreakerOrder: 'head-to-head-first',
+          teams: createTeams(4),
+        },
+      },
+    });
+    const tournamentId = store.getSnapshot().state.tournaments[0].id;
+    await post('/api/actions', { clientId: 'setup', requestId: 'start', action: { type: 'START_TOURNAMENT', payload: tournamentId } });
+    return tournamentId;
+  }
+
+  it('exposes tournaments and matches with revisions', async () => {
+    const tournamentId = await startTournament();
+
+    const list = await (await fetch(`${baseUrl}/api/tournaments`, { headers: auth })).json();
+    expect(list).toMatchObject([{ id: tournamentId, name: 'REST Cup', status: 'in-progress' }]);
+
+    const response = await fetch(`${baseUrl}/api/tournaments/${tournamentId}/matches`, { headers: auth });
+    const matches = await response.json() as Array<Match & { revision: number }>;
+    expect(matches).toHaveLength(6);
+    expect(matches.every(m => m.revision === 1)).toBe(true);
+
+    const missing = await fetch(`${baseUrl}/api/tournaments/unknown`, { headers: auth });
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toEqual({ error: 'Turnier nicht gefunden' });
+  });
+
+  it('submits and completes a score, refusing a stale second result', async () => {
+    const tournamentId = await startTournament();
+    const matchId = store.getSnapshot().state.tournaments[0].matches[0].id;
+    const path = `/api/tournaments/${tournamentId}/matches/${matchId}/score`;
+
+    const first = await post(path, { scores: [{ teamA: 21, teamB: 18 }], complete: true, revision: 1 });
+    expect(first.status).toBe(200);
+    expect(store.getSnapshot().state.tournaments[0].matches[0].status).toBe('completed');
+
+    const stale = await post(path, { scores: [{ teamA: 18, teamB: 21 }], revision: 1 });
+    expect(stale.status).toBe(409);
+    expect(await stale.json()).toMatchObject({ status: 'conflict', matchId, revision: 3 });
+  });
+
+  it('rejects malformed requests', async () => {
+    const invalidJson = await fetch(`${baseUrl}/api/actions`, { method: 'POST', headers: auth, body: '{' });
+    expect(invalidJson.status).toBe(400);
+
+    const invalidAction = await post('/api/actions', { action: { type: 'START_TOURNAMENT' } });
+    expect(await invalidAction.json()).toEqual({ error: 'Ungültige Aktion' });
+  });
+
+  it('requires the token and answers browsers only for the app origin', async () => {
+    expect((await fetch(`${baseUrl}/api/state`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/state`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+
+    const foreign = await fetch(`${baseUrl}/api/state`, { headers: { ...auth, Origin: 'http://evil.example' } });
+    expect(foreign.status).toBe(403);
+    expect(foreign.headers.get('access-control-allow-origin')).toBeNull();
+
+    const app = await fetch(`${baseUrl}/api/state`, { headers: { ...auth, Origin: APP_ORIGIN } });
+    expect(app.status).toBe(200);
+    expect(app.headers.get('access-control-allow-origin')).toBe(APP_ORIGIN);
+  });
+
+  it('accepts whole tournaments only as a validated state', async () => {
+    const importAction = await post('/api/actions', {
+      clientId: 'x',
+      requestId: 'import',
+      action: { type: 'IMPORT_TOURNAMENTS', payload: { tournaments: [{ id: 'broken' }], containers: [] } },
+    });
+    expect(importAction.status).toBe(400);
+
+    const merge = await post('/api/merge', { clientId: 'x', requestId: 'merge', state: { tournaments: [{ id: 'broken' }], containers: [] } });
+    expect(merge.status).toBe(400);
+    expect(store.getSnapshot().state.tournaments).toEqual([]);
+  });
+
+  it('pushes a snapshot and accepted events over WebSocket', async () => {
+    const messages: SyncMessage[] = [];
+    let buffered = Buffer.alloc(0);
+    const readFrames = (chunk: Buffer) => {
+      buffered = Buffer.concat([buffered, chunk]);
+      for (let frame = decodeFrame(buffered); frame; frame = decodeFrame(buffered)) {
+        buffered = buffered.subarray(frame.size);
+        messages.push(JSON.parse(frame.payload.toString('utf8')));
+      }
+    };
+
+    const socket = await new Promise<Duplex>((resolve, reject) => {
+      httpRequest(`${baseUrl}/api/events?token=${TOKEN}`, {
+        headers: { Connection: 'Upgrade', Upgrade: 'websocket', 'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==', 'Sec-WebSocket-Version': '13' },
+      })
+        .on('upgrade', (response, upgraded, head) => {
+          expect(response.headers['sec-websocket-accept']).toBe('s3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+          readFrames(head);
+          resolve(upgraded);
+        })
+        .on('error', reject)
+        .end();
+    });
+
+    const received = new Promise<void>(resolve => {
+      socket.on('data', (chunk: Buffer) => {
+        readFrames(chunk);
+        if (messages.length >= 3) resolve();
+      });
+    });
+
+    try {
+      await startTournament();
+      await received;
+    } finally {
+      socket.destroy();
+    }
+
+    expect(messages.map(m => m.type)).toEqual(['snapshot', 'event', 'event']);
+    expect(messages[2]).toMatchObject({ type: 'event', event: { seq: 2, action: { type: 'START_TOURNAMENT' } } });
+  });
+
+  it('encodes long frames with an extended length', () => {
+    const payload = Buffer.alloc(70000, 'a');
+    const frame = decodeFrame(encodeFrame(0x1, payload));
+    expect(frame?.payload.equals(payload)).toBe(true);
+    expect(decodeFrame(encodeFrame(0x1, payload).subarray(0, 100))).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, afterAll, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadSnapshot, saveSnapshot } from '../persistence';
+import { createSyncStore } from '../../src/sync/syncStore';
+import { createTeams } from '../../src/__tests__/utils/testHelpers';
+
+describe('sync server persistence', () => {
+  const directory = mkdtempSync(join(tmpdir(), 'sync-'));
+  const file = join(directory, 'sync-state.json');
+
+  afterEach(() => rmSync(file, { force: true }));
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  it('restores the saved state, sequence and revisions after a restart', () => {
+    const store = createSyncStore({ onChange: snapshot => saveSnapshot(file, snapshot) });
+    store.submit({
+      clientId: 'a',
+      requestId: 'create',
+      action: {
+        type: 'CREATE_TOURNAMENT',
+        payload: { name: 'Cup', system: 'round-robin', numberOfCourts: 1, setsPerMatch: 1, pointsPerSet: 21, tiebreakerOrder: 'head-to-head-first', teams: createTeams(4) },
+      },
+    });
+
+    const restored = loadSnapshot(file);
+    expect(restored).toMatchObject({ seq: 1, revisions: store.getSnapshot().revisions, removedIds: [] });
+    expect(restored?.state.tournaments).toEqual(store.getSnapshot().state.tournaments);
+  });
+
+  it('starts empty without a file and refuses an unreadable one', () => {
+    expect(loadSnapshot(file)).toBeNull();
+    writeFileSync(file, JSON.stringify({ seq: 1, state: { tournaments: [{ id: 1 }], containers: [] } }));
+    expect(() => loadSnapshot(file)).toThrow();
+  });
+});
@@ -0,0 +1,216 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { SyncStore } from '../src/sync/syncStore';
+import type { SyncMergeRequest, SyncRequest, SyncResult, SyncMessage } from '../src/sync/types';
+import type { SetScore } from '../src/types/tournament';
+import { acceptWebSocket } from './websocket';
+
+/** Upper bound for request bodies (a full tournament state stays far below) */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const RESULT_STATUS: Record<SyncResult['status'], number> = {
+  accepted: 200,
+  conflict: 409,
+  rejected: 400,
+};
+
+export interface SyncServerOptions {
+  /** Shared secret every request must carry (`Authorization: Bearer`, `?token=` for the event stream) */
+  token: string;
+  /** Browser origins of the app allowed to call the server, e.g. http://192.168.0.10:5173 */
+  origins?: string[];
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  response.end(JSON.stringify(body));
+}
+
+async function readJson(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Anfrage zu groß');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Ungültiges JSON');
+  }
+}
+
+/** Compares digests, so neither content nor length of the token leak through timing */
+function isTokenValid(given: string | null | undefined, token: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return typeof given === 'string' && timingSafeEqual(digest(given), digest(token));
+}
+
+/** Requests without an Origin header come from outside a browser and only need the token */
+function isOriginAllowed(origin: string | undefined, options: SyncServerOptions): boolean {
+  return origin === undefined || (options.origins ?? []).includes(origin);
+}
+
+function isSyncRequest(body: unknown): body is SyncRequest {
+  const request = body as SyncRequest;
+  return typeof request?.clientId === 'string'
+    && typeof request.requestId === 'string'
+    && typeof request.action?.type === 'string';
+}
+
+function isMergeRequest(body: unknown): body is SyncMergeRequest {
+  const request = body as SyncMergeRequest;
+  return typeof request?.clientId === 'string'
+    && typeof request.requestId === 'string'
+    && Array.isArray(request.state?.tournaments)
+    && Array.isArray(request.state.containers);
+}
+
+/**
+ * Score entry for a single match, e.g. from a referee's phone
+ * Optionally completes the match in the same request.
+ */
+function submitScore(store: SyncStore, tournamentId: string, matchId: string, body: unknown): SyncResult {
+  const { scores, complete, revision, clientId = 'rest' } = body as {
+    scores?: SetScore[];
+    complete?: boolean;
+    revision?: number;
+    clientId?: string;
+  };
+  if (!Array.isArray(scores)) throw new HttpError(400, 'Spielstand fehlt');
+
+  const result = store.submit({
+    clientId,
+    requestId: randomUUID(),
+    action: { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores } },
+    baseRevision: revision,
+  });
+  if (result.status !== 'accepted' || !complete) return result;
+
+  return store.submit({
+    clientId,
+    requestId: randomUUID(),
+    action: { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } },
+    baseRevision: result.revision,
+  });
+}
+
+async function route(store: SyncStore, request: IncomingMessage, response: ServerResponse): Promise<void> {
+  const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+  const segments = path.split('/').filter(Boolean);
+  const method = request.method ?? 'GET';
+  const { state, revisions } = store.getSnapshot();
+
+  if (segments[0] !== 'api') throw new HttpError(404, 'Nicht gefunden');
+
+  if (method === 'GET' && path === '/api/state') {
+    return sendJson(response, 200, store.getSnapshot());
+  }
+
+  if (method === 'POST' && path === '/api/actions') {
+    const body = await readJson(request);
+    if (!isSyncRequest(body)) throw new HttpError(400, 'Ungültige Aktion');
+    const result = store.submit(body);
+    return sendJson(response, RESULT_STATUS[result.status], result);
+  }
+
+  if (method === 'POST' && path === '/api/merge') {
+    const body = await readJson(request);
+    if (!isMergeRequest(body)) throw new HttpError(400, 'Ungültiger Turnierstand');
+    const result = store.merge(body);
+    return sendJson(response, RESULT_STATUS[result.status], result);
+  }
+
+  if (segments[1] !== 'tournaments') throw new HttpError(404, 'Nicht gefunden');
+
+  if (method === 'GET' && segments.length === 2) {
+    return sendJson(response, 200, state.tournaments.map(({ id, name, system, status, updatedAt }) => (
+      { id, name, system, status, updatedAt }
+    )));
+  }
+
+  const tournament = state.tournaments.find(t => t.id === segments[2]);
+  if (!tournament) throw new HttpError(404, 'Turnier nicht gefunden');
+
+  if (method === 'GET' && segments.length === 3) {
+    return sendJson(response, 200, tournament);
+  }
+  if (method === 'GET' && segments.length === 4 && segments[3] === 'matches') {
+    return sendJson(response, 200, tournament.matches.map(m => ({ ...m, revision: revisions[m.id] ?? 0 })));
+  }
+  if (method === 'POST' && segments.length === 6 && segments[3] === 'matches' && segments[5] === 'score') {
+    const result = submitScore(store, tournament.id, segments[4], await readJson(request));
+    return sendJson(response, RESULT_STATUS[result.status], result);
+  }
+
+  throw new HttpError(404, 'Nicht gefunden');
+}
+
+/**
+ * HTTP server of the sync store
+ * REST: GET /api/state, GET /api/tournaments[/:id[/matches]], POST /api/actions, POST /api/merge,
+ * POST /api/tournaments/:id/matches/:matchId/score. WebSocket: /api/events.
+ * Every request needs the shared token; browsers are only answered for the configured origins.
+ */
+export function createSyncHttpServer(store: SyncStore, options: SyncServerOptions): Server {
+  const server = createServer((request, response) => {
+    const origin = request.headers.origin;
+    if (!isOriginAllowed(origin, options)) {
+      sendJson(response, 403, { error: 'Herkunft nicht erlaubt' });
+      return;
+    }
+    if (origin) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Vary', 'Origin');
+    }
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      });
+      response.end();
+      return;
+    }
+    if (!isTokenValid(request.headers.authorization?.replace(/^Bearer /, ''), options.token)) {
+      sendJson(response, 401, { error: 'Nicht angemeldet' });
+      return;
+    }
+
+    route(store, request, response).catch(error => {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error('Sync server error:', error);
+      sendJson(response, status, { error: error instanceof HttpError ? error.message : 'Interner Fehler' });
+    });
+  });
+
+  server.on('upgrade', (request, socket) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/api/events') {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    if (!isOriginAllowed(request.headers.origin, options) || !isTokenValid(url.searchParams.get('token'), options.token)) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    const connection = acceptWebSocket(request, socket);
+    if (!connection) return;
+
+    const send = (message: SyncMessage) => connection.send(JSON.stringify(message));
+    send({ type: 'snapshot', snapshot: store.getSnapshot() });
+    const unsubscribe = store.subscribe(event => send({ type: 'event', event }));
+    connection.onClose(unsubscribe);
+  });
+
+  return server;
+}
@@ -0,0 +1,24 @@
+import { randomBytes } from 'node:crypto';
+import { createSyncStore } from '../src/sync/syncStore';
+import { createSyncHttpServer } from './httpServer';
+import { loadSnapshot, saveSnapshot } from './persistence';
+
+const port = Number(process.env.SYNC_PORT ?? process.env.PORT ?? 3001);
+/** The tournament state survives restarts in this file */
+const dataFile = process.env.SYNC_DATA_FILE ?? 'sync-state.json';
+/** Devices pair with this secret (VITE_SYNC_TOKEN); a random one is generated if none is set */
+const token = process.env.SYNC_TOKEN || randomBytes(16).toString('hex');
+/** Origins of the app allowed in the browser, comma-separated */
+const origins = (process.env.SYNC_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean);
+
+const store = createSyncStore({
+  snapshot: loadSnapshot(dataFile) ?? undefined,
+  onChange: snapshot => saveSnapshot(dataFile, snapshot),
+});
+const server = createSyncHttpServer(store, { token, origins });
+
+server.listen(port, () => {
+  console.log(`Sync-Server läuft auf http://localhost:${port} (Daten: ${dataFile})`);
+  if (!process.env.SYNC_TOKEN) console.log(`Token für VITE_SYNC_TOKEN: ${token}`);
+  if (origins.length === 0) console.log('Keine App-Herkunft freigegeben (SYNC_ORIGINS): Browser werden abgewiesen');
+});
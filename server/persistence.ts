@@ -0,0 +1,29 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import type { SyncSnapshot } from '../src/sync/types';
+import { createStateExport, formatFieldErrors, readTransferDocument } from '../src/utils/transfer';
+
+/**
+ * Reads the snapshot saved by a previous run; null if there is none yet
+ * An unreadable file throws, so the server never starts empty over saved tournaments.
+ */
+export function loadSnapshot(file: string): SyncSnapshot | null {
+  if (!existsSync(file)) return null;
+  const saved = JSON.parse(readFileSync(file, 'utf8')) as Partial<SyncSnapshot>;
+  if (!saved.state) throw new Error(`${file}: Turnierstand fehlt`);
+
+  const result = readTransferDocument(createStateExport(saved.state));
+  if (!result.ok) throw new Error(`${file}: ${formatFieldErrors(result.errors)}`);
+  return {
+    seq: saved.seq ?? 0,
+    state: { tournaments: result.document.tournaments, containers: result.document.containers, currentTournamentId: null },
+    revisions: saved.revisions ?? {},
+    removedIds: saved.removedIds ?? [],
+  };
+}
+
+/** Writes the snapshot to a temporary file first, so a crash never leaves a half-written file */
+export function saveSnapshot(file: string, snapshot: SyncSnapshot): void {
+  const temporary = `${file}.tmp`;
+  writeFileSync(temporary, JSON.stringify(snapshot));
+  renameSync(temporary, file);
+}
@@ -0,0 +1,118 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnection {
+  send(text: string): void;
+  close(): void;
+  onClose(listener: () => void): void;
+}
+
+/** Encodes an unmasked server frame (RFC 6455) */
+export function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  let header: Buffer;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decodes the first complete (masked) client frame of the buffer
+ * Returns null while the frame is incomplete.
+ */
+export function decodeFrame(buffer: Buffer): { opcode: number; payload: Buffer; size: number } | null {
+  if (buffer.length < 2) return null;
+  const opcode = buffer[0] & 0x0f;
+  const masked = (buffer[1] & 0x80) !== 0;
+  let length = buffer[1] & 0x7f;
+  let offset = 2;
+
+  if (length === 126) {
+    if (buffer.length < 4) return null;
+    length = buffer.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (buffer.length < 10) return null;
+    length = Number(buffer.readBigUInt64BE(2));
+    offset = 10;
+  }
+
+  const maskOffset = offset;
+  if (masked) offset += 4;
+  if (buffer.length < offset + length) return null;
+
+  const payload = Buffer.from(buffer.subarray(offset, offset + length));
+  if (masked) {
+    for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+  }
+  return { opcode, payload, size: offset + length };
+}
+
+/**
+ * Completes the WebSocket handshake of an HTTP upgrade request
+ * The sync server only pushes text messages; client frames are answered for ping and close.
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+  const key = request.headers['sec-websocket-key'];
+  if (typeof key !== 'string' || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+
+  const closeListeners: Array<() => void> = [];
+  let buffered = Buffer.alloc(0);
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    let frame = decodeFrame(buffered);
+    while (frame) {
+      buffered = buffered.subarray(frame.size);
+      if (frame.opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)));
+        return;
+      }
+      if (frame.opcode === OPCODE_PING) socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+      frame = decodeFrame(buffered);
+    }
+  });
+  // HTTP server sockets allow half-open connections, so end ours when the client hangs up
+  socket.on('end', () => socket.end());
+  socket.on('close', () => closeListeners.forEach(listener => listener()));
+  socket.on('error', () => socket.destroy());
+
+  return {
+    send: text => {
+      if (socket.writable) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+    },
+    close: () => socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0))),
+    onClose: listener => closeListeners.push(listener),
+  };
+}
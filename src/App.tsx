@@ -5,19 +5,37 @@ import { Home } from './pages/Home';
 import { Configure } from './pages/Configure';
 import { Matches } from './pages/Matches';
 import { Standings } from './pages/Standings';
+import { History } from './pages/History';
+import { Print } from './pages/Print';
+import { Season } from './pages/Season';
+import { Display } from './pages/Display';
+import { Officials } from './pages/Officials';
 
 function App() {
   return (
     <TournamentProvider>
       <BrowserRouter>
-        <Layout>
-          <Routes>
-            <Route path="/" element={<Home />} />
-            <Route path="/configure" element={<Configure />} />
-            <Route path="/matches" element={<Matches />} />
-            <Route path="/standings" element={<Standings />} />
-          </Routes>
-        </Layout>
+        <Routes>
+          {/* Spectator display without the admin navigation */}
+          <Route path="/display" element={<Display />} />
+          <Route
+            path="*"
+            element={
+              <Layout>
+                <Routes>
+                  <Route path="/" element={<Home />} />
+                  <Route path="/configure" element={<Configure />} />
+                  <Route path="/matches" element={<Matches />} />
+                  <Route path="/standings" element={<Standings />} />
+                  <Route path="/history" element={<History />} />
+                  <Route path="/print" element={<Print />} />
+                  <Route path="/season" element={<Season />} />
+                  <Route path="/officials" element={<Officials />} />
+                </Routes>
+              </Layout>
+            }
+          />
+        </Routes>
       </BrowserRouter>
     </TournamentProvider>
   );
@@ -0,0 +1,66 @@
+/**
+ * Scenario Tests: Double Elimination
+ * Winners and losers bracket played through the reducer, including byes and the reset match
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import type { TournamentState } from '../../context/tournamentActions';
+import { calculateDoubleEliminationPlacements } from '../../utils/doubleElimination';
+import { SeededRandom, verifyNoSelfMatches, verifyDependencies } from '../utils/testHelpers';
+
+const initialState: TournamentState = { tournaments: [], containers: [], currentTournamentId: null };
+
+function createDoubleEliminationConfig(teamCount: number, playGrandFinalReset = true) {
+  return {
+    name: `Double Out - ${teamCount} teams`, system: 'double-elimination' as const, numberOfCourts: 3,
+    setsPerMatch: 1 as const, pointsPerSet: 21 as const, tiebreakerOrder: 'head-to-head-first' as const,
+    teams: Array.from({ length: teamCount }, (_, i) => ({ id: '', name: `Team ${i + 1}`, seedPosition: i + 1 })),
+    doubleEliminationConfig: { playGrandFinalReset },
+  };
+}
+
+/** Plays scheduled matches until none are left (the bracket schedules new matches after each result) */
+function simulateUntilDone(state: TournamentState, tournamentId: string, rng: SeededRandom): TournamentState {
+  let currentState = state;
+  for (;;) {
+    const tournament = currentState.tournaments.find(t => t.id === tournamentId)!;
+    const match = tournament.matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId);
+    if (!match) return currentState;
+    const teamAScore = rng.next() > 0.5 ? 21 : rng.nextInt(10, 19);
+    const teamBScore = teamAScore === 21 ? rng.nextInt(10, 19) : 21;
+    currentState = tournamentReducer(currentState, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: match.id, scores: [{ teamA: teamAScore, teamB: teamBScore }] } });
+    currentState = tournamentReducer(currentState, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: match.id } });
+  }
+}
+
+describe('Double Elimination Scenarios', () => {
+  it('generates the bracket when the tournament starts', () => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createDoubleEliminationConfig(8) });
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+
+    const tournament = state.tournaments[0];
+    expect(tournament.doubleEliminationConfig).toEqual({ playGrandFinalReset: true });
+    expect(tournament.matches.filter(m => m.status === 'scheduled')).toHaveLength(4);
+    expect(verifyDependencies(tournament.matches).valid).toBe(true);
+    expect(state.containers[0].phases).toHaveLength(1);
+  });
+
+  it.each([[6, true], [10, true], [13, false], [16, true], [24, false], [32, true]])(
+    'plays %i teams to the end (reset %s)', (teamCount, playGrandFinalReset) => {
+      let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createDoubleEliminationConfig(teamCount, playGrandFinalReset) });
+      const tournamentId = state.tournaments[0].id;
+      state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+      state = simulateUntilDone(state, tournamentId, new SeededRandom(teamCount * 13));
+
+      const tournament = state.tournaments.find(t => t.id === tournamentId)!;
+      expect(tournament.status).toBe('completed');
+      expect(verifyNoSelfMatches(tournament.matches).valid).toBe(true);
+
+      const placements = calculateDoubleEliminationPlacements(tournament.matches);
+      expect(placements).toHaveLength(teamCount);
+      const grandFinal = tournament.matches.find(m => m.knockoutRound === 'grand-final')!;
+      const reset = tournament.matches.find(m => m.knockoutRound === 'grand-final-reset');
+      expect(placements.find(p => p.placement === '1.')?.teamId).toBe(reset?.winnerId ?? grandFinal.winnerId);
+    });
+});
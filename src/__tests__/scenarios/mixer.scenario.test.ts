@@ -0,0 +1,79 @@
+/**
+ * Scenario Tests: Mixer (King of the Court)
+ * Individual players with rotating partners played through the reducer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import type { TournamentState } from '../../context/tournamentActions';
+import { calculatePlayerStandings } from '../../utils/standings';
+import { SeededRandom, verifyNoSelfMatches } from '../utils/testHelpers';
+
+const initialState: TournamentState = { tournaments: [], containers: [], currentTournamentId: null };
+
+function createMixerConfig(playerCount: number, numberOfRounds: number) {
+  return {
+    name: `Mixer - ${playerCount} players`, system: 'mixer' as const, numberOfCourts: 2, numberOfRounds,
+    setsPerMatch: 1 as const, pointsPerSet: 21 as const, tiebreakerOrder: 'head-to-head-first' as const,
+    teams: Array.from({ length: playerCount }, (_, i) => ({ name: `Spieler ${i + 1}`, seedPosition: i + 1 })),
+  };
+}
+
+/** Plays all scheduled matches with random results */
+function simulateUntilDone(state: TournamentState, tournamentId: string, rng: SeededRandom): TournamentState {
+  let currentState = state;
+  for (;;) {
+    const tournament = currentState.tournaments.find(t => t.id === tournamentId)!;
+    const match = tournament.matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId);
+    if (!match) return currentState;
+    const teamAScore = rng.next() > 0.5 ? 21 : rng.nextInt(10, 19);
+    const teamBScore = teamAScore === 21 ? rng.nextInt(10, 19) : 21;
+    currentState = tournamentReducer(currentState, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: match.id, scores: [{ teamA: teamAScore, teamB: teamBScore }] } });
+    currentState = tournamentReducer(currentState, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: match.id } });
+  }
+}
+
+describe('Mixer Scenarios', () => {
+  it('stores the entered list as players and creates pair teams at start', () => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createMixerConfig(8, 3) });
+    const tournamentId = state.tournaments[0].id;
+    expect(state.tournaments[0].players).toHaveLength(8);
+    expect(state.tournaments[0].teams).toHaveLength(0);
+
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+    const tournament = state.tournaments[0];
+    expect(tournament.matches).toHaveLength(6);
+    expect(tournament.teams.every(t => t.playerIds?.length === 2)).toBe(true);
+    expect(tournament.standings).toHaveLength(tournament.teams.length);
+  });
+
+  it.each([[4, 3], [9, 5], [14, 6]])('plays %i players over %i rounds to the end', (playerCount, numberOfRounds) => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createMixerConfig(playerCount, numberOfRounds) });
+    const tournamentId = state.tournaments[0].id;
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+    state = simulateUntilDone(state, tournamentId, new SeededRandom(playerCount));
+
+    const tournament = state.tournaments.find(t => t.id === tournamentId)!;
+    expect(tournament.status).toBe('completed');
+    expect(verifyNoSelfMatches(tournament.matches).valid).toBe(true);
+
+    const standings = calculatePlayerStandings(tournament.players!, tournament.teams, tournament.matches, 1);
+    expect(standings).toHaveLength(playerCount);
+    const totalPlayed = standings.reduce((sum, s) => sum + s.played, 0);
+    expect(totalPlayed).toBe(Math.floor(playerCount / 4) * numberOfRounds * 4);
+    const totalWon = standings.reduce((sum, s) => sum + s.won, 0);
+    expect(totalWon).toBe(totalPlayed / 2);
+  });
+
+  it('discards the pair teams on reset', () => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createMixerConfig(8, 2) });
+    const tournamentId = state.tournaments[0].id;
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+    state = tournamentReducer(state, { type: 'RESET_TOURNAMENT', payload: tournamentId });
+
+    const tournament = state.tournaments[0];
+    expect(tournament.teams).toHaveLength(0);
+    expect(tournament.players).toHaveLength(8);
+    expect(tournament.matches).toHaveLength(0);
+  });
+});
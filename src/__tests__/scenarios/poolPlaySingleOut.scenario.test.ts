@@ -0,0 +1,75 @@
+/**
+ * Scenario Tests: Pool Play Single Out
+ * Pools followed by a single-out bracket, including team dropouts (byes)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import type { TournamentState } from '../../context/tournamentActions';
+import { calculatePoolPlayPlacements } from '../../utils/poolPlay';
+import { SeededRandom, verifyNoSelfMatches, verifyDependencies } from '../utils/testHelpers';
+
+const initialState: TournamentState = { tournaments: [], containers: [], currentTournamentId: null };
+
+function createPoolPlayConfig(teamCount: number, groupCount: number, qualifiersPerGroup: number) {
+  return {
+    name: `Pool Play - ${teamCount} teams`, system: 'pool-play-single-out' as const, numberOfCourts: 4,
+    setsPerMatch: 1 as const, pointsPerSet: 21 as const, tiebreakerOrder: 'head-to-head-first' as const,
+    teams: Array.from({ length: teamCount }, (_, i) => ({ id: '', name: `Team ${i + 1}`, seedPosition: i + 1 })),
+    groupPhaseConfig: { numberOfGroups: groupCount, teamsPerGroup: 4, seeding: 'snake' as const, groups: [] },
+    knockoutSettings: { setsPerMatch: 1 as const, pointsPerSet: 21 as const, playThirdPlaceMatch: true, useReferees: false, qualifiersPerGroup },
+  };
+}
+
+/** Plays scheduled matches until none are left (brackets schedule new matches after each result) */
+function simulateUntilDone(state: TournamentState, tournamentId: string, rng: SeededRandom): TournamentState {
+  let currentState = state;
+  for (;;) {
+    const tournament = currentState.tournaments.find(t => t.id === tournamentId)!;
+    const match = tournament.matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId);
+    if (!match) return currentState;
+    const teamAScore = rng.next() > 0.5 ? 21 : rng.nextInt(10, 19);
+    const teamBScore = teamAScore === 21 ? rng.nextInt(10, 19) : 21;
+    currentState = tournamentReducer(currentState, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: match.id, scores: [{ teamA: teamAScore, teamB: teamBScore }] } });
+    currentState = tournamentReducer(currentState, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: match.id } });
+  }
+}
+
+describe('Pool Play Single Out Scenarios', () => {
+  it('creates the bracket placeholder when the tournament starts', () => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createPoolPlayConfig(16, 4, 2) });
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+
+    const bracket = state.tournaments.find(t => t.system === 'pool-play-knockout');
+    expect(bracket).toBeDefined();
+    expect(bracket!.teams).toHaveLength(0);
+    expect(bracket!.matches.every(m => m.status === 'pending')).toBe(true);
+    expect(state.containers[0].phases).toHaveLength(2);
+  });
+
+  it.each([
+    [16, 4, 2, 8], [15, 4, 2, 8], [12, 3, 2, 6], [11, 3, 2, 6], [14, 4, 3, 12], [20, 5, 1, 5],
+  ])('plays %i teams in %i pools (%i advance) to the end', (teamCount, groupCount, qualifiers, expectedTeams) => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createPoolPlayConfig(teamCount, groupCount, qualifiers) });
+    const poolId = state.tournaments[0].id;
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: poolId });
+    const rng = new SeededRandom(teamCount * 31 + qualifiers);
+    state = simulateUntilDone(state, poolId, rng);
+    expect(state.tournaments.find(t => t.id === poolId)!.status).toBe('completed');
+
+    const bracketId = state.tournaments.find(t => t.system === 'pool-play-knockout')!.id;
+    let bracket = state.tournaments.find(t => t.id === bracketId)!;
+    expect(bracket.teams).toHaveLength(expectedTeams);
+    expect(bracket.eliminatedTeamIds).toHaveLength(teamCount - expectedTeams);
+    expect(verifyDependencies(bracket.matches).valid).toBe(true);
+
+    state = simulateUntilDone(state, bracketId, rng);
+    bracket = state.tournaments.find(t => t.id === bracketId)!;
+    expect(bracket.status).toBe('completed');
+    expect(verifyNoSelfMatches(bracket.matches).valid).toBe(true);
+
+    const placements = calculatePoolPlayPlacements(bracket.matches, bracket.teams, bracket.eliminatedTeamIds ?? []);
+    expect(placements).toHaveLength(teamCount);
+    expect(placements.find(p => p.placement === '1.')?.teamId).toBe(bracket.matches.find(m => m.knockoutRound === 'final')?.winnerId);
+  });
+});
@@ -76,7 +76,12 @@ describe('Team Dropout Scenarios - Swiss System', () => {
       const tournament = state.tournaments[0];
       expect(tournament.status).toBe('in-progress');
       expect(tournament.currentRound).toBe(1);
-      expect(tournament.matches).toHaveLength(Math.floor(teamCount / 2));
+      expect(tournament.matches.filter(m => m.teamBId)).toHaveLength(Math.floor(teamCount / 2));
+      // The remaining team gets a recorded bye
+      const byes = tournament.matches.filter(m => !m.teamBId);
+      expect(byes).toHaveLength(1);
+      expect(byes[0].winnerId).toBe(byes[0].teamAId);
+      expect(tournament.standings.find(s => s.teamId === byes[0].teamAId)?.won).toBe(1);
     });
 
   it('completes full swiss tournament with 7 teams', () => {
@@ -356,3 +356,22 @@ export function verifyRoundMatchDistribution(matches: Match[], numberOfCourts: n
 
   return { valid: true, warnings };
 }
+
+/** Storage kept in memory; `full` makes every write fail like a full browser storage, `maxLength` longer ones */
+export function createMemoryStorage() {
+  const items = new Map<string, string>();
+  const storage = {
+    full: false,
+    maxLength: Infinity,
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key: string) => items.get(key) ?? null,
+    key: (index: number) => [...items.keys()][index] ?? null,
+    removeItem: (key: string) => void items.delete(key),
+    setItem: (key: string, value: string) => {
+      if (storage.full || value.length > storage.maxLength) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+  };
+  return storage;
+}
@@ -0,0 +1,56 @@
+import { Link } from 'react-router-dom';
+import { Archive, ArchiveRestore, ChartColumn } from 'lucide-react';
+import { useTournament } from '../context/TournamentContext';
+import { getEventDate } from '../utils/season';
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('de-DE');
+
+/** Archived tournaments on the overview; hidden while there are none */
+export function ArchiveList() {
+  const { state, dispatch } = useTournament();
+  const archived = state.containers
+    .filter(c => c.archivedAt)
+    .sort((a, b) => getEventDate(b).localeCompare(getEventDate(a)));
+
+  if (archived.length === 0) return null;
+
+  const handleOpen = (tournamentId: string | undefined) => {
+    if (tournamentId) dispatch({ type: 'SET_CURRENT_TOURNAMENT', payload: tournamentId });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="flex items-center gap-2 text-lg font-semibold text-gray-800">
+          <Archive className="w-5 h-5" /> Archiv
+        </h3>
+        <Link
+          to="/season"
+          className="flex items-center gap-1 px-4 py-2 bg-sky-600 text-white rounded-lg text-sm font-medium hover:bg-sky-700 transition-colors"
+        >
+          <ChartColumn className="w-4 h-4" /> Saisonstatistik
+        </Link>
+      </div>
+      <ul className="bg-white rounded-lg shadow-sm divide-y divide-gray-100">
+        {archived.map(container => (
+          <li key={container.id} className="flex items-center gap-3 p-3 text-sm">
+            <span className="w-24 shrink-0 text-gray-500">{formatDate(getEventDate(container))}</span>
+            <button
+              onClick={() => handleOpen(container.phases.at(-1)?.tournamentId)}
+              className="flex-1 min-w-0 truncate text-left text-gray-800 hover:text-sky-700"
+            >
+              {container.name}
+            </button>
+            <button
+              onClick={() => dispatch({ type: 'UNARCHIVE_CONTAINER', payload: container.id })}
+              title="Aus dem Archiv holen"
+              className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              <ArchiveRestore className="w-4 h-4" /> Zurückholen
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { CourtAvailability, SchedulingSettings, TimeWindow } from '../types/tournament';
+
+interface AvailabilitySettingsProps {
+  scheduling: SchedulingSettings;
+  onSchedulingChange: (scheduling: SchedulingSettings) => void;
+  numberOfCourts?: number;
+}
+
+const DEFAULT_BREAK: TimeWindow = { start: '12:30', end: '13:15' };
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+/**
+ * Global breaks and opening hours per court; the scheduler and the duration
+ * estimate place no match into a break or outside its court's hours
+ */
+export function AvailabilitySettings({ scheduling, onSchedulingChange, numberOfCourts }: AvailabilitySettingsProps) {
+  const breaks = scheduling.breaks ?? [];
+  const courts = scheduling.courtAvailability ?? [];
+
+  const updateBreaks = (next: TimeWindow[]) => onSchedulingChange({ ...scheduling, breaks: next });
+
+  const updateCourt = (courtNumber: number, field: 'from' | 'until', value: string) => {
+    const current = courts.find(c => c.courtNumber === courtNumber) ?? { courtNumber };
+    const updated: CourtAvailability = { ...current, [field]: value || undefined };
+    const others = courts.filter(c => c.courtNumber !== courtNumber);
+    onSchedulingChange({
+      ...scheduling,
+      courtAvailability: updated.from || updated.until
+        ? [...others, updated].sort((a, b) => a.courtNumber - b.courtNumber)
+        : others,
+    });
+  };
+
+  return (
+    <div className="mt-4 space-y-4">
+      <div>
+        <p className="text-sm font-medium text-gray-600 mb-1">Pausen (keine Spiele)</p>
+        {breaks.map((pause, index) => (
+          <div key={index} className="flex items-center gap-2 mb-2">
+            <input
+              type="time"
+              value={pause.start}
+              onChange={e => updateBreaks(breaks.map((b, i) => (i === index ? { ...b, start: e.target.value } : b)))}
+              className={inputClass}
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="time"
+              value={pause.end}
+              onChange={e => updateBreaks(breaks.map((b, i) => (i === index ? { ...b, end: e.target.value } : b)))}
+              className={inputClass}
+            />
+            <button
+              onClick={() => updateBreaks(breaks.filter((_, i) => i !== index))}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Pause entfernen"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => updateBreaks([...breaks, DEFAULT_BREAK])}
+          className="inline-flex items-center gap-1 text-sm text-sky-600 hover:underline"
+        >
+          <Plus className="w-4 h-4" /> Pause hinzufügen
+        </button>
+      </div>
+
+      {numberOfCourts !== undefined && numberOfCourts > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-600 mb-1">Verfügbarkeit der Felder</p>
+          <p className="text-xs text-gray-500 mb-2">Leer lassen, wenn das Feld den ganzen Tag verfügbar ist</p>
+          {Array.from({ length: numberOfCourts }, (_, i) => i + 1).map(courtNumber => {
+            const court = courts.find(c => c.courtNumber === courtNumber);
+            return (
+              <div key={courtNumber} className="flex items-center gap-2 mb-2 text-sm">
+                <span className="w-14 text-gray-600">Feld {courtNumber}</span>
+                <span className="text-gray-500">ab</span>
+                <input
+                  type="time"
+                  value={court?.from ?? ''}
+                  onChange={e => updateCourt(courtNumber, 'from', e.target.value)}
+                  className={inputClass}
+                />
+                <span className="text-gray-500">bis</span>
+                <input
+                  type="time"
+                  value={court?.until ?? ''}
+                  onChange={e => updateCourt(courtNumber, 'until', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
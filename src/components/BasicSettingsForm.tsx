@@ -252,6 +252,7 @@ export function BasicSettingsForm({
       <SchedulingSection
         scheduling={scheduling}
         onSchedulingChange={onSchedulingChange}
+        numberOfCourts={numberOfCourts}
         estimation={estimation}
       />
     </div>
@@ -1,4 +1,5 @@
 import type { Match, Team } from '../types/tournament';
+import { RESULT_TYPE_LABELS } from '../utils/matchResults';
 
 interface BracketMatchProps {
   match: Match;
@@ -57,9 +58,13 @@ export function BracketMatch({ match, teams, allMatches, onClick }: BracketMatch
   );
 
   const getScoreDisplay = () => {
-    if (match.scores.length === 0) return null;
-    return match.scores.map((s) => `${s.teamA}:${s.teamB}`).join(', ');
+    const score = match.scores.map((s) => `${s.teamA}:${s.teamB}`).join(', ');
+    if (match.resultType && match.resultType !== 'played') {
+      return [RESULT_TYPE_LABELS[match.resultType], score].filter(Boolean).join(' ');
+    }
+    return score || null;
   };
+  const scoreDisplay = getScoreDisplay();
 
   const isTeamWinner = (teamId: string | null) => {
     return match.winnerId && match.winnerId === teamId;
@@ -117,10 +122,12 @@ export function BracketMatch({ match, teams, allMatches, onClick }: BracketMatch
         )}
       </div>
 
-      {/* Score display */}
-      {match.scores.length > 0 && (
-        <div className="px-3 py-1 bg-gray-50 text-xs text-gray-500 text-center">
-          {getScoreDisplay()}
+      {/* Score display, or how a result without a regular end came about */}
+      {scoreDisplay && (
+        <div className={`px-3 py-1 bg-gray-50 text-xs text-center ${
+          match.resultType && match.resultType !== 'played' ? 'text-red-700 font-medium' : 'text-gray-500'
+        }`}>
+          {scoreDisplay}
         </div>
       )}
     </div>
@@ -4,6 +4,7 @@ import { getPlacementRoundLabel } from '../utils/placementTree/index';
 import { getShortMainRoundLabel } from '../utils/shortMainRound';
 import { BracketMatch } from './BracketMatch';
 import { SSVBBracketView } from './SSVBBracketView';
+import { DoubleEliminationBracketView } from './DoubleEliminationBracketView';
 
 // Generic round label getter that works for all bracket types
 function getRoundLabel(round: KnockoutRoundType | undefined, match?: Match): string {
@@ -47,13 +48,18 @@ export function BracketView({ matches, teams, onMatchClick }: BracketViewProps)
   const isSSVBKnockout = matches.some(m =>
     m.knockoutRound === 'intermediate' ||
     m.knockoutRound === 'quarterfinal'
-  );
+  ) && !matches.some(m => m.knockoutRound === 'round-of-16' || m.knockoutRound === 'round-of-32' || m.knockoutRound === 'round-of-64');
 
   // For SSVB knockout, use the original layout
   if (isSSVBKnockout) {
     return <SSVBBracketView matches={matches} teams={teams} onMatchClick={onMatchClick} />;
   }
 
+  // Double elimination: separate winners bracket, losers bracket and final
+  if (matches.some(m => m.knockoutRound === 'winners-bracket')) {
+    return <DoubleEliminationBracketView matches={matches} teams={teams} onMatchClick={onMatchClick} />;
+  }
+
   // Generic bracket view for placement tree and short main round formats
   return (
     <div className="overflow-x-auto pb-4">
@@ -22,7 +22,7 @@ export function ConfigureBasicSettings({
 
   const getSystemDescription = () => {
     if (system == "swiss"){
-      return "Teams mit ähnlicher Punktzahl spielen gegeneinander."
+      return "Teams mit ähnlicher Punktzahl spielen gegeneinander, ohne Wiederholungsspiele. Bei ungerader Teamzahl erhält ein Team ein Freilos."
     }
     if (system == "group-phase"){
       return "Gruppenphase, dann K.O.-Phase mit Zwischenrunde. Gruppenletzte scheiden aus."
@@ -30,6 +30,21 @@ export function ConfigureBasicSettings({
     if (system == "beachl-all-placements"){
       return "Alle Plätze 1–N werden in einem vollständigen Platzierungsbaum ausgespielt."
     }
+    if (system == "pool-play-single-out"){
+      return "Gruppenphase, danach K.O.-Runde aus den besten Teams jeder Gruppe. Top-Seeds erhalten Freilose."
+    }
+    if (system == "double-elimination"){
+      return "Gewinner- und Verliererrunde: Ausgeschieden ist erst, wer zweimal verliert. Top-Seeds erhalten Freilose."
+    }
+    if (system == "knockout"){
+      return "Direktes K.O. aus der Setzliste: Wer verliert, scheidet aus. Top-Seeds erhalten Freilose."
+    }
+    if (system == "placement-tree"){
+      return "Platzierungsbaum ohne Gruppenphase: Alle Plätze 1–N werden ausgespielt. Top-Seeds erhalten Freilose."
+    }
+    if (system == "mixer"){
+      return "Einzelspieler mit wechselnden Partnern pro Runde. Wiederholte Partner und Gegner werden vermieden, Wertung pro Spieler."
+    }
     if (system == "beachl-short-main"){
       return "Verkürzte Hauptrunde: Top-Seeds haben Byes, separate Teilbäume für Platzierungsbereiche."
     }
@@ -66,7 +81,11 @@ export function ConfigureBasicSettings({
           <option value="beachl-all-placements">BeachL Alle Platzierungen (Gruppenphase + Baum)</option>
           <option value="beachl-short-main">BeachL Kurze Hauptrunde (Gruppenphase + Baum)</option>
           <option value="group-phase">SSVB (Gruppenphase + Single Out)</option>
-          <option value="group-phase" disabled={true}>SSVB (Double Out) (to be done)</option>
+          <option value="pool-play-single-out">Pool Play (Gruppenphase + Single Out)</option>
+          <option value="knockout">K.O.-System (Single Out aus der Setzliste)</option>
+          <option value="placement-tree">Platzierungsbaum (alle Plätze, ohne Gruppen)</option>
+          <option value="double-elimination">Double Out (Doppel-K.O.)</option>
+          <option value="mixer">Mixer / King of the Court (wechselnde Partner)</option>
 
         </select>
 
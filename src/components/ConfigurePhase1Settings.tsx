@@ -1,5 +1,7 @@
-import type { TournamentSystem, TiebreakerOrder, Team, Group } from '../types/tournament';
+import type { TournamentSystem, TiebreakerCriterion, Team, Group, ResultScoring } from '../types/tournament';
 import { GroupEditor } from './GroupEditor';
+import { TiebreakerChainEditor } from './TiebreakerChainEditor';
+import { ResultScoringSettings } from './ResultScoringSettings';
 
 interface ConfigurePhase1SettingsProps {
   system: TournamentSystem;
@@ -13,8 +15,11 @@ interface ConfigurePhase1SettingsProps {
   onPointsPerSetChange: (value: number) => void;
   pointsPerThirdSet: number;
   onPointsPerThirdSetChange: (value: number) => void;
-  tiebreakerOrder: TiebreakerOrder;
-  onTiebreakerOrderChange: (value: TiebreakerOrder) => void;
+  tiebreakers: TiebreakerCriterion[];
+  isDefaultTiebreakers: boolean;
+  onTiebreakersChange: (value: TiebreakerCriterion[] | null) => void;
+  resultScoring: ResultScoring;
+  onResultScoringChange: (value: ResultScoring) => void;
   teamsPerGroup: 3 | 4 | 5;
   onTeamsPerGroupChange: (value: 3 | 4 | 5) => void;
   groupSeeding: 'snake' | 'random' | 'manual';
@@ -25,6 +30,10 @@ interface ConfigurePhase1SettingsProps {
   teams: Team[];
   byesNeeded: number;
   groupConfigError?: string;
+  playGrandFinalReset: boolean;
+  onPlayGrandFinalResetChange: (value: boolean) => void;
+  playThirdPlaceMatch: boolean;
+  onPlayThirdPlaceMatchChange: (value: boolean) => void;
 }
 
 export function ConfigurePhase1Settings({
@@ -39,8 +48,11 @@ export function ConfigurePhase1Settings({
   onPointsPerSetChange,
   pointsPerThirdSet,
   onPointsPerThirdSetChange,
-  tiebreakerOrder,
-  onTiebreakerOrderChange,
+  tiebreakers,
+  isDefaultTiebreakers,
+  onTiebreakersChange,
+  resultScoring,
+  onResultScoringChange,
   teamsPerGroup,
   onTeamsPerGroupChange,
   groupSeeding,
@@ -51,15 +63,26 @@ export function ConfigurePhase1Settings({
   teams,
   byesNeeded,
   groupConfigError,
+  playGrandFinalReset,
+  onPlayGrandFinalResetChange,
+  playThirdPlaceMatch,
+  onPlayThirdPlaceMatchChange,
 }: ConfigurePhase1SettingsProps) {
+  const isSingleBracket = system === 'double-elimination' || system === 'knockout' || system === 'placement-tree';
   return (
     <div className="bg-white rounded-lg p-4 shadow-sm space-y-4">
       <h3 className="font-semibold text-gray-700">
-        {isGroupBasedSystem ? 'Phase 1: Gruppenphase' : system === 'swiss' ? 'Phase 1: Swiss Runden' : 'Phase 1: Vorrunde'}
+        {isGroupBasedSystem ? 'Phase 1: Gruppenphase'
+          : system === 'swiss' ? 'Phase 1: Swiss Runden'
+          : system === 'double-elimination' ? 'Doppel-K.O.'
+          : system === 'knockout' ? 'K.O.-Runde'
+          : system === 'placement-tree' ? 'Platzierungsbaum'
+          : system === 'mixer' ? 'Mixer-Runden'
+          : 'Phase 1: Vorrunde'}
       </h3>
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-        {system === 'swiss' && (
+        {(system === 'swiss' || system === 'mixer') && (
           <div>
             <label className="block text-sm font-medium text-gray-600 mb-1">
               Anzahl Runden
@@ -120,22 +143,40 @@ export function ConfigurePhase1Settings({
             </select>
           </div>
         )}
-
-        <div>
-          <label className="block text-sm font-medium text-gray-600 mb-1">
-            Tiebreaker
-          </label>
-          <select
-            value={tiebreakerOrder}
-            onChange={e => onTiebreakerOrderChange(e.target.value as TiebreakerOrder)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-          >
-            <option value="head-to-head-first">Direkter Vergleich zuerst</option>
-            <option value="point-diff-first">Punktedifferenz zuerst</option>
-          </select>
-        </div>
       </div>
 
+      {!isSingleBracket && system !== 'mixer' && (
+        <TiebreakerChainEditor tiebreakers={tiebreakers} isDefault={isDefaultTiebreakers} onChange={onTiebreakersChange} />
+      )}
+
+      {!isSingleBracket && <ResultScoringSettings resultScoring={resultScoring} onChange={onResultScoringChange} />}
+
+      {system === 'double-elimination' && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={playGrandFinalReset}
+            onChange={e => onPlayGrandFinalResetChange(e.target.checked)}
+            className="w-4 h-4 text-sky-600 rounded focus:ring-sky-500"
+          />
+          <span className="text-sm text-gray-700">
+            Entscheidungsspiel, falls der Sieger der Verliererrunde das Finale gewinnt
+          </span>
+        </label>
+      )}
+
+      {system === 'knockout' && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={playThirdPlaceMatch}
+            onChange={e => onPlayThirdPlaceMatchChange(e.target.checked)}
+            className="w-4 h-4 text-sky-600 rounded focus:ring-sky-500"
+          />
+          <span className="text-sm text-gray-700">Spiel um Platz 3</span>
+        </label>
+      )}
+
       {setsPerMatch === 2 && (
         <p className="text-xs text-gray-500">
           Bei 2 Sätzen werden gewonnene Sätze statt Matches in der Tabelle gezählt.
@@ -28,6 +28,7 @@ export function ConfigurePhase2Settings({
             {system === 'group-phase' && 'Phase 2: K.O.-Phase'}
             {system === 'beachl-all-placements' && 'Phase 2: Platzierungsbaum'}
             {system === 'beachl-short-main' && 'Phase 2: Hauptrunde'}
+            {system === 'pool-play-single-out' && 'Phase 2: K.O.-Runde'}
           </h3>
           <div className="bg-sky-50 border border-sky-200 rounded-lg p-3 mb-4">
             <p className="text-sm text-sky-800">
@@ -43,6 +44,9 @@ export function ConfigurePhase2Settings({
               {system === 'beachl-all-placements' && (
                 <><strong>Alle Platzierungen:</strong> Vollständiger Platzierungsbaum – alle Plätze 1 bis N werden in K.O.-Spielen ausgespielt.</>
               )}
+              {system === 'pool-play-single-out' && (
+                <><strong>Pool Play:</strong> Die besten {knockoutSettings.qualifiersPerGroup ?? 2} Teams jeder Gruppe spielen im K.O.-System. Fehlen Teams zur vollen Baumgröße, erhalten die Top-Seeds ein Freilos.</>
+              )}
               {system === 'beachl-short-main' && (
                 <><strong>Verkürzte Hauptrunde:</strong> Gruppensieger haben ein Freilos, 2./3. spielen Quali, 4. spielen um Plätze 13-16.</>
               )}
@@ -110,6 +114,26 @@ export function ConfigurePhase2Settings({
               </select>
             </div>
 
+            {system === 'pool-play-single-out' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-600 mb-1">
+                  Weiter pro Gruppe
+                </label>
+                <select
+                  value={knockoutSettings.qualifiersPerGroup ?? 2}
+                  onChange={e => onKnockoutSettingsChange({
+                    ...knockoutSettings,
+                    qualifiersPerGroup: parseInt(e.target.value),
+                  })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+                >
+                  {Array.from({ length: teamsPerGroup - 1 }, (_, i) => i + 1).map(count => (
+                    <option key={count} value={count}>{count} Team{count !== 1 ? 's' : ''}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {knockoutSettings.setsPerMatch === 2 && (
               <div>
                 <label className="block text-sm font-medium text-gray-600 mb-1">
@@ -132,8 +156,8 @@ export function ConfigurePhase2Settings({
 
           {isGroupBasedSystem && (
             <div className="flex flex-wrap gap-4">
-              {/* Only show 3rd place checkbox for SSVB (other formats play all placements anyway) */}
-              {system === 'group-phase' && (
+              {/* Only show 3rd place checkbox for single-out formats (other formats play all placements anyway) */}
+              {(system === 'group-phase' || system === 'pool-play-single-out') && (
                 <label className="flex items-center gap-2 cursor-pointer">
                   <input
                     type="checkbox"
@@ -1,20 +1,17 @@
-import type { SchedulingSettings } from '../types/tournament';
+import type { EventCalendar, SchedulingSettings } from '../types/tournament';
+import type { TimeEstimation } from '../utils/timeEstimation';
 import { SchedulingSection } from './SchedulingSection';
-
-interface TimeEstimation {
-  phase1Name: string;
-  phase1Matches: number;
-  phase1Minutes: number;
-  phase2Name: string | null;
-  phase2Matches: number;
-  phase2Minutes: number;
-  totalMinutes: number;
-  hasPhase2: boolean;
-}
+import { EventCalendarSettings } from './EventCalendarSettings';
+import { DayEstimations } from './DayEstimations';
 
 interface ConfigureTimeEstimationProps {
   scheduling: SchedulingSettings;
   onSchedulingChange: (settings: SchedulingSettings) => void;
+  calendar?: EventCalendar;
+  onCalendarChange: (calendar: EventCalendar | undefined) => void;
+  /** Name of the second phase, null if the system has none */
+  phase2Name: string | null;
+  numberOfCourts: number;
   timeEstimation: TimeEstimation | null;
   getEndTime: () => string | null;
   formatDuration: (minutes: number) => string;
@@ -23,6 +20,10 @@ interface ConfigureTimeEstimationProps {
 export function ConfigureTimeEstimation({
   scheduling,
   onSchedulingChange,
+  calendar,
+  onCalendarChange,
+  phase2Name,
+  numberOfCourts,
   timeEstimation,
   getEndTime,
   formatDuration,
@@ -34,7 +35,16 @@ export function ConfigureTimeEstimation({
       <SchedulingSection
         scheduling={scheduling}
         onSchedulingChange={onSchedulingChange}
+        numberOfCourts={numberOfCourts}
         estimation={null}
+        showDayTimes={!calendar}
+      />
+
+      <EventCalendarSettings
+        calendar={calendar}
+        onCalendarChange={onCalendarChange}
+        scheduling={scheduling}
+        phase2Name={phase2Name}
       />
 
       {/* Combined Time Estimation */}
@@ -65,7 +75,9 @@ export function ConfigureTimeEstimation({
             )}
           </div>
 
-          {scheduling.startTime && (
+          {timeEstimation.days ? (
+            <DayEstimations days={timeEstimation.days} />
+          ) : scheduling.startTime && (
             <div className="border-t border-amber-200 pt-3 flex justify-between">
               <span className="text-amber-700">
                 Start: {scheduling.startTime} Uhr
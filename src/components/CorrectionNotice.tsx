@@ -0,0 +1,40 @@
+import type { ResultCorrectionPlan } from '../context/resultCorrection';
+
+interface CorrectionNoticeProps {
+  plan: ResultCorrectionPlan;
+}
+
+/**
+ * Shows which matches a result correction would reset or re-seed
+ * and why it is refused once one of them has been played
+ */
+export function CorrectionNotice({ plan }: CorrectionNoticeProps) {
+  if (plan.affectedMatches.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 text-center mb-2">
+        {plan.winnerChanged ? 'Der Sieger ändert sich, es sind keine weiteren Spiele betroffen.' : 'Der Sieger bleibt gleich.'}
+      </p>
+    );
+  }
+
+  const blocked = plan.blockingMatches.length > 0;
+  return (
+    <div className={`rounded-lg p-3 mb-2 text-sm border ${blocked ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+      <p className="font-medium mb-1">
+        {blocked
+          ? 'Korrektur nicht möglich: Abhängige Spiele wurden bereits gespielt.'
+          : 'Folgende Spiele werden zurückgesetzt und neu besetzt:'}
+      </p>
+      <ul className="list-disc list-inside space-y-0.5">
+        {plan.affectedMatches.map(m => (
+          <li key={m.matchId} className={m.played ? 'font-semibold' : undefined}>
+            {m.description}{m.played && ' (bereits gespielt)'}
+          </li>
+        ))}
+      </ul>
+      {blocked && (
+        <p className="text-xs mt-2">Zuerst die Ergebnisse der gespielten Folgespiele über den Verlauf rückgängig machen.</p>
+      )}
+    </div>
+  );
+}
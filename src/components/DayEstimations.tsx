@@ -0,0 +1,38 @@
+import { AlertTriangle } from 'lucide-react';
+import type { DayEstimation } from '../utils/timeEstimation';
+import { formatDayLabel } from '../utils/scheduling';
+
+interface DayEstimationsProps {
+  days: DayEstimation[];
+}
+
+/** Estimated end of every event day with a warning where the day does not suffice */
+export function DayEstimations({ days }: DayEstimationsProps) {
+  return (
+    <div className="border-t border-amber-200 pt-3 space-y-2">
+      {days.map((day, index) => {
+        const warnings = [
+          ...day.carriedOver.map(phase => `${phase} wird am Vortag nicht fertig`),
+          ...(day.overrunMinutes > 0 ? [`${day.overrunMinutes} Min. nach dem geplanten Ende (${day.endTime} Uhr)`] : []),
+        ];
+        return (
+          <div key={day.date} className="text-sm">
+            <div className="flex justify-between">
+              <span className="text-amber-700">
+                Tag {index + 1} ({formatDayLabel(day.date)}){day.phases.length > 0 && `: ${day.phases.join(', ')}`}
+              </span>
+              <span className="font-medium text-amber-800">
+                {day.estimatedEnd ? `Ende: ca. ${day.estimatedEnd} Uhr` : 'keine Spiele'}
+              </span>
+            </div>
+            {warnings.map(warning => (
+              <p key={warning} className="flex items-center gap-1 text-red-700">
+                <AlertTriangle className="w-4 h-4 shrink-0" /> {warning}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
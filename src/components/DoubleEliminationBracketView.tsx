@@ -0,0 +1,87 @@
+import type { Match, Team } from '../types/tournament';
+import { getBracketRound, getDoubleEliminationRoundLabel } from '../utils/doubleElimination';
+import { BracketMatch } from './BracketMatch';
+
+interface DoubleEliminationBracketViewProps {
+  matches: Match[];
+  teams: Team[];
+  onMatchClick?: (match: Match) => void;
+}
+
+/**
+ * Groups the matches of one bracket into columns by bracket round
+ */
+function getColumns(matches: Match[]): Match[][] {
+  const columns = new Map<number, Match[]>();
+  matches.forEach(match => {
+    const round = getBracketRound(match);
+    columns.set(round, [...(columns.get(round) ?? []), match]);
+  });
+  return Array.from(columns.keys())
+    .sort((a, b) => a - b)
+    .map(round => columns.get(round)!.sort((a, b) => (a.bracketPosition ?? 0) - (b.bracketPosition ?? 0)));
+}
+
+export function DoubleEliminationBracketView({ matches, teams, onMatchClick }: DoubleEliminationBracketViewProps) {
+  const brackets = [
+    { title: 'Gewinnerrunde', titleClass: 'text-sky-700', columns: getColumns(matches.filter(m => m.knockoutRound === 'winners-bracket')) },
+    { title: 'Verliererrunde', titleClass: 'text-amber-700', columns: getColumns(matches.filter(m => m.knockoutRound === 'losers-bracket')) },
+    {
+      title: 'Finale',
+      titleClass: 'text-green-700',
+      columns: [matches.filter(m => m.knockoutRound === 'grand-final' || m.knockoutRound === 'grand-final-reset')],
+    },
+  ];
+
+  const renderMatch = (match: Match) => (
+    <BracketMatch
+      key={match.id}
+      match={match}
+      teams={teams}
+      allMatches={matches}
+      onClick={onMatchClick ? () => onMatchClick(match) : undefined}
+    />
+  );
+
+  return (
+    <div className="space-y-8">
+      {brackets.map(bracket => (
+        <div key={bracket.title} className="space-y-3">
+          <h3 className={`text-sm font-semibold uppercase tracking-wide ${bracket.titleClass}`}>
+            {bracket.title}
+          </h3>
+
+          {/* Mobile: Vertical layout */}
+          <div className="md:hidden space-y-6">
+            {bracket.columns.map(column => (
+              <div key={column[0].id}>
+                <h4 className="text-sm font-semibold text-gray-600 mb-2">
+                  {getDoubleEliminationRoundLabel(column[0], matches)}
+                </h4>
+                <div className="grid grid-cols-2 gap-2">
+                  {column.map(renderMatch)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Desktop: Horizontal bracket layout */}
+          <div className="hidden md:block overflow-x-auto pb-4">
+            <div className="flex gap-8 items-stretch min-w-max">
+              {bracket.columns.map(column => (
+                <div key={column[0].id} className="flex flex-col gap-4">
+                  <h4 className="text-sm font-semibold text-gray-600 text-center">
+                    {getDoubleEliminationRoundLabel(column[0], matches)}
+                  </h4>
+                  <div className="flex flex-col gap-4 justify-around flex-1">
+                    {column.map(renderMatch)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
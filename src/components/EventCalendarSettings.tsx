@@ -0,0 +1,99 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { EventCalendar, EventDay, SchedulingSettings } from '../types/tournament';
+import { addDays, formatDayLabel, getLocalDate } from '../utils/scheduling';
+
+interface EventCalendarSettingsProps {
+  calendar?: EventCalendar;
+  onCalendarChange: (calendar: EventCalendar | undefined) => void;
+  scheduling: SchedulingSettings;
+  /** Name of the second phase (K.O.-Phase, Finale), null if there is none */
+  phase2Name: string | null;
+}
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+/**
+ * Days of a multi-day event with their own playing hours; the second phase can
+ * be moved to a later day. Matches left over at the end of a day continue the
+ * next morning.
+ */
+export function EventCalendarSettings({ calendar, onCalendarChange, scheduling, phase2Name }: EventCalendarSettingsProps) {
+  const days = calendar?.days ?? [];
+  const phase2Day = calendar?.phaseDays?.[1];
+
+  const enable = (enabled: boolean) => {
+    if (!enabled) {
+      onCalendarChange(undefined);
+      return;
+    }
+    const first = getLocalDate(new Date().toISOString());
+    const day = (date: string): EventDay => ({ date, startTime: scheduling.startTime, endTime: scheduling.endTime });
+    onCalendarChange({ days: [day(first), day(addDays(first, 1))], phaseDays: phase2Name ? [0, 1] : undefined });
+  };
+
+  const updateDay = (index: number, field: keyof EventDay, value: string) => {
+    if (!calendar || !value) return;
+    onCalendarChange({ ...calendar, days: days.map((d, i) => (i === index ? { ...d, [field]: value } : d)) });
+  };
+
+  const addDay = () => {
+    if (!calendar) return;
+    const last = days[days.length - 1];
+    onCalendarChange({ ...calendar, days: [...days, { ...last, date: addDays(last.date, 1) }] });
+  };
+
+  const removeDay = (index: number) => {
+    if (!calendar) return;
+    // A second phase on the removed day follows the first one again
+    const day = phase2Day === undefined || phase2Day === index ? undefined : phase2Day > index ? phase2Day - 1 : phase2Day;
+    onCalendarChange({ days: days.filter((_, i) => i !== index), phaseDays: day === undefined ? undefined : [0, day] });
+  };
+
+  const setPhase2Day = (value: string) => {
+    if (!calendar) return;
+    onCalendarChange({ ...calendar, phaseDays: value === '' ? undefined : [0, Number(value)] });
+  };
+
+  return (
+    <div className="border-t pt-4 space-y-3">
+      <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+        <input type="checkbox" checked={!!calendar} onChange={e => enable(e.target.checked)} className="rounded" />
+        Mehrtägiges Turnier
+      </label>
+
+      {calendar && (
+        <>
+          {days.map((day, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="w-14 text-gray-600">Tag {index + 1}</span>
+              <input type="date" value={day.date} onChange={e => updateDay(index, 'date', e.target.value)} className={inputClass} />
+              <input type="time" value={day.startTime} onChange={e => updateDay(index, 'startTime', e.target.value)} className={inputClass} />
+              <span className="text-gray-500">–</span>
+              <input type="time" value={day.endTime} onChange={e => updateDay(index, 'endTime', e.target.value)} className={inputClass} />
+              {days.length > 2 && (
+                <button onClick={() => removeDay(index)} className="p-1 text-gray-400 hover:text-red-600" title="Tag entfernen">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          <button onClick={addDay} className="inline-flex items-center gap-1 text-sm text-sky-600 hover:underline">
+            <Plus className="w-4 h-4" /> Tag hinzufügen
+          </button>
+
+          {phase2Name && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-gray-600">{phase2Name} beginnt</span>
+              <select value={phase2Day ?? ''} onChange={e => setPhase2Day(e.target.value)} className={inputClass}>
+                <option value="">direkt im Anschluss</option>
+                {days.map((day, index) => (
+                  <option key={index} value={index}>am Tag {index + 1} ({formatDayLabel(day.date)})</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
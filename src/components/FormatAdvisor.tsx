@@ -0,0 +1,106 @@
+import { useMemo, useState } from 'react';
+import { Lightbulb } from 'lucide-react';
+import type { EventCalendar, SchedulingSettings } from '../types/tournament';
+import { adviseFormats, type FormatSettings } from '../utils/formatAdvisor';
+import { formatDuration } from '../utils/timeEstimation';
+
+interface FormatAdvisorProps {
+  teamsCount: number;
+  numberOfCourts: number;
+  scheduling: SchedulingSettings;
+  calendar?: EventCalendar;
+  onApply: (settings: FormatSettings) => void;
+}
+
+const VISIBLE_OPTIONS = 8;
+
+/** Ranks all systems and variants for the entered teams, courts and time and applies one to the form */
+export function FormatAdvisor({ teamsCount, numberOfCourts, scheduling, calendar, onApply }: FormatAdvisorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [minMatchesInput, setMinMatchesInput] = useState('3');
+  const [showAll, setShowAll] = useState(false);
+  const minMatchesPerTeam = parseInt(minMatchesInput) || 1;
+
+  const options = useMemo(
+    () => (isOpen ? adviseFormats({ teamsCount, numberOfCourts, scheduling, minMatchesPerTeam, calendar }) : []),
+    [isOpen, teamsCount, numberOfCourts, scheduling, minMatchesPerTeam, calendar]
+  );
+  const visible = showAll ? options : options.slice(0, VISIBLE_OPTIONS);
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-700">Format-Berater</h3>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="inline-flex items-center gap-1 text-sm text-sky-600 hover:underline"
+        >
+          <Lightbulb className="w-4 h-4" />
+          {isOpen ? 'Ausblenden' : 'Passendes Format finden'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>
+              {teamsCount} Teams · {numberOfCourts} {numberOfCourts === 1 ? 'Feld' : 'Felder'}
+              {calendar?.days.length ? ` · ${calendar.days.length} Tage` : ` · ${scheduling.startTime}–${scheduling.endTime} Uhr`}
+              {' · '}mindestens
+            </span>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              value={minMatchesInput}
+              onChange={e => setMinMatchesInput(e.target.value)}
+              className="w-16 px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+            <span>Spiele pro Team</span>
+          </div>
+
+          {options.length === 0 ? (
+            <p className="text-sm text-gray-500">Mindestens 2 Teams erforderlich</p>
+          ) : (
+            <div className="space-y-2">
+              {visible.map((option, index) => (
+                <div
+                  key={option.id}
+                  className={`flex flex-col md:flex-row md:items-center justify-between gap-2 rounded-lg border p-3 text-sm ${
+                    option.fits && option.meetsMinimum ? 'border-green-200 bg-green-50' : 'border-gray-200'
+                  }`}
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium text-gray-800">{index + 1}. {option.label}</p>
+                    <p className="text-gray-600">
+                      {option.minMatchesPerTeam}–{option.avgMatchesPerTeam.toFixed(1)} Spiele pro Team
+                      {' · '}Dauer ca. {formatDuration(option.estimation.totalMinutes)}
+                      {' · '}Wartezeit pro Team ca. {formatDuration(option.idleMinutesPerTeam)}
+                    </p>
+                    <p className={option.fits ? 'text-green-700' : 'text-red-700'}>
+                      {option.fits
+                        ? `Passt (${formatDuration(-option.overrunMinutes)} Puffer)`
+                        : `${formatDuration(option.overrunMinutes)} zu lang`}
+                      {!option.meetsMinimum && <span className="text-amber-700"> · weniger als {minMatchesPerTeam} Spiele für manche Teams</span>}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onApply(option.settings)}
+                    className="shrink-0 px-3 py-1.5 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+                  >
+                    Übernehmen
+                  </button>
+                </div>
+              ))}
+              {options.length > VISIBLE_OPTIONS && (
+                <button onClick={() => setShowAll(!showAll)} className="text-sm text-sky-600 hover:underline">
+                  {showAll ? 'Weniger anzeigen' : `Alle ${options.length} Varianten anzeigen`}
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import type { ReactNode } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useTournament } from '../context/TournamentContext';
 import { PhaseTabs } from './PhaseTabs';
+import { SyncStatusBanner } from './SyncStatusBanner';
+import { usesOfficials } from '../utils/officials';
 
 interface LayoutProps {
   children: ReactNode;
@@ -9,7 +11,7 @@ interface LayoutProps {
 
 export function Layout({ children }: LayoutProps) {
   const location = useLocation();
-  const { currentTournament } = useTournament();
+  const { currentTournament, serverSync } = useTournament();
 
   const isActive = (path: string) => location.pathname === path;
 
@@ -22,11 +24,15 @@ export function Layout({ children }: LayoutProps) {
           { path: '/standings', label: 'Tabelle', icon: '📊' },
         ]
       : []),
+    ...(currentTournament && usesOfficials(currentTournament)
+      ? [{ path: '/officials', label: 'Schiris', icon: '🧑‍⚖️' }]
+      : []),
+    { path: '/history', label: 'Verlauf', icon: '🕘' },
   ];
 
   return (
-    <div className="min-h-screen bg-amber-50 flex flex-col">
-      <header className="bg-gradient-to-r from-sky-500 to-sky-600 text-white shadow-lg">
+    <div className="min-h-screen bg-amber-50 flex flex-col print:bg-white">
+      <header className="bg-gradient-to-r from-sky-500 to-sky-600 text-white shadow-lg print:hidden">
         <div className="max-w-4xl lg:max-w-5xl xl:max-w-6xl mx-auto px-4 lg:px-6 py-2">
           <div className="flex items-center">
             {/* Logo container - sun logo with text overlapping */}
@@ -51,13 +57,17 @@ export function Layout({ children }: LayoutProps) {
         </div>
       </header>
 
-      <PhaseTabs />
+      {serverSync && <SyncStatusBanner status={serverSync} />}
+
+      <div className="print:hidden">
+        <PhaseTabs />
+      </div>
 
-      <main className="flex-1 max-w-4xl lg:max-w-5xl xl:max-w-6xl w-full mx-auto px-4 lg:px-6 py-6">
+      <main className="flex-1 max-w-4xl lg:max-w-5xl xl:max-w-6xl w-full mx-auto px-4 lg:px-6 py-6 print:max-w-none print:p-0">
         {children}
       </main>
 
-      <nav className="bg-white border-t border-amber-200 fixed bottom-0 left-0 right-0 shadow-lg">
+      <nav className="bg-white border-t border-amber-200 fixed bottom-0 left-0 right-0 shadow-lg print:hidden">
         <div className="max-w-4xl lg:max-w-5xl xl:max-w-6xl mx-auto">
           <div className="flex justify-around">
             {navItems.map(item => (
@@ -79,7 +89,7 @@ export function Layout({ children }: LayoutProps) {
       </nav>
 
       {/* Spacer for fixed bottom nav */}
-      <div className="h-16" />
+      <div className="h-16 print:hidden" />
     </div>
   );
 }
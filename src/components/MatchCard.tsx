@@ -1,4 +1,6 @@
 import type { Match } from '../types/tournament';
+import { formatDayLabel, formatMinutesToTime, getMinutesOfDay } from '../utils/scheduling';
+import { RESULT_TYPE_LABELS } from '../utils/matchResults';
 
 function CheckIcon({ className }: { className?: string }) {
   return (
@@ -67,6 +69,8 @@ interface MatchCardProps {
   refereeTeam?: string | null;
   showDelayWarning?: boolean;
   currentTimeMinutes?: number;
+  /** Today "YYYY-MM-DD"; matches of a multi-day event planned for another day are never delayed */
+  currentDate?: string;
 }
 
 // Parse time string "HH:MM" to minutes since midnight
@@ -75,11 +79,12 @@ function parseTimeToMinutes(time: string): number {
   return hours * 60 + minutes;
 }
 
-export function MatchCard({ match, getTeamName, onClick, playoffLabel, scheduledTime, refereeTeam, showDelayWarning, currentTimeMinutes }: MatchCardProps) {
+export function MatchCard({ match, getTeamName, onClick, playoffLabel, scheduledTime, refereeTeam, showDelayWarning, currentTimeMinutes, currentDate }: MatchCardProps) {
   // Calculate if match is delayed (scheduled time + 10 min has passed)
   const isDelayed = (() => {
     if (!showDelayWarning || !scheduledTime || !currentTimeMinutes) return false;
     if (match.status === 'completed' || match.status === 'in-progress') return false;
+    if (match.scheduledDate && match.scheduledDate !== currentDate) return false;
 
     const scheduledMinutes = parseTimeToMinutes(scheduledTime);
     // Match is delayed if current time is more than 10 minutes past scheduled time
@@ -110,11 +115,22 @@ export function MatchCard({ match, getTeamName, onClick, playoffLabel, scheduled
     return { name: 'TBD', isPending: true };
   };
 
+  // Actual start and finish as recorded when the status changed
+  const clock = (timestamp: string) => formatMinutesToTime(getMinutesOfDay(timestamp));
+  const actualTimes = match.status === 'completed' && match.startedAt && match.completedAt
+    ? `Gespielt ${clock(match.startedAt)}–${clock(match.completedAt)}`
+    : match.status === 'in-progress' && match.startedAt
+    ? `Läuft seit ${clock(match.startedAt)}`
+    : null;
+
   const status = getMatchStatus(match);
   const teamAInfo = getTeamNameWithPlaceholder(match.teamAId, match.teamAPlaceholder);
   const teamBInfo = getTeamNameWithPlaceholder(match.teamBId, match.teamBPlaceholder);
 
   const isPlayoff = match.isPlayoff;
+  const specialResult = match.status === 'completed' && match.resultType && match.resultType !== 'played'
+    ? RESULT_TYPE_LABELS[match.resultType]
+    : null;
 
   return (
     <div
@@ -141,7 +157,7 @@ export function MatchCard({ match, getTeamName, onClick, playoffLabel, scheduled
               isDelayed ? 'bg-red-100 text-red-700' : 'bg-purple-100 text-purple-700'
             }`}>
               <ClockIcon />
-              {scheduledTime}
+              {match.scheduledDate && `${formatDayLabel(match.scheduledDate)} `}{scheduledTime}
               {isDelayed && (
                 <span className="ml-1 font-bold">
                   (+{delayMinutes} Min.)
@@ -159,8 +175,16 @@ export function MatchCard({ match, getTeamName, onClick, playoffLabel, scheduled
             {status.icon === 'calendar' && <CalendarIcon />}
             {status.text}
           </span>
+          {specialResult && (
+            <span className="text-xs px-2 py-1 rounded bg-red-100 text-red-700 font-medium">
+              {specialResult}
+            </span>
+          )}
         </div>
-        <span className="text-xs text-gray-400">#{match.matchNumber}</span>
+        <span className="text-xs text-gray-400">
+          {actualTimes && <span className="mr-2">{actualTimes}</span>}
+          #{match.matchNumber}
+        </span>
       </div>
 
       <div className="flex items-center justify-between">
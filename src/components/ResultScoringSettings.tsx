@@ -0,0 +1,44 @@
+import type { ResultScoring, ResultScoringRule } from '../types/tournament';
+import {
+  SPECIAL_RESULT_TYPES,
+  RESULT_TYPE_LABELS,
+  RESULT_SCORING_LABELS,
+  RESULT_SCORING_OPTIONS,
+} from '../utils/matchResults';
+
+interface ResultScoringSettingsProps {
+  resultScoring: ResultScoring;
+  onChange: (resultScoring: ResultScoring) => void;
+}
+
+/**
+ * What forfeits, walkovers and retirements count for in the standings
+ */
+export function ResultScoringSettings({ resultScoring, onChange }: ResultScoringSettingsProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-600 mb-1">
+        Wertung ohne reguläres Spielende
+      </label>
+      <div className="space-y-2">
+        {SPECIAL_RESULT_TYPES.map(type => (
+          <div key={type} className="flex items-center gap-3">
+            <span className="w-36 text-sm text-gray-800">{RESULT_TYPE_LABELS[type]}</span>
+            <select
+              value={resultScoring[type]}
+              onChange={e => onChange({ ...resultScoring, [type]: e.target.value as ResultScoringRule })}
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            >
+              {RESULT_SCORING_OPTIONS[type].map(rule => (
+                <option key={rule} value={rule}>{RESULT_SCORING_LABELS[rule]}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Im K.O.-Baum kommt das andere Team in jedem Fall weiter.
+      </p>
+    </div>
+  );
+}
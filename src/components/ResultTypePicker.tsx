@@ -0,0 +1,59 @@
+import type { MatchResultType } from '../types/tournament';
+import { SPECIAL_RESULT_TYPES, RESULT_TYPE_LABELS, RESULT_TYPE_DESCRIPTIONS } from '../utils/matchResults';
+
+interface ResultTypePickerProps {
+  resultType: MatchResultType;
+  onResultTypeChange: (resultType: MatchResultType) => void;
+  /** Team that didn't show up, withdrew or retired */
+  losingTeamId: string | null;
+  onLosingTeamChange: (teamId: string) => void;
+  teams: { id: string; name: string }[];
+}
+
+/**
+ * Choice between a played result and a forfeit, walkover or retirement,
+ * and which team the match is lost by
+ */
+export function ResultTypePicker({ resultType, onResultTypeChange, losingTeamId, onLosingTeamChange, teams }: ResultTypePickerProps) {
+  const types: MatchResultType[] = ['played', ...SPECIAL_RESULT_TYPES];
+  const label = (type: MatchResultType) => (type === 'played' ? 'Gespielt' : RESULT_TYPE_LABELS[type]);
+
+  return (
+    <div className="mb-4">
+      <div className="grid grid-cols-4 gap-1">
+        {types.map(type => (
+          <button
+            key={type}
+            onClick={() => onResultTypeChange(type)}
+            className={`px-2 py-1.5 rounded-lg text-xs font-medium ${
+              resultType === type ? 'bg-sky-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {label(type)}
+          </button>
+        ))}
+      </div>
+
+      {resultType !== 'played' && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-500 mb-2">{RESULT_TYPE_DESCRIPTIONS[resultType]}. Welches Team?</p>
+          <div className="grid grid-cols-2 gap-2">
+            {teams.map(team => (
+              <button
+                key={team.id}
+                onClick={() => onLosingTeamChange(team.id)}
+                className={`px-3 py-2 rounded-lg text-sm border ${
+                  losingTeamId === team.id
+                    ? 'border-red-400 bg-red-50 text-red-800 font-medium'
+                    : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {team.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 import type { SchedulingSettings } from '../types/tournament';
 import { parseTimeToMinutes } from '../utils/scheduling';
+import { AvailabilitySettings } from './AvailabilitySettings';
 
 interface SchedulingSectionProps {
   scheduling: SchedulingSettings;
   onSchedulingChange: (scheduling: SchedulingSettings) => void;
+  /** Shows opening hours per court if given */
+  numberOfCourts?: number;
+  /** Start and end of the day; hidden when the event calendar sets them per day */
+  showDayTimes?: boolean;
   estimation: {
     matchCount: number;
     totalMinutes: number;
@@ -14,7 +19,9 @@ interface SchedulingSectionProps {
 export function SchedulingSection({
   scheduling,
   onSchedulingChange,
+  numberOfCourts,
   estimation,
+  showDayTimes = true,
 }: SchedulingSectionProps) {
   const updateScheduling = (field: keyof SchedulingSettings, value: string | number) => {
     onSchedulingChange({ ...scheduling, [field]: value });
@@ -28,31 +35,33 @@ export function SchedulingSection({
     <div className="border-t pt-4 mt-4">
       <h3 className="font-semibold text-gray-700 mb-4">Zeitplanung</h3>
 
-      <div className="grid grid-cols-2 gap-4">
-        <div>
-          <label className="block text-sm font-medium text-gray-600 mb-1">
-            Startzeit
-          </label>
-          <input
-            type="time"
-            value={scheduling.startTime}
-            onChange={e => updateScheduling('startTime', e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-          />
-        </div>
+      {showDayTimes && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Startzeit
+            </label>
+            <input
+              type="time"
+              value={scheduling.startTime}
+              onChange={e => updateScheduling('startTime', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
 
-        <div>
-          <label className="block text-sm font-medium text-gray-600 mb-1">
-            Geplante Endzeit
-          </label>
-          <input
-            type="time"
-            value={scheduling.endTime}
-            onChange={e => updateScheduling('endTime', e.target.value)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-          />
+          <div>
+            <label className="block text-sm font-medium text-gray-600 mb-1">
+              Geplante Endzeit
+            </label>
+            <input
+              type="time"
+              value={scheduling.endTime}
+              onChange={e => updateScheduling('endTime', e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
         </div>
-      </div>
+      )}
 
       <div className="grid grid-cols-2 gap-4 mt-4">
         <div>
@@ -120,6 +129,68 @@ export function SchedulingSection({
         </div>
       </div>
 
+      <div className="grid grid-cols-2 gap-4 mt-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-600 mb-1">
+            Mindestpause je Team (Min)
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={120}
+            value={scheduling.minimumRestMinutes ?? 0}
+            onChange={e => updateScheduling('minimumRestMinutes', parseInt(e.target.value) || 0)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Zwischen zwei Spielen desselben Teams
+          </p>
+        </div>
+      </div>
+
+      <label className="flex items-start gap-2 cursor-pointer mt-4">
+        <input
+          type="checkbox"
+          checked={scheduling.assignReferees ?? false}
+          onChange={e => onSchedulingChange({ ...scheduling, assignReferees: e.target.checked })}
+          className="w-4 h-4 mt-0.5 text-sky-600 rounded focus:ring-sky-500"
+        />
+        <span className="text-sm text-gray-700">
+          Schiedsgerichte automatisch einteilen
+          <span className="block text-xs text-gray-500">
+            Freie Teams pfeifen, möglichst nicht direkt vor oder nach dem eigenen Spiel und nicht aus derselben Gruppe
+          </span>
+        </span>
+      </label>
+
+      {scheduling.assignReferees && (
+        <div className="ml-6 mt-2 space-y-1">
+          {([
+            ['teams', 'Teams', 'Freie Teams pfeifen'],
+            ['officials', 'Schiedsrichter-Pool', 'Einzelne Schiedsrichter nach Verfügbarkeit; Halbfinals und Finals mit der höchsten Lizenz'],
+          ] as const).map(([mode, label, hint]) => (
+            <label key={mode} className="flex items-start gap-2 cursor-pointer text-sm text-gray-700">
+              <input
+                type="radio"
+                checked={(scheduling.refereeMode ?? 'teams') === mode}
+                onChange={() => onSchedulingChange({ ...scheduling, refereeMode: mode })}
+                className="mt-0.5"
+              />
+              <span>
+                {label}
+                <span className="block text-xs text-gray-500">{hint}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <AvailabilitySettings
+        scheduling={scheduling}
+        onSchedulingChange={onSchedulingChange}
+        numberOfCourts={numberOfCourts}
+      />
+
       {estimation && (
         <div className={`mt-4 p-3 rounded-lg ${isTimeExceeded ? 'bg-red-50 border border-red-200' : 'bg-sky-50 border border-sky-200'}`}>
           <div className="flex items-center justify-between">
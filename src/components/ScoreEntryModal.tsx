@@ -1,7 +1,11 @@
 import { useState, useMemo } from 'react';
-import type { Match, SetScore } from '../types/tournament';
+import type { Match, MatchResultType, SetScore } from '../types/tournament';
 import { validateScores, validateBestOfThreeScores, getRequiredSetsCount, validateScoreInputs } from '../utils/scoreValidation';
 import { ScoreButtonPicker } from './ScoreButtonInput';
+import { CorrectionNotice } from './CorrectionNotice';
+import { ResultTypePicker } from './ResultTypePicker';
+import type { ResultCorrectionPlan } from '../context/resultCorrection';
+import type { SpecialResult } from '../utils/matchResults';
 
 interface ScoreEntryModalProps {
   match: Match;
@@ -10,7 +14,12 @@ interface ScoreEntryModalProps {
   pointsPerThirdSet?: number;
   getTeamName: (teamId: string | null) => string;
   onClose: () => void;
-  onSubmit: (scores: SetScore[]) => void;
+  /** A forfeit, walkover or retirement comes with its result; only a retirement has scores */
+  onSubmit: (scores: SetScore[], result?: SpecialResult) => void;
+  /** For matches not started yet: records the actual start without a result */
+  onStart?: () => void;
+  /** For completed matches: what correcting the result to these scores would change */
+  getCorrectionPlan?: (scores: SetScore[], result?: SpecialResult) => ResultCorrectionPlan | null;
 }
 
 export function ScoreEntryModal({
@@ -21,6 +30,8 @@ export function ScoreEntryModal({
   getTeamName,
   onClose,
   onSubmit,
+  onStart,
+  getCorrectionPlan,
 }: ScoreEntryModalProps) {
   // Initialize scores - start at pointsLimit if no existing scores
   const [scores, setScores] = useState<SetScore[]>(() => {
@@ -41,6 +52,17 @@ export function ScoreEntryModal({
   });
 
   const [activeSet, setActiveSet] = useState(0);
+  const [resultType, setResultType] = useState<MatchResultType>(match.resultType ?? 'played');
+  const [losingTeamId, setLosingTeamId] = useState<string | null>(() => {
+    if (!match.resultType || match.resultType === 'played') return null;
+    return match.winnerId === match.teamAId ? match.teamBId : match.teamAId;
+  });
+
+  const isSpecialResult = resultType !== 'played';
+  const showScores = !isSpecialResult || resultType === 'retired';
+  const specialResult: SpecialResult | undefined = isSpecialResult && losingTeamId
+    ? { resultType, winnerId: (losingTeamId === match.teamAId ? match.teamBId : match.teamAId)! }
+    : undefined;
 
   const handleScoreChange = (setIndex: number, team: 'teamA' | 'teamB', value: number) => {
     const newScores = [...scores];
@@ -62,7 +84,38 @@ export function ScoreEntryModal({
     (scores[2] && (scores[2].teamA !== pointsPerThirdSet || scores[2].teamB !== pointsPerThirdSet - 2))
   );
 
+  // A retirement keeps the sets entered so far (untouched sets still show the points limit on both sides)
+  const getPartialScores = () => scores.filter((score, i) => {
+    const limit = i === 2 ? pointsPerThirdSet : pointsPerSet;
+    return score.teamA !== limit || score.teamB !== limit;
+  });
+
+  // Correcting a completed match: preview with the sets that count
+  const correctionScores = !isSpecialResult
+    ? (setsPerMatch === 3 ? scores.slice(0, requiredSets) : scores)
+    : resultType === 'retired' ? getPartialScores() : [];
+  const correctionPlan = (!isSpecialResult || specialResult)
+    ? getCorrectionPlan?.(correctionScores, specialResult) ?? null
+    : null;
+  const isCorrectionBlocked = !!correctionPlan && correctionPlan.blockingMatches.length > 0;
+
   const handleSubmit = () => {
+    if (isSpecialResult) {
+      if (!specialResult) {
+        alert('Bitte das Team auswählen, das nicht angetreten ist bzw. aufgegeben hat.');
+        return;
+      }
+      const partialScores = resultType === 'retired' ? getPartialScores() : [];
+      const inputError = validateScoreInputs(partialScores);
+      if (inputError) {
+        alert(inputError);
+        return;
+      }
+      onSubmit(partialScores, specialResult);
+      onClose();
+      return;
+    }
+
     // For Best of 3: only include sets that were actually played
     let finalScores: SetScore[];
     if (setsPerMatch === 3) {
@@ -120,7 +173,9 @@ export function ScoreEntryModal({
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-lg p-6 w-full max-w-md md:max-w-lg lg:max-w-xl max-h-[90vh] overflow-y-auto">
-        <h3 className="text-lg font-bold text-gray-800 mb-4 text-center">Ergebnis eintragen</h3>
+        <h3 className="text-lg font-bold text-gray-800 mb-4 text-center">
+          {correctionPlan ? 'Ergebnis korrigieren' : 'Ergebnis eintragen'}
+        </h3>
 
         {/* Team names header */}
         <div className="mb-4 text-center">
@@ -133,83 +188,111 @@ export function ScoreEntryModal({
           </div>
         </div>
 
-        {/* Set tabs */}
-        <div className="flex justify-center gap-2 mb-4">
-          {visibleSets.map(index => {
-            const isThirdSet = index === 2;
-            const currentPointsLimit = isThirdSet ? pointsPerThirdSet : pointsPerSet;
-            const score = scores[index];
-            const hasWinner = score.teamA !== score.teamB;
-
-            return (
-              <button
-                key={index}
-                onClick={() => setActiveSet(index)}
-                className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                  activeSet === index
-                    ? 'bg-sky-600 text-white'
-                    : hasWinner
-                    ? 'bg-green-100 text-green-800 hover:bg-green-200'
-                    : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
-                }`}
-              >
-                <div>Satz {index + 1}</div>
-                {activeSet !== index && (
-                  <div className="text-xs opacity-75">
-                    {score.teamA}:{score.teamB}
-                  </div>
-                )}
-                {isThirdSet && activeSet === index && (
-                  <div className="text-xs opacity-75">({currentPointsLimit}P)</div>
-                )}
-              </button>
-            );
-          })}
-        </div>
+        {onStart && (
+          <button
+            onClick={() => {
+              onStart();
+              onClose();
+            }}
+            className="w-full py-2 mb-4 border border-yellow-400 bg-yellow-50 text-yellow-800 rounded-lg hover:bg-yellow-100 font-medium"
+          >
+            Spiel starten (Ergebnis später eintragen)
+          </button>
+        )}
 
-        {/* Active set score input with +/- buttons */}
-        <div className="py-4">
-          <ScoreButtonPicker
-            teamAScore={scores[activeSet].teamA}
-            teamBScore={scores[activeSet].teamB}
-            onTeamAChange={(value) => handleScoreChange(activeSet, 'teamA', value)}
-            onTeamBChange={(value) => handleScoreChange(activeSet, 'teamB', value)}
-            teamAName={teamAName}
-            teamBName={teamBName}
+        {match.teamAId && match.teamBId && (
+          <ResultTypePicker
+            resultType={resultType}
+            onResultTypeChange={setResultType}
+            losingTeamId={losingTeamId}
+            onLosingTeamChange={setLosingTeamId}
+            teams={[{ id: match.teamAId, name: teamAName }, { id: match.teamBId, name: teamBName }]}
           />
-        </div>
+        )}
 
-        {/* Current scores summary */}
-        <div className="bg-gray-50 rounded-lg p-3 mb-4">
-          <div className="text-xs text-gray-500 text-center mb-2">Aktueller Spielstand</div>
-          <div className="flex justify-center gap-4">
-            {visibleSets.map(index => (
-              <div
-                key={index}
-                className={`text-center ${activeSet === index ? 'font-bold text-sky-600' : 'text-gray-600'}`}
-              >
-                <div className="text-xs text-gray-400">Satz {index + 1}</div>
-                <div className="text-lg font-mono">
-                  {scores[index].teamA}:{scores[index].teamB}
-                </div>
-              </div>
-            ))}
+        {showScores && (
+          <>
+          {/* Set tabs */}
+          <div className="flex justify-center gap-2 mb-4">
+            {visibleSets.map(index => {
+              const isThirdSet = index === 2;
+              const currentPointsLimit = isThirdSet ? pointsPerThirdSet : pointsPerSet;
+              const score = scores[index];
+              const hasWinner = score.teamA !== score.teamB;
+
+              return (
+                <button
+                  key={index}
+                  onClick={() => setActiveSet(index)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    activeSet === index
+                      ? 'bg-sky-600 text-white'
+                      : hasWinner
+                      ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  <div>Satz {index + 1}</div>
+                  {activeSet !== index && (
+                    <div className="text-xs opacity-75">
+                      {score.teamA}:{score.teamB}
+                    </div>
+                  )}
+                  {isThirdSet && activeSet === index && (
+                    <div className="text-xs opacity-75">({currentPointsLimit}P)</div>
+                  )}
+                </button>
+              );
+            })}
           </div>
-        </div>
 
-        <p className="text-xs text-gray-500 text-center mb-2">
-          Punktelimit: {pointsPerSet} Punkte
-          {setsPerMatch === 3 && pointsPerThirdSet !== pointsPerSet && (
-            <span> ({pointsPerThirdSet} im 3. Satz)</span>
-          )}
-        </p>
+          {/* Active set score input with +/- buttons */}
+          <div className="py-4">
+            <ScoreButtonPicker
+              teamAScore={scores[activeSet].teamA}
+              teamBScore={scores[activeSet].teamB}
+              onTeamAChange={(value) => handleScoreChange(activeSet, 'teamA', value)}
+              onTeamBChange={(value) => handleScoreChange(activeSet, 'teamB', value)}
+              teamAName={teamAName}
+              teamBName={teamBName}
+            />
+          </div>
+
+          {/* Current scores summary */}
+          <div className="bg-gray-50 rounded-lg p-3 mb-4">
+            <div className="text-xs text-gray-500 text-center mb-2">Aktueller Spielstand</div>
+            <div className="flex justify-center gap-4">
+              {visibleSets.map(index => (
+                <div
+                  key={index}
+                  className={`text-center ${activeSet === index ? 'font-bold text-sky-600' : 'text-gray-600'}`}
+                >
+                  <div className="text-xs text-gray-400">Satz {index + 1}</div>
+                  <div className="text-lg font-mono">
+                    {scores[index].teamA}:{scores[index].teamB}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
 
-        {setsPerMatch === 3 && !showThirdSet && requiredSets === 2 && (
-          <p className="text-xs text-green-600 text-center mb-2">
-            Match entschieden - 3. Satz nicht erforderlich
+          <p className="text-xs text-gray-500 text-center mb-2">
+            Punktelimit: {pointsPerSet} Punkte
+            {setsPerMatch === 3 && pointsPerThirdSet !== pointsPerSet && (
+              <span> ({pointsPerThirdSet} im 3. Satz)</span>
+            )}
           </p>
+
+          {setsPerMatch === 3 && !showThirdSet && requiredSets === 2 && !isSpecialResult && (
+            <p className="text-xs text-green-600 text-center mb-2">
+              Match entschieden - 3. Satz nicht erforderlich
+            </p>
+          )}
+          </>
         )}
 
+        {correctionPlan && <CorrectionNotice plan={correctionPlan} />}
+
         <div className="flex space-x-3 mt-4">
           <button
             onClick={onClose}
@@ -219,9 +302,10 @@ export function ScoreEntryModal({
           </button>
           <button
             onClick={handleSubmit}
-            className="flex-[2] py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium"
+            disabled={isCorrectionBlocked}
+            className="flex-[2] py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-40"
           >
-            Ergebnis eintragen
+            {correctionPlan ? 'Ergebnis korrigieren' : 'Ergebnis eintragen'}
           </button>
         </div>
       </div>
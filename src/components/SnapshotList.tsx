@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { ArchiveRestore } from 'lucide-react';
+import { useTournament } from '../context/TournamentContext';
+import type { SnapshotInfo } from '../storage';
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Automatic snapshots of the whole state; hidden when the storage keeps none */
+export function SnapshotList() {
+  const { storage, dispatch } = useTournament();
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+
+  useEffect(() => {
+    storage.listSnapshots().then(setSnapshots, e => console.error('Failed to list snapshots:', e));
+  }, [storage]);
+
+  const handleRestore = async (snapshot: SnapshotInfo) => {
+    if (!confirm(`Sicherung vom ${formatTime(snapshot.at)} wiederherstellen?\n\nAlle Turniere werden durch den Stand der Sicherung ersetzt.`)) return;
+    const state = await storage.loadSnapshot(snapshot.id);
+    if (state) {
+      dispatch({ type: 'LOAD_STATE', payload: state });
+    } else {
+      alert('Die Sicherung konnte nicht gelesen werden.');
+    }
+  };
+
+  if (snapshots.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-semibold text-gray-800">Automatische Sicherungen</h3>
+      <ul className="bg-white rounded-lg shadow-sm divide-y divide-gray-100">
+        {snapshots.map(snapshot => (
+          <li key={snapshot.id} className="flex items-center gap-3 p-3 text-sm">
+            <span className="w-40 shrink-0 text-gray-700">{formatTime(snapshot.at)}</span>
+            <span className="flex-1 text-gray-500">
+              {snapshot.tournamentCount} {snapshot.tournamentCount === 1 ? 'Turnier' : 'Turniere'}
+            </span>
+            <button
+              onClick={() => handleRestore(snapshot)}
+              className="flex items-center gap-1 px-3 py-1 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              <ArchiveRestore className="w-4 h-4" /> Wiederherstellen
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { AlertTriangle } from 'lucide-react';
+
+interface StorageConflictModalProps {
+  names: string[];
+  onKeepOwn: () => void;
+  onLoadStored: () => void;
+}
+
+/** Asks what to do when an own change would overwrite a newer change saved in another tab */
+export function StorageConflictModal({ names, onKeepOwn, onLoadStored }: StorageConflictModalProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md space-y-4">
+        <h3 className="flex items-center justify-center gap-2 text-lg font-bold text-gray-800">
+          <AlertTriangle className="w-5 h-5 text-amber-500" />
+          In einem anderen Tab geändert
+        </h3>
+        <p className="text-sm text-gray-600">
+          {names.length > 0 ? names.map(name => `„${name}“`).join(', ') : 'Dieses Turnier'} wurde in einem anderen Tab
+          geändert, nachdem dieser Tab die Daten geladen hat. Deine letzte Änderung wurde noch nicht gespeichert.
+        </p>
+        <div className="space-y-2">
+          <button
+            onClick={onLoadStored}
+            className="w-full py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700"
+          >
+            Änderungen aus dem anderen Tab laden
+          </button>
+          <button
+            onClick={onKeepOwn}
+            className="w-full py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+          >
+            Meine Änderung trotzdem speichern
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Beim Laden geht die Änderung aus diesem Tab verloren, beim Speichern die aus dem anderen Tab.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { AlertTriangle } from 'lucide-react';
+import type { StorageError } from '../hooks/useTabSync';
+
+interface StorageErrorBannerProps {
+  error: StorageError;
+  onRetry: () => void;
+}
+
+/** Shows that changes could not be saved; they stay in this tab until a save succeeds */
+export function StorageErrorBanner({ error, onRetry }: StorageErrorBannerProps) {
+  return (
+    <div className="fixed top-0 inset-x-0 z-40 bg-red-600 text-white shadow-md print:hidden">
+      <div className="container mx-auto px-4 py-2 flex flex-col md:flex-row md:items-center gap-2 text-sm">
+        <AlertTriangle className="w-5 h-5 shrink-0" />
+        <p className="flex-1">
+          <span className="font-semibold">Änderungen konnten nicht gespeichert werden. </span>
+          {error.quotaExceeded
+            ? 'Der Speicher des Browsers ist voll. Exportiere alte Turniere und lösche sie, dann erneut speichern.'
+            : error.message}
+          {' '}Bis dahin sind die Änderungen nur in diesem Tab vorhanden.
+        </p>
+        <button
+          onClick={onRetry}
+          className="px-3 py-1 bg-white text-red-700 rounded font-medium hover:bg-red-50"
+        >
+          Erneut speichern
+        </button>
+      </div>
+    </div>
+  );
+}
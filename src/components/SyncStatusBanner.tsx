@@ -0,0 +1,32 @@
+import { WifiOff, X } from 'lucide-react';
+import type { ServerSyncStatus } from '../hooks/useServerSync';
+
+interface SyncStatusBannerProps {
+  status: ServerSyncStatus;
+}
+
+/** Lost connection to the sync server and changes the server refused */
+export function SyncStatusBanner({ status }: SyncStatusBannerProps) {
+  if (status.connected && !status.message) return null;
+
+  return (
+    <div className="bg-amber-100 border-b border-amber-300 text-amber-900 text-sm print:hidden">
+      <div className="max-w-4xl lg:max-w-5xl xl:max-w-6xl mx-auto px-4 lg:px-6 py-2 space-y-1">
+        {!status.connected && (
+          <p className="flex items-center gap-2">
+            <WifiOff className="w-4 h-4 shrink-0" />
+            Keine Verbindung zum Sync-Server – neuer Versuch läuft. Änderungen anderer Geräte fehlen bis dahin.
+          </p>
+        )}
+        {status.message && (
+          <div className="flex items-center gap-2">
+            <p className="flex-1">{status.message}</p>
+            <button onClick={status.dismiss} className="p-1 hover:text-amber-700" title="Hinweis schließen">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
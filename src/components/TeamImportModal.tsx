@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import type { Team } from '../types/tournament';
+import {
+  buildTeamImport,
+  getDefaultMapping,
+  guessColumnMapping,
+  hasHeaderRow,
+  parseDelimited,
+  TEAM_COLUMN_LABELS,
+  type TeamColumn,
+  type TeamImportMode,
+} from '../utils/teamImport';
+
+interface TeamImportModalProps {
+  existingTeams: Team[];
+  isMixer: boolean;
+  onClose: () => void;
+  onImport: (teams: Team[]) => void;
+}
+
+const COLUMNS = Object.keys(TEAM_COLUMN_LABELS) as TeamColumn[];
+
+/**
+ * CSV/TSV import of the team list: column mapping, preview with resulting
+ * seed positions and a list of rows that were skipped
+ */
+export function TeamImportModal({ existingTeams, isMixer, onClose, onImport }: TeamImportModalProps) {
+  const [text, setText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<TeamColumn[]>([]);
+  const [mode, setMode] = useState<TeamImportMode>(existingTeams.length > 0 ? 'append' : 'replace');
+
+  const table = useMemo(() => parseDelimited(text), [text]);
+  const header = hasHeader ? table.rows[0]?.cells ?? [] : [];
+  const dataRows = useMemo(() => (hasHeader ? table.rows.slice(1) : table.rows), [table, hasHeader]);
+  const preview = useMemo(
+    () => buildTeamImport(dataRows, mapping, existingTeams, mode),
+    [dataRows, mapping, existingTeams, mode]
+  );
+  const importedIds = new Set(preview.importedIds);
+
+  const loadText = (value: string) => {
+    const rows = parseDelimited(value).rows;
+    const columnCount = Math.max(0, ...rows.map(r => r.cells.length));
+    const withHeader = rows.length > 0 && hasHeaderRow(rows[0].cells);
+    setText(value);
+    setHasHeader(withHeader);
+    setMapping(withHeader ? guessColumnMapping(rows[0].cells) : getDefaultMapping(columnCount));
+  };
+
+  const handleHeaderToggle = (value: boolean) => {
+    const columnCount = Math.max(0, ...table.rows.map(r => r.cells.length));
+    setHasHeader(value);
+    setMapping(value && table.rows.length > 0 ? guessColumnMapping(table.rows[0].cells) : getDefaultMapping(columnCount));
+  };
+
+  const updateMapping = (index: number, column: TeamColumn) => {
+    setMapping(mapping.map((c, i) => (i === index ? column : c === column && column !== 'ignore' ? 'ignore' : c)));
+  };
+
+  const columnCount = Math.max(mapping.length, ...table.rows.map(r => r.cells.length));
+  const label = isMixer ? 'Spieler' : 'Teams';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto space-y-4">
+        <h3 className="text-lg font-bold text-gray-800">{isMixer ? 'Spielerliste' : 'Teamliste'} importieren</h3>
+
+        {!text ? (
+          <div className="space-y-3">
+            <label className="flex items-center justify-center gap-2 py-6 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 cursor-pointer hover:bg-gray-50">
+              <Upload className="w-5 h-5" /> CSV- oder TSV-Datei auswählen
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                className="hidden"
+                onChange={async e => {
+                  const file = e.target.files?.[0];
+                  if (file) loadText(await file.text());
+                }}
+              />
+            </label>
+            <textarea
+              rows={6}
+              onChange={e => loadText(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              placeholder="Oder Zellen aus Excel hier einfügen"
+            />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={hasHeader} onChange={e => handleHeaderToggle(e.target.checked)} />
+                Erste Zeile enthält Spaltennamen
+              </label>
+              {existingTeams.length > 0 && (
+                <select
+                  value={mode}
+                  onChange={e => setMode(e.target.value as TeamImportMode)}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  <option value="append">Zu den {existingTeams.length} vorhandenen {label} hinzufügen</option>
+                  <option value="replace">Vorhandene {label} ersetzen</option>
+                </select>
+              )}
+              <button onClick={() => setText('')} className="ml-auto text-sky-600 hover:underline">
+                Andere Datei
+              </button>
+            </div>
+
+            <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${Math.min(columnCount, 4)}, minmax(0, 1fr))` }}>
+              {Array.from({ length: columnCount }, (_, i) => (
+                <div key={i}>
+                  <p className="text-xs text-gray-500 truncate">{header[i] || `Spalte ${i + 1}`}</p>
+                  <select
+                    value={mapping[i] ?? 'ignore'}
+                    onChange={e => updateMapping(i, e.target.value as TeamColumn)}
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                  >
+                    {COLUMNS.map(c => <option key={c} value={c}>{TEAM_COLUMN_LABELS[c]}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {(table.error || preview.skipped.length > 0 || preview.warnings.length > 0) && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 space-y-1">
+                {table.error && <p>{table.error}</p>}
+                {preview.warnings.map(w => <p key={w}>{w}</p>)}
+                {preview.skipped.map(s => <p key={s.line}>Zeile {s.line} übersprungen: {s.reason}</p>)}
+              </div>
+            )}
+
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-72 overflow-y-auto">
+              {preview.teams.map(team => (
+                <div
+                  key={team.id}
+                  className={`flex items-center gap-3 px-3 py-2 text-sm ${importedIds.has(team.id) ? '' : 'text-gray-400'}`}
+                >
+                  <span className="w-6 text-right font-bold text-sky-700">{team.seedPosition}</span>
+                  <span className="flex-1 font-medium">
+                    {team.name}
+                    {team.playerNames && team.name !== team.playerNames.join(' / ') && (
+                      <span className="text-gray-500 font-normal"> ({team.playerNames.join(' / ')})</span>
+                    )}
+                  </span>
+                  {team.club && <span className="text-gray-500">{team.club}</span>}
+                  {team.rankingPoints !== undefined && <span className="w-16 text-right">{team.rankingPoints} P.</span>}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={() => onImport(preview.teams)}
+            disabled={preview.importedIds.length === 0}
+            className="flex-[2] py-3 bg-sky-600 text-white rounded-lg hover:bg-sky-700 font-medium disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {preview.importedIds.length} {label} übernehmen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
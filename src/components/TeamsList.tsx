@@ -1,5 +1,8 @@
 import type {Team, TournamentSystem} from '../types/tournament';
-import {Plus, ChevronUp, ChevronDown, X} from 'lucide-react';
+import {useState} from 'react';
+import {Plus, ChevronUp, ChevronDown, X, Upload, Download} from 'lucide-react';
+import {TeamImportModal} from './TeamImportModal';
+import {exportTeamList} from '../utils/teamImport';
 
 interface TeamsListProps {
     teams: Team[];
@@ -10,6 +13,7 @@ interface TeamsListProps {
     onMoveTeam: (index: number, direction: 'up' | 'down') => void;
     onUpdateTeamName: (id: string, name: string) => void;
     onTogglePresent: (id: string) => void;
+    onImportTeams: (teams: Team[]) => void;
     system: TournamentSystem;
     numberOfRounds: number;
 }
@@ -22,8 +26,25 @@ export function TeamsList({
                               onRemoveTeam,
                               onMoveTeam,
                               onUpdateTeamName,
-                              onTogglePresent
+                              onTogglePresent,
+                              onImportTeams,
+                              system
                           }: TeamsListProps) {
+    // Mixer tournaments list individual players instead of teams
+    const isMixer = system === 'mixer';
+    const [showImport, setShowImport] = useState(false);
+
+    const handleExport = () => {
+        // The byte order mark makes Excel read the file as UTF-8
+        const blob = new Blob(['\uFEFF' + exportTeamList(teams)], {type: 'text/csv;charset=utf-8'});
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = isMixer ? 'spielerliste.csv' : 'teamliste.csv';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter') {
             onAddTeam();
@@ -32,7 +53,23 @@ export function TeamsList({
 
     return (
         <div className="bg-white rounded-lg p-4 shadow-sm space-y-4">
-            <h3 className="font-semibold text-gray-700">Teams & Setzliste</h3>
+            <div className="flex items-center gap-2">
+                <h3 className="font-semibold text-gray-700 mr-auto">{isMixer ? 'Spieler' : 'Teams & Setzliste'}</h3>
+                <button
+                    onClick={() => setShowImport(true)}
+                    className="flex items-center gap-1 px-2 py-1 text-sm text-sky-700 border border-sky-200 rounded hover:bg-sky-50"
+                >
+                    <Upload className="w-4 h-4"/> CSV-Import
+                </button>
+                {teams.length > 0 && (
+                    <button
+                        onClick={handleExport}
+                        className="flex items-center gap-1 px-2 py-1 text-sm text-sky-700 border border-sky-200 rounded hover:bg-sky-50"
+                    >
+                        <Download className="w-4 h-4"/> Export
+                    </button>
+                )}
+            </div>
             <p className="text-sm text-gray-500">
                 Die Reihenfolge bestimmt die Setzposition. Ziehe Teams nach oben/unten um die
                 Setzliste anzupassen.
@@ -45,7 +82,7 @@ export function TeamsList({
                     onChange={e => onNewTeamNameChange(e.target.value)}
                     onKeyDown={handleKeyDown}
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
-                    placeholder="Teamname eingeben"
+                    placeholder={isMixer ? 'Spielername eingeben' : 'Teamname eingeben'}
                 />
                 <button
                     onClick={onAddTeam}
@@ -57,7 +94,7 @@ export function TeamsList({
 
             {teams.length === 0 ? (
                 <div className="text-center py-8 bg-gray-50 rounded-lg">
-                    <p className="text-gray-500">Noch keine Teams hinzugefügt</p>
+                    <p className="text-gray-500">{isMixer ? 'Noch keine Spieler hinzugefügt' : 'Noch keine Teams hinzugefügt'}</p>
                 </div>
             ) : (
                 <div className="space-y-2">
@@ -117,12 +154,24 @@ export function TeamsList({
             )}
 
             <p className="text-sm text-gray-500">
-                {teams.length} Team{teams.length !== 1 ? 's' : ''} |{' '}
+                {teams.length} {isMixer ? 'Spieler' : `Team${teams.length !== 1 ? 's' : ''}`} |{' '}
                 <span
                     className={teams.filter(t => t.isPresent).length === teams.length ? 'text-green-600 font-medium' : 'text-amber-600'}>
           {teams.filter(t => t.isPresent).length} anwesend
         </span>
             </p>
+
+            {showImport && (
+                <TeamImportModal
+                    existingTeams={teams}
+                    isMixer={isMixer}
+                    onClose={() => setShowImport(false)}
+                    onImport={imported => {
+                        onImportTeams(imported);
+                        setShowImport(false);
+                    }}
+                />
+            )}
         </div>
     );
 }
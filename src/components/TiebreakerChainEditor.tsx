@@ -0,0 +1,81 @@
+import { ChevronUp, ChevronDown, X } from 'lucide-react';
+import type { TiebreakerCriterion } from '../types/tournament';
+import { ALL_TIEBREAKERS, TIEBREAKER_LABELS } from '../utils/tiebreakers';
+
+interface TiebreakerChainEditorProps {
+  tiebreakers: TiebreakerCriterion[];
+  isDefault: boolean;
+  onChange: (tiebreakers: TiebreakerCriterion[] | null) => void;
+}
+
+/**
+ * Ordered list of tiebreaker criteria, applied after wins (sets won for 2 sets)
+ */
+export function TiebreakerChainEditor({ tiebreakers, isDefault, onChange }: TiebreakerChainEditorProps) {
+  const available = ALL_TIEBREAKERS.filter(c => !tiebreakers.includes(c));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...tiebreakers];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-600">
+          Tiebreaker (bei gleicher Anzahl Siege)
+        </label>
+        {!isDefault && (
+          <button onClick={() => onChange(null)} className="text-xs text-sky-600 hover:text-sky-800">
+            Standard wiederherstellen
+          </button>
+        )}
+      </div>
+      <ol className="space-y-1">
+        {tiebreakers.map((criterion, index) => (
+          <li key={criterion} className="flex items-center gap-2 px-3 py-1.5 bg-gray-50 rounded-lg">
+            <span className="w-5 text-sm text-gray-400">{index + 1}.</span>
+            <span className="flex-1 text-sm text-gray-800">{TIEBREAKER_LABELS[criterion]}</span>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-500 hover:text-sky-600 disabled:opacity-30"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === tiebreakers.length - 1}
+              className="p-1 text-gray-500 hover:text-sky-600 disabled:opacity-30"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(tiebreakers.filter(c => c !== criterion))}
+              disabled={tiebreakers.length === 1}
+              className="p-1 text-red-500 hover:text-red-700 disabled:opacity-30"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={e => onChange([...tiebreakers, e.target.value as TiebreakerCriterion])}
+          className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+        >
+          <option value="">+ Kriterium hinzufügen</option>
+          {available.map(c => (
+            <option key={c} value={c}>{TIEBREAKER_LABELS[c]}</option>
+          ))}
+        </select>
+      )}
+      <p className="text-xs text-gray-500 mt-1">
+        Direkter Vergleich wertet alle punktgleichen Teams als Mini-Tabelle. Beim Losentscheid bleiben die Teams gleichauf, bis das Los in der Tabelle gezogen oder eingetragen ist.
+      </p>
+    </div>
+  );
+}
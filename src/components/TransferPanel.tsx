@@ -0,0 +1,101 @@
+import { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { useTournament } from '../context/TournamentContext';
+import {
+  createContainerExport,
+  createStateExport,
+  formatFieldErrors,
+  getExportFileName,
+  parseTransferFile,
+  type TransferDocument,
+} from '../utils/transfer';
+
+function downloadDocument(document: TransferDocument) {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = getExportFileName(document);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export of the current tournament or all tournaments as JSON file and import of such files
+ */
+export function TransferPanel() {
+  const { state, dispatch, currentContainer } = useTournament();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string | null>(null);
+
+  const handleExportCurrent = () => {
+    if (!currentContainer) return;
+    const document = createContainerExport(state, currentContainer.id);
+    if (document) downloadDocument(document);
+  };
+
+  const handleImport = async (file: File) => {
+    const result = parseTransferFile(await file.text());
+    if (!result.ok) {
+      setErrors(formatFieldErrors(result.errors));
+      return;
+    }
+    setErrors(null);
+
+    const { tournaments, containers } = result.document;
+    const replaced = state.containers.filter(c => containers.some(ic => ic.id === c.id));
+    if (replaced.length > 0 && !confirm(
+      `Folgende Turniere sind bereits vorhanden und werden durch die importierte Fassung ersetzt:\n\n${replaced.map(c => c.name).join('\n')}\n\nFortfahren?`
+    )) {
+      return;
+    }
+    dispatch({ type: 'IMPORT_TOURNAMENTS', payload: { tournaments, containers } });
+  };
+
+  return (
+    <div className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="font-semibold text-gray-800 mr-auto">Export / Import</h3>
+        {currentContainer && (
+          <button
+            onClick={handleExportCurrent}
+            className="flex items-center gap-1 px-3 py-1.5 bg-sky-600 text-white rounded-lg text-sm font-medium hover:bg-sky-700 transition-colors"
+          >
+            <Download className="w-4 h-4" /> Aktuelles Turnier
+          </button>
+        )}
+        {state.containers.length > 0 && (
+          <button
+            onClick={() => downloadDocument(createStateExport(state))}
+            className="flex items-center gap-1 px-3 py-1.5 border border-sky-600 text-sky-700 rounded-lg text-sm font-medium hover:bg-sky-50 transition-colors"
+          >
+            <Download className="w-4 h-4" /> Alle Turniere
+          </button>
+        )}
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-1 px-3 py-1.5 bg-amber-500 text-white rounded-lg text-sm font-medium hover:bg-amber-600 transition-colors"
+        >
+          <Upload className="w-4 h-4" /> Importieren
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) void handleImport(file);
+          }}
+        />
+      </div>
+      {errors && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+          <p className="font-medium mb-1">Import fehlgeschlagen, es wurde nichts geändert:</p>
+          <pre className="whitespace-pre-wrap text-xs">{errors}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
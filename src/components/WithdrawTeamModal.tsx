@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import type { Team, WithdrawalRule } from '../types/tournament';
+import type { AffectedMatch } from '../context/resultCorrection';
+import type { TeamWithdrawalPlan } from '../context/teamWithdrawal';
+import { WITHDRAWAL_RULE_LABELS } from '../utils/teamWithdrawal';
+
+interface WithdrawTeamModalProps {
+  /** Teams still taking part */
+  teams: Team[];
+  getPlan: (teamId: string, rule: WithdrawalRule) => TeamWithdrawalPlan | null;
+  onConfirm: (teamId: string, rule: WithdrawalRule) => void;
+  onClose: () => void;
+}
+
+function AffectedList({ title, matches }: { title: string; matches: AffectedMatch[] }) {
+  if (matches.length === 0) return null;
+  return (
+    <div>
+      <p className="font-medium mb-1">{title}</p>
+      <ul className="list-disc list-inside space-y-0.5">
+        {matches.map(m => (
+          <li key={m.matchId} className={m.played ? 'font-semibold' : undefined}>
+            {m.description}{m.played && ' (gespielt)'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Withdraws a team from the running phase after showing which matches change
+ */
+export function WithdrawTeamModal({ teams, getPlan, onConfirm, onClose }: WithdrawTeamModalProps) {
+  const [teamId, setTeamId] = useState('');
+  const [rule, setRule] = useState<WithdrawalRule>('forfeit-remaining');
+  const plan = teamId ? getPlan(teamId, rule) : null;
+  const hasChanges = !!plan && plan.annulledMatches.length + plan.forfeitedMatches.length + plan.byeMatches.length > 0;
+
+  const handleConfirm = () => {
+    if (!plan) return;
+    onConfirm(teamId, rule);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-md md:max-w-lg max-h-[90vh] overflow-y-auto space-y-4">
+        <h3 className="text-lg font-bold text-gray-800 text-center">Team zurückziehen</h3>
+
+        <select
+          value={teamId}
+          onChange={e => setTeamId(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value="">Team auswählen …</option>
+          {teams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+
+        <div className="space-y-2">
+          {(Object.keys(WITHDRAWAL_RULE_LABELS) as WithdrawalRule[]).map(r => (
+            <label key={r} className="flex items-start gap-2 cursor-pointer text-sm text-gray-700">
+              <input type="radio" checked={rule === r} onChange={() => setRule(r)} className="mt-0.5" />
+              {WITHDRAWAL_RULE_LABELS[r]}
+            </label>
+          ))}
+        </div>
+
+        {plan && (
+          <div className="rounded-lg p-3 text-sm border bg-amber-50 border-amber-200 text-amber-800 space-y-2">
+            {hasChanges ? (
+              <>
+                <AffectedList title="Ergebnisse werden annulliert:" matches={plan.annulledMatches} />
+                <AffectedList title="Werden kampflos für den Gegner gewertet:" matches={plan.forfeitedMatches} />
+                <AffectedList title="Der Gegner erhält ein Freilos:" matches={plan.byeMatches} />
+              </>
+            ) : (
+              <p>Es sind keine offenen Spiele betroffen.</p>
+            )}
+            <p className="text-xs">
+              {rule === 'annul-results'
+                ? 'Das Team erscheint nicht mehr in der Tabelle und wird nicht mehr angesetzt.'
+                : 'Das Team wird in der Tabelle ans Ende gesetzt und nicht mehr angesetzt.'}
+            </p>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className="flex-1 py-3 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+          >
+            Abbrechen
+          </button>
+          <button
+            onClick={handleConfirm}
+            disabled={!plan}
+            className="flex-[2] py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium disabled:opacity-40"
+          >
+            Zurückziehen
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
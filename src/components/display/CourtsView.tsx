@@ -0,0 +1,44 @@
+import type { Match } from '../../types/tournament';
+import type { CourtOverview } from '../../utils/displayViews';
+import { formatMinutesToTime, getMinutesOfDay } from '../../utils/scheduling';
+
+interface CourtsViewProps {
+  courts: CourtOverview[];
+  getTeams: (match: Match) => [string, string];
+}
+
+/** One card per court with the running match and the one after it */
+export function CourtsView({ courts, getTeams }: CourtsViewProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+      {courts.map(({ courtNumber, current, next }) => {
+        const [teamA, teamB] = current ? getTeams(current) : ['', ''];
+        return (
+          <div key={courtNumber} className="bg-white rounded-xl shadow overflow-hidden">
+            <div className="bg-sky-600 text-white px-5 py-2 text-2xl font-bold">Feld {courtNumber}</div>
+            <div className="p-5 space-y-4">
+              {current ? (
+                <div>
+                  <p className="text-3xl font-bold text-gray-900">{teamA}</p>
+                  <p className="text-xl text-gray-500">gegen</p>
+                  <p className="text-3xl font-bold text-gray-900">{teamB}</p>
+                  <p className="mt-2 text-lg text-green-700">
+                    Läuft{current.startedAt && ` seit ${formatMinutesToTime(getMinutesOfDay(current.startedAt))} Uhr`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-2xl text-gray-400">Frei</p>
+              )}
+              {next && (
+                <div className="border-t pt-3 text-xl text-gray-700">
+                  <span className="font-semibold">Als Nächstes{next.scheduledTime && ` (${next.scheduledTime})`}:</span>{' '}
+                  {getTeams(next).join(' – ')}
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import type { Tournament } from '../../types/tournament';
+import { GroupStandingsTable, RegularStandingsTable } from '../standings';
+
+interface StandingsViewProps {
+  tournament: Tournament;
+  getTeamName: (teamId: string) => string;
+}
+
+/** Live group tables, or the table of the whole field for systems without groups */
+export function StandingsView({ tournament, getTeamName }: StandingsViewProps) {
+  const showSets = tournament.setsPerMatch === 2;
+  const groups = tournament.groupPhaseConfig?.groups ?? [];
+
+  if (groups.length > 0 && tournament.groupStandings) {
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {groups.map(group => (
+          <GroupStandingsTable
+            key={group.id}
+            group={group}
+            standings={tournament.groupStandings!.filter(s => s.groupId === group.id)}
+            getTeamName={getTeamName}
+            showSets={showSets}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return <RegularStandingsTable standings={tournament.standings} getTeamName={getTeamName} showSets={showSets} />;
+}
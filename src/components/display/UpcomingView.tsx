@@ -0,0 +1,46 @@
+import type { Match } from '../../types/tournament';
+import { formatDayLabel } from '../../utils/scheduling';
+
+interface UpcomingViewProps {
+  matches: Match[];
+  getTeams: (match: Match) => [string, string];
+  getReferee: (match: Match) => string | null;
+  /** Show the day of multi-day events */
+  showDate: boolean;
+}
+
+/** The next matches with time, court and referee */
+export function UpcomingView({ matches, getTeams, getReferee, showDate }: UpcomingViewProps) {
+  if (matches.length === 0) {
+    return <p className="text-3xl text-center text-gray-500 py-12">Keine weiteren Spiele</p>;
+  }
+
+  return (
+    <table className="w-full bg-white rounded-xl shadow overflow-hidden text-2xl">
+      <thead className="bg-sky-600 text-white text-left">
+        <tr>
+          <th className="px-5 py-3">Zeit</th>
+          <th className="px-5 py-3">Feld</th>
+          <th className="px-5 py-3">Spiel</th>
+          <th className="px-5 py-3">Schiedsrichter</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {matches.map(match => {
+          const referee = getReferee(match);
+          return (
+            <tr key={match.id}>
+              <td className="px-5 py-3 font-semibold whitespace-nowrap">
+                {showDate && match.scheduledDate && `${formatDayLabel(match.scheduledDate)} `}
+                {match.scheduledTime ?? '–'}
+              </td>
+              <td className="px-5 py-3">{match.courtNumber ?? '–'}</td>
+              <td className="px-5 py-3 font-medium">{getTeams(match).join(' – ')}</td>
+              <td className="px-5 py-3 text-gray-600">{referee ?? '–'}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
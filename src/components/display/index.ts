@@ -0,0 +1,3 @@
+export { CourtsView } from './CourtsView';
+export { UpcomingView } from './UpcomingView';
+export { StandingsView } from './StandingsView';
@@ -0,0 +1,47 @@
+import type { CourtAvailability } from '../../types/tournament';
+import { parseTimeToMinutes } from '../../utils/scheduling';
+
+interface CourtClosuresProps {
+  numberOfCourts: number;
+  courtAvailability?: CourtAvailability[];
+  currentTimeMinutes: number;
+  /** Today on a multi-day event; closures of other days are ignored */
+  currentDate?: string;
+  onCloseCourt: (courtNumber: number) => void;
+}
+
+/** Courts of the running tournament; closing one moves its open matches to the other courts */
+export function CourtClosures({ numberOfCourts, courtAvailability = [], currentTimeMinutes, currentDate, onCloseCourt }: CourtClosuresProps) {
+  const handleClose = (courtNumber: number) => {
+    if (confirm(`Feld ${courtNumber} ab sofort schließen?\n\nOffene Spiele werden auf die anderen Felder verteilt.`)) {
+      onCloseCourt(courtNumber);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white rounded-lg p-3 shadow-sm border border-gray-200 text-sm">
+      <span className="font-medium text-gray-700 mr-1">Felder</span>
+      {Array.from({ length: numberOfCourts }, (_, i) => i + 1).map(courtNumber => {
+        const until = courtAvailability
+          .filter(c => c.courtNumber === courtNumber && c.until && (!c.date || c.date === currentDate))
+          .map(c => c.until!)
+          .sort()[0];
+        const isClosed = !!until && parseTimeToMinutes(until) <= currentTimeMinutes;
+        return isClosed ? (
+          <span key={courtNumber} className="px-2 py-1 rounded bg-gray-100 text-gray-400 line-through" title={`Geschlossen seit ${until}`}>
+            Feld {courtNumber}
+          </span>
+        ) : (
+          <button
+            key={courtNumber}
+            onClick={() => handleClose(courtNumber)}
+            className="px-2 py-1 rounded bg-sky-100 text-sky-700 hover:bg-red-100 hover:text-red-700"
+            title="Feld schließen"
+          >
+            Feld {courtNumber}{until && ` (bis ${until})`}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
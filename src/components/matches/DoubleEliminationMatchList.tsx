@@ -0,0 +1,56 @@
+import type { Match } from '../../types/tournament';
+import { MatchListSection } from './MatchListSection';
+import { getDoubleEliminationRoundLabel } from '../../utils/doubleElimination';
+
+interface DoubleEliminationMatchListProps {
+  matches: Match[];
+  getTeamName: (teamId: string | null) => string;
+  onMatchClick: (match: Match) => void;
+  getScheduledTime: (match: Match) => string | null;
+  showDelayWarning: boolean;
+  currentTimeMinutes: number;
+  currentDate?: string;
+  getRefereeTeam?: (match: Match) => string | null;
+  allMatches: Match[];
+}
+
+export function DoubleEliminationMatchList({
+  matches,
+  getTeamName,
+  onMatchClick,
+  getScheduledTime,
+  showDelayWarning,
+  currentTimeMinutes,
+  currentDate,
+  getRefereeTeam,
+  allMatches,
+}: DoubleEliminationMatchListProps) {
+  // One section per bracket round in play order (winners bracket before losers bracket)
+  const sections = new Map<string, Match[]>();
+  [...matches]
+    .sort((a, b) => a.round - b.round || a.matchNumber - b.matchNumber)
+    .forEach(match => {
+      const key = `${match.round}-${match.knockoutRound}`;
+      sections.set(key, [...(sections.get(key) ?? []), match]);
+    });
+
+  return (
+    <>
+      {Array.from(sections.entries()).map(([key, sectionMatches]) => (
+        <MatchListSection
+          key={key}
+          title={getDoubleEliminationRoundLabel(sectionMatches[0], allMatches)}
+          matches={sectionMatches}
+          getTeamName={getTeamName}
+          onMatchClick={onMatchClick}
+          getScheduledTime={getScheduledTime}
+          showDelayWarning={showDelayWarning}
+          currentTimeMinutes={currentTimeMinutes}
+          currentDate={currentDate}
+          getRefereeTeam={getRefereeTeam}
+          titleColorClass={sectionMatches[0].knockoutRound === 'losers-bracket' ? 'text-amber-700' : 'text-sky-700'}
+        />
+      ))}
+    </>
+  );
+}
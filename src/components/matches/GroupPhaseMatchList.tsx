@@ -9,6 +9,8 @@ interface GroupPhaseMatchListProps {
   getScheduledTime: (match: Match) => string | null;
   showDelayWarning: boolean;
   currentTimeMinutes: number;
+  currentDate?: string;
+  getRefereeTeam?: (match: Match) => string | null;
 }
 
 export function GroupPhaseMatchList({
@@ -19,6 +21,8 @@ export function GroupPhaseMatchList({
   getScheduledTime,
   showDelayWarning,
   currentTimeMinutes,
+  currentDate,
+  getRefereeTeam,
 }: GroupPhaseMatchListProps) {
   return (
     <>
@@ -34,6 +38,8 @@ export function GroupPhaseMatchList({
             getScheduledTime={getScheduledTime}
             showDelayWarning={showDelayWarning}
             currentTimeMinutes={currentTimeMinutes}
+            currentDate={currentDate}
+            getRefereeTeam={getRefereeTeam}
           />
         );
       })}
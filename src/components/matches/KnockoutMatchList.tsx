@@ -10,11 +10,15 @@ interface KnockoutMatchListProps {
   getScheduledTime: (match: Match) => string | null;
   showDelayWarning: boolean;
   currentTimeMinutes: number;
+  currentDate?: string;
   getRefereeTeam: (match: Match) => string | null;
 }
 
 const KNOCKOUT_ROUNDS: KnockoutRoundType[] = [
   'intermediate',
+  'round-of-64',
+  'round-of-32',
+  'round-of-16',
   'quarterfinal',
   'semifinal',
   'third-place',
@@ -28,6 +32,7 @@ export function KnockoutMatchList({
   getScheduledTime,
   showDelayWarning,
   currentTimeMinutes,
+  currentDate,
   getRefereeTeam,
 }: KnockoutMatchListProps) {
   return (
@@ -44,6 +49,7 @@ export function KnockoutMatchList({
             getScheduledTime={getScheduledTime}
             showDelayWarning={showDelayWarning}
             currentTimeMinutes={currentTimeMinutes}
+            currentDate={currentDate}
             getRefereeTeam={getRefereeTeam}
             getPlayoffLabel={(match) => match.playoffForPlace ? getPlayoffMatchLabel(match.playoffForPlace) : undefined}
           />
@@ -9,6 +9,7 @@ interface MatchListSectionProps {
   getScheduledTime: (match: Match) => string | null;
   showDelayWarning: boolean;
   currentTimeMinutes: number;
+  currentDate?: string;
   getPlayoffLabel?: (match: Match) => string | undefined;
   getRefereeTeam?: (match: Match) => string | null;
   titleColorClass?: string;
@@ -22,6 +23,7 @@ export function MatchListSection({
   getScheduledTime,
   showDelayWarning,
   currentTimeMinutes,
+  currentDate,
   getPlayoffLabel,
   getRefereeTeam,
   titleColorClass = 'text-sky-700',
@@ -45,6 +47,7 @@ export function MatchListSection({
             refereeTeam={getRefereeTeam?.(match) ?? undefined}
             showDelayWarning={showDelayWarning}
             currentTimeMinutes={currentTimeMinutes}
+            currentDate={currentDate}
           />
         ))}
       </div>
@@ -1,3 +1,6 @@
+import { Link } from 'react-router-dom';
+import { Monitor, Printer } from 'lucide-react';
+
 interface MatchesHeaderProps {
   isSwissSystem: boolean;
   currentRound: number;
@@ -21,9 +24,17 @@ export function MatchesHeader({
     <>
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-bold text-gray-800">Spielplan</h2>
-        <span className="text-sm text-gray-500">
-          {isSwissSystem ? `Runde ${currentRound}/${maxRounds}` : `${completedCount}/${totalCount} Spiele`}
-        </span>
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-500">
+            {isSwissSystem ? `Runde ${currentRound}/${maxRounds}` : `${completedCount}/${totalCount} Spiele`}
+          </span>
+          <Link to="/display" target="_blank" className="p-1 text-gray-500 hover:text-sky-600" title="Zuschaueranzeige in neuem Tab öffnen">
+            <Monitor className="w-5 h-5" />
+          </Link>
+          <Link to="/print" className="p-1 text-gray-500 hover:text-sky-600" title="Spielplan und Spielberichtsbögen drucken">
+            <Printer className="w-5 h-5" />
+          </Link>
+        </div>
       </div>
 
       <div className="bg-gray-200 rounded-full h-2">
@@ -9,6 +9,8 @@ interface PlacementTreeMatchListProps {
   getScheduledTime: (match: Match) => string | null;
   showDelayWarning: boolean;
   currentTimeMinutes: number;
+  currentDate?: string;
+  getRefereeTeam?: (match: Match) => string | null;
 }
 
 const PLACEMENT_TREE_ROUNDS: KnockoutRoundType[] = [
@@ -26,6 +28,8 @@ export function PlacementTreeMatchList({
   getScheduledTime,
   showDelayWarning,
   currentTimeMinutes,
+  currentDate,
+  getRefereeTeam,
 }: PlacementTreeMatchListProps) {
   return (
     <>
@@ -41,6 +45,8 @@ export function PlacementTreeMatchList({
             getScheduledTime={getScheduledTime}
             showDelayWarning={showDelayWarning}
             currentTimeMinutes={currentTimeMinutes}
+            currentDate={currentDate}
+            getRefereeTeam={getRefereeTeam}
             getPlayoffLabel={(match) => match.playoffForPlace ? `Platz ${match.playoffForPlace}` : undefined}
           />
         );
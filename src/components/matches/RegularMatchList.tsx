@@ -9,6 +9,8 @@ interface RegularMatchListProps {
   getScheduledTime: (match: Match) => string | null;
   showDelayWarning: boolean;
   currentTimeMinutes: number;
+  currentDate?: string;
+  getRefereeTeam?: (match: Match) => string | null;
 }
 
 export function RegularMatchList({
@@ -18,6 +20,8 @@ export function RegularMatchList({
   getScheduledTime,
   showDelayWarning,
   currentTimeMinutes,
+  currentDate,
+  getRefereeTeam,
 }: RegularMatchListProps) {
   const rounds = Array.from(new Set(matches.map(m => m.round))).sort((a, b) => a - b);
 
@@ -36,6 +40,8 @@ export function RegularMatchList({
             getScheduledTime={getScheduledTime}
             showDelayWarning={showDelayWarning}
             currentTimeMinutes={currentTimeMinutes}
+            currentDate={currentDate}
+            getRefereeTeam={getRefereeTeam}
             titleColorClass={isPlayoffRound ? 'text-amber-700' : 'text-gray-600'}
             getPlayoffLabel={(match) =>
               match.isPlayoff && match.playoffForPlace
@@ -0,0 +1,44 @@
+import type { EventCalendar, Tournament } from '../../types/tournament';
+import {
+  formatDayLabel,
+  formatTimelineMinutes,
+  getDayEndMinutes,
+  parseTimeToMinutes,
+  projectScheduleEnd,
+} from '../../utils/scheduling';
+
+interface ScheduleForecastProps {
+  phases: Tournament[];
+  endTime: string;
+  /** Minutes on the timeline of the event calendar */
+  currentTimeMinutes: number;
+  calendar?: EventCalendar;
+}
+
+/** Projected finish from the actual progress compared with the planned end (of the last day) */
+export function ScheduleForecast({ phases, endTime, currentTimeMinutes, calendar }: ScheduleForecastProps) {
+  const projectedEnd = projectScheduleEnd(phases, currentTimeMinutes, calendar);
+  if (projectedEnd === null) return null;
+
+  const days = calendar?.days.length ? calendar.days : undefined;
+  const plannedEnd = days ? getDayEndMinutes(days, days.length - 1) : parseTimeToMinutes(endTime);
+  const difference = projectedEnd - plannedEnd;
+  const isLate = difference > 0;
+  const end = formatTimelineMinutes(projectedEnd, days);
+
+  return (
+    <div
+      className={`flex items-center justify-between rounded-lg p-3 border text-sm ${
+        isLate ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'
+      }`}
+    >
+      <span>
+        Voraussichtliches Ende: <span className="font-bold">{end.date && `${formatDayLabel(end.date)} `}{end.time}</span>
+        <span className="opacity-75"> (geplant bis {days ? days[days.length - 1].endTime : endTime})</span>
+      </span>
+      <span className="font-medium">
+        {isLate ? `+${difference} Min. Verzug` : difference < 0 ? `${-difference} Min. Puffer` : 'im Plan'}
+      </span>
+    </div>
+  );
+}
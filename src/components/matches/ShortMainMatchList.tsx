@@ -10,6 +10,8 @@ interface ShortMainMatchListProps {
   getScheduledTime: (match: Match) => string | null;
   showDelayWarning: boolean;
   currentTimeMinutes: number;
+  currentDate?: string;
+  getRefereeTeam?: (match: Match) => string | null;
 }
 
 const SHORT_MAIN_ROUNDS: KnockoutRoundType[] = [
@@ -30,6 +32,8 @@ export function ShortMainMatchList({
   getScheduledTime,
   showDelayWarning,
   currentTimeMinutes,
+  currentDate,
+  getRefereeTeam,
 }: ShortMainMatchListProps) {
   return (
     <>
@@ -45,6 +49,8 @@ export function ShortMainMatchList({
             getScheduledTime={getScheduledTime}
             showDelayWarning={showDelayWarning}
             currentTimeMinutes={currentTimeMinutes}
+            currentDate={currentDate}
+            getRefereeTeam={getRefereeTeam}
             getPlayoffLabel={(match) => match.playoffForPlace ? getPlayoffMatchLabel(match.playoffForPlace) : undefined}
           />
         );
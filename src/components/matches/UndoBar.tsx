@@ -0,0 +1,26 @@
+import { Link } from 'react-router-dom';
+import { Undo2 } from 'lucide-react';
+
+interface UndoBarProps {
+  description: string;
+  onUndo: () => void;
+}
+
+export function UndoBar({ description, onUndo }: UndoBarProps) {
+  return (
+    <div className="flex items-center gap-3 bg-white border border-gray-200 rounded-lg px-4 py-2 shadow-sm">
+      <p className="flex-1 text-sm text-gray-600 truncate">
+        Zuletzt: <span className="text-gray-800">{description}</span>
+      </p>
+      <Link to="/history" className="text-xs text-sky-600 hover:text-sky-800">
+        Verlauf
+      </Link>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 px-3 py-1.5 bg-amber-500 text-white rounded-lg text-sm font-medium hover:bg-amber-600 transition-colors"
+      >
+        <Undo2 className="w-4 h-4" /> Rückgängig
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+interface WithdrawTeamPromptProps {
+  /** Names of teams already withdrawn from this phase */
+  withdrawnTeams: string[];
+  onOpenModal: () => void;
+}
+
+export function WithdrawTeamPrompt({ withdrawnTeams, onOpenModal }: WithdrawTeamPromptProps) {
+  return (
+    <div className="flex items-center justify-between gap-3 bg-white rounded-lg p-3 shadow-sm border border-gray-200">
+      <span className="text-sm text-gray-600">
+        {withdrawnTeams.length > 0
+          ? `Zurückgezogen: ${withdrawnTeams.join(', ')}`
+          : 'Fällt ein Team aus, kann es aus dem laufenden Turnier zurückgezogen werden.'}
+      </span>
+      <button
+        onClick={onOpenModal}
+        className="shrink-0 px-3 py-1.5 text-sm border border-red-300 text-red-700 rounded-lg hover:bg-red-50"
+      >
+        Team zurückziehen
+      </button>
+    </div>
+  );
+}
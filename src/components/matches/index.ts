@@ -3,9 +3,14 @@ export { NextRoundPrompt, SwissCompleteBanner } from './SwissRoundPrompts';
 export { PlayoffPrompt } from './PlayoffPrompt';
 export { ViewModeToggle } from './ViewModeToggle';
 export { DelayWarningToggle } from './DelayWarningToggle';
+export { ScheduleForecast } from './ScheduleForecast';
+export { CourtClosures } from './CourtClosures';
 export { MatchListSection } from './MatchListSection';
 export { GroupPhaseMatchList } from './GroupPhaseMatchList';
 export { KnockoutMatchList } from './KnockoutMatchList';
 export { ShortMainMatchList } from './ShortMainMatchList';
 export { PlacementTreeMatchList } from './PlacementTreeMatchList';
+export { DoubleEliminationMatchList } from './DoubleEliminationMatchList';
 export { RegularMatchList } from './RegularMatchList';
+export { UndoBar } from './UndoBar';
+export { WithdrawTeamPrompt } from './WithdrawTeamPrompt';
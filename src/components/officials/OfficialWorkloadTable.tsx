@@ -0,0 +1,48 @@
+import type { OfficialWorkload } from '../../utils/officials';
+import { OFFICIAL_LICENSE_LABELS } from '../../utils/officials';
+
+interface OfficialWorkloadTableProps {
+  workload: OfficialWorkload[];
+}
+
+const HEADER = 'px-3 py-3 text-xs font-semibold text-gray-600 uppercase tracking-wider';
+
+/** Assigned matches, finals and semifinals and time on court per official */
+export function OfficialWorkloadTable({ workload }: OfficialWorkloadTableProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={`${HEADER} text-left`}>Schiedsrichter</th>
+              <th className={`${HEADER} text-center`}>Spiele</th>
+              <th className={`${HEADER} text-center`}>Gepfiffen</th>
+              <th className={`${HEADER} text-center`}>HF/Finale</th>
+              <th className={`${HEADER} text-center hidden sm:table-cell`}>Einsatzzeit</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {workload.map(({ official, matches, completed, deciding, minutes }) => (
+              <tr key={official.id}>
+                <td className="px-3 py-3">
+                  <div className="font-medium text-gray-800">{official.name || 'Ohne Namen'}</div>
+                  <div className="text-xs text-gray-500">
+                    {OFFICIAL_LICENSE_LABELS[official.license]}
+                    {official.maxMatches !== undefined && ` · max. ${official.maxMatches} Spiele`}
+                  </div>
+                </td>
+                <td className="px-3 py-3 text-center">{matches}</td>
+                <td className="px-3 py-3 text-center">{completed}</td>
+                <td className="px-3 py-3 text-center">{deciding}</td>
+                <td className="px-3 py-3 text-center hidden sm:table-cell">
+                  {minutes > 0 ? `${Math.floor(minutes / 60)}h ${minutes % 60}min` : '–'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
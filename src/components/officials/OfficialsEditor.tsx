@@ -0,0 +1,124 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import type { EventDay, Official, OfficialLicense, TimeWindow } from '../../types/tournament';
+import { OFFICIAL_LICENSES, OFFICIAL_LICENSE_LABELS } from '../../utils/officials';
+import { formatDayLabel } from '../../utils/scheduling';
+
+interface OfficialsEditorProps {
+  officials: Official[];
+  onChange: (officials: Official[]) => void;
+  /** Days of a multi-day event; windows can then be limited to one day */
+  days?: EventDay[];
+}
+
+const DEFAULT_WINDOW: TimeWindow = { start: '09:00', end: '13:00' };
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-sky-500 focus:border-sky-500';
+
+/**
+ * Referee pool with license, maximum number of matches and availability;
+ * an official without windows is available all the time
+ */
+export function OfficialsEditor({ officials, onChange, days }: OfficialsEditorProps) {
+  const update = (id: string, changes: Partial<Official>) =>
+    onChange(officials.map(o => (o.id === id ? { ...o, ...changes } : o)));
+  const updateWindows = (official: Official, windows: TimeWindow[]) =>
+    update(official.id, { availability: windows.length > 0 ? windows : undefined });
+
+  return (
+    <div className="space-y-3">
+      {officials.map(official => {
+        const windows = official.availability ?? [];
+        return (
+          <div key={official.id} className="bg-white rounded-lg p-4 shadow-sm space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={official.name}
+                onChange={e => update(official.id, { name: e.target.value })}
+                placeholder="Name"
+                className={`${inputClass} flex-1 min-w-40`}
+              />
+              <select
+                value={official.license}
+                onChange={e => update(official.id, { license: e.target.value as OfficialLicense })}
+                className={inputClass}
+              >
+                {OFFICIAL_LICENSES.map(l => <option key={l} value={l}>{OFFICIAL_LICENSE_LABELS[l]}</option>)}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={official.maxMatches ?? ''}
+                onChange={e => update(official.id, { maxMatches: parseInt(e.target.value) || undefined })}
+                placeholder="max. Spiele"
+                title="Höchstens so viele Spiele; leer lassen für unbegrenzt"
+                className={`${inputClass} w-28`}
+              />
+              <button
+                onClick={() => onChange(officials.filter(o => o.id !== official.id))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Schiedsrichter entfernen"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div>
+              <p className="text-xs text-gray-500 mb-1">
+                {windows.length > 0 ? 'Verfügbar:' : 'Ganztägig verfügbar'}
+              </p>
+              {windows.map((window, index) => (
+                <div key={index} className="flex items-center gap-2 mb-2">
+                  {days && days.length > 1 && (
+                    <select
+                      value={window.date ?? ''}
+                      onChange={e => updateWindows(official, windows.map((w, i) => (i === index ? { ...w, date: e.target.value || undefined } : w)))}
+                      className={inputClass}
+                    >
+                      <option value="">Jeden Tag</option>
+                      {days.map(d => <option key={d.date} value={d.date}>{formatDayLabel(d.date)}</option>)}
+                    </select>
+                  )}
+                  <input
+                    type="time"
+                    value={window.start}
+                    onChange={e => updateWindows(official, windows.map((w, i) => (i === index ? { ...w, start: e.target.value } : w)))}
+                    className={inputClass}
+                  />
+                  <span className="text-gray-500">–</span>
+                  <input
+                    type="time"
+                    value={window.end}
+                    onChange={e => updateWindows(official, windows.map((w, i) => (i === index ? { ...w, end: e.target.value } : w)))}
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => updateWindows(official, windows.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Zeitfenster entfernen"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => updateWindows(official, [...windows, DEFAULT_WINDOW])}
+                className="inline-flex items-center gap-1 text-sm text-sky-600 hover:underline"
+              >
+                <Plus className="w-4 h-4" /> Zeitfenster hinzufügen
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={() => onChange([...officials, { id: uuidv4(), name: '', license: 'C' }])}
+        className="inline-flex items-center gap-1 px-4 py-2 bg-white rounded-lg shadow-sm text-sm text-sky-600 hover:bg-sky-50"
+      >
+        <Plus className="w-4 h-4" /> Schiedsrichter hinzufügen
+      </button>
+    </div>
+  );
+}
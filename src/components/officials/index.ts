@@ -0,0 +1,2 @@
+export { OfficialsEditor } from './OfficialsEditor';
+export { OfficialWorkloadTable } from './OfficialWorkloadTable';
@@ -0,0 +1,62 @@
+import type { EventDay, Match, Official, Tournament } from '../../types/tournament';
+import { OFFICIAL_LICENSE_LABELS, getOfficialSchedule } from '../../utils/officials';
+import { formatDayLabel } from '../../utils/scheduling';
+
+interface OfficialScheduleProps {
+  official: Official;
+  /** All phases of the tournament; an official may work in several */
+  phases: Tournament[];
+  days?: EventDay[];
+}
+
+/** Team names of a match; later phases may refer to teams of an earlier one */
+function getTeams(match: Match, phase: Tournament, phases: Tournament[]): [string, string] {
+  const name = (teamId: string | null) => teamId
+    ? (phase.teams.find(t => t.id === teamId) ?? phases.flatMap(p => p.teams).find(t => t.id === teamId))?.name
+    : undefined;
+  return [name(match.teamAId) || match.teamAPlaceholder || 'TBD', name(match.teamBId) || match.teamBPlaceholder || 'TBD'];
+}
+
+/** Personal schedule of one official over all phases, in order of the planned start */
+export function OfficialSchedule({ official, phases, days }: OfficialScheduleProps) {
+  const duties = getOfficialSchedule(phases, official.id, days);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-bold text-gray-800">
+        {official.name} <span className="text-sm font-normal text-gray-500">({OFFICIAL_LICENSE_LABELS[official.license]})</span>
+      </h3>
+      {duties.length === 0 ? (
+        <p className="text-sm text-gray-500">Keine Einsätze</p>
+      ) : (
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="border border-gray-400 px-2 py-1 text-left">Zeit</th>
+              <th className="border border-gray-400 px-2 py-1 text-left">Feld</th>
+              <th className="border border-gray-400 px-2 py-1 text-left">Phase</th>
+              <th className="border border-gray-400 px-2 py-1 text-left">Spiel</th>
+            </tr>
+          </thead>
+          <tbody>
+            {duties.map(({ phase, match }) => {
+              const [teamA, teamB] = getTeams(match, phase, phases);
+              return (
+                <tr key={match.id} className={match.status === 'completed' ? 'text-gray-400' : undefined}>
+                  <td className="border border-gray-400 px-2 py-1 whitespace-nowrap">
+                    {match.scheduledDate && days ? `${formatDayLabel(match.scheduledDate)} ` : ''}{match.scheduledTime ?? '–'}
+                  </td>
+                  <td className="border border-gray-400 px-2 py-1">{match.courtNumber ?? '–'}</td>
+                  <td className="border border-gray-400 px-2 py-1">{phase.phaseName || phase.name}</td>
+                  <td className="border border-gray-400 px-2 py-1">
+                    <span className="text-gray-500">#{match.matchNumber}</span> {teamA} – {teamB}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Fragment } from 'react';
+import type { Match } from '../../types/tournament';
+import type { ScheduleGrid } from '../../utils/printSheets';
+import { formatDayLabel } from '../../utils/scheduling';
+
+interface PrintScheduleGridProps {
+  grid: ScheduleGrid;
+  getTeams: (match: Match) => [string, string];
+  getReferee: (match: Match) => string | null;
+}
+
+function MatchCell({ match, getTeams, getReferee }: { match: Match } & Omit<PrintScheduleGridProps, 'grid'>) {
+  const [teamA, teamB] = getTeams(match);
+  const referee = getReferee(match);
+  return (
+    <div className="leading-tight">
+      <span className="text-gray-500">#{match.matchNumber}</span> {teamA} – {teamB}
+      {referee && <div className="text-xs text-gray-500">SR: {referee}</div>}
+    </div>
+  );
+}
+
+/** Time × court table of all matches of a phase; a day heading starts every day of a multi-day event */
+export function PrintScheduleGrid({ grid, getTeams, getReferee }: PrintScheduleGridProps) {
+  if (grid.rows.length === 0 && grid.unscheduled.length === 0) {
+    return <p className="text-sm text-gray-500">Keine Spiele</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {grid.rows.length > 0 && (
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr>
+              <th className="border border-gray-400 px-2 py-1 w-16 text-left">Zeit</th>
+              {grid.courts.map(court => (
+                <th key={court} className="border border-gray-400 px-2 py-1 text-left">Feld {court}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.rows.map((row, index) => (
+              <Fragment key={row.minutes}>
+                {row.date && row.date !== grid.rows[index - 1]?.date && (
+                  <tr className="break-inside-avoid">
+                    <td colSpan={grid.courts.length + 1} className="border border-gray-400 px-2 py-1 font-semibold bg-gray-100">
+                      {formatDayLabel(row.date)}
+                    </td>
+                  </tr>
+                )}
+                <tr className="break-inside-avoid">
+                  <td className="border border-gray-400 px-2 py-1 font-medium align-top">{row.time}</td>
+                  {row.cells.map((matches, court) => (
+                    <td key={court} className="border border-gray-400 px-2 py-1 align-top">
+                      {matches.map(match => (
+                        <MatchCell key={match.id} match={match} getTeams={getTeams} getReferee={getReferee} />
+                      ))}
+                    </td>
+                  ))}
+                </tr>
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {grid.unscheduled.length > 0 && (
+        <div className="text-sm break-inside-avoid">
+          <h3 className="font-semibold mb-1">Ohne Feld und Uhrzeit</h3>
+          {grid.unscheduled.map(match => (
+            <MatchCell key={match.id} match={match} getTeams={getTeams} getReferee={getReferee} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import type { ScoresheetSet } from '../../utils/printSheets';
+
+interface ScoresheetProps {
+  phaseName: string;
+  matchNumber: number;
+  teamA: string;
+  teamB: string;
+  referee: string | null;
+  court: number | null;
+  start: string | null;
+  sets: ScoresheetSet[];
+}
+
+function PointBoxes({ boxes }: { boxes: number }) {
+  return (
+    <div className="flex flex-wrap">
+      {Array.from({ length: boxes }, (_, i) => (
+        <span key={i} className="w-5 h-5 border border-gray-400 -ml-px -mt-px text-[9px] text-gray-400 flex items-center justify-center">
+          {i + 1}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+/** Scoresheet of one match: a row of point boxes per team and set to cross off, the set result and signatures */
+export function Scoresheet({ phaseName, matchNumber, teamA, teamB, referee, court, start, sets }: ScoresheetProps) {
+  return (
+    <div className="border-2 border-gray-800 rounded p-3 text-sm space-y-2 break-inside-avoid">
+      <div className="flex justify-between font-semibold">
+        <span>{phaseName} · Spiel {matchNumber}</span>
+        <span>
+          {court !== null && `Feld ${court}`}
+          {start && ` · ${start}`}
+        </span>
+      </div>
+      <p>Schiedsrichter: {referee ?? '________________'}</p>
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="text-left text-xs text-gray-600">
+            <th className="pr-2 font-medium w-14">Satz</th>
+            <th className="pr-2 font-medium">Team</th>
+            <th className="pr-2 font-medium">Punkte</th>
+            <th className="font-medium w-14">Ergebnis</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sets.map(set => (
+            [teamA, teamB].map((team, side) => (
+              <tr key={`${set.label}-${side}`} className={side === 1 ? 'border-b border-gray-300' : ''}>
+                {side === 0 && (
+                  <td rowSpan={2} className="pr-2 align-middle text-xs">
+                    {set.label}
+                    <div className="text-gray-500">bis {set.points}</div>
+                  </td>
+                )}
+                <td className="pr-2 py-0.5 max-w-32 truncate">{team}</td>
+                <td className="pr-2 py-0.5"><PointBoxes boxes={set.boxes} /></td>
+                <td className="py-0.5"><span className="block w-12 h-6 border border-gray-600" /></td>
+              </tr>
+            ))
+          ))}
+        </tbody>
+      </table>
+
+      <div className="grid grid-cols-3 gap-4 pt-4 text-xs text-gray-600">
+        <span className="border-t border-gray-600 pt-1">Gewinner</span>
+        <span className="border-t border-gray-600 pt-1">Unterschrift {teamA}</span>
+        <span className="border-t border-gray-600 pt-1">Unterschrift {teamB}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { PrintScheduleGrid } from './PrintScheduleGrid';
+export { Scoresheet } from './Scoresheet';
+export { OfficialSchedule } from './OfficialSchedule';
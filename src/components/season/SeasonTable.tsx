@@ -0,0 +1,75 @@
+import { getBestPlacement, getWinRate, type SeasonRecord } from '../../utils/season';
+
+interface SeasonTableProps {
+  records: SeasonRecord[];
+  nameLabel: string;
+  /** Teams only: links a team to another one, e.g. after a rename */
+  onLink?: (key: string, intoKey: string) => void;
+}
+
+const HEADER = 'px-3 py-3 text-xs font-semibold text-gray-600 uppercase tracking-wider';
+
+/** Won to lost as a ratio with two decimals; "–" without any */
+function formatRatio(won: number, lost: number): string {
+  if (lost === 0) return won > 0 ? '∞' : '–';
+  return (won / lost).toFixed(2).replace('.', ',');
+}
+
+/** Season statistics of teams or players, one row each */
+export function SeasonTable({ records, nameLabel, onLink }: SeasonTableProps) {
+  if (records.length === 0) {
+    return <p className="text-center py-12 text-gray-500">Keine Ergebnisse in dieser Saison</p>;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={`${HEADER} text-left`}>{nameLabel}</th>
+              <th className={`${HEADER} text-center`}>Turniere</th>
+              <th className={`${HEADER} text-center`}>Beste</th>
+              <th className={`${HEADER} text-center`}>Sp</th>
+              <th className={`${HEADER} text-center`}>Siege</th>
+              <th className={`${HEADER} text-center hidden sm:table-cell`}>Satzquote</th>
+              <th className={`${HEADER} text-center hidden md:table-cell`}>Ballquote</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {records.map(record => (
+              <tr key={record.key}>
+                <td className="px-3 py-3">
+                  <div className="font-medium text-gray-800">{record.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {record.events.map(e => `${e.name}${e.placement ? ` (${e.placement})` : ''}`).join(' · ')}
+                  </div>
+                  {onLink && records.length > 1 && (
+                    <select
+                      value=""
+                      onChange={e => e.target.value && onLink(record.key, e.target.value)}
+                      className="mt-1 text-xs border border-gray-200 rounded px-1 py-0.5 text-gray-600"
+                    >
+                      <option value="">Verknüpfen mit …</option>
+                      {records.filter(r => r.key !== record.key).map(r => (
+                        <option key={r.key} value={r.key}>{r.name}</option>
+                      ))}
+                    </select>
+                  )}
+                </td>
+                <td className="px-3 py-3 text-center">{record.events.length}</td>
+                <td className="px-3 py-3 text-center">{getBestPlacement(record) ?? '–'}</td>
+                <td className="px-3 py-3 text-center">{record.played}</td>
+                <td className="px-3 py-3 text-center whitespace-nowrap">
+                  {record.won} ({Math.round(getWinRate(record) * 100)} %)
+                </td>
+                <td className="px-3 py-3 text-center hidden sm:table-cell">{formatRatio(record.setsWon, record.setsLost)}</td>
+                <td className="px-3 py-3 text-center hidden md:table-cell">{formatRatio(record.pointsWon, record.pointsLost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1 @@
+export { SeasonTable } from './SeasonTable';
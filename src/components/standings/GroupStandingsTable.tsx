@@ -1,4 +1,5 @@
 import type { GroupStandingEntry, Group } from '../../types/tournament';
+import { TiebreakNote } from './TiebreakNote';
 
 interface GroupStandingsTableProps {
   group: Group;
@@ -56,6 +57,7 @@ export function GroupStandingsTable({ group, standings, getTeamName, showSets }:
                     <span className="font-medium text-gray-800">
                       {getTeamName(entry.teamId)}
                     </span>
+                    <TiebreakNote criterion={entry.decidedBy} tiedForLots={entry.tiedForLots} />
                   </td>
                   <td className="px-3 py-2 whitespace-nowrap text-center text-gray-600">
                     {entry.played}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+
+interface LotsDrawProps {
+  /** Teams still tied when the tiebreaker chain reached drawing lots, in table order */
+  teamIds: string[];
+  getTeamName: (teamId: string) => string;
+  onDraw: (teamIds: string[]) => void;
+}
+
+/** Random order of the given teams */
+function shuffle(teamIds: string[]): string[] {
+  const order = [...teamIds];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * Draws lots for tied teams, or takes over the order of a draw held on site
+ * Only the order among teams tied with each other counts.
+ */
+export function LotsDraw({ teamIds, getTeamName, onDraw }: LotsDrawProps) {
+  const [order, setOrder] = useState(teamIds);
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...order];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setOrder(next);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-semibold text-amber-800">Losentscheid ausstehend</h3>
+        <p className="text-xs text-amber-700">
+          Diese Teams sind nach allen anderen Kriterien gleichauf. Das Los ziehen oder die Reihenfolge einer Auslosung vor Ort eintragen.
+        </p>
+      </div>
+      <ol className="space-y-1">
+        {order.map((teamId, index) => (
+          <li key={teamId} className="flex items-center gap-2 px-3 py-1.5 bg-white rounded-lg">
+            <span className="w-5 text-sm text-gray-400">{index + 1}.</span>
+            <span className="flex-1 text-sm text-gray-800">{getTeamName(teamId)}</span>
+            <button
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="p-1 text-gray-500 hover:text-sky-600 disabled:opacity-30"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => move(index, 1)}
+              disabled={index === order.length - 1}
+              className="p-1 text-gray-500 hover:text-sky-600 disabled:opacity-30"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </button>
+          </li>
+        ))}
+      </ol>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onDraw(shuffle(teamIds))}
+          className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded-lg hover:bg-amber-700"
+        >
+          Los ziehen
+        </button>
+        <button
+          onClick={() => onDraw(order)}
+          className="px-3 py-1.5 text-sm border border-amber-300 text-amber-800 rounded-lg hover:bg-amber-100"
+        >
+          Reihenfolge übernehmen
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import type { StandingEntry } from '../../types/tournament';
+import type { SwissScore } from '../../utils/swissTiebreaks';
+import { TiebreakNote } from './TiebreakNote';
 
 interface RegularStandingsTableProps {
   standings: StandingEntry[];
   getTeamName: (teamId: string) => string;
   showSets: boolean;
+  nameLabel?: string;
+  swissScores?: Map<string, SwissScore>; // Swiss: shows Buchholz and Sonneborn-Berger columns
 }
 
-export function RegularStandingsTable({ standings, getTeamName, showSets }: RegularStandingsTableProps) {
+export function RegularStandingsTable({ standings, getTeamName, showSets, nameLabel = 'Team', swissScores }: RegularStandingsTableProps) {
   return (
     <div className="bg-white rounded-lg shadow-sm overflow-hidden">
       <div className="overflow-x-auto">
@@ -14,7 +18,7 @@ export function RegularStandingsTable({ standings, getTeamName, showSets }: Regu
           <thead className="bg-gray-50">
             <tr>
               <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">#</th>
-              <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Team</th>
+              <th className="px-3 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">{nameLabel}</th>
               <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider">Sp</th>
               <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider">S</th>
               <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider">N</th>
@@ -23,6 +27,12 @@ export function RegularStandingsTable({ standings, getTeamName, showSets }: Regu
               )}
               <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider hidden md:table-cell">Punkte</th>
               <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider">+/-</th>
+              {swissScores && (
+                <>
+                  <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider">BH</th>
+                  <th className="px-3 py-3 text-center text-xs font-semibold text-gray-600 uppercase tracking-wider hidden sm:table-cell">SB</th>
+                </>
+              )}
             </tr>
           </thead>
           <tbody className="divide-y divide-gray-100">
@@ -58,6 +68,7 @@ export function RegularStandingsTable({ standings, getTeamName, showSets }: Regu
                   </td>
                   <td className="px-3 py-3 whitespace-nowrap">
                     <span className="font-medium text-gray-800">{getTeamName(entry.teamId)}</span>
+                    <TiebreakNote criterion={entry.decidedBy} tiedForLots={entry.tiedForLots} />
                   </td>
                   <td className="px-3 py-3 whitespace-nowrap text-center text-gray-600">{entry.played}</td>
                   <td className="px-3 py-3 whitespace-nowrap text-center text-green-600 font-medium">{entry.won}</td>
@@ -75,6 +86,12 @@ export function RegularStandingsTable({ standings, getTeamName, showSets }: Regu
                       {pointDiff > 0 ? '+' : ''}{pointDiff}
                     </span>
                   </td>
+                  {swissScores && (
+                    <>
+                      <td className="px-3 py-3 whitespace-nowrap text-center text-gray-600">{swissScores.get(entry.teamId)?.buchholz ?? 0}</td>
+                      <td className="px-3 py-3 whitespace-nowrap text-center text-gray-600 hidden sm:table-cell">{swissScores.get(entry.teamId)?.sonnebornBerger ?? 0}</td>
+                    </>
+                  )}
                 </tr>
               );
             })}
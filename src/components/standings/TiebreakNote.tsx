@@ -0,0 +1,30 @@
+import type { TiebreakerCriterion } from '../../types/tournament';
+import { TIEBREAKER_LABELS } from '../../utils/tiebreakers';
+
+interface TiebreakNoteProps {
+  criterion?: TiebreakerCriterion;
+  /** Tied until lots are drawn */
+  tiedForLots?: boolean;
+}
+
+/**
+ * Shows which tiebreaker ranked a team below the tied team above it, or that lots are still to be drawn
+ */
+export function TiebreakNote({ criterion, tiedForLots }: TiebreakNoteProps) {
+  if (tiedForLots) {
+    return (
+      <span className="block text-xs font-normal text-amber-600" title="Gleichstand nach allen Kriterien, das Los ist noch nicht gezogen">
+        = Los ausstehend
+      </span>
+    );
+  }
+  if (!criterion) return null;
+  return (
+    <span
+      className="block text-xs font-normal text-gray-400"
+      title={`Gleichstand mit dem Team darüber, entschieden durch ${TIEBREAKER_LABELS[criterion]}`}
+    >
+      ↑ {TIEBREAKER_LABELS[criterion]}
+    </span>
+  );
+}
@@ -3,3 +3,5 @@ export { TournamentCompleteBanner } from './TournamentCompleteBanner';
 export { PlacementsList } from './PlacementsList';
 export { GroupStandingsTable } from './GroupStandingsTable';
 export { RegularStandingsTable } from './RegularStandingsTable';
+export { TiebreakNote } from './TiebreakNote';
+export { LotsDraw } from './LotsDraw';
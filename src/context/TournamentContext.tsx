@@ -1,8 +1,15 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useEffect, useState } from 'react';
 import type { ReactNode } from 'react';
 import type { Tournament, TournamentContainer } from '../types/tournament';
-import { initialState, type TournamentState, type TournamentAction } from './tournamentActions';
-import { tournamentReducer } from './tournamentReducer';
+import type { TournamentState, TournamentAction } from './tournamentActions';
+import type { ServerSyncStatus } from '../hooks/useServerSync';
+import { useActionHistory, type ActionHistory } from '../hooks/useActionHistory';
+import { useTabSync, type StorageError } from '../hooks/useTabSync';
+import { StorageConflictModal } from '../components/StorageConflictModal';
+import { StorageErrorBanner } from '../components/StorageErrorBanner';
+import { createTournamentStorage, type TournamentStorage } from '../storage';
+import type { StoredSnapshot } from './tabSync';
+import type { JournalEntry } from './journal';
 
 interface TournamentContextValue {
   state: TournamentState;
@@ -10,32 +17,54 @@ interface TournamentContextValue {
   currentTournament: Tournament | null;
   currentContainer: TournamentContainer | null;
   containerPhases: Tournament[];
+  history: ActionHistory;
+  /** Makes the selected tournament follow the one selected in other tabs */
+  setFollowSelection: (follow: boolean) => void;
+  storage: TournamentStorage;
+  storageError: StorageError | null;
+  /** Connection to the sync server; null without one */
+  serverSync: ServerSyncStatus | null;
 }
 
 const TournamentContext = createContext<TournamentContextValue | null>(null);
 
-const STORAGE_KEY = 'beachvolleyball-tournament-state';
-
+/**
+ * Loads the saved state and journal before anything is rendered, so saving never
+ * starts from an empty state
+ */
 export function TournamentProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(tournamentReducer, initialState);
+  const [storage] = useState(createTournamentStorage);
+  const [loaded, setLoaded] = useState<StoredSnapshot | null | undefined>(undefined);
+  const [journal, setJournal] = useState<JournalEntry[] | undefined>(undefined);
 
-  // Load state from localStorage on mount
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        dispatch({ type: 'LOAD_STATE', payload: parsed });
-      } catch (e) {
-        console.error('Failed to load saved state:', e);
-      }
-    }
-  }, []);
+    storage.load().then(setLoaded, e => {
+      console.error('Failed to load saved state:', e);
+      setLoaded(null);
+    });
+    storage.loadJournal().then(setJournal, e => {
+      console.error('Failed to load journal:', e);
+      setJournal([]);
+    });
+  }, [storage]);
 
-  // Save state to localStorage on change
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  }, [state]);
+  if (loaded === undefined || journal === undefined) {
+    return <p className="min-h-screen flex items-center justify-center text-gray-500">Turniere werden geladen …</p>;
+  }
+  return <LoadedTournamentProvider storage={storage} loaded={loaded} journal={journal}>{children}</LoadedTournamentProvider>;
+}
+
+interface LoadedTournamentProviderProps {
+  storage: TournamentStorage;
+  loaded: StoredSnapshot | null;
+  journal: JournalEntry[];
+  children: ReactNode;
+}
+
+function LoadedTournamentProvider({ storage, loaded, journal, children }: LoadedTournamentProviderProps) {
+  const { state, dispatch, history, serverSync } = useActionHistory(storage, loaded?.state, journal);
+  const sync = useTabSync(state, dispatch, storage, loaded);
+  const { conflict, setFollowSelection } = sync;
 
   const currentTournament = state.currentTournamentId
     ? state.tournaments.find(t => t.id === state.currentTournamentId) ?? null
@@ -55,8 +84,17 @@ export function TournamentProvider({ children }: { children: ReactNode }) {
     : [];
 
   return (
-    <TournamentContext.Provider value={{ state, dispatch, currentTournament, currentContainer, containerPhases }}>
+    <TournamentContext.Provider
+      value={{
+        state, dispatch, currentTournament, currentContainer, containerPhases, history,
+        setFollowSelection, storage, storageError: sync.error, serverSync,
+      }}
+    >
+      {sync.error && <StorageErrorBanner error={sync.error} onRetry={sync.retrySave} />}
       {children}
+      {conflict && (
+        <StorageConflictModal names={conflict.names} onKeepOwn={sync.keepOwnChanges} onLoadStored={sync.loadStoredChanges} />
+      )}
     </TournamentContext.Provider>
   );
 }
@@ -69,3 +107,14 @@ export function useTournament() {
   }
   return context;
 }
+
+/** Lets the selected tournament follow the selection of other tabs while the calling view is shown */
+// eslint-disable-next-line react-refresh/only-export-components
+export function useFollowSelection() {
+  const { setFollowSelection } = useTournament();
+
+  useEffect(() => {
+    setFollowSelection(true);
+    return () => setFollowSelection(false);
+  }, [setFollowSelection]);
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { historyReducer, initialHistory, canRestore, MAX_UNDO_STEPS, type HistoryState } from '../history';
+import type { TournamentAction } from '../tournamentActions';
+import type { JournalMeta } from '../journal';
+import { tournamentReducer } from '../tournamentReducer';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+let metaCounter = 0;
+function meta(actor: string | null = 'Turnierleitung'): JournalMeta {
+  metaCounter++;
+  return { id: `entry-${metaCounter}`, at: `2026-06-01T10:00:${String(metaCounter % 60).padStart(2, '0')}.000Z`, actor };
+}
+
+function record(history: HistoryState, action: TournamentAction, actor?: string | null): HistoryState {
+  return historyReducer(history, { type: 'RECORD', action, meta: meta(actor) });
+}
+
+function createStartedDoubleElimination(): HistoryState {
+  let history = record(initialHistory, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Undo Cup',
+      system: 'double-elimination',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(8),
+    },
+  });
+  history = record(history, { type: 'START_TOURNAMENT', payload: history.present.tournaments[0].id });
+  return history;
+}
+
+function completeFirstMatch(history: HistoryState): HistoryState {
+  const tournament = history.present.tournaments[0];
+  const match = tournament.matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId)!;
+  const payload = { tournamentId: tournament.id, matchId: match.id };
+  const scored = record(history, { type: 'UPDATE_MATCH_SCORE', payload: { ...payload, scores: [{ teamA: 21, teamB: 12 }] } });
+  return record(scored, { type: 'COMPLETE_MATCH', payload });
+}
+
+describe('historyReducer', () => {
+  it('journals changes with actor and description', () => {
+    const history = completeFirstMatch(createStartedDoubleElimination());
+
+    expect(history.journal.map(e => e.type)).toEqual(['CREATE_TOURNAMENT', 'START_TOURNAMENT', 'UPDATE_MATCH_SCORE', 'COMPLETE_MATCH']);
+    expect(history.journal[0]).toMatchObject({ actor: 'Turnierleitung', description: 'Turnier „Undo Cup“ erstellt' });
+    expect(history.journal[2].description).toMatch(/^Ergebnis eingetragen: Spiel \d+ Team \d+ – Team \d+ \(21:12\)$/);
+    expect(history.journal[3].tournamentId).toBe(history.present.tournaments[0].id);
+  });
+
+  it('does not journal navigation', () => {
+    const history = createStartedDoubleElimination();
+    const navigated = record(history, { type: 'SET_CURRENT_TOURNAMENT', payload: null });
+
+    expect(navigated.present.currentTournamentId).toBeNull();
+    expect(navigated.journal).toHaveLength(2);
+    expect(navigated.past).toHaveLength(2);
+  });
+
+  it('rolls back bracket propagation on undo and reapplies it on redo', () => {
+    const before = createStartedDoubleElimination();
+    const scored = completeFirstMatch(before);
+    const completedId = scored.journal[scored.journal.length - 1].id;
+    const propagated = scored.present.tournaments[0].matches.filter(m => m.dependsOn && (m.teamAId || m.teamBId));
+    expect(propagated.length).toBeGreaterThan(0);
+
+    const undone = historyReducer(scored, { type: 'UNDO', meta: meta() });
+    const undoneMatches = undone.present.tournaments[0].matches;
+    expect(undoneMatches.filter(m => m.status === 'completed' && m.teamBId)).toHaveLength(0);
+    expect(undoneMatches.filter(m => m.dependsOn && (m.teamAId || m.teamBId))).toHaveLength(0);
+    expect(undone.journal[undone.journal.length - 1]).toMatchObject({ type: 'UNDO', description: expect.stringMatching(/^Rückgängig: Spiel abgeschlossen/) });
+    expect(canRestore(undone, completedId)).toBe(false);
+
+    const redone = historyReducer(undone, { type: 'REDO', meta: meta() });
+    expect(redone.present.tournaments).toBe(scored.present.tournaments);
+  });
+
+  it('restores the state before an earlier entry', () => {
+    const started = createStartedDoubleElimination();
+    const history = completeFirstMatch(started);
+    const scoreEntry = history.journal.find(e => e.type === 'UPDATE_MATCH_SCORE')!;
+
+    const restored = historyReducer(history, { type: 'RESTORE', entryId: scoreEntry.id, meta: meta() });
+
+    expect(restored.present.tournaments).toBe(started.present.tournaments);
+    expect(restored.future).toHaveLength(2);
+    expect(restored.journal[restored.journal.length - 1].type).toBe('RESTORE');
+  });
+
+  it('discards redo steps after a new change', () => {
+    const history = completeFirstMatch(createStartedDoubleElimination());
+    const undone = historyReducer(history, { type: 'UNDO', meta: meta() });
+    const tournament = undone.present.tournaments[0];
+
+    const changed = record(undone, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId: tournament.id, matchId: tournament.matches[0].id, scores: [] } });
+
+    expect(changed.future).toHaveLength(0);
+    expect(historyReducer(changed, { type: 'REDO', meta: meta() })).toBe(changed);
+  });
+
+  it('limits the undo steps but keeps the whole journal', () => {
+    let history = createStartedDoubleElimination();
+    const tournamentId = history.present.tournaments[0].id;
+    const matchId = history.present.tournaments[0].matches[0].id;
+    for (let i = 0; i < MAX_UNDO_STEPS + 5; i++) {
+      history = record(history, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: i, teamB: 0 }] } });
+    }
+
+    expect(history.past).toHaveLength(MAX_UNDO_STEPS);
+    expect(history.journal).toHaveLength(MAX_UNDO_STEPS + 7);
+  });
+
+  it('clears undo steps when a state is loaded', () => {
+    const history = createStartedDoubleElimination();
+    const loaded = record(history, { type: 'LOAD_STATE', payload: initialHistory.present });
+
+    expect(loaded.past).toHaveLength(0);
+    expect(loaded.journal).toHaveLength(2);
+  });
+
+  it('keeps undo steps of other tournaments when another tab changes one', () => {
+    const history = completeFirstMatch(createStartedDoubleElimination());
+    const remote = tournamentReducer(history.present, {
+      type: 'CREATE_TOURNAMENT',
+      payload: {
+        name: 'Other Cup',
+        system: 'round-robin',
+        numberOfCourts: 1,
+        setsPerMatch: 1,
+        pointsPerSet: 21,
+        tiebreakerOrder: 'head-to-head-first',
+        teams: createTeams(4),
+      },
+    });
+    const synced = record(history, { type: 'APPLY_SYNC_STATE', payload: { state: remote } });
+
+    expect(synced.past).toHaveLength(4);
+    const undone = historyReducer(synced, { type: 'UNDO', meta: meta() });
+    expect(undone.present.tournaments.map(t => t.name)).toEqual(['Undo Cup', 'Other Cup']);
+    expect(undone.present.tournaments[0].matches.every(m => m.status !== 'completed')).toBe(true);
+  });
+
+  it('drops undo steps whose tournament was changed elsewhere', () => {
+    const history = completeFirstMatch(createStartedDoubleElimination());
+    const [tournament] = history.present.tournaments;
+    const remote = { ...history.present, tournaments: [{ ...tournament, name: 'Renamed Cup' }] };
+    const synced = record(history, { type: 'APPLY_SYNC_STATE', payload: { state: remote } });
+
+    expect(synced.past).toHaveLength(0);
+    expect(synced.present.tournaments[0].name).toBe('Renamed Cup');
+  });
+});
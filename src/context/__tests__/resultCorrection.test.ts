@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../tournamentReducer';
+import { initialState, type TournamentState } from '../tournamentActions';
+import { planResultCorrection } from '../resultCorrection';
+import type { Match, SetScore, Tournament } from '../../types/tournament';
+import { DEFAULT_SCHEDULING } from '../../utils/scheduling';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+function findMatch(state: TournamentState, tournamentId: string, matchId: string): Match {
+  return state.tournaments.find(t => t.id === tournamentId)!.matches.find(m => m.id === matchId)!;
+}
+
+function play(state: TournamentState, tournamentId: string, matchId: string, scores: SetScore[]): TournamentState {
+  const scored = tournamentReducer(state, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores } });
+  return tournamentReducer(scored, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+}
+
+const flipped = (match: Match): SetScore[] => match.scores.map(s => ({ teamA: s.teamB, teamB: s.teamA }));
+
+function startDoubleElimination(): { state: TournamentState; tournamentId: string; first: Match } {
+  let state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Korrektur Cup', system: 'double-elimination', numberOfCourts: 2, setsPerMatch: 1,
+      pointsPerSet: 21, tiebreakerOrder: 'head-to-head-first', teams: createTeams(8),
+    },
+  });
+  const tournamentId = state.tournaments[0].id;
+  state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+  const first = state.tournaments[0].matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId)!;
+  state = play(state, tournamentId, first.id, [{ teamA: 21, teamB: 12 }]);
+  return { state, tournamentId, first: findMatch(state, tournamentId, first.id) };
+}
+
+function playPoolPhase(): { state: TournamentState; poolId: string; bracketId: string } {
+  let state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Pool Cup', system: 'pool-play-single-out', numberOfCourts: 4, setsPerMatch: 1, pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first', teams: createTeams(16),
+      groupPhaseConfig: { numberOfGroups: 4, teamsPerGroup: 4, seeding: 'snake' },
+      knockoutSettings: { setsPerMatch: 1, pointsPerSet: 21, playThirdPlaceMatch: true, useReferees: false, qualifiersPerGroup: 2 },
+    },
+  });
+  const poolId = state.tournaments[0].id;
+  state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: poolId });
+  state.tournaments[0].matches.forEach((m, i) => {
+    state = play(state, poolId, m.id, [i % 3 === 0 ? { teamA: 15, teamB: 21 } : { teamA: 21, teamB: 10 + (i % 9) }]);
+  });
+  const bracketId = state.tournaments.find(t => t.system === 'pool-play-knockout')!.id;
+  return { state, poolId, bracketId };
+}
+
+describe('result correction', () => {
+  it('re-seeds dependent bracket matches when the winner changes', () => {
+    const { state, tournamentId, first } = startDoubleElimination();
+    const oldLoser = first.teamBId;
+    const plan = planResultCorrection(state, { tournamentId, matchId: first.id, scores: flipped(first) })!;
+
+    expect(plan.winnerChanged).toBe(true);
+    expect(plan.affectedMatches).toHaveLength(2);
+    expect(plan.blockingMatches).toHaveLength(0);
+
+    const corrected = tournamentReducer(state, { type: 'CORRECT_MATCH_RESULT', payload: { tournamentId, matchId: first.id, scores: flipped(first) } });
+    const matches = corrected.tournaments[0].matches;
+    expect(findMatch(corrected, tournamentId, first.id)).toMatchObject({ winnerId: oldLoser, status: 'completed' });
+    const winnerSlot = matches.find(m => m.dependsOn?.teamA?.matchId === first.id && m.dependsOn.teamA.result === 'winner'
+      || m.dependsOn?.teamB?.matchId === first.id && m.dependsOn.teamB.result === 'winner')!;
+    expect([winnerSlot.teamAId, winnerSlot.teamBId]).toContain(oldLoser);
+    expect([winnerSlot.teamAId, winnerSlot.teamBId]).not.toContain(first.teamAId);
+  });
+
+  it('only updates the scores when the winner stays the same', () => {
+    const { state, tournamentId, first } = startDoubleElimination();
+    const scores = [{ teamA: 25, teamB: 23 }];
+    const corrected = tournamentReducer(state, { type: 'CORRECT_MATCH_RESULT', payload: { tournamentId, matchId: first.id, scores } });
+
+    expect(planResultCorrection(state, { tournamentId, matchId: first.id, scores })!.affectedMatches).toHaveLength(0);
+    expect(findMatch(corrected, tournamentId, first.id)).toMatchObject({ scores, winnerId: first.winnerId });
+    corrected.tournaments[0].matches
+      .filter(m => m.id !== first.id)
+      .forEach((m, i) => expect(m).toBe(state.tournaments[0].matches.filter(o => o.id !== first.id)[i]));
+  });
+
+  it('refuses the correction once a dependent match has been played', () => {
+    const { tournamentId, first, ...started } = startDoubleElimination();
+    let state = started.state;
+    const feedsFrom = (m: Match) => m.dependsOn?.teamA?.matchId === first.id || m.dependsOn?.teamB?.matchId === first.id;
+    let dependent: Match | undefined;
+    // Play the first round until a follow-up match of the corrected match can be played
+    while (!(dependent = state.tournaments[0].matches.find(m => m.status === 'scheduled' && feedsFrom(m)))) {
+      const next = state.tournaments[0].matches.find(m => m.status === 'scheduled' && m.round === 1)!;
+      state = play(state, tournamentId, next.id, [{ teamA: 21, teamB: 15 }]);
+    }
+    state = play(state, tournamentId, dependent.id, [{ teamA: 21, teamB: 17 }]);
+    const payload = { tournamentId, matchId: first.id, scores: flipped(first) };
+
+    const plan = planResultCorrection(state, payload)!;
+    expect(plan.blockingMatches.map(m => m.matchId)).toContain(dependent.id);
+    expect(plan.blockingMatches[0].description).toMatch(/^Spiel \d+ Team \d+ – Team \d+$/);
+    expect(tournamentReducer(state, { type: 'CORRECT_MATCH_RESULT', payload })).toBe(state);
+  });
+
+  it('ignores corrections of matches that are not completed', () => {
+    const { state, tournamentId } = startDoubleElimination();
+    const open = state.tournaments[0].matches.find(m => m.status === 'scheduled')!;
+    const payload = { tournamentId, matchId: open.id, scores: [{ teamA: 21, teamB: 5 }] };
+
+    expect(planResultCorrection(state, payload)).toBeNull();
+    expect(tournamentReducer(state, { type: 'CORRECT_MATCH_RESULT', payload })).toBe(state);
+  });
+
+  it('re-seeds the bracket populated from pool standings', () => {
+    const { state, poolId, bracketId } = playPoolPhase();
+    expect(state.tournaments.find(t => t.id === bracketId)!.teams).toHaveLength(8);
+
+    const poolMatches = state.tournaments.find(t => t.id === poolId)!.matches;
+    const changing = poolMatches
+      .map(m => ({ match: m, plan: planResultCorrection(state, { tournamentId: poolId, matchId: m.id, scores: flipped(m) })! }))
+      .find(({ plan }) => plan.affectedMatches.some(a => a.tournamentId === bracketId));
+    expect(changing).toBeDefined();
+
+    const seeding = (t: Tournament) => t.matches.map(m => [m.teamAId, m.teamBId].map(id => t.teams.find(team => team.id === id)?.name));
+    const corrected = tournamentReducer(state, {
+      type: 'CORRECT_MATCH_RESULT',
+      payload: { tournamentId: poolId, matchId: changing!.match.id, scores: flipped(changing!.match) },
+    });
+    const bracket = corrected.tournaments.find(t => t.id === bracketId)!;
+    expect(seeding(bracket)).not.toEqual(seeding(state.tournaments.find(t => t.id === bracketId)!));
+    expect(bracket.teams).toHaveLength(8);
+
+    // Once the bracket has started, the same correction is refused
+    const opener = state.tournaments.find(t => t.id === bracketId)!.matches.find(m => m.status === 'scheduled')!;
+    const played = play(state, bracketId, opener.id, [{ teamA: 21, teamB: 19 }]);
+    const payload = { tournamentId: poolId, matchId: changing!.match.id, scores: flipped(changing!.match) };
+    expect(planResultCorrection(played, payload)!.blockingMatches.map(m => m.matchId)).toContain(opener.id);
+    expect(tournamentReducer(played, { type: 'CORRECT_MATCH_RESULT', payload })).toBe(played);
+  });
+
+  it('re-plans the remaining matches from the moment of the correction', () => {
+    let state = tournamentReducer(initialState, {
+      type: 'CREATE_TOURNAMENT',
+      payload: {
+        name: 'Zeit Cup', system: 'double-elimination', numberOfCourts: 2, setsPerMatch: 1,
+        pointsPerSet: 21, tiebreakerOrder: 'head-to-head-first', teams: createTeams(8), scheduling: DEFAULT_SCHEDULING,
+      },
+    });
+    const tournamentId = state.tournaments[0].id;
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+    const first = state.tournaments[0].matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId)!;
+    const at = (hours: number) => new Date(2026, 5, 13, hours).toISOString();
+    const payload = { tournamentId, matchId: first.id };
+    state = tournamentReducer(state, { type: 'UPDATE_MATCH_SCORE', payload: { ...payload, scores: [{ teamA: 21, teamB: 12 }], timestamp: at(10) } });
+    state = tournamentReducer(state, { type: 'COMPLETE_MATCH', payload: { ...payload, timestamp: at(10) } });
+    const remaining = (s: TournamentState) => s.tournaments[0].matches.filter(m => m.status !== 'completed' && m.scheduledTime);
+    expect(remaining(state).some(m => m.scheduledTime! < '14:00')).toBe(true);
+
+    const corrected = tournamentReducer(state, {
+      type: 'CORRECT_MATCH_RESULT',
+      payload: { ...payload, scores: flipped(findMatch(state, tournamentId, first.id)), timestamp: at(14) },
+    });
+
+    expect(remaining(corrected).length).toBeGreaterThan(0);
+    remaining(corrected).forEach(m => expect(m.scheduledTime! >= '14:00').toBe(true));
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { historyReducer, initialHistory, type HistoryAction, type HistoryState } from '../history';
+import { dispatchSynced, travelSynced } from '../syncedHistory';
+import type { JournalMeta } from '../journal';
+import { createMemoryTransport, createSyncClient, createSyncStore, type SyncedAction, type SyncStore } from '../../sync';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let metaCounter = 0;
+function meta(): JournalMeta {
+  metaCounter++;
+  return { id: `entry-${metaCounter}`, at: '2026-06-13T10:00:00.000Z', actor: 'Feld 1' };
+}
+
+/** Device whose history takes the server's state like useActionHistory does */
+function connectDevice(store: SyncStore, clientId: string) {
+  let history: HistoryState = initialHistory;
+  const historyDispatch = (action: HistoryAction) => {
+    history = historyReducer(history, action);
+  };
+  const client = createSyncClient({
+    transport: createMemoryTransport(store),
+    clientId,
+    onStateChange: (state, selectedTournamentId) =>
+      historyDispatch({ type: 'RECORD', action: { type: 'APPLY_SYNC_STATE', payload: { state, selectedTournamentId } }, meta: meta() }),
+  });
+  client.connect();
+
+  return {
+    history: () => history,
+    dispatch: (action: SyncedAction) => dispatchSynced(client, historyDispatch, action, meta()),
+    travel: (action: Exclude<HistoryAction, { type: 'RECORD' }>) => travelSynced(client, history, historyDispatch, action),
+  };
+}
+
+describe('history with a sync server', () => {
+  let store: SyncStore;
+  let courtA: ReturnType<typeof connectDevice>;
+  let courtB: ReturnType<typeof connectDevice>;
+
+  beforeEach(async () => {
+    store = createSyncStore();
+    courtA = connectDevice(store, 'court-a');
+    courtB = connectDevice(store, 'court-b');
+    courtA.dispatch({
+      type: 'CREATE_TOURNAMENT',
+      payload: {
+        name: 'Sync Cup',
+        system: 'round-robin',
+        numberOfCourts: 2,
+        setsPerMatch: 1,
+        pointsPerSet: 21,
+        tiebreakerOrder: 'head-to-head-first',
+        teams: createTeams(4),
+      },
+    });
+    await flush();
+    courtA.dispatch({ type: 'START_TOURNAMENT', payload: store.getSnapshot().state.tournaments[0].id });
+    await flush();
+  });
+
+  const serverMatches = () => store.getSnapshot().state.tournaments[0].matches;
+
+  it('journals changes sent through the server and undoes a result on every device', async () => {
+    const tournamentId = store.getSnapshot().state.tournaments[0].id;
+    const matchId = serverMatches()[0].id;
+    courtA.dispatch({ type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 17 }] } });
+    courtA.dispatch({ type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+    await flush();
+
+    expect(courtA.history().journal.map(e => e.type))
+      .toEqual(['CREATE_TOURNAMENT', 'START_TOURNAMENT', 'UPDATE_MATCH_SCORE', 'COMPLETE_MATCH']);
+    expect(courtA.history().journal[0]).toMatchObject({ actor: 'Feld 1', description: 'Turnier „Sync Cup“ erstellt' });
+    expect(serverMatches()[0].status).toBe('completed');
+    // Confirmed by the server, the result can still be undone
+    expect(courtA.history().past).toHaveLength(2);
+
+    courtA.travel({ type: 'UNDO', meta: meta() });
+    await flush();
+
+    expect(serverMatches()[0]).toMatchObject({ status: 'in-progress', scores: [{ teamA: 21, teamB: 17 }] });
+    expect(courtB.history().present.tournaments[0].matches[0].status).toBe('in-progress');
+    expect(courtA.history().journal.at(-1)?.type).toBe('UNDO');
+
+    courtA.travel({ type: 'REDO', meta: meta() });
+    await flush();
+
+    expect(serverMatches()[0].status).toBe('completed');
+    expect(courtB.history().present.tournaments[0].standings.reduce((sum, s) => sum + s.won, 0)).toBe(1);
+  });
+
+  it('brings back a deleted tournament on the server when the deletion is undone', async () => {
+    const { containers } = store.getSnapshot().state;
+    courtA.dispatch({ type: 'DELETE_CONTAINER', payload: containers[0].id });
+    await flush();
+    expect(store.getSnapshot().state.tournaments).toEqual([]);
+
+    courtA.travel({ type: 'UNDO', meta: meta() });
+    await flush();
+
+    expect(store.getSnapshot().state.containers.map(c => c.id)).toEqual([containers[0].id]);
+    expect(courtB.history().present.tournaments[0].name).toBe('Sync Cup');
+    expect(courtA.history().future).toHaveLength(1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../tournamentReducer';
+import { initialState, type TournamentState } from '../tournamentActions';
+import {
+  applyStoredRecords,
+  findConflicts,
+  getChangedIds,
+  getNewerIds,
+  mergeIntoStored,
+  type StoredSnapshot,
+} from '../tabSync';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+function createTwoTournaments(): TournamentState {
+  return ['Sommercup', 'Herbstcup'].reduce((state, name) => tournamentReducer(state, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name,
+      system: 'round-robin',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(4),
+    },
+  }), initialState);
+}
+
+/** Saves a tab's changes the way the provider does; null on a conflict */
+function save(stored: StoredSnapshot, before: TournamentState, after: TournamentState, known: Record<string, number>) {
+  const changed = getChangedIds(before, after);
+  if (findConflicts(changed, known, stored.revisions).length > 0) return null;
+  return mergeIntoStored(stored, after, changed);
+}
+
+describe('tab sync', () => {
+  const base = createTwoTournaments();
+  const [summer, autumn] = base.tournaments;
+  const stored: StoredSnapshot = { state: base, revisions: { [summer.id]: 1, [autumn.id]: 1 } };
+  const start = (id: string) => tournamentReducer(base, { type: 'START_TOURNAMENT', payload: id });
+
+  it('merges changes of two tabs to different tournaments and hands them to the other tab', () => {
+    const tabA = start(summer.id);
+    const tabB = start(autumn.id);
+
+    const afterA = save(stored, base, tabA, stored.revisions)!;
+    const afterB = save(afterA, base, tabB, stored.revisions)!;
+
+    expect(afterB.revisions).toEqual({ [summer.id]: 2, [autumn.id]: 2 });
+    expect(afterB.state.tournaments.map(t => t.status)).toEqual(['in-progress', 'in-progress']);
+
+    const newer = getNewerIds({ ...stored.revisions, [summer.id]: 2 }, afterB.revisions);
+    expect(newer).toEqual([autumn.id]);
+    expect(applyStoredRecords(tabA, afterB, newer).tournaments.map(t => t.status)).toEqual(['in-progress', 'in-progress']);
+  });
+
+  it('reports a conflict instead of overwriting a newer change to the same tournament', () => {
+    const afterA = save(stored, base, start(summer.id), stored.revisions)!;
+    const tabB = tournamentReducer(base, { type: 'DELETE_TOURNAMENT', payload: summer.id });
+
+    expect(save(afterA, base, tabB, stored.revisions)).toBeNull();
+    expect(findConflicts([summer.id], stored.revisions, afterA.revisions)).toEqual([summer.id]);
+  });
+
+  it('removes records deleted in another tab and deselects them', () => {
+    const deleted = tournamentReducer(base, { type: 'DELETE_TOURNAMENT', payload: summer.id });
+    const afterDelete = save(stored, base, deleted, stored.revisions)!;
+    const selected = { ...base, currentTournamentId: summer.id };
+
+    const next = applyStoredRecords(selected, afterDelete, getNewerIds(stored.revisions, afterDelete.revisions));
+
+    expect(next.tournaments.map(t => t.id)).toEqual([autumn.id]);
+    expect(next.currentTournamentId).toBeNull();
+  });
+});
@@ -180,3 +180,66 @@ describe('tournamentReducer - SWISS_ROUND', () => {
     expect(state.tournaments[0].matches.length).toBe(4);
   });
 });
+
+describe('tournamentReducer - APPLY_SYNC_STATE', () => {
+  it('keeps the device selection if the tournament still exists', () => {
+    const local = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createTournamentConfig('round-robin', 4) });
+    const synced = tournamentReducer(local, { type: 'CREATE_TOURNAMENT', payload: createTournamentConfig('swiss', 4) });
+
+    const state = tournamentReducer(local, { type: 'APPLY_SYNC_STATE', payload: { state: synced } });
+    expect(state.tournaments).toHaveLength(2);
+    expect(state.currentTournamentId).toBe(local.currentTournamentId);
+
+    const selected = tournamentReducer(local, { type: 'APPLY_SYNC_STATE', payload: { state: synced, selectedTournamentId: synced.currentTournamentId } });
+    expect(selected.currentTournamentId).toBe(synced.currentTournamentId);
+
+    const removed = tournamentReducer(local, { type: 'APPLY_SYNC_STATE', payload: { state: initialState } });
+    expect(removed.currentTournamentId).toBeNull();
+  });
+});
+
+describe('tournamentReducer - LOAD_STATE / IMPORT_TOURNAMENTS', () => {
+  it('ignores an invalid state', () => {
+    const local = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createTournamentConfig('round-robin', 4) });
+    const broken = { ...local, tournaments: [{ ...local.tournaments[0], status: 'unknown' }] } as unknown as TournamentState;
+
+    expect(tournamentReducer(local, { type: 'LOAD_STATE', payload: broken })).toBe(local);
+  });
+
+  it('replaces an imported container together with all of its phases', () => {
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: createTournamentConfig('round-robin', 4) });
+    const exported = { tournaments: state.tournaments, containers: state.containers };
+    state = tournamentReducer(state, { type: 'CREATE_TOURNAMENT', payload: createTournamentConfig('swiss', 4) });
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: exported.tournaments[0].id });
+
+    const imported = tournamentReducer(state, { type: 'IMPORT_TOURNAMENTS', payload: exported });
+
+    expect(imported.containers).toHaveLength(2);
+    expect(imported.tournaments).toHaveLength(2);
+    expect(imported.tournaments.find(t => t.id === exported.tournaments[0].id)!.status).toBe('configuration');
+    expect(imported.currentTournamentId).toBe(exported.tournaments[0].id);
+  });
+});
+
+describe('tournamentReducer - DRAW_LOTS', () => {
+  it('ranks teams tied on every criterion by the drawn order', () => {
+    const config = createTournamentConfig('round-robin', 4, { tiebreakers: ['lots'] });
+    let state = tournamentReducer(initialState, { type: 'CREATE_TOURNAMENT', payload: config });
+    const tournamentId = state.tournaments[0].id;
+    state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+    const matchId = state.tournaments[0].matches[0].id;
+    state = tournamentReducer(state, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 15 }] } });
+    state = tournamentReducer(state, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+
+    const tied = state.tournaments[0].standings.filter(s => s.tiedForLots).map(s => s.teamId);
+    // The loser and both teams yet to play have no win
+    expect(tied).toHaveLength(3);
+
+    const drawn = [...tied].reverse();
+    state = tournamentReducer(state, { type: 'DRAW_LOTS', payload: { tournamentId, teamIds: drawn } });
+    const { standings, lots } = state.tournaments[0];
+    expect(lots).toEqual(drawn);
+    expect(standings.filter(s => drawn.includes(s.teamId)).map(s => s.teamId)).toEqual(drawn);
+    expect(standings.some(s => s.tiedForLots)).toBe(false);
+  });
+});
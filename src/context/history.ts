@@ -0,0 +1,190 @@
+import type { TournamentAction, TournamentState } from './tournamentActions';
+import { initialState } from './tournamentActions';
+import { tournamentReducer } from './tournamentReducer';
+import { describeAction, getActionTournamentId, isJournaledAction } from './journal';
+import type { JournalEntry, JournalMeta } from './journal';
+import { getChangedContentIds, replaceRecords } from './tabSync';
+
+/** Number of actions that can be undone (state snapshots kept in memory) */
+export const MAX_UNDO_STEPS = 30;
+/** Oldest journal entries are dropped beyond this size */
+export const MAX_JOURNAL_ENTRIES = 1000;
+
+/**
+ * State before (past) or after (future) a journaled action
+ * Snapshots share unchanged data with the current state, since the reducer never mutates.
+ */
+interface HistoryFrame {
+  entryId: string;
+  state: TournamentState;
+}
+
+export interface HistoryState {
+  present: TournamentState;
+  past: HistoryFrame[];
+  future: HistoryFrame[];
+  journal: JournalEntry[];
+}
+
+export type HistoryAction =
+  /** journalOnly: the sync server applies the action, its result arrives as APPLY_SYNC_STATE */
+  | { type: 'RECORD'; action: TournamentAction; meta: JournalMeta; journalOnly?: boolean }
+  | { type: 'UNDO'; meta: JournalMeta }
+  | { type: 'REDO'; meta: JournalMeta }
+  | { type: 'RESTORE'; entryId: string; meta: JournalMeta };
+
+export const initialHistory: HistoryState = {
+  present: initialState,
+  past: [],
+  future: [],
+  journal: [],
+};
+
+function appendEntry(journal: JournalEntry[], entry: JournalEntry): JournalEntry[] {
+  return [...journal, entry].slice(-MAX_JOURNAL_ENTRIES);
+}
+
+/** Undo and redo keep the device's selection as long as the tournament exists */
+function withSelection(target: TournamentState, current: TournamentState): TournamentState {
+  const selected = current.currentTournamentId;
+  const exists = selected !== null && target.tournaments.some(t => t.id === selected);
+  return exists ? { ...target, currentTournamentId: selected } : target;
+}
+
+function findEntry(history: HistoryState, entryId: string): JournalEntry | undefined {
+  return history.journal.find(e => e.id === entryId);
+}
+
+/**
+ * Carries the undo steps over to a state loaded or taken over from elsewhere
+ * Every snapshot takes the changed records from the new state; a step whose action
+ * touched one of them is dropped, since undoing it would overwrite the other change.
+ * Records are compared by content, so the sync server confirming an own change drops nothing.
+ */
+function rebase(history: HistoryState, present: TournamentState): HistoryState {
+  const changedIds = getChangedContentIds(history.present, present);
+  if (changedIds.length === 0) return { ...history, present };
+
+  const changed = new Set(changedIds);
+  const touchesChanged = (before: TournamentState, after: TournamentState) =>
+    getChangedContentIds(before, after).some(id => changed.has(id));
+  // A step's action lies between its snapshot and the next one, the last one borders on the present
+  const carryOver = (frames: HistoryFrame[]) => frames
+    .filter((frame, i) => !touchesChanged(frame.state, frames[i + 1]?.state ?? history.present))
+    .map(frame => ({ ...frame, state: replaceRecords(frame.state, present, changedIds) }));
+
+  return { ...history, present, past: carryOver(history.past), future: carryOver(history.future) };
+}
+
+function createEntry(history: HistoryState, action: TournamentAction, meta: JournalMeta): JournalEntry {
+  return {
+    ...meta,
+    type: action.type,
+    tournamentId: getActionTournamentId(action),
+    description: describeAction(action, history.present),
+  };
+}
+
+function record(history: HistoryState, action: TournamentAction, meta: JournalMeta, journalOnly = false): HistoryState {
+  const present = tournamentReducer(history.present, action);
+  if (present === history.present) return history;
+  if (journalOnly) return { ...history, journal: appendEntry(history.journal, createEntry(history, action, meta)) };
+
+  // Navigation keeps the undo history; a loaded or synced state is rebased onto
+  if (!isJournaledAction(action)) {
+    const keepsHistory = action.type === 'SET_CURRENT_TOURNAMENT' || action.type === 'SET_CURRENT_PHASE';
+    return keepsHistory ? { ...history, present } : rebase(history, present);
+  }
+
+  return {
+    present,
+    past: [...history.past, { entryId: meta.id, state: history.present }].slice(-MAX_UNDO_STEPS),
+    future: [],
+    journal: appendEntry(history.journal, createEntry(history, action, meta)),
+  };
+}
+
+/**
+ * Steps back until the action with the given entry is undone
+ * Undo restores the snapshot taken before the action, which also reverts bracket
+ * propagation and referee assignments triggered by it.
+ */
+function undoUntil(history: HistoryState, entryId: string): HistoryState {
+  if (!history.past.some(f => f.entryId === entryId)) return history;
+
+  const past = [...history.past];
+  const future = [...history.future];
+  let present = history.present;
+  let frame: HistoryFrame | undefined;
+  do {
+    frame = past.pop()!;
+    future.push({ entryId: frame.entryId, state: present });
+    present = frame.state;
+  } while (frame.entryId !== entryId);
+
+  return { ...history, present: withSelection(present, history.present), past, future };
+}
+
+function describeUndone(history: HistoryState, entryId: string): string {
+  return findEntry(history, entryId)?.description ?? 'Aktion';
+}
+
+export function historyReducer(history: HistoryState, action: HistoryAction): HistoryState {
+  switch (action.type) {
+    case 'RECORD':
+      return record(history, action.action, action.meta, action.journalOnly);
+
+    case 'UNDO': {
+      const last = history.past[history.past.length - 1];
+      if (!last) return history;
+      const undone = undoUntil(history, last.entryId);
+      return {
+        ...undone,
+        journal: appendEntry(history.journal, {
+          ...action.meta,
+          type: 'UNDO',
+          tournamentId: findEntry(history, last.entryId)?.tournamentId ?? null,
+          description: `Rückgängig: ${describeUndone(history, last.entryId)}`,
+        }),
+      };
+    }
+
+    case 'REDO': {
+      const next = history.future[history.future.length - 1];
+      if (!next) return history;
+      return {
+        present: withSelection(next.state, history.present),
+        past: [...history.past, { entryId: next.entryId, state: history.present }],
+        future: history.future.slice(0, -1),
+        journal: appendEntry(history.journal, {
+          ...action.meta,
+          type: 'REDO',
+          tournamentId: findEntry(history, next.entryId)?.tournamentId ?? null,
+          description: `Wiederholt: ${describeUndone(history, next.entryId)}`,
+        }),
+      };
+    }
+
+    case 'RESTORE': {
+      const restored = undoUntil(history, action.entryId);
+      if (restored === history) return history;
+      return {
+        ...restored,
+        journal: appendEntry(history.journal, {
+          ...action.meta,
+          type: 'RESTORE',
+          tournamentId: findEntry(history, action.entryId)?.tournamentId ?? null,
+          description: `Stand vor „${describeUndone(history, action.entryId)}“ wiederhergestellt`,
+        }),
+      };
+    }
+
+    default:
+      return history;
+  }
+}
+
+/** Whether the state before this journal entry can still be restored */
+export function canRestore(history: HistoryState, entryId: string): boolean {
+  return history.past.some(f => f.entryId === entryId);
+}
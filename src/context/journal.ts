@@ -0,0 +1,169 @@
+import type { Match, Tournament } from '../types/tournament';
+import type { TournamentAction, TournamentState } from './tournamentActions';
+import { RESULT_TYPE_LABELS, type SpecialResult } from '../utils/matchResults';
+
+export type JournalEntryType = TournamentAction['type'] | 'UNDO' | 'REDO' | 'RESTORE';
+
+/** One line of the append-only action journal */
+export interface JournalEntry {
+  id: string;
+  at: string;
+  actor: string | null;
+  type: JournalEntryType;
+  tournamentId: string | null;
+  description: string;
+}
+
+/** Supplied by the dispatching side, so the reducers stay pure */
+export interface JournalMeta {
+  id: string;
+  at: string;
+  actor: string | null;
+}
+
+/** Navigation and loading are not changes worth journaling or undoing */
+const UNJOURNALED_ACTIONS = new Set<TournamentAction['type']>([
+  'LOAD_STATE',
+  'APPLY_SYNC_STATE',
+  'SET_CURRENT_TOURNAMENT',
+  'SET_CURRENT_PHASE',
+]);
+
+export function isJournaledAction(action: TournamentAction): boolean {
+  return !UNJOURNALED_ACTIONS.has(action.type);
+}
+
+function findTournament(state: TournamentState, tournamentId: string): Tournament | undefined {
+  return state.tournaments.find(t => t.id === tournamentId);
+}
+
+export function describeMatch(state: TournamentState, tournament: Tournament | undefined, match: Match | undefined): string {
+  if (!tournament || !match) return 'Spiel';
+  const parent = tournament.parentPhaseId ? findTournament(state, tournament.parentPhaseId) : undefined;
+  const name = (teamId: string | null, placeholder?: string) => {
+    if (!teamId) return placeholder ?? 'TBD';
+    return (tournament.teams.find(t => t.id === teamId) ?? parent?.teams.find(t => t.id === teamId))?.name ?? 'Unbekannt';
+  };
+  return `Spiel ${match.matchNumber} ${name(match.teamAId, match.teamAPlaceholder)} – ${name(match.teamBId, match.teamBPlaceholder)}`;
+}
+
+/** e.g. "Nicht angetreten, Sieg für Team A" */
+function describeSpecialResult(state: TournamentState, tournament: Tournament | undefined, result: SpecialResult): string {
+  const parent = tournament?.parentPhaseId ? findTournament(state, tournament.parentPhaseId) : undefined;
+  const winner = (tournament?.teams.find(t => t.id === result.winnerId)
+    ?? parent?.teams.find(t => t.id === result.winnerId))?.name ?? 'Unbekannt';
+  return `${RESULT_TYPE_LABELS[result.resultType]}, Sieg für ${winner}`;
+}
+
+/** Tournament an action belongs to, if any */
+export function getActionTournamentId(action: TournamentAction): string | null {
+  switch (action.type) {
+    case 'UPDATE_TEAMS':
+    case 'UPDATE_TOURNAMENT_SETTINGS':
+    case 'START_MATCH':
+    case 'CLOSE_COURT':
+    case 'UPDATE_MATCH_SCORE':
+    case 'COMPLETE_MATCH':
+    case 'CORRECT_MATCH_RESULT':
+    case 'WITHDRAW_TEAM':
+    case 'DRAW_LOTS':
+    case 'UPDATE_GROUPS':
+      return action.payload.tournamentId;
+    case 'START_TOURNAMENT':
+    case 'RESET_TOURNAMENT':
+    case 'DELETE_TOURNAMENT':
+    case 'GENERATE_NEXT_SWISS_ROUND':
+      return action.payload;
+    case 'CREATE_FINALS_TOURNAMENT':
+    case 'CREATE_KNOCKOUT_TOURNAMENT':
+      return action.payload.parentTournamentId;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Human-readable (German) description of an action, resolved against the state before it
+ */
+export function describeAction(action: TournamentAction, state: TournamentState): string {
+  const tournamentId = getActionTournamentId(action);
+  const tournament = tournamentId ? findTournament(state, tournamentId) : undefined;
+  const tournamentName = tournament ? `„${tournament.name}“` : 'Turnier';
+
+  switch (action.type) {
+    case 'CREATE_TOURNAMENT':
+      return `Turnier „${action.payload.name}“ erstellt`;
+    case 'UPDATE_TOURNAMENT_SETTINGS':
+      return `Einstellungen von ${tournamentName} geändert`;
+    case 'UPDATE_TEAMS':
+      return `Teams von ${tournamentName} geändert (${action.payload.teams.length} Teams)`;
+    case 'UPDATE_GROUPS':
+      return `Gruppen von ${tournamentName} geändert`;
+    case 'START_TOURNAMENT':
+      return `${tournamentName} gestartet`;
+    case 'RESET_TOURNAMENT':
+      return `${tournamentName} zurückgesetzt`;
+    case 'DELETE_TOURNAMENT':
+      return `${tournamentName} gelöscht`;
+    case 'DELETE_CONTAINER':
+      return 'Turnier mit allen Phasen gelöscht';
+    case 'ARCHIVE_CONTAINER':
+    case 'UNARCHIVE_CONTAINER': {
+      const container = state.containers.find(c => c.id === action.payload);
+      const name = container ? `„${container.name}“` : 'Turnier';
+      return action.type === 'ARCHIVE_CONTAINER' ? `${name} archiviert` : `${name} aus dem Archiv geholt`;
+    }
+    case 'MERGE_TEAM_PROFILES':
+      return 'Teams in der Saisonstatistik verknüpft';
+    case 'UPDATE_OFFICIALS': {
+      const container = state.containers.find(c => c.id === action.payload.containerId);
+      const name = container ? `„${container.name}“` : 'Turnier';
+      return `Schiedsrichter von ${name} geändert (${action.payload.officials.length} Schiedsrichter)`;
+    }
+    case 'IMPORT_TOURNAMENTS':
+      return `Importiert: ${action.payload.containers.map(c => `„${c.name}“`).join(', ') || 'keine Turniere'}`;
+    case 'GENERATE_NEXT_SWISS_ROUND':
+      return `Nächste Swiss-Runde für ${tournamentName} ausgelost`;
+    case 'CREATE_FINALS_TOURNAMENT':
+      return `Finalrunde für ${tournamentName} erstellt`;
+    case 'CREATE_KNOCKOUT_TOURNAMENT':
+      return `K.O.-Phase für ${tournamentName} erstellt`;
+    case 'CLOSE_COURT':
+      return `Feld ${action.payload.courtNumber} von ${tournamentName} geschlossen`;
+    case 'START_MATCH': {
+      const match = tournament?.matches.find(m => m.id === action.payload.matchId);
+      return `Spiel gestartet: ${describeMatch(state, tournament, match)}`;
+    }
+    case 'UPDATE_MATCH_SCORE': {
+      const match = tournament?.matches.find(m => m.id === action.payload.matchId);
+      const score = action.payload.scores.map(s => `${s.teamA}:${s.teamB}`).join(', ');
+      return `Ergebnis eingetragen: ${describeMatch(state, tournament, match)} (${score})`;
+    }
+    case 'COMPLETE_MATCH': {
+      const match = tournament?.matches.find(m => m.id === action.payload.matchId);
+      const { result } = action.payload;
+      return result
+        ? `Spiel gewertet: ${describeMatch(state, tournament, match)} (${describeSpecialResult(state, tournament, result)})`
+        : `Spiel abgeschlossen: ${describeMatch(state, tournament, match)}`;
+    }
+    case 'CORRECT_MATCH_RESULT': {
+      const match = tournament?.matches.find(m => m.id === action.payload.matchId);
+      const { result } = action.payload;
+      const score = result
+        ? describeSpecialResult(state, tournament, result)
+        : action.payload.scores.map(s => `${s.teamA}:${s.teamB}`).join(', ');
+      return `Ergebnis korrigiert: ${describeMatch(state, tournament, match)} (${score})`;
+    }
+    case 'WITHDRAW_TEAM': {
+      const team = tournament?.teams.find(t => t.id === action.payload.teamId);
+      const rule = action.payload.rule === 'annul-results' ? 'Ergebnisse annulliert' : 'restliche Spiele kampflos verloren';
+      return `${team ? `„${team.name}“` : 'Team'} aus ${tournamentName} zurückgezogen (${rule})`;
+    }
+    case 'DRAW_LOTS': {
+      const names = action.payload.teamIds.map(id => tournament?.teams.find(t => t.id === id)?.name ?? 'Unbekannt');
+      return `Losentscheid in ${tournamentName}: ${names.join(' vor ')}`;
+    }
+    default:
+      return action.type;
+  }
+}
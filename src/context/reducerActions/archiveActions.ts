@@ -0,0 +1,44 @@
+import type { TournamentState, MergeTeamProfilesPayload } from '../tournamentActions';
+import { assignTeamProfiles } from '../../utils/season';
+
+/** Moves a completed tournament with all phases to the archive and links its teams to the season */
+export function handleArchiveContainer(state: TournamentState, containerId: string): TournamentState {
+  const container = state.containers.find(c => c.id === containerId);
+  if (!container || container.archivedAt) return state;
+  const phaseIds = new Set(container.phases.map(p => p.tournamentId));
+  const phases = state.tournaments.filter(t => phaseIds.has(t.id));
+  if (phases.length === 0 || phases.some(p => p.status !== 'completed')) return state;
+
+  const archivedIds = new Set(state.containers.filter(c => c.archivedAt).flatMap(c => c.phases.map(p => p.tournamentId)));
+  const archivedTeams = state.tournaments.filter(t => archivedIds.has(t.id)).flatMap(t => t.teams);
+  const linked = new Map(assignTeamProfiles(phases, archivedTeams).map(t => [t.id, t]));
+  const now = new Date().toISOString();
+  return {
+    ...state,
+    tournaments: state.tournaments.map(t => linked.get(t.id) ?? t),
+    containers: state.containers.map(c => (c.id === containerId ? { ...c, archivedAt: now, updatedAt: now } : c)),
+  };
+}
+
+/** Takes a tournament out of the archive; its teams keep their profiles */
+export function handleUnarchiveContainer(state: TournamentState, containerId: string): TournamentState {
+  const container = state.containers.find(c => c.id === containerId);
+  if (!container?.archivedAt) return state;
+  const { archivedAt: _archivedAt, ...rest } = container;
+  return {
+    ...state,
+    containers: state.containers.map(c => (c.id === containerId ? { ...rest, updatedAt: new Date().toISOString() } : c)),
+  };
+}
+
+/** Links all teams of one profile to another, so the season statistics count them as one team */
+export function handleMergeTeamProfiles(state: TournamentState, payload: MergeTeamProfilesPayload): TournamentState {
+  const { profileId, intoProfileId } = payload;
+  if (profileId === intoProfileId) return state;
+  return {
+    ...state,
+    tournaments: state.tournaments.map(t => (t.teams.some(team => team.profileId === profileId)
+      ? { ...t, teams: t.teams.map(team => (team.profileId === profileId ? { ...team, profileId: intoProfileId } : team)) }
+      : t)),
+  };
+}
@@ -0,0 +1,12 @@
+import type { TournamentState } from '../tournamentActions';
+import { planResultCorrection, type CorrectionPayload } from '../resultCorrection';
+
+/**
+ * Corrects the result of a completed match and recomputes everything that depends on it
+ * Refused (state unchanged) while a dependent match has already been played.
+ */
+export function handleCorrectMatchResult(state: TournamentState, payload: CorrectionPayload): TournamentState {
+  const plan = planResultCorrection(state, payload);
+  if (!plan || plan.blockingMatches.length > 0) return state;
+  return plan.state;
+}
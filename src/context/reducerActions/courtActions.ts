@@ -0,0 +1,47 @@
+import type { SchedulingSettings } from '../../types/tournament';
+import type { TournamentState } from '../tournamentActions';
+import { formatMinutesToTime, getLocalDate, getMinutesOfDay, parseTimeToMinutes } from '../../utils/scheduling';
+
+function closeCourt(scheduling: SchedulingSettings, courtNumber: number, until: string, date?: string): SchedulingSettings {
+  const courts = scheduling.courtAvailability ?? [];
+  const existing = courts.find(c => c.courtNumber === courtNumber && c.date === date);
+  if (existing?.until && parseTimeToMinutes(existing.until) <= parseTimeToMinutes(until)) return scheduling;
+
+  return {
+    ...scheduling,
+    courtAvailability: existing
+      ? courts.map(c => (c === existing ? { ...c, until } : c))
+      : [...courts, date ? { courtNumber, until, date } : { courtNumber, until }],
+  };
+}
+
+/**
+ * Closes a court from the given moment on in all phases of the tournament
+ * A match already running there is finished; open matches move to other courts.
+ * On a multi-day event the court is closed for the rest of the current day only.
+ */
+export function handleCloseCourt(
+  state: TournamentState,
+  payload: { tournamentId: string; courtNumber: number; timestamp?: string }
+): TournamentState {
+  const now = payload.timestamp ?? new Date().toISOString();
+  const tournament = state.tournaments.find(t => t.id === payload.tournamentId);
+  if (!tournament) return state;
+
+  const until = formatMinutesToTime(getMinutesOfDay(now));
+  const isMultiDay = !!(state.containers || []).find(c => c.id === tournament.containerId)?.calendar?.days.length;
+  const date = isMultiDay ? getLocalDate(now) : undefined;
+  const inScope = (id: string, containerId?: string) =>
+    id === tournament.id || (!!tournament.containerId && containerId === tournament.containerId);
+
+  let changed = false;
+  const tournaments = state.tournaments.map(t => {
+    if (!inScope(t.id, t.containerId) || !t.scheduling) return t;
+    const scheduling = closeCourt(t.scheduling, payload.courtNumber, until, date);
+    if (scheduling === t.scheduling) return t;
+    changed = true;
+    return { ...t, scheduling, updatedAt: now };
+  });
+
+  return changed ? { ...state, tournaments } : state;
+}
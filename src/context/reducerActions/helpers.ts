@@ -1,3 +1,4 @@
 // Helper to check if a system uses group phase
 export const isGroupBasedSystem = (system: string): boolean =>
-  system === 'group-phase' || system === 'beachl-all-placements' || system === 'beachl-short-main';
+  system === 'group-phase' || system === 'beachl-all-placements' || system === 'beachl-short-main' ||
+  system === 'pool-play-single-out';
@@ -1,10 +1,63 @@
-import type { TournamentState } from '../tournamentActions';
+import type { ImportTournamentsPayload, TournamentState } from '../tournamentActions';
+import { readTransferDocument } from '../../utils/transfer';
 
+/**
+ * Replaces the whole state, e.g. with the state saved in localStorage
+ * Older shapes are migrated; an invalid payload leaves the state unchanged.
+ */
 export function handleLoadState(
-  _state: TournamentState,
+  state: TournamentState,
   payload: TournamentState
 ): TournamentState {
-  return payload;
+  const result = readTransferDocument(payload);
+  if (!result.ok) return state;
+
+  const { tournaments, containers, currentTournamentId } = result.document;
+  const selected = currentTournamentId && tournaments.some(t => t.id === currentTournamentId) ? currentTournamentId : null;
+  return { tournaments, containers, currentTournamentId: selected };
+}
+
+/**
+ * Adds imported tournaments; an imported container replaces the existing one
+ * with the same ID together with all of its phases, so no stale phases remain.
+ */
+export function handleImportTournaments(
+  state: TournamentState,
+  payload: ImportTournamentsPayload
+): TournamentState {
+  const containerIds = new Set(payload.containers.map(c => c.id));
+  const tournamentIds = new Set(payload.tournaments.map(t => t.id));
+  const replacedPhaseIds = new Set(
+    state.containers.filter(c => containerIds.has(c.id)).flatMap(c => c.phases.map(p => p.tournamentId))
+  );
+
+  const imported = payload.containers[0];
+  return {
+    tournaments: [
+      ...state.tournaments.filter(t => !tournamentIds.has(t.id) && !replacedPhaseIds.has(t.id)),
+      ...payload.tournaments,
+    ],
+    containers: [...state.containers.filter(c => !containerIds.has(c.id)), ...payload.containers],
+    currentTournamentId: imported?.phases[imported.currentPhaseIndex]?.tournamentId
+      ?? payload.tournaments[0]?.id
+      ?? state.currentTournamentId,
+  };
+}
+
+/**
+ * Takes over the state received from the sync server
+ * The selection stays device-local unless an own action created a tournament.
+ */
+export function handleApplySyncState(
+  state: TournamentState,
+  payload: { state: TournamentState; selectedTournamentId?: string | null }
+): TournamentState {
+  const current = state.currentTournamentId;
+  const keepCurrent = current !== null && payload.state.tournaments.some(t => t.id === current);
+  return {
+    ...payload.state,
+    currentTournamentId: payload.selectedTournamentId ?? (keepCurrent ? current : null),
+  };
 }
 
 export function handleSetCurrentTournament(
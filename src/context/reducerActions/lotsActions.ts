@@ -0,0 +1,29 @@
+import type { DrawLotsPayload, TournamentState } from '../tournamentActions';
+import { clearPhaseTeams } from '../resultCorrection';
+import { populateChildPhases, withRecalculatedStandings } from './matchActions';
+import { isMatchPlayed } from '../../utils/resultCorrection';
+
+/**
+ * Records the drawn order of tied teams and ranks the table by it
+ * Follow-up phases of a completed phase are seeded again from the new table.
+ * Refused (state unchanged) once a match of a follow-up phase has been played.
+ */
+export function handleDrawLots(state: TournamentState, payload: DrawLotsPayload): TournamentState {
+  const tournament = state.tournaments.find(t => t.id === payload.tournamentId);
+  if (!tournament || tournament.status === 'configuration') return state;
+  if (!payload.teamIds.every(id => tournament.teams.some(t => t.id === id))) return state;
+
+  const children = state.tournaments.filter(t => t.parentPhaseId === tournament.id && t.teams.length > 0);
+  if (children.some(c => c.matches.some(isMatchPlayed))) return state;
+
+  const now = new Date().toISOString();
+  const drawn = {
+    ...tournament,
+    lots: [...payload.teamIds, ...(tournament.lots ?? []).filter(id => !payload.teamIds.includes(id))],
+  };
+  const tournaments = state.tournaments.map(t => {
+    if (t.id === tournament.id) return withRecalculatedStandings(drawn, drawn.matches, now);
+    return children.some(c => c.id === t.id) ? clearPhaseTeams(t) : t;
+  });
+  return { ...state, tournaments: populateChildPhases(tournaments, tournament.id) };
+}
@@ -1,7 +1,8 @@
-import type { Tournament } from '../../types/tournament';
+import type { Match, Tournament } from '../../types/tournament';
 import type { TournamentState } from '../tournamentActions';
 import { calculateStandings } from '../../utils/standings';
 import { calculateAllGroupStandings } from '../../utils/groupPhase';
+import { getTiebreakers } from '../../utils/tiebreakers';
 import { updateKnockoutBracket } from '../../utils/knockout';
 import { updatePlacementTreeBracket } from '../../utils/placementTree/index';
 import { updateShortMainRoundBracket } from '../../utils/shortMainRound';
@@ -10,12 +11,43 @@ import { populateKnockoutTeams } from '../../utils/knockout';
 import { populatePlacementTreeTeams } from '../../utils/placementTree/index';
 import { populateShortMainRoundTeams } from '../../utils/shortMainRound';
 import { populatePlayoffTeams } from '../../utils/playoff';
+import { populatePoolPlayTeams } from '../../utils/poolPlay';
+import { updateDoubleEliminationBracket } from '../../utils/doubleElimination';
+import { handleByeMatches, resolveByeMatches } from '../../utils/knockout/byeHandler';
+import { withMatchResult, type SpecialResult } from '../../utils/matchResults';
 import { isGroupBasedSystem } from './helpers';
+import { carryOverWithdrawals, getStandingsTeams, rankWithdrawnLast, rankWithdrawnLastInGroups } from '../../utils/teamWithdrawal';
+
+/**
+ * Marks a match as started and records its actual start time
+ * Only matches with both teams known that have not started yet can be started.
+ */
+export function handleStartMatch(
+  state: TournamentState,
+  payload: { tournamentId: string; matchId: string; timestamp?: string }
+): TournamentState {
+  const now = payload.timestamp ?? new Date().toISOString();
+  const tournament = state.tournaments.find(t => t.id === payload.tournamentId);
+  const match = tournament?.matches.find(m => m.id === payload.matchId);
+  if (!match || !match.teamAId || !match.teamBId) return state;
+  if (match.status !== 'scheduled' && match.status !== 'pending') return state;
+
+  return {
+    ...state,
+    tournaments: state.tournaments.map(t => t !== tournament ? t : {
+      ...t,
+      matches: t.matches.map(m => m === match ? { ...m, status: 'in-progress' as const, startedAt: now } : m),
+      updatedAt: now,
+    }),
+  };
+}
 
 export function handleUpdateMatchScore(
   state: TournamentState,
-  payload: { tournamentId: string; matchId: string; scores: Array<{ teamA: number; teamB: number }> }
+  payload: { tournamentId: string; matchId: string; scores: Array<{ teamA: number; teamB: number }>; timestamp?: string }
 ): TournamentState {
+  const now = payload.timestamp ?? new Date().toISOString();
+
   return {
     ...state,
     tournaments: state.tournaments.map(t => {
@@ -23,14 +55,14 @@ export function handleUpdateMatchScore(
 
       const updatedMatches = t.matches.map(m =>
         m.id === payload.matchId
-          ? { ...m, scores: payload.scores, status: 'in-progress' as const }
+          ? { ...m, scores: payload.scores, status: 'in-progress' as const, startedAt: m.startedAt ?? now }
           : m
       );
 
       return {
         ...t,
         matches: updatedMatches,
-        updatedAt: new Date().toISOString(),
+        updatedAt: now,
       };
     }),
   };
@@ -38,110 +70,180 @@ export function handleUpdateMatchScore(
 
 export function handleCompleteMatch(
   state: TournamentState,
-  payload: { tournamentId: string; matchId: string }
+  payload: { tournamentId: string; matchId: string; timestamp?: string; result?: SpecialResult }
 ): TournamentState {
-  const now = new Date().toISOString();
-  let newTournaments = state.tournaments;
+  const now = payload.timestamp ?? new Date().toISOString();
+  const match = state.tournaments.find(t => t.id === payload.tournamentId)?.matches.find(m => m.id === payload.matchId);
+  // A forfeit, walkover or retirement goes to the given team instead of being won on the scores
+  const decided = match && withMatchResult(match, match.scores, payload.result);
+  if (!decided) return state;
 
   // First, process the match completion
-  newTournaments = newTournaments.map(t => {
+  const newTournaments = state.tournaments.map(t => {
     if (t.id !== payload.tournamentId) return t;
 
-    let updatedMatches = t.matches.map(m => {
-      if (m.id !== payload.matchId) return m;
+    const completedMatches = t.matches.map(m =>
+      m.id === payload.matchId
+        ? {
+          ...decided,
+          status: 'completed' as const,
+          startedAt: m.startedAt ?? now,
+          completedAt: now,
+        }
+        : m
+    );
 
-      let setsWonA = 0;
-      let setsWonB = 0;
-      m.scores.forEach(score => {
-        if (score.teamA > score.teamB) setsWonA++;
-        else if (score.teamB > score.teamA) setsWonB++;
-      });
+    const updatedMatches = propagateMatchResult(state, t, completedMatches, payload.matchId);
+    return withRecalculatedStandings(t, updatedMatches, now);
+  });
 
-      const winnerId = setsWonA > setsWonB ? m.teamAId : m.teamBId;
-      return { ...m, winnerId, status: 'completed' as const };
-    });
+  return {
+    ...state,
+    tournaments: populateChildPhases(newTournaments, payload.tournamentId),
+  };
+}
+
+/**
+ * Propagates the result of a completed match into dependent matches of its bracket
+ * (including referee assignments once a knockout round is complete)
+ */
+export function propagateMatchResult(
+  state: TournamentState,
+  t: Tournament,
+  matches: Match[],
+  matchId: string
+): Match[] {
+  let updatedMatches = matches;
+
+  // For knockout tournaments, propagate winners/losers to dependent matches
+  if (t.system === 'knockout') {
+    updatedMatches = updateKnockoutBracket(updatedMatches, matchId);
+
+    // Check if a round is complete and assign referees for next round
+    const completedMatch = updatedMatches.find(m => m.id === matchId);
+    if (completedMatch?.knockoutRound && t.knockoutConfig?.useReferees) {
+      const roundMatches = updatedMatches.filter(m => m.knockoutRound === completedMatch.knockoutRound);
+      const allRoundComplete = roundMatches.every(m => m.status === 'completed');
 
-    // For knockout tournaments, propagate winners/losers to dependent matches
-    if (t.system === 'knockout') {
-      updatedMatches = updateKnockoutBracket(updatedMatches, payload.matchId);
-
-      // Check if a round is complete and assign referees for next round
-      const completedMatch = updatedMatches.find(m => m.id === payload.matchId);
-      if (completedMatch?.knockoutRound && t.knockoutConfig?.useReferees) {
-        const roundMatches = updatedMatches.filter(m => m.knockoutRound === completedMatch.knockoutRound);
-        const allRoundComplete = roundMatches.every(m => m.status === 'completed');
-
-        if (allRoundComplete) {
-          // Get parent tournament's group phase matches for opponent history
-          const parentTournament = t.parentPhaseId
-            ? state.tournaments.find(pt => pt.id === t.parentPhaseId)
-            : null;
-
-          if (parentTournament) {
-            if (completedMatch.knockoutRound === 'intermediate') {
-              updatedMatches = updateRefereeAssignmentsAfterRound(
-                updatedMatches,
-                'intermediate',
-                parentTournament.matches
-              );
-            } else if (completedMatch.knockoutRound === 'quarterfinal') {
-              updatedMatches = updateRefereeAssignmentsAfterRound(
-                updatedMatches,
-                'quarterfinal',
-                parentTournament.matches
-              );
-            }
+      if (allRoundComplete) {
+        // Get parent tournament's group phase matches for opponent history
+        const parentTournament = t.parentPhaseId
+          ? state.tournaments.find(pt => pt.id === t.parentPhaseId)
+          : null;
+
+        if (parentTournament) {
+          if (completedMatch.knockoutRound === 'intermediate') {
+            updatedMatches = updateRefereeAssignmentsAfterRound(
+              updatedMatches,
+              'intermediate',
+              parentTournament.matches
+            );
+          } else if (completedMatch.knockoutRound === 'quarterfinal') {
+            updatedMatches = updateRefereeAssignmentsAfterRound(
+              updatedMatches,
+              'quarterfinal',
+              parentTournament.matches
+            );
           }
         }
       }
     }
+  }
 
-    // For placement tree tournaments, propagate winners/losers
-    if (t.system === 'placement-tree') {
-      updatedMatches = updatePlacementTreeBracket(updatedMatches, payload.matchId);
-    }
+  // For placement tree tournaments, propagate winners/losers
+  if (t.system === 'placement-tree') {
+    updatedMatches = updatePlacementTreeBracket(updatedMatches, matchId);
+  }
 
-    // For shortened main round tournaments, propagate winners/losers
-    if (t.system === 'short-main-knockout') {
-      updatedMatches = updateShortMainRoundBracket(updatedMatches, payload.matchId);
-    }
+  // Brackets started from the team list: losers of bye matches never arrive
+  if ((t.system === 'knockout' || t.system === 'placement-tree') && !t.parentPhaseId) {
+    updatedMatches = resolveByeMatches(updatedMatches, {
+      setsPerMatch: t.setsPerMatch,
+      pointsPerSet: t.pointsPerSet,
+    });
+  }
 
-    // Calculate standings based on tournament type
-    let standings = t.standings;
-    let groupStandings = t.groupStandings;
-
-    if (isGroupBasedSystem(t.system) && t.groupPhaseConfig) {
-      // Update group standings
-      groupStandings = calculateAllGroupStandings(
-        t.groupPhaseConfig,
-        t.teams,
-        updatedMatches,
-        t.setsPerMatch,
-        t.tiebreakerOrder || 'head-to-head-first'
-      );
-    } else {
-      standings = calculateStandings(t.teams, updatedMatches, {
-        setsPerMatch: t.setsPerMatch,
-        tiebreakerOrder: t.tiebreakerOrder || 'head-to-head-first',
-        system: t.system,
-      });
-    }
+  // For shortened main round tournaments, propagate winners/losers
+  if (t.system === 'short-main-knockout') {
+    updatedMatches = updateShortMainRoundBracket(updatedMatches, matchId);
+  }
 
-    const allCompleted = updatedMatches.every(m => m.status === 'completed' || m.status === 'pending');
-    const hasScheduledOrInProgress = updatedMatches.some(m => m.status === 'scheduled' || m.status === 'in-progress');
+  // For pool play single-out brackets, propagate winners/losers
+  if (t.system === 'pool-play-knockout') {
+    updatedMatches = updateKnockoutBracket(updatedMatches, matchId);
+  }
 
-    return {
-      ...t,
-      matches: updatedMatches,
-      standings,
-      groupStandings,
-      status: !hasScheduledOrInProgress && allCompleted ? 'completed' : 'in-progress',
-      updatedAt: now,
-    };
-  });
+  // For double elimination, propagate into winners/losers bracket and resolve byes
+  if (t.system === 'double-elimination') {
+    updatedMatches = updateDoubleEliminationBracket(updatedMatches, matchId, {
+      setsPerMatch: t.setsPerMatch,
+      pointsPerSet: t.pointsPerSet,
+    });
+  }
+
+  // Slots vacated by a withdrawn team become byes once the opponent is known
+  if (t.withdrawals?.length) {
+    updatedMatches = handleByeMatches(updatedMatches, {
+      setsPerMatch: t.setsPerMatch,
+      pointsPerSet: t.pointsPerSet,
+    });
+  }
+
+  return updatedMatches;
+}
+
+/** Recalculates standings and tournament status after a result changed */
+export function withRecalculatedStandings(t: Tournament, updatedMatches: Match[], now: string): Tournament {
+  // Calculate standings based on tournament type
+  let standings = t.standings;
+  let groupStandings = t.groupStandings;
+
+  if (isGroupBasedSystem(t.system) && t.groupPhaseConfig) {
+    // Update group standings
+    groupStandings = rankWithdrawnLastInGroups(calculateAllGroupStandings(
+      t.groupPhaseConfig,
+      t.teams,
+      updatedMatches,
+      t.setsPerMatch,
+      getTiebreakers(t.tiebreakers, t.tiebreakerOrder),
+      { pointsPerSet: t.pointsPerSet, pointsPerThirdSet: t.pointsPerThirdSet, resultScoring: t.resultScoring },
+      t.lots
+    ), t.withdrawals);
+  } else {
+    standings = rankWithdrawnLast(calculateStandings(getStandingsTeams(t), updatedMatches, {
+      setsPerMatch: t.setsPerMatch,
+      tiebreakerOrder: t.tiebreakerOrder || 'head-to-head-first',
+      tiebreakers: t.tiebreakers,
+      lots: t.lots,
+      system: t.system,
+      pointsPerSet: t.pointsPerSet,
+      pointsPerThirdSet: t.pointsPerThirdSet,
+      resultScoring: t.resultScoring,
+    }), t.withdrawals);
+  }
+
+  const allCompleted = updatedMatches.every(m => m.status === 'completed' || m.status === 'pending');
+  const hasScheduledOrInProgress = updatedMatches.some(m => m.status === 'scheduled' || m.status === 'in-progress');
+
+  return {
+    ...t,
+    matches: updatedMatches,
+    standings,
+    groupStandings,
+    status: !hasScheduledOrInProgress && allCompleted ? 'completed' : 'in-progress',
+    updatedAt: now,
+  };
+}
+
+/**
+ * Populates the follow-up phase once a group phase or round robin is completed
+ * Only phases without teams are populated; a populated phase is never overwritten.
+ */
+export function populateChildPhases(tournaments: Tournament[], parentId: string): Tournament[] {
+  let newTournaments = tournaments;
 
   // Check if a group phase just completed - populate knockout teams
-  const completedTournament = newTournaments.find(t => t.id === payload.tournamentId);
+  const completedTournament = newTournaments.find(t => t.id === parentId);
   if (
     completedTournament &&
     isGroupBasedSystem(completedTournament.system) &&
@@ -149,7 +251,7 @@ export function handleCompleteMatch(
     completedTournament.groupStandings
   ) {
     // Find the child knockout tournament (any knockout type)
-    const knockoutSystems = ['knockout', 'placement-tree', 'short-main-knockout'];
+    const knockoutSystems = ['knockout', 'placement-tree', 'short-main-knockout', 'pool-play-knockout'];
     const knockoutTournament = newTournaments.find(
       t => t.parentPhaseId === completedTournament.id && knockoutSystems.includes(t.system)
     );
@@ -175,6 +277,14 @@ export function handleCompleteMatch(
         );
         populatedKnockout = result.tournament;
         eliminatedTeamIds = result.eliminatedTeamIds;
+      } else if (knockoutTournament.system === 'pool-play-knockout') {
+        const result = populatePoolPlayTeams(
+          knockoutTournament,
+          completedTournament,
+          completedTournament.groupStandings
+        );
+        populatedKnockout = result.tournament;
+        eliminatedTeamIds = result.eliminatedTeamIds;
       } else {
         // Default: SSVB knockout format
         const result = populateKnockoutTeams(
@@ -202,16 +312,14 @@ export function handleCompleteMatch(
       // Update the knockout tournament
       newTournaments = newTournaments.map(t => {
         if (t.id !== knockoutTournament.id) return t;
-        return {
-          ...populatedKnockout,
-          eliminatedTeamIds,
-        };
+        // Teams withdrawn from the group phase get byes
+        return carryOverWithdrawals({ ...populatedKnockout, eliminatedTeamIds }, completedTournament);
       });
     }
   }
 
   // Check if a round-robin phase just completed - populate playoff teams
-  const completedRR = newTournaments.find(t => t.id === payload.tournamentId);
+  const completedRR = newTournaments.find(t => t.id === parentId);
   if (
     completedRR &&
     completedRR.system === 'round-robin' &&
@@ -229,13 +337,10 @@ export function handleCompleteMatch(
       // Update the playoff tournament
       newTournaments = newTournaments.map(t => {
         if (t.id !== playoffTournament.id) return t;
-        return populatedPlayoff;
+        return carryOverWithdrawals(populatedPlayoff, completedRR);
       });
     }
   }
 
-  return {
-    ...state,
-    tournaments: newTournaments,
-  };
+  return newTournaments;
 }
@@ -0,0 +1,11 @@
+import type { TournamentState, UpdateOfficialsPayload } from '../tournamentActions';
+
+/** Replaces the referee pool of a tournament; its matches are staffed anew afterwards */
+export function handleUpdateOfficials(state: TournamentState, payload: UpdateOfficialsPayload): TournamentState {
+  const { containerId, officials } = payload;
+  if (!state.containers.some(c => c.id === containerId)) return state;
+  return {
+    ...state,
+    containers: state.containers.map(c => (c.id === containerId ? { ...c, officials, updatedAt: new Date().toISOString() } : c)),
+  };
+}
@@ -2,10 +2,13 @@ import { v4 as uuidv4 } from 'uuid';
 import type { Tournament, TournamentContainer, PlayoffSettings, KnockoutSettings } from '../../types/tournament';
 import type { TournamentState } from '../tournamentActions';
 import { generateSwissRoundMatches } from '../../utils/swissSystem';
+import { calculateStandings } from '../../utils/standings';
+import { getStandingsTeams, isWithdrawn, rankWithdrawnLast } from '../../utils/teamWithdrawal';
 import { generatePlayoffTournament } from '../../utils/playoff';
 import { generateKnockoutTournament } from '../../utils/knockout';
 import { generatePlacementTreeTournament } from '../../utils/placementTree/index';
 import { generateShortMainRoundTournament } from '../../utils/shortMainRound';
+import { generatePoolPlayTournament } from '../../utils/poolPlay';
 import { assignAllKnockoutReferees } from '../../utils/refereeAssignment';
 import { isGroupBasedSystem } from './helpers';
 
@@ -22,14 +25,28 @@ export function handleGenerateNextSwissRound(
       if (t.numberOfRounds && nextRound > t.numberOfRounds) {
         return { ...t, status: 'completed', updatedAt: new Date().toISOString() };
       }
-      const newMatches = generateSwissRoundMatches(t.teams, t.standings, t.matches, nextRound, t.numberOfCourts);
+      const activeTeams = t.teams.filter(team => !isWithdrawn(t, team.id));
+      const newMatches = generateSwissRoundMatches(activeTeams, t.standings, t.matches, nextRound, t.numberOfCourts);
       if (newMatches.length === 0) {
         return { ...t, status: 'completed', updatedAt: new Date().toISOString() };
       }
+      const matches = [...t.matches, ...newMatches];
       return {
         ...t,
-        matches: [...t.matches, ...newMatches],
+        matches,
+        // A recorded bye counts immediately
+        standings: rankWithdrawnLast(calculateStandings(getStandingsTeams(t), matches, {
+          setsPerMatch: t.setsPerMatch,
+          tiebreakerOrder: t.tiebreakerOrder || 'head-to-head-first',
+          tiebreakers: t.tiebreakers,
+          lots: t.lots,
+          system: t.system,
+          pointsPerSet: t.pointsPerSet,
+          pointsPerThirdSet: t.pointsPerThirdSet,
+          resultScoring: t.resultScoring,
+        }), t.withdrawals),
         currentRound: nextRound,
+        status: 'in-progress',
         updatedAt: new Date().toISOString(),
       };
     }),
@@ -149,7 +166,7 @@ export function handleTransitionToKnockout(
   if (!parentTournament.groupPhaseConfig || !parentTournament.groupStandings) return state;
 
   // Check if knockout already exists
-  const knockoutSystems = ['knockout', 'placement-tree', 'short-main-knockout'];
+  const knockoutSystems = ['knockout', 'placement-tree', 'short-main-knockout', 'pool-play-knockout'];
   const existingKnockout = state.tournaments.find(
     t => t.parentPhaseId === parentTournamentId && knockoutSystems.includes(t.system)
   );
@@ -183,6 +200,17 @@ export function handleTransitionToKnockout(
     knockoutTeams = result.teams;
     eliminatedTeamIds = result.eliminatedTeamIds;
     phase2Name = 'Hauptrunde';
+  } else if (parentTournament.system === 'pool-play-single-out') {
+    // Generate single-out bracket from pool ranks
+    const result = generatePoolPlayTournament(
+      parentTournament,
+      parentTournament.groupStandings,
+      settings
+    );
+    knockoutTournament = result.tournament;
+    knockoutTeams = result.teams;
+    eliminatedTeamIds = result.eliminatedTeamIds;
+    phase2Name = 'K.O.-Runde';
   } else {
     // Default: SSVB knockout format
     const result = generateKnockoutTournament(
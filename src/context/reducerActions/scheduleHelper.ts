@@ -0,0 +1,51 @@
+import type { TournamentState } from '../tournamentActions';
+import { getPlayDate, schedulePhases, toTimelineMinutes } from '../../utils/scheduling';
+import { planReferees } from '../../utils/refereePlanner';
+import { planOfficials } from '../../utils/officials';
+
+/**
+ * Plans courts, start times and referees of all phases that belong to the same
+ * container as the given tournament; used after actions that create matches.
+ * Referees follow the planned times, so they are planned after them.
+ * With a timestamp (match started or finished) the remaining matches are
+ * re-planned from that moment on (on a later day than play began: from the end
+ * of the day). A multi-day container plans on its calendar.
+ */
+export function withSchedule(state: TournamentState, tournamentId: string, timestamp?: string): TournamentState {
+  const tournament = state.tournaments.find(t => t.id === tournamentId);
+  if (!tournament) return state;
+
+  const phases = tournament.containerId
+    ? state.tournaments.filter(t => t.containerId === tournament.containerId)
+    : [tournament];
+  const container = (state.containers || []).find(c => c.id === tournament.containerId);
+  const calendar = container?.calendar;
+  const now = timestamp ? toTimelineMinutes(timestamp, calendar?.days, getPlayDate(phases)) : undefined;
+  const planned = planOfficials(
+    schedulePhases(phases, now, calendar).map(t => planReferees(t, calendar?.days)),
+    container?.officials,
+    calendar?.days,
+  );
+  const scheduled = new Map(planned.map(t => [t.id, t]));
+  if (phases.every(p => scheduled.get(p.id) === p)) return state;
+
+  return {
+    ...state,
+    tournaments: state.tournaments.map(t => scheduled.get(t.id) ?? t),
+  };
+}
+
+/** Re-staffs the matches of a container from its officials pool without re-planning times */
+export function withOfficials(state: TournamentState, containerId: string): TournamentState {
+  const container = state.containers.find(c => c.id === containerId);
+  if (!container) return state;
+  const phases = state.tournaments.filter(t => t.containerId === containerId);
+  const planned = new Map(planOfficials(phases, container.officials, container.calendar?.days).map(t => [t.id, t]));
+  if (phases.every(p => planned.get(p.id) === p)) return state;
+  return { ...state, tournaments: state.tournaments.map(t => planned.get(t.id) ?? t) };
+}
+
+/** Payload of a match status change with its moment filled in (defaults to now) */
+export function withTimestamp<P extends { timestamp?: string }>(payload: P): P & { timestamp: string } {
+  return { ...payload, timestamp: payload.timestamp ?? new Date().toISOString() };
+}
@@ -2,12 +2,19 @@ import { v4 as uuidv4 } from 'uuid';
 import type { Tournament, Group } from '../../types/tournament';
 import type { TournamentState } from '../tournamentActions';
 import { generateSwissRoundMatches } from '../../utils/swissSystem';
+import { calculateStandings } from '../../utils/standings';
 import { generateRoundRobinMatches } from '../../utils/roundRobin';
 import { generateGroupPhaseMatches } from '../../utils/groupPhase';
 import { generatePlayoffTournamentPlaceholder } from '../../utils/playoff';
-import { generateKnockoutTournamentPlaceholder } from '../../utils/knockout';
-import { generatePlacementTreeTournamentPlaceholder } from '../../utils/placementTree/index';
+import { generateKnockoutTournamentPlaceholder, generateSeededKnockoutMatches } from '../../utils/knockout';
+import {
+  generatePlacementTreeTournamentPlaceholder,
+  generateSeededPlacementTreeMatches,
+} from '../../utils/placementTree/index';
 import { generateShortMainRoundTournamentPlaceholder } from '../../utils/shortMainRound';
+import { generatePoolPlayTournamentPlaceholder } from '../../utils/poolPlay';
+import { generateDoubleEliminationMatches } from '../../utils/doubleElimination';
+import { generateMixerRounds } from '../../utils/mixer';
 import { isGroupBasedSystem } from './helpers';
 
 export function handleStartTournament(
@@ -26,6 +33,8 @@ export function handleStartTournament(
     if (t.id !== tournamentId) return t;
 
     let matches = t.matches;
+    let teams = t.teams;
+    let standings = t.standings;
     let currentRound = t.currentRound;
     let groupStandings = t.groupStandings;
 
@@ -33,7 +42,42 @@ export function handleStartTournament(
       matches = generateRoundRobinMatches(t.teams, t.numberOfCourts);
     } else if (t.system === 'swiss') {
       matches = generateSwissRoundMatches(t.teams, t.standings, [], 1, t.numberOfCourts);
+      standings = calculateStandings(t.teams, matches, {
+        setsPerMatch: t.setsPerMatch,
+        tiebreakerOrder: t.tiebreakerOrder || 'head-to-head-first',
+        tiebreakers: t.tiebreakers,
+        system: t.system,
+      });
       currentRound = 1;
+    } else if (t.system === 'double-elimination') {
+      matches = generateDoubleEliminationMatches(t.teams, {
+        numberOfCourts: t.numberOfCourts,
+        setsPerMatch: t.setsPerMatch,
+        pointsPerSet: t.pointsPerSet,
+        config: t.doubleEliminationConfig ?? { playGrandFinalReset: true },
+      });
+    } else if (t.system === 'knockout' && !t.parentPhaseId) {
+      // Direct knockout from the seeded team list (SSVB knockout phases are populated from groups)
+      matches = generateSeededKnockoutMatches(t.teams, {
+        numberOfCourts: t.numberOfCourts,
+        setsPerMatch: t.setsPerMatch,
+        pointsPerSet: t.pointsPerSet,
+        playThirdPlaceMatch: t.knockoutConfig?.playThirdPlaceMatch ?? true,
+      });
+    } else if (t.system === 'placement-tree' && !t.parentPhaseId) {
+      matches = generateSeededPlacementTreeMatches(t.teams, {
+        numberOfCourts: t.numberOfCourts,
+        setsPerMatch: t.setsPerMatch,
+        pointsPerSet: t.pointsPerSet,
+      });
+    } else if (t.system === 'mixer') {
+      const result = generateMixerRounds(t.players ?? [], t.numberOfRounds ?? 4, t.numberOfCourts);
+      teams = result.teams;
+      matches = result.matches;
+      standings = teams.map(team => ({
+        teamId: team.id, played: 0, won: 0, lost: 0, setsWon: 0, setsLost: 0,
+        pointsWon: 0, pointsLost: 0, points: 0,
+      }));
     } else if (isGroupBasedSystem(t.system) && t.groupPhaseConfig) {
       // Generate group phase matches (for all group-based systems)
       matches = generateGroupPhaseMatches(t.groupPhaseConfig, t.teams, t.numberOfCourts);
@@ -57,7 +101,9 @@ export function handleStartTournament(
 
     return {
       ...t,
+      teams,
       matches,
+      standings,
       currentRound,
       groupStandings,
       status: 'in-progress',
@@ -87,6 +133,13 @@ export function handleStartTournament(
         );
         knockoutTournament = result.tournament;
         phase2Name = 'Platzierungsbaum';
+      } else if (tournamentToStart.system === 'pool-play-single-out') {
+        const result = generatePoolPlayTournamentPlaceholder(
+          updatedGroupPhase,
+          tournamentToStart.knockoutSettings
+        );
+        knockoutTournament = result.tournament;
+        phase2Name = 'K.O.-Runde';
       } else {
         // Default: SSVB knockout format (group-phase)
         const result = generateKnockoutTournamentPlaceholder(
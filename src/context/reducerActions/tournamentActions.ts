@@ -15,6 +15,8 @@ export function handleCreateTournament(
     id: uuidv4(),
     seedPosition: index + 1,
   }));
+  // Mixer: the entered list holds individual players, pair teams are generated at start
+  const isMixer = config.system === 'mixer';
   const now = new Date().toISOString();
   const tournamentId = uuidv4();
   const containerId = uuidv4();
@@ -39,11 +41,14 @@ export function handleCreateTournament(
     pointsPerSet: config.pointsPerSet,
     pointsPerThirdSet: config.pointsPerThirdSet,
     tiebreakerOrder: config.tiebreakerOrder,
+    tiebreakers: config.tiebreakers,
+    resultScoring: config.resultScoring,
     numberOfRounds: config.numberOfRounds,
     scheduling: config.scheduling,
-    teams,
+    teams: isMixer ? [] : teams,
+    players: isMixer ? teams : undefined,
     matches: [],
-    standings: teams.map((t: Team) => ({
+    standings: (isMixer ? [] : teams).map((t: Team) => ({
       teamId: t.id, played: 0, won: 0, lost: 0, setsWon: 0, setsLost: 0,
       pointsWon: 0, pointsLost: 0, points: 0,
     })),
@@ -57,6 +62,7 @@ export function handleCreateTournament(
     groupPhaseConfig,
     knockoutConfig: config.knockoutConfig,
     knockoutSettings: config.knockoutSettings,
+    doubleEliminationConfig: config.doubleEliminationConfig,
   };
   const newContainer: TournamentContainer = {
     id: containerId,
@@ -66,6 +72,7 @@ export function handleCreateTournament(
     status: 'in-progress',
     createdAt: now,
     updatedAt: now,
+    calendar: config.calendar,
   };
   return {
     ...state,
@@ -115,8 +122,13 @@ interface UpdateTournamentSettingsPayload {
   pointsPerSet: number;
   pointsPerThirdSet?: number;
   tiebreakerOrder: Tournament['tiebreakerOrder'];
+  tiebreakers?: Tournament['tiebreakers'];
+  resultScoring?: Tournament['resultScoring'];
   numberOfRounds?: number;
   scheduling?: Tournament['scheduling'];
+  doubleEliminationConfig?: Tournament['doubleEliminationConfig'];
+  knockoutConfig?: Tournament['knockoutConfig'];
+  calendar?: TournamentContainer['calendar'];
 }
 
 export function handleUpdateTournamentSettings(
@@ -149,18 +161,23 @@ export function handleUpdateTournamentSettings(
         pointsPerSet: settings.pointsPerSet,
         pointsPerThirdSet: settings.pointsPerThirdSet,
         tiebreakerOrder: settings.tiebreakerOrder,
+        tiebreakers: settings.tiebreakers,
+        resultScoring: settings.resultScoring,
         numberOfRounds: settings.numberOfRounds,
         scheduling: settings.scheduling,
+        doubleEliminationConfig: settings.doubleEliminationConfig,
+        knockoutConfig: settings.knockoutConfig,
         phaseName,
         updatedAt: new Date().toISOString(),
       };
     }),
-    // Update container name if tournament name changed
+    // Update container name and event calendar
     containers: (state.containers || []).map(c => {
       if (c.id !== tournament?.containerId) return c;
       return {
         ...c,
         name: settings.name,
+        calendar: settings.calendar,
         phases: c.phases.map(p =>
           p.tournamentId === settings.tournamentId
             ? { ...p, name: phaseName }
@@ -178,11 +195,14 @@ export function handleUpdateTeams(
 ): TournamentState {
   return {
     ...state,
-    tournaments: state.tournaments.map(t =>
-      t.id === payload.tournamentId
-        ? { ...t, teams: payload.teams, updatedAt: new Date().toISOString() }
-        : t
-    ),
+    tournaments: state.tournaments.map(t => {
+      if (t.id !== payload.tournamentId) return t;
+      // Mixer: the configured list holds individual players
+      if (t.system === 'mixer') {
+        return { ...t, players: payload.teams, updatedAt: new Date().toISOString() };
+      }
+      return { ...t, teams: payload.teams, updatedAt: new Date().toISOString() };
+    }),
   };
 }
 
@@ -215,17 +235,21 @@ export function handleResetTournament(
   }
   newTournaments = newTournaments.map(t => {
     if (t.id !== tournamentId) return t;
-    const resetStandings = t.teams.map(team => ({
+    // Mixer pair teams are generated at start and discarded on reset
+    const teams = t.system === 'mixer' ? [] : t.teams;
+    const resetStandings = teams.map(team => ({
       teamId: team.id, played: 0, won: 0, lost: 0, setsWon: 0, setsLost: 0,
       pointsWon: 0, pointsLost: 0, points: 0,
     }));
     return {
       ...t,
+      teams,
       matches: [],
       standings: resetStandings,
       currentRound: t.system === 'swiss' ? 0 : undefined,
       status: 'configuration' as const,
       parentPhaseId: undefined,
+      lots: undefined,
       updatedAt: new Date().toISOString(),
     };
   });
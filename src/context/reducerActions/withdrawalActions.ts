@@ -0,0 +1,10 @@
+import type { TournamentState } from '../tournamentActions';
+import { planTeamWithdrawal, type WithdrawalPayload } from '../teamWithdrawal';
+
+/**
+ * Withdraws a team from a running phase and recomputes everything that depends on it
+ * Refused (state unchanged) if the phase isn't running or the team already left.
+ */
+export function handleWithdrawTeam(state: TournamentState, payload: WithdrawalPayload): TournamentState {
+  return planTeamWithdrawal(state, payload)?.state ?? state;
+}
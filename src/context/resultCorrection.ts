@@ -0,0 +1,130 @@
+import type { Match, SetScore, Tournament } from '../types/tournament';
+import type { TournamentState } from './tournamentActions';
+import { describeMatch } from './journal';
+import { propagateMatchResult, withRecalculatedStandings, populateChildPhases } from './reducerActions/matchActions';
+import { clearDependentMatches, collectDependentMatches, isMatchPlayed } from '../utils/resultCorrection';
+import { withMatchResult, type SpecialResult } from '../utils/matchResults';
+import { handleByeMatches } from '../utils/knockout/byeHandler';
+
+/** Systems whose brackets contain byes that are resolved when a slot gets filled */
+const BYE_SYSTEMS = ['knockout', 'pool-play-knockout'];
+
+export interface CorrectionPayload {
+  tournamentId: string;
+  matchId: string;
+  scores: SetScore[];
+  /** Forfeit, walkover or retirement instead of a played result */
+  result?: SpecialResult;
+  /** Moment of the correction; the reset matches are re-planned from it */
+  timestamp?: string;
+}
+
+/** A match whose teams change because of a corrected result */
+export interface AffectedMatch {
+  tournamentId: string;
+  matchId: string;
+  /** e.g. "Spiel 12 Team A – Team B" */
+  description: string;
+  /** Already played or running; its result would be lost */
+  played: boolean;
+}
+
+export interface ResultCorrectionPlan {
+  winnerChanged: boolean;
+  affectedMatches: AffectedMatch[];
+  /** The correction is refused while any affected match has been played */
+  blockingMatches: AffectedMatch[];
+  /** State after the correction */
+  state: TournamentState;
+}
+
+const hasTeams = (match: Match) => !!match.teamAId || !!match.teamBId || match.status === 'completed';
+
+/** Teams placed into a phase from the previous phase's standings, by name (team IDs are regenerated) */
+function getSeeding(phase: Tournament): string {
+  const name = (teamId: string | null) => phase.teams.find(t => t.id === teamId)?.name ?? '';
+  return phase.matches
+    .map(m => `${m.dependsOn?.teamA ? '' : name(m.teamAId)}|${m.dependsOn?.teamB ? '' : name(m.teamBId)}`)
+    .join(';');
+}
+
+/** Turns a populated follow-up phase back into its unpopulated placeholder bracket */
+export function clearPhaseTeams(phase: Tournament): Tournament {
+  return {
+    ...phase,
+    teams: [],
+    standings: [],
+    eliminatedTeamIds: [],
+    matches: phase.matches.map(m => ({
+      ...m,
+      teamAId: null,
+      teamBId: null,
+      refereeTeamId: null,
+      scores: [],
+      winnerId: null,
+      status: 'pending' as const,
+    })),
+  };
+}
+
+/**
+ * Works out what correcting the result of a completed match changes
+ * If the winner changes, every dependent bracket match is cleared and re-seeded. Follow-up
+ * phases populated from the standings are seeded again if the qualification changed.
+ * Returns null if the match does not exist, is not completed or the winner isn't one of its teams.
+ */
+export function planResultCorrection(state: TournamentState, payload: CorrectionPayload): ResultCorrectionPlan | null {
+  const tournament = state.tournaments.find(t => t.id === payload.tournamentId);
+  const match = tournament?.matches.find(m => m.id === payload.matchId);
+  if (!tournament || !match || match.status !== 'completed') return null;
+
+  const correctedMatch = withMatchResult(match, payload.scores, payload.result);
+  if (!correctedMatch) return null;
+
+  const now = new Date().toISOString();
+  const winnerId = correctedMatch.winnerId;
+  const winnerChanged = winnerId !== match.winnerId;
+  const affected: Array<{ phase: Tournament; match: Match }> = [];
+
+  let matches = tournament.matches;
+  if (winnerChanged) {
+    collectDependentMatches(matches, match.id).filter(hasTeams).forEach(m => affected.push({ phase: tournament, match: m }));
+    matches = clearDependentMatches(matches, match.id);
+  }
+  matches = matches.map(m => (m.id === match.id ? correctedMatch : m));
+  if (winnerChanged) {
+    matches = propagateMatchResult(state, tournament, matches, match.id);
+    if (BYE_SYSTEMS.includes(tournament.system)) {
+      matches = handleByeMatches(matches, { setsPerMatch: tournament.setsPerMatch, pointsPerSet: tournament.pointsPerSet });
+    }
+  }
+
+  let tournaments = state.tournaments.map(t => (t.id === tournament.id ? withRecalculatedStandings(t, matches, now) : t));
+
+  const corrected = tournaments.find(t => t.id === tournament.id)!;
+  if (corrected.status === 'completed') {
+    tournaments
+      .filter(t => t.parentPhaseId === tournament.id && t.teams.length > 0)
+      .forEach(phase => {
+        const reseeded = populateChildPhases(tournaments.map(t => (t.id === phase.id ? clearPhaseTeams(t) : t)), tournament.id);
+        const reseededPhase = reseeded.find(t => t.id === phase.id);
+        if (!reseededPhase || reseededPhase.teams.length === 0 || getSeeding(reseededPhase) === getSeeding(phase)) return;
+        phase.matches.filter(hasTeams).forEach(m => affected.push({ phase, match: m }));
+        tournaments = reseeded;
+      });
+  }
+
+  const affectedMatches = affected.map(({ phase, match: m }) => ({
+    tournamentId: phase.id,
+    matchId: m.id,
+    description: describeMatch(state, phase, m),
+    played: isMatchPlayed(m),
+  }));
+
+  return {
+    winnerChanged,
+    affectedMatches,
+    blockingMatches: affectedMatches.filter(m => m.played),
+    state: { ...state, tournaments },
+  };
+}
@@ -0,0 +1,37 @@
+import type { Dispatch } from 'react';
+import type { JournalMeta } from './journal';
+import { historyReducer, type HistoryAction, type HistoryState } from './history';
+import { getRevertActions, isReplayableAction, withActionTime, type SyncClient, type SyncedAction } from '../sync';
+
+/**
+ * Journals a change, then sends it to the sync server
+ * A replayable action is applied right away, as the sync client shows it, and can be undone;
+ * any other is journaled only, its result arrives with the server's state.
+ */
+export function dispatchSynced(
+  client: Pick<SyncClient, 'dispatch'>,
+  historyDispatch: Dispatch<HistoryAction>,
+  action: SyncedAction,
+  meta: JournalMeta
+): void {
+  // Journal and server have to replay the same moment
+  const stamped = withActionTime(action);
+  historyDispatch({ type: 'RECORD', action: stamped, meta, journalOnly: !isReplayableAction(stamped) });
+  client.dispatch(stamped);
+}
+
+/**
+ * Undoes, redoes or restores, then sends the records this brings back to the sync server
+ * The history moves first, so the server confirming the records keeps the undo steps.
+ */
+export function travelSynced(
+  client: Pick<SyncClient, 'dispatch'>,
+  history: HistoryState,
+  historyDispatch: Dispatch<HistoryAction>,
+  action: Exclude<HistoryAction, { type: 'RECORD' }>
+): void {
+  const actions = getRevertActions(history.present, historyReducer(history, action).present);
+  historyDispatch(action);
+  actions.forEach(revert => client.dispatch(revert));
+}
+
@@ -0,0 +1,105 @@
+import type { TournamentState } from './tournamentActions';
+
+/**
+ * Cross-tab synchronisation of the saved state
+ *
+ * Every tournament and container has a revision number that counts its saved
+ * changes. A tab remembers the revisions its state is based on. When it saves,
+ * only its changed records replace the stored ones; a changed record whose
+ * stored revision is newer than the one the tab knows was edited in another tab
+ * in the meantime and is reported as a conflict instead of being overwritten.
+ */
+
+/** Saved changes per tournament and container ID; removed records keep their revision */
+export type Revisions = Record<string, number>;
+
+export interface StoredSnapshot {
+  state: TournamentState;
+  revisions: Revisions;
+}
+
+interface StoredRecord {
+  id: string;
+}
+
+function getRecords(state: TournamentState): Map<string, StoredRecord> {
+  return new Map<string, StoredRecord>([
+    ...state.tournaments.map(t => [t.id, t] as const),
+    ...state.containers.map(c => [c.id, c] as const),
+  ]);
+}
+
+/** IDs of the tournaments and containers added, changed or removed between two states */
+export function getChangedIds(before: TournamentState, after: TournamentState): string[] {
+  const beforeRecords = getRecords(before);
+  const afterRecords = getRecords(after);
+  const ids = new Set([...beforeRecords.keys(), ...afterRecords.keys()]);
+  return [...ids].filter(id => beforeRecords.get(id) !== afterRecords.get(id));
+}
+
+/**
+ * Like getChangedIds, but leaves out records that are equal in content
+ * States taken over from the sync server share no objects with the device's own.
+ */
+export function getChangedContentIds(before: TournamentState, after: TournamentState): string[] {
+  const beforeRecords = getRecords(before);
+  const afterRecords = getRecords(after);
+  return getChangedIds(before, after)
+    .filter(id => JSON.stringify(beforeRecords.get(id)) !== JSON.stringify(afterRecords.get(id)));
+}
+
+/** Changed records another tab has saved a newer revision of */
+export function findConflicts(changedIds: string[], known: Revisions, stored: Revisions): string[] {
+  return changedIds.filter(id => (stored[id] ?? 0) > (known[id] ?? 0));
+}
+
+/** Records another tab has saved a newer revision of */
+export function getNewerIds(known: Revisions, stored: Revisions): string[] {
+  return Object.keys(stored).filter(id => stored[id] > (known[id] ?? 0));
+}
+
+/** Takes the given records from another state, keeping the order; records missing there are removed */
+export function replaceRecords(target: TournamentState, source: TournamentState, ids: string[]): TournamentState {
+  const replaced = new Set(ids);
+  const merge = <T extends StoredRecord>(into: T[], from: T[]): T[] => {
+    const fromById = new Map(from.map(r => [r.id, r]));
+    const existing = new Set(into.map(r => r.id));
+    return [
+      ...into.flatMap(r => (!replaced.has(r.id) ? [r] : fromById.has(r.id) ? [fromById.get(r.id)!] : [])),
+      ...from.filter(r => replaced.has(r.id) && !existing.has(r.id)),
+    ];
+  };
+  return {
+    ...target,
+    tournaments: merge(target.tournaments, source.tournaments),
+    containers: merge(target.containers, source.containers),
+  };
+}
+
+/** Snapshot to save: the stored one with this tab's changed records and selection, their revisions counted up */
+export function mergeIntoStored(stored: StoredSnapshot, local: TournamentState, changedIds: string[]): StoredSnapshot {
+  const revisions = { ...stored.revisions };
+  changedIds.forEach(id => {
+    revisions[id] = (revisions[id] ?? 0) + 1;
+  });
+  return {
+    state: { ...replaceRecords(stored.state, local, changedIds), currentTournamentId: local.currentTournamentId },
+    revisions,
+  };
+}
+
+/** This tab's state with the given records from the stored snapshot; a selected tournament that was removed is deselected */
+export function applyStoredRecords(local: TournamentState, stored: StoredSnapshot, ids: string[]): TournamentState {
+  const state = replaceRecords(local, stored.state, ids);
+  const selected = state.currentTournamentId;
+  return selected && !state.tournaments.some(t => t.id === selected) ? { ...state, currentTournamentId: null } : state;
+}
+
+/** The known revisions with those of the given records taken from the stored ones */
+export function withRevisions(known: Revisions, stored: Revisions, ids: string[]): Revisions {
+  const revisions = { ...known };
+  ids.forEach(id => {
+    if (stored[id] !== undefined) revisions[id] = stored[id];
+  });
+  return revisions;
+}
@@ -0,0 +1,57 @@
+import type { Match, Tournament, WithdrawalRule } from '../types/tournament';
+import type { TournamentState } from './tournamentActions';
+import type { AffectedMatch } from './resultCorrection';
+import { describeMatch } from './journal';
+import { populateChildPhases, withRecalculatedStandings } from './reducerActions/matchActions';
+import { canWithdrawTeams, getWithdrawalChanges, isWithdrawn, withdrawTeamFromMatches } from '../utils/teamWithdrawal';
+import { isMatchPlayed } from '../utils/resultCorrection';
+
+export interface WithdrawalPayload {
+  tournamentId: string;
+  teamId: string;
+  rule: WithdrawalRule;
+  timestamp?: string;
+}
+
+export interface TeamWithdrawalPlan {
+  annulledMatches: AffectedMatch[];
+  forfeitedMatches: AffectedMatch[];
+  byeMatches: AffectedMatch[];
+  /** State after the withdrawal */
+  state: TournamentState;
+}
+
+/**
+ * Works out what withdrawing a team from a running phase changes
+ * Standings are recalculated with the team ranked last (or left out once its results are annulled);
+ * a phase completed by the withdrawal populates its follow-up phases.
+ * Returns null if the phase isn't running or the team isn't (or no longer) part of it.
+ */
+export function planTeamWithdrawal(state: TournamentState, payload: WithdrawalPayload): TeamWithdrawalPlan | null {
+  const tournament = state.tournaments.find(t => t.id === payload.tournamentId);
+  if (!tournament || !canWithdrawTeams(tournament)) return null;
+  if (!tournament.teams.some(t => t.id === payload.teamId) || isWithdrawn(tournament, payload.teamId)) return null;
+
+  const now = payload.timestamp ?? new Date().toISOString();
+  const { annulled, forfeited, byes } = getWithdrawalChanges(tournament, payload.teamId, payload.rule);
+  const describe = (m: Match): AffectedMatch => ({
+    tournamentId: tournament.id,
+    matchId: m.id,
+    description: describeMatch(state, tournament, m),
+    played: isMatchPlayed(m),
+  });
+
+  const withdrawn: Tournament = {
+    ...tournament,
+    withdrawals: [...(tournament.withdrawals ?? []), { teamId: payload.teamId, rule: payload.rule, withdrawnAt: now }],
+  };
+  const matches = withdrawTeamFromMatches(withdrawn, payload.teamId, payload.rule, now);
+  const tournaments = state.tournaments.map(t => (t.id === tournament.id ? withRecalculatedStandings(withdrawn, matches, now) : t));
+
+  return {
+    annulledMatches: annulled.map(describe),
+    forfeitedMatches: forfeited.map(describe),
+    byeMatches: byes.map(describe),
+    state: { ...state, tournaments: populateChildPhases(tournaments, tournament.id) },
+  };
+}
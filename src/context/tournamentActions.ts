@@ -1,4 +1,7 @@
-import type { TournamentConfig, Team, SetScore, TournamentSystem, TiebreakerOrder, PlayoffSettings, TournamentContainer, SchedulingSettings, Group, KnockoutSettings, GroupPhaseConfig } from '../types/tournament';
+import type { TournamentConfig, Team, SetScore, TournamentSystem, TiebreakerOrder, TiebreakerCriterion, PlayoffSettings, TournamentContainer, SchedulingSettings, EventCalendar, Group, KnockoutSettings, GroupPhaseConfig, DoubleEliminationConfig, KnockoutConfig, ResultScoring, Official } from '../types/tournament';
+import type { SpecialResult } from '../utils/matchResults';
+import type { WithdrawalPayload } from './teamWithdrawal';
+import type { CorrectionPayload } from './resultCorrection';
 
 export interface TournamentState {
   tournaments: Tournament[];
@@ -15,14 +18,20 @@ export interface TournamentSettingsUpdate {
   pointsPerSet: number;
   pointsPerThirdSet?: number;
   tiebreakerOrder: TiebreakerOrder;
+  tiebreakers?: TiebreakerCriterion[];
+  resultScoring?: Partial<ResultScoring>;
   numberOfRounds?: number;
   scheduling?: SchedulingSettings;
+  calendar?: EventCalendar;
   // Group phase specific
   groupPhaseConfig?: Omit<GroupPhaseConfig, 'groups'>;
   groups?: Group[];
   // Knockout specific
   useReferees?: boolean;
   playThirdPlaceMatch?: boolean;
+  knockoutConfig?: KnockoutConfig; // Knockout started directly from the team list
+  // Double elimination specific
+  doubleEliminationConfig?: DoubleEliminationConfig;
 }
 
 export interface CreateFinalsPayload {
@@ -35,26 +44,61 @@ export interface CreateKnockoutPayload {
   settings: KnockoutSettings;
 }
 
+/** Tournaments from a validated export file, merged into the state */
+export interface ImportTournamentsPayload {
+  tournaments: Tournament[];
+  containers: TournamentContainer[];
+}
+
 export interface UpdateGroupsPayload {
   tournamentId: string;
   groups: Group[];
 }
 
+/** Links a team of the season statistics to another one, e.g. after a rename */
+export interface MergeTeamProfilesPayload {
+  profileId: string;
+  intoProfileId: string;
+}
+
+/** Drawn order of tied teams, best first; replaces their earlier order in Tournament.lots */
+export interface DrawLotsPayload {
+  tournamentId: string;
+  teamIds: string[];
+}
+
+/** Replaces the referee pool of a tournament with all its phases */
+export interface UpdateOfficialsPayload {
+  containerId: string;
+  officials: Official[];
+}
+
 export type TournamentAction =
   | { type: 'LOAD_STATE'; payload: TournamentState }
+  | { type: 'IMPORT_TOURNAMENTS'; payload: ImportTournamentsPayload }
+  | { type: 'APPLY_SYNC_STATE'; payload: { state: TournamentState; selectedTournamentId?: string | null } }
   | { type: 'CREATE_TOURNAMENT'; payload: TournamentConfig }
   | { type: 'SET_CURRENT_TOURNAMENT'; payload: string | null }
   | { type: 'UPDATE_TEAMS'; payload: { tournamentId: string; teams: Team[] } }
   | { type: 'UPDATE_TOURNAMENT_SETTINGS'; payload: TournamentSettingsUpdate }
   | { type: 'START_TOURNAMENT'; payload: string }
   | { type: 'RESET_TOURNAMENT'; payload: string }
-  | { type: 'UPDATE_MATCH_SCORE'; payload: { tournamentId: string; matchId: string; scores: SetScore[] } }
-  | { type: 'COMPLETE_MATCH'; payload: { tournamentId: string; matchId: string } }
+  | { type: 'START_MATCH'; payload: { tournamentId: string; matchId: string; timestamp?: string } }
+  | { type: 'UPDATE_MATCH_SCORE'; payload: { tournamentId: string; matchId: string; scores: SetScore[]; timestamp?: string } }
+  | { type: 'COMPLETE_MATCH'; payload: { tournamentId: string; matchId: string; timestamp?: string; result?: SpecialResult } }
+  | { type: 'CLOSE_COURT'; payload: { tournamentId: string; courtNumber: number; timestamp?: string } }
+  | { type: 'CORRECT_MATCH_RESULT'; payload: CorrectionPayload }
+  | { type: 'WITHDRAW_TEAM'; payload: WithdrawalPayload }
+  | { type: 'DRAW_LOTS'; payload: DrawLotsPayload }
   | { type: 'DELETE_TOURNAMENT'; payload: string }
   | { type: 'GENERATE_NEXT_SWISS_ROUND'; payload: string }
   | { type: 'CREATE_FINALS_TOURNAMENT'; payload: CreateFinalsPayload }
   | { type: 'SET_CURRENT_PHASE'; payload: { containerId: string; phaseIndex: number } }
   | { type: 'DELETE_CONTAINER'; payload: string }
+  | { type: 'ARCHIVE_CONTAINER'; payload: string }
+  | { type: 'UNARCHIVE_CONTAINER'; payload: string }
+  | { type: 'MERGE_TEAM_PROFILES'; payload: MergeTeamProfilesPayload }
+  | { type: 'UPDATE_OFFICIALS'; payload: UpdateOfficialsPayload }
   // New actions for group phase and knockout
   | { type: 'UPDATE_GROUPS'; payload: UpdateGroupsPayload }
   | { type: 'CREATE_KNOCKOUT_TOURNAMENT'; payload: CreateKnockoutPayload };
@@ -10,9 +10,16 @@ import {
   handleUpdateGroups,
 } from './reducerActions/tournamentActions';
 import {
+  handleStartMatch,
   handleUpdateMatchScore,
   handleCompleteMatch,
 } from './reducerActions/matchActions';
+import { handleCorrectMatchResult } from './reducerActions/correctionActions';
+import { handleWithdrawTeam } from './reducerActions/withdrawalActions';
+import { handleDrawLots } from './reducerActions/lotsActions';
+import { handleCloseCourt } from './reducerActions/courtActions';
+import { handleArchiveContainer, handleMergeTeamProfiles, handleUnarchiveContainer } from './reducerActions/archiveActions';
+import { handleUpdateOfficials } from './reducerActions/officialActions';
 import {
   handleGenerateNextSwissRound,
   handleCreateFinalsPhase,
@@ -20,15 +27,24 @@ import {
 } from './reducerActions/phaseActions';
 import {
   handleLoadState,
+  handleImportTournaments,
+  handleApplySyncState,
   handleSetCurrentTournament,
   handleSetCurrentPhase,
 } from './reducerActions/loadActions';
+import { withOfficials, withSchedule, withTimestamp } from './reducerActions/scheduleHelper';
 
 export function tournamentReducer(state: TournamentState, action: TournamentAction): TournamentState {
   switch (action.type) {
     case 'LOAD_STATE':
       return handleLoadState(state, action.payload);
 
+    case 'IMPORT_TOURNAMENTS':
+      return handleImportTournaments(state, action.payload);
+
+    case 'APPLY_SYNC_STATE':
+      return handleApplySyncState(state, action.payload);
+
     case 'CREATE_TOURNAMENT':
       return handleCreateTournament(state, action.payload);
 
@@ -42,25 +58,57 @@ export function tournamentReducer(state: TournamentState, action: TournamentActi
       return handleUpdateTournamentSettings(state, action.payload);
 
     case 'START_TOURNAMENT':
-      return handleStartTournament(state, action.payload);
+      return withSchedule(handleStartTournament(state, action.payload), action.payload);
 
     case 'RESET_TOURNAMENT':
       return handleResetTournament(state, action.payload);
 
-    case 'UPDATE_MATCH_SCORE':
-      return handleUpdateMatchScore(state, action.payload);
-
-    case 'COMPLETE_MATCH':
-      return handleCompleteMatch(state, action.payload);
+    case 'START_MATCH': {
+      const payload = withTimestamp(action.payload);
+      const started = handleStartMatch(state, payload);
+      return started === state ? state : withSchedule(started, payload.tournamentId, payload.timestamp);
+    }
+
+    case 'UPDATE_MATCH_SCORE': {
+      const payload = withTimestamp(action.payload);
+      return withSchedule(handleUpdateMatchScore(state, payload), payload.tournamentId, payload.timestamp);
+    }
+
+    case 'COMPLETE_MATCH': {
+      const payload = withTimestamp(action.payload);
+      return withSchedule(handleCompleteMatch(state, payload), payload.tournamentId, payload.timestamp);
+    }
+
+    case 'CLOSE_COURT': {
+      const payload = withTimestamp(action.payload);
+      const closed = handleCloseCourt(state, payload);
+      return closed === state ? state : withSchedule(closed, payload.tournamentId, payload.timestamp);
+    }
+
+    case 'CORRECT_MATCH_RESULT': {
+      const payload = withTimestamp(action.payload);
+      const corrected = handleCorrectMatchResult(state, payload);
+      return corrected === state ? state : withSchedule(corrected, payload.tournamentId, payload.timestamp);
+    }
+
+    case 'WITHDRAW_TEAM': {
+      const payload = withTimestamp(action.payload);
+      return withSchedule(handleWithdrawTeam(state, payload), payload.tournamentId, payload.timestamp);
+    }
+
+    case 'DRAW_LOTS': {
+      const drawn = handleDrawLots(state, action.payload);
+      return drawn === state ? state : withSchedule(drawn, action.payload.tournamentId);
+    }
 
     case 'DELETE_TOURNAMENT':
       return handleDeleteTournament(state, action.payload);
 
     case 'GENERATE_NEXT_SWISS_ROUND':
-      return handleGenerateNextSwissRound(state, action.payload);
+      return withSchedule(handleGenerateNextSwissRound(state, action.payload), action.payload);
 
     case 'CREATE_FINALS_TOURNAMENT':
-      return handleCreateFinalsPhase(state, action.payload);
+      return withSchedule(handleCreateFinalsPhase(state, action.payload), action.payload.parentTournamentId);
 
     case 'SET_CURRENT_PHASE':
       return handleSetCurrentPhase(state, action.payload);
@@ -68,11 +116,23 @@ export function tournamentReducer(state: TournamentState, action: TournamentActi
     case 'DELETE_CONTAINER':
       return handleDeleteContainer(state, action.payload);
 
+    case 'ARCHIVE_CONTAINER':
+      return handleArchiveContainer(state, action.payload);
+
+    case 'UNARCHIVE_CONTAINER':
+      return handleUnarchiveContainer(state, action.payload);
+
+    case 'MERGE_TEAM_PROFILES':
+      return handleMergeTeamProfiles(state, action.payload);
+
+    case 'UPDATE_OFFICIALS':
+      return withOfficials(handleUpdateOfficials(state, action.payload), action.payload.containerId);
+
     case 'UPDATE_GROUPS':
       return handleUpdateGroups(state, action.payload);
 
     case 'CREATE_KNOCKOUT_TOURNAMENT':
-      return handleTransitionToKnockout(state, action.payload);
+      return withSchedule(handleTransitionToKnockout(state, action.payload), action.payload.parentTournamentId);
 
     default:
       return state;
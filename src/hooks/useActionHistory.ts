@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import type { Dispatch } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { TournamentAction, TournamentState } from '../context/tournamentActions';
+import type { JournalEntry, JournalMeta } from '../context/journal';
+import { historyReducer, initialHistory, canRestore, MAX_JOURNAL_ENTRIES, type HistoryAction } from '../context/history';
+import { dispatchSynced, travelSynced } from '../context/syncedHistory';
+import { isSyncedAction } from '../sync';
+import type { TournamentStorage } from '../storage';
+import { useServerSync, type ServerSyncStatus } from './useServerSync';
+
+const ACTOR_KEY = 'beachvolleyball-editor-name';
+
+export interface ActionHistory {
+  journal: JournalEntry[];
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Description of the action undo would revert */
+  undoDescription: string | null;
+  undo: () => void;
+  redo: () => void;
+  /** Restores the state before the given journal entry */
+  restore: (entryId: string) => void;
+  canRestore: (entryId: string) => boolean;
+  /** Name recorded with every journal entry */
+  actor: string;
+  setActor: (actor: string) => void;
+}
+
+/**
+ * Tournament state with an append-only action journal and undo/redo
+ * The journal is persisted in the storage; undo snapshots live for the session
+ * only. Starts with the state and journal loaded from the storage, if any.
+ * With a sync server, changes as well as undo and redo go through it (see syncedHistory).
+ */
+export function useActionHistory(storage: TournamentStorage, loadedState?: TournamentState, loadedJournal: JournalEntry[] = []): {
+  state: TournamentState;
+  dispatch: Dispatch<TournamentAction>;
+  history: ActionHistory;
+  serverSync: ServerSyncStatus | null;
+} {
+  const [history, historyDispatch] = useReducer(
+    historyReducer,
+    initialHistory,
+    initial => ({
+      ...initial,
+      present: loadedState ?? initial.present,
+      journal: loadedJournal.slice(-MAX_JOURNAL_ENTRIES),
+    })
+  );
+  const [actor, setActorState] = useState(() => localStorage.getItem(ACTOR_KEY) ?? '');
+  const actorRef = useRef(actor);
+
+  useEffect(() => {
+    actorRef.current = actor;
+  }, [actor]);
+
+  // A journal that cannot be saved must not stop the tournament
+  useEffect(() => {
+    storage.saveJournal(history.journal).catch(e => console.error('Failed to save journal:', e));
+  }, [storage, history.journal]);
+
+  const createMeta = useCallback((): JournalMeta => ({
+    id: uuidv4(),
+    at: new Date().toISOString(),
+    actor: actorRef.current.trim() || null,
+  }), []);
+
+  const localDispatch = useCallback(
+    (action: TournamentAction) => historyDispatch({ type: 'RECORD', action, meta: createMeta() }),
+    [createMeta]
+  );
+  const { client, status: serverSync } = useServerSync(localDispatch, history.present);
+
+  const dispatch = useCallback((action: TournamentAction) => {
+    if (client && isSyncedAction(action)) dispatchSynced(client, historyDispatch, action, createMeta());
+    else localDispatch(action);
+  }, [client, createMeta, localDispatch]);
+
+  const travel = (action: Exclude<HistoryAction, { type: 'RECORD' }>) => {
+    if (client) travelSynced(client, history, historyDispatch, action);
+    else historyDispatch(action);
+  };
+
+  const setActor = useCallback((name: string) => {
+    setActorState(name);
+    localStorage.setItem(ACTOR_KEY, name);
+  }, []);
+
+  const lastFrame = history.past[history.past.length - 1];
+
+  return {
+    state: history.present,
+    dispatch,
+    history: {
+      journal: history.journal,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      undoDescription: lastFrame ? history.journal.find(e => e.id === lastFrame.entryId)?.description ?? null : null,
+      undo: () => travel({ type: 'UNDO', meta: createMeta() }),
+      redo: () => travel({ type: 'REDO', meta: createMeta() }),
+      restore: entryId => travel({ type: 'RESTORE', entryId, meta: createMeta() }),
+      canRestore: entryId => canRestore(history, entryId),
+      actor,
+      setActor,
+    },
+    serverSync,
+  };
+}
@@ -1,14 +1,19 @@
 import { useState, useEffect, useMemo } from 'react';
 import { useTournament } from '../context/TournamentContext';
-import type { Team, TournamentSystem, TiebreakerOrder, SchedulingSettings, Group, KnockoutSettings } from '../types/tournament';
+import type { Team, TournamentSystem, TiebreakerOrder, TiebreakerCriterion, SchedulingSettings, Group, KnockoutSettings, EventCalendar, ResultScoring } from '../types/tournament';
 import { DEFAULT_SCHEDULING } from '../utils/scheduling';
 import { generateGroups } from '../utils/groupPhase';
 import { calculateTimeEstimation, calculateEndTime, formatDuration } from '../utils/timeEstimation';
+import type { FormatSettings } from '../utils/formatAdvisor';
 import { useConfigureFormHandlers } from './useConfigureFormHandlers';
 import { calculateGroupConfiguration } from '../utils/groupConfiguration';
+import { MIN_DOUBLE_ELIMINATION_TEAMS, MAX_DOUBLE_ELIMINATION_TEAMS } from '../utils/doubleElimination';
+import { MIN_SEEDED_BRACKET_TEAMS, MAX_SEEDED_BRACKET_TEAMS } from '../utils/placementTree/index';
+import { MIN_MIXER_PLAYERS } from '../utils/mixer';
+import { DEFAULT_RESULT_SCORING } from '../utils/matchResults';
 
 export function useConfigureForm() {
-  const { currentTournament } = useTournament();
+  const { currentTournament, currentContainer } = useTournament();
 
   // Basic settings
   const [name, setName] = useState('');
@@ -20,6 +25,8 @@ export function useConfigureForm() {
   const [pointsPerSet, setPointsPerSet] = useState(21);
   const [pointsPerThirdSet, setPointsPerThirdSet] = useState(15);
   const [tiebreakerOrder, setTiebreakerOrder] = useState<TiebreakerOrder>('head-to-head-first');
+  const [tiebreakers, setTiebreakers] = useState<TiebreakerCriterion[] | null>(null); // null = system default
+  const [resultScoring, setResultScoring] = useState<ResultScoring>(DEFAULT_RESULT_SCORING);
   const [numberOfRoundsInput, setNumberOfRoundsInput] = useState('4');
 
   // Group phase settings
@@ -29,6 +36,7 @@ export function useConfigureForm() {
 
   // Phase 2 settings (Finale / K.O.-Phase)
   const [enablePlayoff, setEnablePlayoff] = useState(false); // For RR/Swiss
+  const [playGrandFinalReset, setPlayGrandFinalReset] = useState(true); // For double elimination
   const [knockoutSettings, setKnockoutSettings] = useState<KnockoutSettings>({
     setsPerMatch: 1,
     pointsPerSet: 21,
@@ -39,6 +47,7 @@ export function useConfigureForm() {
 
   // Scheduling settings
   const [scheduling, setScheduling] = useState<SchedulingSettings>(DEFAULT_SCHEDULING);
+  const [calendar, setCalendar] = useState<EventCalendar | undefined>(undefined);
 
   // Teams
   const [teams, setTeams] = useState<Team[]>([]);
@@ -49,7 +58,13 @@ export function useConfigureForm() {
   const isEditing = !!(currentTournament && currentTournament.status === 'configuration');
 
   // Check if system uses group phase
-  const isGroupBasedSystem = system === 'group-phase' || system === 'beachl-all-placements' || system === 'beachl-short-main';
+  const isGroupBasedSystem = system === 'group-phase' || system === 'beachl-all-placements' || system === 'beachl-short-main' ||
+    system === 'pool-play-single-out';
+  const isDoubleElimination = system === 'double-elimination';
+  const isSeededBracket = system === 'knockout' || system === 'placement-tree';
+  // Brackets started from the team list have no follow-up phase
+  const isSingleBracketSystem = isDoubleElimination || isSeededBracket;
+  const hasPlayoff = enablePlayoff && !isSingleBracketSystem;
 
   // Calculate group configuration with bye support
   const groupConfig = useMemo(() => {
@@ -85,14 +100,22 @@ export function useConfigureForm() {
       setPointsPerSet(currentTournament.pointsPerSet);
       setPointsPerThirdSet(currentTournament.pointsPerThirdSet || 15);
       setTiebreakerOrder(currentTournament.tiebreakerOrder || 'head-to-head-first');
+      setTiebreakers(currentTournament.tiebreakers ?? null);
+      setResultScoring({ ...DEFAULT_RESULT_SCORING, ...currentTournament.resultScoring });
       setScheduling(currentTournament.scheduling || DEFAULT_SCHEDULING);
-      setTeams(currentTournament.teams);
+      setCalendar(currentContainer?.calendar);
+      setTeams(currentTournament.system === 'mixer' ? currentTournament.players ?? [] : currentTournament.teams);
       if (currentTournament.knockoutSettings) {
         setKnockoutSettings(currentTournament.knockoutSettings);
         setEnablePlayoff(true);
       }
+      setPlayGrandFinalReset(currentTournament.doubleEliminationConfig?.playGrandFinalReset ?? true);
+      if (currentTournament.system === 'knockout' && currentTournament.knockoutConfig) {
+        const { playThirdPlaceMatch } = currentTournament.knockoutConfig;
+        setKnockoutSettings(settings => ({ ...settings, playThirdPlaceMatch }));
+      }
     }
-  }, [currentTournament, isEditing]);
+  }, [currentTournament, currentContainer, isEditing]);
 
   // Time estimation calculation
   const timeEstimation = useMemo(() => {
@@ -107,16 +130,33 @@ export function useConfigureForm() {
       pointsPerSet,
       pointsPerThirdSet,
       knockoutSettings,
-      enablePlayoff,
+      enablePlayoff: hasPlayoff,
       scheduling,
+      calendar,
     });
-  }, [teams.length, system, isGroupBasedSystem, numberOfCourts, numberOfRounds, setsPerMatch, pointsPerSet, pointsPerThirdSet, knockoutSettings, enablePlayoff, scheduling, teamsPerGroup]);
+  }, [teams.length, system, isGroupBasedSystem, numberOfCourts, numberOfRounds, setsPerMatch, pointsPerSet, pointsPerThirdSet, knockoutSettings, hasPlayoff, scheduling, calendar, teamsPerGroup]);
 
   // Calculate end time
   const getEndTime = () => {
     return calculateEndTime(timeEstimation, scheduling.startTime);
   };
 
+  // Take over a variant chosen in the format advisor; referee and qualifier settings stay
+  const applyFormat = (format: FormatSettings) => {
+    setSystem(format.system);
+    if (format.teamsPerGroup) setTeamsPerGroup(format.teamsPerGroup);
+    if (format.numberOfRounds) setNumberOfRoundsInput(String(format.numberOfRounds));
+    setSetsPerMatch(format.setsPerMatch);
+    setPointsPerSet(format.pointsPerSet);
+    setPointsPerThirdSet(format.pointsPerThirdSet);
+    setEnablePlayoff(format.enablePlayoff);
+    setKnockoutSettings({
+      ...format.knockoutSettings,
+      useReferees: knockoutSettings.useReferees,
+      qualifiersPerGroup: knockoutSettings.qualifiersPerGroup,
+    });
+  };
+
   // Use handlers hook
   const {
     handleAddTeam,
@@ -124,6 +164,7 @@ export function useConfigureForm() {
     handleRemoveTeam,
     handleMoveTeam,
     handleUpdateTeamName,
+    handleImportTeams,
     handleCreateTournament,
     handleUpdateTournament,
     handleStartTournament,
@@ -139,14 +180,18 @@ export function useConfigureForm() {
     pointsPerSet,
     pointsPerThirdSet,
     tiebreakerOrder,
+    tiebreakers,
+    resultScoring,
     numberOfRounds,
     scheduling,
+    calendar,
     isGroupBasedSystem,
     numberOfGroups,
     teamsPerGroup,
     groupSeeding,
-    enablePlayoff,
+    enablePlayoff: hasPlayoff,
     knockoutSettings,
+    playGrandFinalReset,
   });
 
   // Validation messages
@@ -162,6 +207,20 @@ export function useConfigureForm() {
     if (isGroupBasedSystem && groupConfigError) {
       messages.push(groupConfigError);
     }
+    if (system === 'mixer' && teams.length < MIN_MIXER_PLAYERS) {
+      messages.push(`Mixer benötigt mindestens ${MIN_MIXER_PLAYERS} Spieler (aktuell: ${teams.length})`);
+    }
+    if (isDoubleElimination &&
+      (teams.length < MIN_DOUBLE_ELIMINATION_TEAMS || teams.length > MAX_DOUBLE_ELIMINATION_TEAMS)) {
+      messages.push(`Doppel-K.O. benötigt ${MIN_DOUBLE_ELIMINATION_TEAMS} bis ${MAX_DOUBLE_ELIMINATION_TEAMS} Teams (aktuell: ${teams.length})`);
+    }
+    if (isSeededBracket && (teams.length < MIN_SEEDED_BRACKET_TEAMS || teams.length > MAX_SEEDED_BRACKET_TEAMS)) {
+      const label = system === 'knockout' ? 'K.O.-System' : 'Platzierungsbaum';
+      messages.push(`${label} benötigt ${MIN_SEEDED_BRACKET_TEAMS} bis ${MAX_SEEDED_BRACKET_TEAMS} Teams (aktuell: ${teams.length})`);
+    }
+    if (calendar?.days.some((day, i) => i > 0 && day.date <= calendar.days[i - 1].date)) {
+      messages.push('Die Turniertage müssen in zeitlicher Reihenfolge liegen');
+    }
     return messages;
   };
 
@@ -184,6 +243,10 @@ export function useConfigureForm() {
     setPointsPerThirdSet,
     tiebreakerOrder,
     setTiebreakerOrder,
+    tiebreakers,
+    setTiebreakers,
+    resultScoring,
+    setResultScoring,
     numberOfRoundsInput,
     setNumberOfRoundsInput,
     groups,
@@ -194,10 +257,14 @@ export function useConfigureForm() {
     setTeamsPerGroup,
     enablePlayoff,
     setEnablePlayoff,
+    playGrandFinalReset,
+    setPlayGrandFinalReset,
     knockoutSettings,
     setKnockoutSettings,
     scheduling,
     setScheduling,
+    calendar,
+    setCalendar,
     teams,
     setTeams,
     newTeamName,
@@ -209,6 +276,7 @@ export function useConfigureForm() {
     isEditing,
     numberOfGroups,
     isGroupBasedSystem,
+    isSingleBracketSystem,
     byesNeeded,
     groupConfigError,
     timeEstimation,
@@ -221,6 +289,7 @@ export function useConfigureForm() {
     handleRemoveTeam,
     handleMoveTeam,
     handleUpdateTeamName,
+    handleImportTeams,
     handleCreateTournament,
     handleUpdateTournament,
     handleStartTournament,
@@ -228,5 +297,6 @@ export function useConfigureForm() {
     // Helpers
     getEndTime,
     formatDuration,
+    applyFormat,
   };
 }
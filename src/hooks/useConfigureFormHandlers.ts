@@ -1,6 +1,6 @@
 import { useNavigate } from 'react-router-dom';
 import { useTournament } from '../context/TournamentContext';
-import type { Team, TournamentSystem, TiebreakerOrder, SchedulingSettings, KnockoutSettings } from '../types/tournament';
+import type { Team, TournamentSystem, TiebreakerOrder, TiebreakerCriterion, SchedulingSettings, KnockoutSettings, EventCalendar, ResultScoring } from '../types/tournament';
 import { v4 as uuidv4 } from 'uuid';
 
 interface UseConfigureFormHandlersParams {
@@ -15,14 +15,18 @@ interface UseConfigureFormHandlersParams {
   pointsPerSet: number;
   pointsPerThirdSet: number;
   tiebreakerOrder: TiebreakerOrder;
+  tiebreakers: TiebreakerCriterion[] | null;
+  resultScoring: ResultScoring;
   numberOfRounds: number;
   scheduling: SchedulingSettings;
+  calendar?: EventCalendar;
   isGroupBasedSystem: boolean;
   numberOfGroups: number;
   teamsPerGroup: 3 | 4 | 5;
   groupSeeding: 'snake' | 'random' | 'manual';
   enablePlayoff: boolean;
   knockoutSettings: KnockoutSettings;
+  playGrandFinalReset: boolean;
 }
 
 export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams) {
@@ -40,16 +44,33 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
     pointsPerSet,
     pointsPerThirdSet,
     tiebreakerOrder,
+    tiebreakers,
+    resultScoring,
     numberOfRounds,
     scheduling,
+    calendar,
     isGroupBasedSystem,
     numberOfGroups,
     teamsPerGroup,
     groupSeeding,
     enablePlayoff,
     knockoutSettings,
+    playGrandFinalReset,
   } = params;
 
+  const doubleEliminationConfig = system === 'double-elimination'
+    ? { playGrandFinalReset }
+    : undefined;
+
+  // Knockout from the team list: only the third place match is configurable
+  const knockoutConfig = system === 'knockout' ? {
+    directQualification: 0,
+    playoffQualification: 0,
+    eliminated: 0,
+    playThirdPlaceMatch: knockoutSettings.playThirdPlaceMatch,
+    useReferees: false,
+  } : undefined;
+
   const handleAddTeam = () => {
     if (newTeamName.trim()) {
       const newTeam: Team = {
@@ -88,6 +109,10 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
     setTeams(teams.map(t => (t.id === id ? { ...t, name: newName } : t)));
   };
 
+  const handleImportTeams = (imported: Team[]) => {
+    setTeams(imported);
+  };
+
   const handleCreateTournament = () => {
     if (!name.trim() || teams.length < 2) {
       return;
@@ -103,9 +128,12 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
         pointsPerSet,
         pointsPerThirdSet: setsPerMatch === 3 ? pointsPerThirdSet : undefined,
         tiebreakerOrder,
-        numberOfRounds: system === 'swiss' ? numberOfRounds : undefined,
+        tiebreakers: tiebreakers ?? undefined,
+        resultScoring,
+        numberOfRounds: system === 'swiss' || system === 'mixer' ? numberOfRounds : undefined,
         scheduling,
-        teams: teams.map(t => ({ name: t.name, seedPosition: t.seedPosition })),
+        calendar,
+        teams: teams.map(({ id: _id, isPresent: _isPresent, ...t }) => t),
         // Group phase specific config (for all group-based systems)
         groupPhaseConfig: isGroupBasedSystem ? {
           numberOfGroups,
@@ -114,6 +142,8 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
         } : undefined,
         // Knockout settings for group-based systems or optional playoff
         knockoutSettings: (isGroupBasedSystem || enablePlayoff) ? knockoutSettings : undefined,
+        doubleEliminationConfig,
+        knockoutConfig,
       },
     });
 
@@ -134,8 +164,13 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
         pointsPerSet,
         pointsPerThirdSet: setsPerMatch === 3 ? pointsPerThirdSet : undefined,
         tiebreakerOrder,
-        numberOfRounds: system === 'swiss' ? numberOfRounds : undefined,
+        tiebreakers: tiebreakers ?? undefined,
+        resultScoring,
+        numberOfRounds: system === 'swiss' || system === 'mixer' ? numberOfRounds : undefined,
         scheduling,
+        calendar,
+        doubleEliminationConfig,
+        knockoutConfig,
       },
     });
 
@@ -184,8 +219,13 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
         pointsPerSet,
         pointsPerThirdSet: setsPerMatch === 3 ? pointsPerThirdSet : undefined,
         tiebreakerOrder,
-        numberOfRounds: system === 'swiss' ? numberOfRounds : undefined,
+        tiebreakers: tiebreakers ?? undefined,
+        resultScoring,
+        numberOfRounds: system === 'swiss' || system === 'mixer' ? numberOfRounds : undefined,
         scheduling,
+        calendar,
+        doubleEliminationConfig,
+        knockoutConfig,
       },
     });
 
@@ -204,6 +244,7 @@ export function useConfigureFormHandlers(params: UseConfigureFormHandlersParams)
     handleRemoveTeam,
     handleMoveTeam,
     handleUpdateTeamName,
+    handleImportTeams,
     handleCreateTournament,
     handleUpdateTournament,
     handleStartTournament,
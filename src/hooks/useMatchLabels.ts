@@ -0,0 +1,33 @@
+import type { Match } from '../types/tournament';
+import { useTournament } from '../context/TournamentContext';
+import { getOfficialName, usesOfficials } from '../utils/officials';
+
+export interface MatchLabels {
+  /** Team name from the current phase or, for later phases, its parent phase */
+  getTeamName: (teamId: string) => string | undefined;
+  /** Names of both sides, placeholders while a side is not yet determined */
+  getTeams: (match: Match) => [string, string];
+  getReferee: (match: Match) => string | null;
+}
+
+/** Names shown for the teams and referee of a match of the current phase */
+export function useMatchLabels(): MatchLabels {
+  const { currentTournament, currentContainer, state } = useTournament();
+  const parentTournament = currentTournament?.parentPhaseId
+    ? state.tournaments.find(t => t.id === currentTournament.parentPhaseId)
+    : null;
+
+  const getTeamName = (teamId: string) =>
+    (currentTournament?.teams.find(t => t.id === teamId) || parentTournament?.teams.find(t => t.id === teamId))?.name;
+
+  return {
+    getTeamName,
+    getTeams: match => [
+      (match.teamAId && getTeamName(match.teamAId)) || match.teamAPlaceholder || 'TBD',
+      (match.teamBId && getTeamName(match.teamBId)) || match.teamBPlaceholder || 'TBD',
+    ],
+    getReferee: match => (currentTournament && usesOfficials(currentTournament)
+      && getOfficialName(currentContainer?.officials, match.officialId))
+      || (match.refereeTeamId && getTeamName(match.refereeTeamId)) || match.refereePlaceholder || null,
+  };
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import type { EventCalendar, Match } from '../types/tournament';
+import { useTournament } from '../context/TournamentContext';
+import { isByeMatch, schedulePhases } from '../utils/scheduling';
+
+/**
+ * Matches of the current phase with court and start time
+ * Tournaments saved before matches stored their slot are planned on the fly.
+ */
+export function usePlannedMatches(calendar?: EventCalendar): Match[] {
+  const { currentTournament, containerPhases } = useTournament();
+
+  return useMemo(() => {
+    if (!currentTournament) return [];
+    if (currentTournament.matches.every(m => m.scheduledTime || isByeMatch(m))) return currentTournament.matches;
+    return schedulePhases(containerPhases.length > 0 ? containerPhases : [currentTournament], undefined, calendar)
+      .find(t => t.id === currentTournament.id)?.matches ?? currentTournament.matches;
+  }, [currentTournament, containerPhases, calendar]);
+}
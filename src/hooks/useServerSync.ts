@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Dispatch } from 'react';
+import type { TournamentAction, TournamentState } from '../context/tournamentActions';
+import { createHttpTransport, createSyncClient, type SyncClient } from '../sync';
+
+/** Optional sync server, e.g. VITE_SYNC_URL=http://192.168.0.10:3001 */
+const SYNC_URL: string | undefined = import.meta.env.VITE_SYNC_URL;
+/** Shared secret of the sync server (SYNC_TOKEN there) */
+const SYNC_TOKEN: string = import.meta.env.VITE_SYNC_TOKEN ?? '';
+
+/** Whether changes go through the sync server instead of the local reducer */
+export const isSyncEnabled = Boolean(SYNC_URL);
+
+export interface ServerSyncStatus {
+  /** False while the event stream is down; the client reconnects on its own */
+  connected: boolean;
+  /** Last refused change or failed request, until dismissed */
+  message: string | null;
+  dismiss: () => void;
+}
+
+/**
+ * Connects the tournament state to the sync server, if one is configured
+ * Returns the client that synced actions are sent through and the connection status, both
+ * null without a server. The server's state arrives through dispatch as APPLY_SYNC_STATE.
+ * The device's state at connect is merged into the server's, so an empty or outdated server loses nothing.
+ */
+export function useServerSync(
+  dispatch: Dispatch<TournamentAction>,
+  state: TournamentState
+): { client: SyncClient | null; status: ServerSyncStatus | null } {
+  const [client, setClient] = useState<SyncClient | null>(null);
+  const [localState] = useState(state);
+  const [connected, setConnected] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!SYNC_URL) return;
+
+    const syncClient = createSyncClient({
+      transport: createHttpTransport(SYNC_URL, SYNC_TOKEN),
+      localState,
+      onStateChange: (state, selectedTournamentId) =>
+        dispatch({ type: 'APPLY_SYNC_STATE', payload: { state, selectedTournamentId } }),
+      onConflict: result => setMessage(`Änderung abgelehnt: ${result.reason}`),
+      onError: () => setMessage('Der Sync-Server ist nicht erreichbar; die letzte Änderung wurde nicht übernommen.'),
+      onConnectionChange: setConnected,
+    });
+    syncClient.connect();
+    setClient(syncClient);
+
+    return () => syncClient.disconnect();
+  }, [dispatch, localState]);
+
+  const dismiss = useCallback(() => setMessage(null), []);
+
+  return { client, status: SYNC_URL ? { connected, message, dismiss } : null };
+}
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Dispatch } from 'react';
+import type { TournamentAction, TournamentState } from '../context/tournamentActions';
+import { applyStoredRecords, getChangedIds, getNewerIds, withRevisions, type Revisions, type StoredSnapshot } from '../context/tabSync';
+import { isQuotaError, type TournamentStorage } from '../storage';
+
+/** Own changes that were not saved because another tab changed the same tournaments */
+export interface StorageConflict {
+  ids: string[];
+  /** Names of the affected tournaments */
+  names: string[];
+  revisions: Revisions;
+}
+
+/** A failed save; the changes stay in memory and are saved with the next one */
+export interface StorageError {
+  quotaExceeded: boolean;
+  message: string;
+}
+
+export interface TabSync {
+  conflict: StorageConflict | null;
+  error: StorageError | null;
+  /** Saves the own changes over those of the other tab */
+  keepOwnChanges: () => void;
+  /** Discards the own unsaved changes and loads the saved state */
+  loadStoredChanges: () => void;
+  retrySave: () => void;
+  /** Whether the selected tournament follows the one selected in other tabs (spectator display) */
+  setFollowSelection: (follow: boolean) => void;
+}
+
+function getNames(ids: string[], ...states: TournamentState[]): string[] {
+  const names = ids.map(id => {
+    for (const state of states) {
+      const record = state.tournaments.find(t => t.id === id) ?? state.containers.find(c => c.id === id);
+      if (record) return record.name;
+    }
+    return null;
+  });
+  return [...new Set(names.filter((name): name is string => name !== null))];
+}
+
+/** Error shown in the storage banner for a failed save */
+export function toStorageError(error: unknown): StorageError {
+  if (isQuotaError(error)) {
+    return { quotaExceeded: true, message: 'Der Speicher des Browsers ist voll.' };
+  }
+  return { quotaExceeded: false, message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Saves the state and keeps several tabs of the same browser in sync
+ * Saves run one after another. Changes saved by another tab are taken over
+ * record by record; an own change to a tournament another tab has changed in
+ * the meantime is held back as a conflict until the user decides.
+ */
+export function useTabSync(
+  state: TournamentState,
+  dispatch: Dispatch<TournamentAction>,
+  storage: TournamentStorage,
+  loaded: StoredSnapshot | null
+): TabSync {
+  const [conflict, setConflict] = useState<StorageConflict | null>(null);
+  const [error, setError] = useState<StorageError | null>(null);
+  const [retries, setRetries] = useState(0);
+  const stateRef = useRef(state);
+  // State last saved or taken over, the base for detecting own changes
+  const savedRef = useRef(state);
+  const knownRef = useRef<Revisions>(loaded?.revisions ?? {});
+  const followSelectionRef = useRef(false);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const conflictRef = useRef(conflict);
+
+  const takeOver = useCallback((next: TournamentState) => {
+    savedRef.current = next;
+    dispatch({ type: 'APPLY_SYNC_STATE', payload: { state: next, selectedTournamentId: next.currentTournamentId } });
+  }, [dispatch]);
+
+  /** Saves the own changes, then takes over the records other tabs saved newer revisions of */
+  const sync = useCallback(async () => {
+    if (conflictRef.current) return;
+    const state = stateRef.current;
+    const changedIds = getChangedIds(savedRef.current, state);
+    if (changedIds.length > 0 || state.currentTournamentId !== savedRef.current.currentTournamentId) {
+      const result = await storage.save(state, changedIds, knownRef.current);
+      if (result.status === 'conflict') {
+        conflictRef.current = { ids: result.conflicts, names: getNames(result.conflicts, state), revisions: result.revisions };
+        setConflict(conflictRef.current);
+        return;
+      }
+      knownRef.current = withRevisions(knownRef.current, result.revisions, changedIds);
+      savedRef.current = state;
+      setError(null);
+    }
+
+    const stored = await storage.loadNewer(knownRef.current);
+    // Own changes made meanwhile are saved (and checked) first by the next run
+    if (stateRef.current !== state) return;
+    const newer = getNewerIds(knownRef.current, stored.revisions);
+    const local = followSelectionRef.current ? { ...state, currentTournamentId: stored.state.currentTournamentId } : state;
+    if (newer.length === 0 && local.currentTournamentId === state.currentTournamentId) return;
+    knownRef.current = withRevisions(knownRef.current, stored.revisions, newer);
+    takeOver(applyStoredRecords(local, stored, newer));
+  }, [storage, takeOver]);
+
+  const enqueue = useCallback(() => {
+    queueRef.current = queueRef.current.then(sync).catch(e => {
+      console.error('Failed to save state:', e);
+      setError(toStorageError(e));
+    });
+  }, [sync]);
+
+  useEffect(() => {
+    stateRef.current = state;
+    enqueue();
+  }, [state, conflict, retries, enqueue]);
+
+  useEffect(() => storage.onChange(enqueue), [storage, enqueue]);
+
+  const keepOwnChanges = useCallback(() => {
+    if (!conflict) return;
+    knownRef.current = withRevisions(knownRef.current, conflict.revisions, conflict.ids);
+    conflictRef.current = null;
+    setConflict(null);
+  }, [conflict]);
+
+  const loadStoredChanges = useCallback(() => {
+    queueRef.current = queueRef.current.then(async () => {
+      const stored = await storage.load();
+      knownRef.current = stored?.revisions ?? {};
+      const selected = stateRef.current.currentTournamentId;
+      const tournaments = stored?.state.tournaments ?? [];
+      takeOver({
+        tournaments,
+        containers: stored?.state.containers ?? [],
+        currentTournamentId: tournaments.some(t => t.id === selected) ? selected : null,
+      });
+      conflictRef.current = null;
+      setConflict(null);
+    }).catch(e => setError(toStorageError(e)));
+  }, [storage, takeOver]);
+
+  const retrySave = useCallback(() => setRetries(count => count + 1), []);
+
+  const setFollowSelection = useCallback((follow: boolean) => {
+    followSelectionRef.current = follow;
+  }, []);
+
+  return { conflict, error, keepOwnChanges, loadStoredChanges, retrySave, setFollowSelection };
+}
@@ -3,7 +3,9 @@ import { ConfigureBasicSettings } from '../components/ConfigureBasicSettings';
 import { ConfigurePhase1Settings } from '../components/ConfigurePhase1Settings';
 import { ConfigurePhase2Settings } from '../components/ConfigurePhase2Settings';
 import { ConfigureTimeEstimation } from '../components/ConfigureTimeEstimation';
+import { FormatAdvisor } from '../components/FormatAdvisor';
 import { useConfigureForm } from '../hooks/useConfigureForm';
+import { getTiebreakers } from '../utils/tiebreakers';
 
 export function Configure() {
   const {
@@ -21,7 +23,10 @@ export function Configure() {
     pointsPerThirdSet,
     setPointsPerThirdSet,
     tiebreakerOrder,
-    setTiebreakerOrder,
+    tiebreakers,
+    setTiebreakers,
+    resultScoring,
+    setResultScoring,
     numberOfRoundsInput,
     setNumberOfRoundsInput,
     groups,
@@ -32,10 +37,14 @@ export function Configure() {
     setTeamsPerGroup,
     enablePlayoff,
     setEnablePlayoff,
+    playGrandFinalReset,
+    setPlayGrandFinalReset,
     knockoutSettings,
     setKnockoutSettings,
     scheduling,
     setScheduling,
+    calendar,
+    setCalendar,
     teams,
     newTeamName,
     setNewTeamName,
@@ -46,6 +55,7 @@ export function Configure() {
     isEditing,
     numberOfGroups,
     isGroupBasedSystem,
+    isSingleBracketSystem,
     byesNeeded,
     groupConfigError,
     timeEstimation,
@@ -58,6 +68,7 @@ export function Configure() {
     handleRemoveTeam,
     handleMoveTeam,
     handleUpdateTeamName,
+    handleImportTeams,
     handleCreateTournament,
     handleUpdateTournament,
     handleStartTournament,
@@ -65,6 +76,7 @@ export function Configure() {
     // Helpers
     getEndTime,
     formatDuration,
+    applyFormat,
   } = useConfigureForm();
 
   return (
@@ -94,11 +106,23 @@ export function Configure() {
           onMoveTeam={handleMoveTeam}
           onUpdateTeamName={handleUpdateTeamName}
           onTogglePresent={handleTogglePresent}
+          onImportTeams={handleImportTeams}
           system={system}
           numberOfRounds={numberOfRounds}
         />
       </div>
 
+      {/* Format advisor: ranks all systems for teams, courts and time */}
+      {system !== 'mixer' && (
+        <FormatAdvisor
+          teamsCount={teams.length}
+          numberOfCourts={numberOfCourts}
+          scheduling={scheduling}
+          calendar={calendar}
+          onApply={applyFormat}
+        />
+      )}
+
       {/* Section 2: Phase 1 Configuration */}
       <ConfigurePhase1Settings
         system={system}
@@ -112,8 +136,11 @@ export function Configure() {
         onPointsPerSetChange={setPointsPerSet}
         pointsPerThirdSet={pointsPerThirdSet}
         onPointsPerThirdSetChange={setPointsPerThirdSet}
-        tiebreakerOrder={tiebreakerOrder}
-        onTiebreakerOrderChange={setTiebreakerOrder}
+        tiebreakers={tiebreakers ?? getTiebreakers(undefined, tiebreakerOrder, system)}
+        isDefaultTiebreakers={tiebreakers === null}
+        onTiebreakersChange={setTiebreakers}
+        resultScoring={resultScoring}
+        onResultScoringChange={setResultScoring}
         teamsPerGroup={teamsPerGroup}
         onTeamsPerGroupChange={setTeamsPerGroup}
         groupSeeding={groupSeeding}
@@ -124,23 +151,33 @@ export function Configure() {
         teams={teams}
         byesNeeded={byesNeeded}
         groupConfigError={groupConfigError}
+        playGrandFinalReset={playGrandFinalReset}
+        onPlayGrandFinalResetChange={setPlayGrandFinalReset}
+        playThirdPlaceMatch={knockoutSettings.playThirdPlaceMatch}
+        onPlayThirdPlaceMatchChange={value => setKnockoutSettings({ ...knockoutSettings, playThirdPlaceMatch: value })}
       />
 
-      {/* Section 3: Phase 2 Configuration */}
-      <ConfigurePhase2Settings
-        system={system}
-        isGroupBasedSystem={isGroupBasedSystem}
-        enablePlayoff={enablePlayoff}
-        onEnablePlayoffChange={setEnablePlayoff}
-        knockoutSettings={knockoutSettings}
-        onKnockoutSettingsChange={setKnockoutSettings}
-        teamsPerGroup={teamsPerGroup}
-      />
+      {/* Section 3: Phase 2 Configuration (brackets from the team list are a single phase) */}
+      {!isSingleBracketSystem && (
+        <ConfigurePhase2Settings
+          system={system}
+          isGroupBasedSystem={isGroupBasedSystem}
+          enablePlayoff={enablePlayoff}
+          onEnablePlayoffChange={setEnablePlayoff}
+          knockoutSettings={knockoutSettings}
+          onKnockoutSettingsChange={setKnockoutSettings}
+          teamsPerGroup={teamsPerGroup}
+        />
+      )}
 
       {/* Section 4: Time Planning */}
       <ConfigureTimeEstimation
         scheduling={scheduling}
         onSchedulingChange={setScheduling}
+        calendar={calendar}
+        onCalendarChange={setCalendar}
+        phase2Name={timeEstimation?.phase2Name ?? null}
+        numberOfCourts={numberOfCourts}
         timeEstimation={timeEstimation}
         getEndTime={getEndTime}
         formatDuration={formatDuration}
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useFollowSelection, useTournament } from '../context/TournamentContext';
+import { usePlannedMatches } from '../hooks/usePlannedMatches';
+import { useMatchLabels } from '../hooks/useMatchLabels';
+import { BracketView } from '../components/BracketView';
+import { CourtsView, StandingsView, UpcomingView } from '../components/display';
+import { getCourtOverview, getUpcomingMatches, isBracketSystem } from '../utils/displayViews';
+
+const DEFAULT_INTERVAL_SECONDS = 15;
+const UPCOMING_MATCHES = 8;
+
+/**
+ * Read-only spectator view for a projector or TV, opened in its own tab
+ * Rotates through courts, upcoming matches, tables and bracket; `?interval=20`
+ * sets the seconds per view. Changes and the selected phase of other tabs show
+ * up immediately.
+ */
+export function Display() {
+  const { currentTournament, currentContainer } = useTournament();
+  const { getTeamName, getTeams, getReferee } = useMatchLabels();
+  const [searchParams] = useSearchParams();
+  const [viewIndex, setViewIndex] = useState(0);
+  const [now, setNow] = useState(new Date());
+  useFollowSelection();
+
+  const calendar = currentContainer?.calendar?.days.length ? currentContainer.calendar : undefined;
+  const matches = usePlannedMatches(calendar);
+  const intervalSeconds = Number(searchParams.get('interval')) || DEFAULT_INTERVAL_SECONDS;
+
+  // Everything is sized in rem, so a larger root font scales the view to the screen
+  useEffect(() => {
+    document.documentElement.classList.add('display-mode');
+    return () => document.documentElement.classList.remove('display-mode');
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setViewIndex(index => index + 1), intervalSeconds * 1000);
+    return () => clearInterval(interval);
+  }, [intervalSeconds]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!currentTournament) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-amber-50">
+        <p className="text-3xl text-gray-500">Kein Turnier ausgewählt</p>
+      </div>
+    );
+  }
+
+  const teamName = (teamId: string) => getTeamName(teamId) ?? 'Unbekannt';
+  const hasStandings = currentTournament.system !== 'mixer' && !isBracketSystem(currentTournament.system)
+    && (currentTournament.groupStandings?.length ?? 0) + currentTournament.standings.length > 0;
+
+  const views = [
+    {
+      title: 'Felder',
+      content: <CourtsView courts={getCourtOverview(matches, currentTournament.numberOfCourts, calendar?.days)} getTeams={getTeams} />,
+    },
+    {
+      title: 'Nächste Spiele',
+      content: (
+        <UpcomingView
+          matches={getUpcomingMatches(matches, UPCOMING_MATCHES, calendar?.days)}
+          getTeams={getTeams}
+          getReferee={getReferee}
+          showDate={!!calendar}
+        />
+      ),
+    },
+    ...(hasStandings ? [{ title: 'Tabelle', content: <StandingsView tournament={currentTournament} getTeamName={teamName} /> }] : []),
+    ...(isBracketSystem(currentTournament.system)
+      ? [{ title: 'Turnierbaum', content: <BracketView matches={currentTournament.matches} teams={currentTournament.teams} /> }]
+      : []),
+  ];
+  const activeIndex = viewIndex % views.length;
+  const view = views[activeIndex];
+
+  return (
+    <div className="min-h-screen bg-amber-50 flex flex-col">
+      <header className="bg-gradient-to-r from-sky-500 to-sky-600 text-white px-8 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">{currentTournament.name}</h1>
+          {currentTournament.phaseName && <p className="text-xl text-sky-100">{currentTournament.phaseName}</p>}
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-semibold">{view.title}</p>
+          <p className="text-xl text-sky-100">
+            {now.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })} Uhr
+          </p>
+        </div>
+      </header>
+
+      <main className="flex-1 px-8 py-6">{view.content}</main>
+
+      <footer className="flex justify-center gap-3 pb-4">
+        {views.map((v, index) => (
+          <button
+            key={v.title}
+            onClick={() => setViewIndex(index)}
+            title={v.title}
+            className={`h-3 rounded-full transition-all ${index === activeIndex ? 'w-10 bg-sky-600' : 'w-3 bg-sky-200'}`}
+          />
+        ))}
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Undo2, Redo2, RotateCcw } from 'lucide-react';
+import { useTournament } from '../context/TournamentContext';
+import type { JournalEntryType } from '../context/journal';
+import { isSyncEnabled } from '../hooks/useServerSync';
+import { SnapshotList } from '../components/SnapshotList';
+
+const ENTRY_STYLES: Partial<Record<JournalEntryType, string>> = {
+  UNDO: 'bg-amber-100 text-amber-800',
+  REDO: 'bg-sky-100 text-sky-800',
+  RESTORE: 'bg-red-100 text-red-800',
+  COMPLETE_MATCH: 'bg-green-100 text-green-800',
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('de-DE', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export function History() {
+  const { currentTournament, containerPhases, history } = useTournament();
+  const [onlyCurrent, setOnlyCurrent] = useState(true);
+
+  const phaseIds = new Set(
+    containerPhases.length > 0 ? containerPhases.map(p => p.id) : currentTournament ? [currentTournament.id] : []
+  );
+  const entries = history.journal
+    .filter(e => !onlyCurrent || !currentTournament || (e.tournamentId !== null && phaseIds.has(e.tournamentId)))
+    .slice()
+    .reverse();
+
+  const handleRestore = (entryId: string, description: string) => {
+    if (confirm(`Stand vor „${description}“ wiederherstellen?\n\nAlle späteren Änderungen werden rückgängig gemacht und können per „Wiederholen“ zurückgeholt werden.`)) {
+      history.restore(entryId);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Verlauf</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={history.undo}
+            disabled={!history.canUndo}
+            className="flex items-center gap-1 px-4 py-2 bg-amber-500 text-white rounded-lg text-sm font-medium hover:bg-amber-600 transition-colors disabled:opacity-40"
+          >
+            <Undo2 className="w-4 h-4" /> Rückgängig
+          </button>
+          <button
+            onClick={history.redo}
+            disabled={!history.canRedo}
+            className="flex items-center gap-1 px-4 py-2 bg-sky-600 text-white rounded-lg text-sm font-medium hover:bg-sky-700 transition-colors disabled:opacity-40"
+          >
+            <Redo2 className="w-4 h-4" /> Wiederholen
+          </button>
+        </div>
+      </div>
+
+      {isSyncEnabled && (
+        <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          Mit Sync-Server wird auch Rückgängig auf dem Server ausgeführt. Rückgängig machen lassen sich dort Ergebnisse, Team- und Gruppenänderungen sowie Löschungen; ändert ein anderes Gerät dasselbe Turnier, entfallen die Schritte davor.
+        </p>
+      )}
+
+      <div className="bg-white rounded-lg p-4 shadow-sm flex flex-col md:flex-row md:items-center gap-4">
+        <label className="flex-1">
+          <span className="block text-sm font-medium text-gray-600 mb-1">Bearbeiter (wird bei jeder Änderung vermerkt)</span>
+          <input
+            type="text"
+            value={history.actor}
+            onChange={e => history.setActor(e.target.value)}
+            placeholder="z.B. Turnierleitung"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-sky-500"
+          />
+        </label>
+        {currentTournament && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={onlyCurrent} onChange={e => setOnlyCurrent(e.target.checked)} />
+            Nur aktuelles Turnier
+          </label>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center py-12 text-gray-500">Noch keine Änderungen aufgezeichnet</p>
+      ) : (
+        <ul className="bg-white rounded-lg shadow-sm divide-y divide-gray-100">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start gap-3 p-3">
+              <div className="w-28 shrink-0 text-xs text-gray-500">
+                <div>{formatTime(entry.at)}</div>
+                <div className="truncate">{entry.actor ?? 'Unbekannt'}</div>
+              </div>
+              <p className={`flex-1 text-sm px-2 py-1 rounded ${ENTRY_STYLES[entry.type] ?? 'text-gray-800'}`}>
+                {entry.description}
+              </p>
+              {history.canRestore(entry.id) && (
+                <button
+                  onClick={() => handleRestore(entry.id, entry.description)}
+                  title="Stand vor dieser Änderung wiederherstellen"
+                  className="p-1 text-gray-500 hover:text-red-600"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <SnapshotList />
+    </div>
+  );
+}
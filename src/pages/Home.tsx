@@ -1,5 +1,7 @@
 import {Link, useNavigate} from 'react-router-dom';
 import {useTournament} from '../context/TournamentContext';
+import {TransferPanel} from '../components/TransferPanel';
+import {ArchiveList} from '../components/ArchiveList';
 
 export function Home() {
     const navigate = useNavigate();
@@ -51,6 +53,12 @@ export function Home() {
         }
     };
 
+    const handleArchiveContainer = (containerId: string) => {
+        if (confirm('Turnier archivieren? Es erscheint dann nur noch im Archiv und in der Saisonstatistik.')) {
+            dispatch({type: 'ARCHIVE_CONTAINER', payload: containerId});
+        }
+    };
+
     const handleStartTournament = () => {
         if (!currentTournament) return;
         if (currentTournament.teams.length < 2) {
@@ -88,6 +96,8 @@ export function Home() {
         }
     };
 
+    const activeContainers = state.containers.filter(c => !c.archivedAt);
+
     // Get current container info
     const currentContainerInfo = currentContainer ? getContainerInfo(currentContainer.id) : null;
 
@@ -100,6 +110,14 @@ export function Home() {
                 return 'Swiss System';
             case 'playoff':
                 return 'Playoff';
+            case 'double-elimination':
+                return 'Doppel-K.O.';
+            case 'knockout':
+                return 'K.O.-System';
+            case 'placement-tree':
+                return 'Platzierungsbaum';
+            case 'mixer':
+                return 'Mixer';
             default:
                 return system || '';
         }
@@ -190,7 +208,7 @@ export function Home() {
 
                 <div className="flex justify-between items-center">
                     <h3 className="text-lg font-semibold text-gray-800">Alle Turniere</h3>
-                    {state.containers.length > 0 && (
+                    {activeContainers.length > 0 && (
                         <Link
                             to="/configure"
                             className="px-4 py-2 bg-amber-500 text-white rounded-lg text-sm font-medium hover:bg-amber-600 transition-colors"
@@ -201,19 +219,21 @@ export function Home() {
                 </div>
 
 
-                {state.containers.length === 0 ? (
+                {activeContainers.length === 0 ? (
                     <div className="text-center py-12 bg-amber-50 rounded-lg border-3 border-amber-100">
-                        <p className="text-gray-500 mb-4">Noch keine Turniere erstellt</p>
+                        <p className="text-gray-500 mb-4">
+                            {state.containers.length === 0 ? 'Noch keine Turniere erstellt' : 'Alle Turniere sind archiviert'}
+                        </p>
                         <Link
                             to="/configure"
                             className="inline-block px-6 py-3 bg-sky-600 text-white rounded-lg font-medium hover:bg-sky-700 transition-colors"
                         >
-                            Erstes Turnier erstellen
+                            {state.containers.length === 0 ? 'Erstes Turnier erstellen' : 'Neues Turnier erstellen'}
                         </Link>
                     </div>
                 ) : (
                     <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
-                        {state.containers.map(container => {
+                        {activeContainers.map(container => {
                             const info = getContainerInfo(container.id);
                             if (!info) return null;
 
@@ -256,6 +276,18 @@ export function Home() {
                                 ? 'Läuft'
                                 : 'Beendet'}
                       </span>
+                                            {info.status === 'completed' && (
+                                                <button
+                                                    onClick={e => {
+                                                        e.stopPropagation();
+                                                        handleArchiveContainer(container.id);
+                                                    }}
+                                                    title="Archivieren"
+                                                    className="p-1 text-gray-500 hover:bg-gray-100 rounded"
+                                                >
+                                                    📦
+                                                </button>
+                                            )}
                                             <button
                                                 onClick={e => {
                                                     e.stopPropagation();
@@ -273,6 +305,10 @@ export function Home() {
                     </div>
                 )}
             </div>
+
+            <ArchiveList/>
+
+            <TransferPanel/>
         </div>
     );
 }
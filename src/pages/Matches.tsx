@@ -4,8 +4,14 @@ import type { Match, SetScore, PlayoffSettings } from '../types/tournament';
 import { ScoreEntryModal } from '../components/ScoreEntryModal';
 import { MatchFilters } from '../components/MatchFilters';
 import { PlayoffConfigModal } from '../components/PlayoffConfigModal';
+import { WithdrawTeamModal } from '../components/WithdrawTeamModal';
 import { BracketView } from '../components/BracketView';
-import { calculateMatchStartTimeForPhase } from '../utils/scheduling';
+import { getLocalDate, getPlayDate, isByeMatch, schedulePhases, toTimelineMinutes } from '../utils/scheduling';
+import { planResultCorrection } from '../context/resultCorrection';
+import { planTeamWithdrawal } from '../context/teamWithdrawal';
+import { canWithdrawTeams, isWithdrawn } from '../utils/teamWithdrawal';
+import { useMatchLabels } from '../hooks/useMatchLabels';
+import type { SpecialResult } from '../utils/matchResults';
 import {
   MatchesHeader,
   NextRoundPrompt,
@@ -13,31 +19,44 @@ import {
   PlayoffPrompt,
   ViewModeToggle,
   DelayWarningToggle,
+  ScheduleForecast,
+  CourtClosures,
   GroupPhaseMatchList,
   KnockoutMatchList,
   ShortMainMatchList,
   PlacementTreeMatchList,
+  DoubleEliminationMatchList,
   RegularMatchList,
+  UndoBar,
+  WithdrawTeamPrompt,
 } from '../components/matches';
-import type { Tournament } from '../types/tournament';
 
 export function Matches() {
-  const { currentTournament, dispatch, state, containerPhases } = useTournament();
+  const { currentTournament, currentContainer, dispatch, state, containerPhases, history } = useTournament();
   const [selectedMatch, setSelectedMatch] = useState<Match | null>(null);
   const [filter, setFilter] = useState<'all' | 'pending' | 'completed'>('pending');
   const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
   const [showPlayoffModal, setShowPlayoffModal] = useState(false);
+  const [showWithdrawModal, setShowWithdrawModal] = useState(false);
   const [viewMode, setViewMode] = useState<'list' | 'bracket'>('list');
   const [showDelayWarnings, setShowDelayWarnings] = useState(false);
   const [currentTime, setCurrentTime] = useState(new Date());
+  const { getReferee } = useMatchLabels();
 
+  // The clock drives delay warnings and the projected finish
+  const hasScheduling = !!currentTournament?.scheduling;
   useEffect(() => {
-    if (!showDelayWarnings) return;
+    if (!hasScheduling) return;
     const interval = setInterval(() => setCurrentTime(new Date()), 60000);
     return () => clearInterval(interval);
-  }, [showDelayWarnings]);
+  }, [hasScheduling]);
 
   const currentTimeMinutes = currentTime.getHours() * 60 + currentTime.getMinutes();
+  // Multi-day events: today's date and the moment on the calendar's timeline
+  const calendar = currentContainer?.calendar?.days.length ? currentContainer.calendar : undefined;
+  const currentDate = calendar ? getLocalDate(currentTime.toISOString()) : undefined;
+  const phases = containerPhases.length > 0 ? containerPhases : currentTournament ? [currentTournament] : [];
+  const timelineMinutes = toTimelineMinutes(currentTime.toISOString(), calendar?.days, getPlayDate(phases));
 
   if (!currentTournament) {
     return (
@@ -64,15 +83,36 @@ export function Matches() {
       return match.teamAId === selectedTeamId || match.teamBId === selectedTeamId;
     });
 
-  const handleSubmitScore = (scores: SetScore[]) => {
+  const handleSubmitScore = (scores: SetScore[], result?: SpecialResult) => {
     if (!selectedMatch) return;
+    if (selectedMatch.status === 'completed') {
+      dispatch({
+        type: 'CORRECT_MATCH_RESULT',
+        payload: { tournamentId: currentTournament.id, matchId: selectedMatch.id, scores, result },
+      });
+      return;
+    }
+    const timestamp = new Date().toISOString();
+    // A forfeit or walkover has no score to record
+    if (!result || scores.length > 0) {
+      dispatch({
+        type: 'UPDATE_MATCH_SCORE',
+        payload: { tournamentId: currentTournament.id, matchId: selectedMatch.id, scores, timestamp },
+      });
+    }
     dispatch({
-      type: 'UPDATE_MATCH_SCORE',
-      payload: { tournamentId: currentTournament.id, matchId: selectedMatch.id, scores },
+      type: 'COMPLETE_MATCH',
+      payload: { tournamentId: currentTournament.id, matchId: selectedMatch.id, timestamp, result },
     });
+  };
+
+  const canStartSelectedMatch = !!selectedMatch?.teamAId && !!selectedMatch.teamBId &&
+    (selectedMatch.status === 'scheduled' || selectedMatch.status === 'pending');
+  const handleStartMatch = () => {
+    if (!selectedMatch) return;
     dispatch({
-      type: 'COMPLETE_MATCH',
-      payload: { tournamentId: currentTournament.id, matchId: selectedMatch.id },
+      type: 'START_MATCH',
+      payload: { tournamentId: currentTournament.id, matchId: selectedMatch.id, timestamp: new Date().toISOString() },
     });
   };
 
@@ -90,11 +130,14 @@ export function Matches() {
   const isPlayoffSystem = currentTournament.system === 'playoff';
   const isGroupPhase = currentTournament.system === 'group-phase' ||
     currentTournament.system === 'beachl-short-main' ||
-    currentTournament.system === 'beachl-all-placements';
+    currentTournament.system === 'beachl-all-placements' ||
+    currentTournament.system === 'pool-play-single-out';
   const isKnockout = currentTournament.system === 'knockout';
+  const isPoolPlayKnockout = currentTournament.system === 'pool-play-knockout';
   const isShortMainKnockout = currentTournament.system === 'short-main-knockout';
   const isPlacementTree = currentTournament.system === 'placement-tree';
-  const isAnyKnockout = isKnockout || isShortMainKnockout || isPlacementTree;
+  const isDoubleElimination = currentTournament.system === 'double-elimination';
+  const isAnyKnockout = isKnockout || isShortMainKnockout || isPlacementTree || isPoolPlayKnockout || isDoubleElimination;
 
   const hasFinalsAlready = state.tournaments.some(
     t => t.parentPhaseId === currentTournament.id && (t.system === 'playoff' || t.system === 'knockout')
@@ -114,29 +157,15 @@ export function Matches() {
     setShowPlayoffModal(false);
   };
 
-  const getRefereeTeamName = (match: Match): string | null => {
-    if (match.refereeTeamId) {
-      const parentTournament = currentTournament.parentPhaseId
-        ? state.tournaments.find(t => t.id === currentTournament.parentPhaseId)
-        : null;
-      const team = currentTournament.teams.find(t => t.id === match.refereeTeamId)
-        || parentTournament?.teams.find(t => t.id === match.refereeTeamId);
-      return team?.name || null;
-    }
-    return match.refereePlaceholder || null;
-  };
-
-  const getPreviousPhases = (): Tournament[] => {
-    if (!currentTournament.phaseOrder || currentTournament.phaseOrder <= 1) return [];
-    return containerPhases
-      .filter(phase => (phase.phaseOrder ?? 0) < (currentTournament.phaseOrder ?? 0))
-      .sort((a, b) => (a.phaseOrder ?? 0) - (b.phaseOrder ?? 0));
-  };
-
+  // Tournaments saved before matches stored their slot are planned on the fly
+  let plannedTimes: Map<string, string | undefined> | null = null;
   const getScheduledTime = (match: Match): string | null => {
-    return calculateMatchStartTimeForPhase(
-      match, currentTournament.matches, currentTournament, getPreviousPhases()
+    if (match.scheduledTime || isByeMatch(match)) return match.scheduledTime ?? null;
+    plannedTimes ??= new Map(
+      schedulePhases(phases, undefined, calendar)
+        .find(t => t.id === currentTournament.id)?.matches.map(m => [m.id, m.scheduledTime])
     );
+    return plannedTimes.get(match.id) ?? null;
   };
 
   const matchListProps = {
@@ -146,6 +175,8 @@ export function Matches() {
     getScheduledTime,
     showDelayWarning: showDelayWarnings,
     currentTimeMinutes,
+    currentDate,
+    getRefereeTeam: getReferee,
   };
 
   return (
@@ -158,6 +189,10 @@ export function Matches() {
         totalCount={totalCount}
       />
 
+      {history.canUndo && history.undoDescription && (
+        <UndoBar description={history.undoDescription} onUndo={history.undo} />
+      )}
+
       {canGenerateNextRound && (
         <NextRoundPrompt
           currentRound={currentRound}
@@ -181,6 +216,35 @@ export function Matches() {
         onTeamChange={setSelectedTeamId}
       />
 
+      {currentTournament.scheduling && currentTournament.status === 'in-progress' && (
+        <ScheduleForecast
+          phases={phases}
+          endTime={currentTournament.scheduling.endTime}
+          currentTimeMinutes={timelineMinutes}
+          calendar={calendar}
+        />
+      )}
+
+      {currentTournament.scheduling && currentTournament.status === 'in-progress' && currentTournament.numberOfCourts > 1 && (
+        <CourtClosures
+          numberOfCourts={currentTournament.numberOfCourts}
+          courtAvailability={currentTournament.scheduling.courtAvailability}
+          currentTimeMinutes={currentTimeMinutes}
+          currentDate={currentDate}
+          onCloseCourt={courtNumber => dispatch({
+            type: 'CLOSE_COURT',
+            payload: { tournamentId: currentTournament.id, courtNumber, timestamp: new Date().toISOString() },
+          })}
+        />
+      )}
+
+      {canWithdrawTeams(currentTournament) && (
+        <WithdrawTeamPrompt
+          withdrawnTeams={currentTournament.teams.filter(t => isWithdrawn(currentTournament, t.id)).map(t => t.name)}
+          onOpenModal={() => setShowWithdrawModal(true)}
+        />
+      )}
+
       {currentTournament.scheduling && (
         <DelayWarningToggle
           showDelayWarnings={showDelayWarnings}
@@ -204,9 +268,12 @@ export function Matches() {
               {...matchListProps}
             />
           )}
-          {isKnockout && <KnockoutMatchList {...matchListProps} getRefereeTeam={getRefereeTeamName} />}
+          {(isKnockout || isPoolPlayKnockout) && <KnockoutMatchList {...matchListProps} />}
           {isShortMainKnockout && <ShortMainMatchList {...matchListProps} />}
           {isPlacementTree && <PlacementTreeMatchList {...matchListProps} />}
+          {isDoubleElimination && (
+            <DoubleEliminationMatchList {...matchListProps} allMatches={currentTournament.matches} />
+          )}
           {!isGroupPhase && !isAnyKnockout && <RegularMatchList {...matchListProps} />}
         </>
       )}
@@ -220,6 +287,12 @@ export function Matches() {
           getTeamName={getTeamName}
           onClose={() => setSelectedMatch(null)}
           onSubmit={handleSubmitScore}
+          onStart={canStartSelectedMatch ? handleStartMatch : undefined}
+          getCorrectionPlan={selectedMatch.status === 'completed'
+            ? (scores, result) => planResultCorrection(state, {
+              tournamentId: currentTournament.id, matchId: selectedMatch.id, scores, result,
+            })
+            : undefined}
         />
       )}
 
@@ -236,6 +309,18 @@ export function Matches() {
           onConfirm={handleGeneratePlayoff}
         />
       )}
+
+      {showWithdrawModal && (
+        <WithdrawTeamModal
+          teams={currentTournament.teams.filter(t => !isWithdrawn(currentTournament, t.id))}
+          getPlan={(teamId, rule) => planTeamWithdrawal(state, { tournamentId: currentTournament.id, teamId, rule })}
+          onConfirm={(teamId, rule) => dispatch({
+            type: 'WITHDRAW_TEAM',
+            payload: { tournamentId: currentTournament.id, teamId, rule, timestamp: new Date().toISOString() },
+          })}
+          onClose={() => setShowWithdrawModal(false)}
+        />
+      )}
     </div>
   );
 }
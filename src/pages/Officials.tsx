@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTournament } from '../context/TournamentContext';
+import { OfficialWorkloadTable, OfficialsEditor } from '../components/officials';
+import { getOfficialWorkload, usesOfficials } from '../utils/officials';
+import type { Official } from '../types/tournament';
+
+/** Referee pool of the current tournament and how many matches each official got */
+export function Officials() {
+  const { dispatch, currentContainer, containerPhases } = useTournament();
+  const [draft, setDraft] = useState<Official[] | null>(null);
+
+  if (!currentContainer) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">Kein Turnier ausgewählt</p>
+      </div>
+    );
+  }
+
+  const saved = currentContainer.officials ?? [];
+  const officials = draft ?? saved;
+  const isValid = officials.every(o => o.name.trim());
+  const workload = getOfficialWorkload(containerPhases, saved);
+
+  const handleSave = () => {
+    dispatch({
+      type: 'UPDATE_OFFICIALS',
+      payload: { containerId: currentContainer.id, officials: officials.map(o => ({ ...o, name: o.name.trim() })) },
+    });
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-6 pb-20">
+      <h2 className="text-2xl font-bold text-gray-800">Schiedsrichter</h2>
+
+      {!containerPhases.some(usesOfficials) && (
+        <div className="rounded-lg p-3 text-sm border bg-amber-50 border-amber-200 text-amber-800">
+          Der Pool wird erst eingeteilt, wenn in der <Link to="/configure" className="underline">Konfiguration</Link> die
+          Schiedsgerichte mit „Schiedsrichter-Pool“ eingeteilt werden.
+        </div>
+      )}
+
+      <OfficialsEditor officials={officials} onChange={setDraft} days={currentContainer.calendar?.days} />
+
+      {draft && (
+        <div className="flex gap-3">
+          <button
+            onClick={() => setDraft(null)}
+            className="flex-1 py-3 border border-gray-300 rounded-lg text-gray-600 hover:bg-gray-50"
+          >
+            Verwerfen
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="flex-[2] py-3 bg-sky-600 text-white rounded-lg hover:bg-sky-700 font-medium disabled:opacity-40"
+          >
+            Speichern und einteilen
+          </button>
+        </div>
+      )}
+
+      {saved.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold text-gray-800">Einsätze</h3>
+          <OfficialWorkloadTable workload={workload} />
+          <p className="text-sm text-gray-500">
+            Halbfinals und Finals gehen an die höchste verfügbare Lizenz, die übrigen Spiele gleichmäßig an alle.
+            Persönliche Einsatzpläne lassen sich unter <Link to="/print" className="underline">Drucken</Link> ausgeben.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
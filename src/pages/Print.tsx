@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Printer } from 'lucide-react';
+import { useTournament } from '../context/TournamentContext';
+import { usePlannedMatches } from '../hooks/usePlannedMatches';
+import { useMatchLabels } from '../hooks/useMatchLabels';
+import { BracketView } from '../components/BracketView';
+import { OfficialSchedule, PrintScheduleGrid, Scoresheet } from '../components/print';
+import { isBracketSystem } from '../utils/displayViews';
+import { getScheduleGrid, getScoresheetSets, sortByPlannedStart } from '../utils/printSheets';
+import { formatDayLabel } from '../utils/scheduling';
+
+/**
+ * Print view of the current phase: schedule grid, scoresheets, bracket and the
+ * officials' personal schedules. Rendered from the local state only, so printing
+ * or saving as PDF works without a connection.
+ */
+export function Print() {
+  const { currentTournament, currentContainer, containerPhases } = useTournament();
+  const { getTeams, getReferee } = useMatchLabels();
+  const [showSchedule, setShowSchedule] = useState(true);
+  const [showScoresheets, setShowScoresheets] = useState(true);
+  const [showBracket, setShowBracket] = useState(true);
+  const [showOfficials, setShowOfficials] = useState(false);
+  const [openOnly, setOpenOnly] = useState(true);
+
+  const calendar = currentContainer?.calendar?.days.length ? currentContainer.calendar : undefined;
+  const days = calendar?.days;
+  const matches = usePlannedMatches(calendar);
+
+  if (!currentTournament) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">Kein Turnier ausgewählt</p>
+      </div>
+    );
+  }
+
+  const phaseName = currentTournament.phaseName || currentTournament.name;
+  const hasBracket = isBracketSystem(currentTournament.system);
+  const grid = getScheduleGrid(matches, currentTournament.numberOfCourts, days);
+  const sets = getScoresheetSets(currentTournament);
+  const officials = currentContainer?.officials ?? [];
+  const sheetMatches = sortByPlannedStart(matches.filter(m => !openOnly || m.status !== 'completed'), days);
+
+  const sections = [
+    showSchedule && (
+      <section key="schedule" className="space-y-3">
+        <h2 className="text-xl font-bold text-gray-800">Spielplan · {phaseName}</h2>
+        <PrintScheduleGrid grid={grid} getTeams={getTeams} getReferee={getReferee} />
+      </section>
+    ),
+    showScoresheets && (
+      <section key="scoresheets" className="space-y-4">
+        <h2 className="text-xl font-bold text-gray-800 print:hidden">Spielberichtsbögen</h2>
+        {sheetMatches.length === 0 && <p className="text-sm text-gray-500">Keine offenen Spiele</p>}
+        {sheetMatches.map(match => {
+          const [teamA, teamB] = getTeams(match);
+          const start = match.scheduledTime
+            ? `${match.scheduledDate && days ? `${formatDayLabel(match.scheduledDate)} ` : ''}${match.scheduledTime} Uhr`
+            : null;
+          return (
+            <Scoresheet
+              key={match.id}
+              phaseName={phaseName}
+              matchNumber={match.matchNumber}
+              teamA={teamA}
+              teamB={teamB}
+              referee={getReferee(match)}
+              court={match.courtNumber}
+              start={start}
+              sets={sets}
+            />
+          );
+        })}
+      </section>
+    ),
+    hasBracket && showBracket && (
+      <section key="bracket" className="space-y-3 print-landscape">
+        <h2 className="text-xl font-bold text-gray-800">Turnierbaum · {phaseName}</h2>
+        <BracketView matches={currentTournament.matches} teams={currentTournament.teams} />
+      </section>
+    ),
+    ...(showOfficials ? officials : []).map(official => (
+      <section key={official.id} className="space-y-3">
+        <h2 className="text-xl font-bold text-gray-800">Schiedsrichterplan · {currentContainer?.name}</h2>
+        <OfficialSchedule official={official} phases={containerPhases} days={days} />
+      </section>
+    )),
+  ].filter(Boolean);
+
+  const toggles = [
+    { label: 'Spielplan', checked: showSchedule, onChange: setShowSchedule },
+    { label: 'Spielberichtsbögen', checked: showScoresheets, onChange: setShowScoresheets },
+    ...(hasBracket ? [{ label: 'Turnierbaum', checked: showBracket, onChange: setShowBracket }] : []),
+    ...(officials.length > 0 ? [{ label: 'Schiedsrichterpläne', checked: showOfficials, onChange: setShowOfficials }] : []),
+    { label: 'Nur offene Spiele', checked: openOnly, onChange: setOpenOnly },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg p-4 shadow-sm space-y-3 print:hidden">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">Drucken</h2>
+          <button
+            onClick={() => window.print()}
+            disabled={sections.length === 0}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4" /> Drucken
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+          {toggles.map(toggle => (
+            <label key={toggle.label} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={toggle.checked}
+                onChange={e => toggle.onChange(e.target.checked)}
+                className="rounded"
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">Über den Druckdialog lässt sich die Ansicht auch als PDF speichern.</p>
+      </div>
+
+      {sections.map((section, index) => (
+        <div key={index} className={index < sections.length - 1 ? 'break-after-page' : ''}>
+          {section}
+        </div>
+      ))}
+    </div>
+  );
+}
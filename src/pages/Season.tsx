@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { useTournament } from '../context/TournamentContext';
+import { SeasonTable } from '../components/season';
+import { getEventDate, getSeasonStatistics, getSeasonYears } from '../utils/season';
+
+type SeasonView = 'teams' | 'players';
+
+/** Statistics over the archived tournaments of a year */
+export function Season() {
+  const { state, dispatch } = useTournament();
+  const years = getSeasonYears(state.containers);
+  const [year, setYear] = useState<string | null>(null);
+  const [view, setView] = useState<SeasonView>('teams');
+  const selectedYear = year ?? years[0] ?? null;
+
+  const containers = state.containers.filter(c => c.archivedAt && getEventDate(c).startsWith(selectedYear ?? ''));
+  const statistics = getSeasonStatistics(state.tournaments, containers);
+
+  const handleLink = (key: string, intoKey: string) => {
+    const from = statistics.teams.find(r => r.key === key)?.name;
+    const into = statistics.teams.find(r => r.key === intoKey)?.name;
+    if (confirm(`„${from}“ mit „${into}“ verknüpfen?\n\nBeide werden in der Saisonstatistik als ein Team gezählt.`)) {
+      dispatch({ type: 'MERGE_TEAM_PROFILES', payload: { profileId: key, intoProfileId: intoKey } });
+    }
+  };
+
+  if (years.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">Noch keine archivierten Turniere</p>
+        <p className="text-sm text-gray-400 mt-2">Beendete Turniere können in der Übersicht archiviert werden.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <h2 className="text-2xl font-bold text-gray-800">Saisonstatistik</h2>
+        <select
+          value={selectedYear ?? ''}
+          onChange={e => setYear(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg"
+        >
+          {years.map(y => <option key={y} value={y}>Saison {y}</option>)}
+        </select>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        {containers.length} {containers.length === 1 ? 'Turnier' : 'Turniere'}: {containers.map(c => c.name).join(', ')}
+      </p>
+
+      <div className="flex gap-2">
+        {(['teams', 'players'] as const).map(v => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium ${view === v ? 'bg-sky-600 text-white' : 'bg-white text-gray-700 hover:bg-sky-50'}`}
+          >
+            {v === 'teams' ? 'Teams' : 'Spieler'}
+          </button>
+        ))}
+      </div>
+
+      {view === 'teams'
+        ? <SeasonTable records={statistics.teams} nameLabel="Team" onLink={handleLink} />
+        : <SeasonTable records={statistics.players} nameLabel="Spieler" />}
+
+      <div className="bg-white rounded-lg p-4 shadow-sm">
+        <p className="text-sm text-gray-500">
+          Teams werden beim Archivieren über ihren Namen der Saison zugeordnet; umbenannte Teams lassen sich über
+          „Verknüpfen mit …“ zusammenführen. Spieler werden über die gemeldeten Spielernamen erkannt.
+          Platzierungen stammen aus der letzten Phase eines Turniers.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,17 +1,20 @@
 import { useTournament } from '../context/TournamentContext';
-import { calculateKnockoutPlacements } from '../utils/knockout';
-import { calculatePlacementTreePlacements } from '../utils/placementTree/index';
-import { calculateShortMainRoundPlacements } from '../utils/shortMainRound';
+import { getBracketPlacements } from '../utils/placements';
+import { calculatePlayerStandings } from '../utils/standings';
+import { calculateSwissScores } from '../utils/swissTiebreaks';
+import { describeTiebreakers, getTiebreakers } from '../utils/tiebreakers';
 import {
   StandingsHeader,
   TournamentCompleteBanner,
   PlacementsList,
   GroupStandingsTable,
   RegularStandingsTable,
+  LotsDraw,
 } from '../components/standings';
+import type { StandingEntry } from '../types/tournament';
 
 export function Standings() {
-  const { currentTournament, state } = useTournament();
+  const { currentTournament, state, dispatch } = useTournament();
 
   if (!currentTournament) {
     return (
@@ -22,10 +25,14 @@ export function Standings() {
   }
 
   const isPlayoff = currentTournament.system === 'playoff';
-  const isGroupPhase = currentTournament.system === 'group-phase' || currentTournament.system === 'beachl-all-placements' || currentTournament.system === 'beachl-short-main';
+  const isGroupPhase = currentTournament.system === 'group-phase' || currentTournament.system === 'beachl-all-placements' || currentTournament.system === 'beachl-short-main' || currentTournament.system === 'pool-play-single-out';
   const isKnockout = currentTournament.system === 'knockout';
+  const isPoolPlayKnockout = currentTournament.system === 'pool-play-knockout';
   const isPlacementTree = currentTournament.system === 'placement-tree';
   const isShortMainKnockout = currentTournament.system === 'short-main-knockout';
+  const isDoubleElimination = currentTournament.system === 'double-elimination';
+  const isMixer = currentTournament.system === 'mixer';
+  const isSwiss = currentTournament.system === 'swiss';
 
   const getTeamName = (teamId: string) => {
     let team = currentTournament.teams.find(t => t.id === teamId);
@@ -39,6 +46,9 @@ export function Standings() {
   const completedMatches = currentTournament.matches.filter(m => m.status === 'completed').length;
   const totalMatches = currentTournament.matches.length;
   const showSets = currentTournament.setsPerMatch === 2;
+  const tiebreakerDescription = describeTiebreakers(
+    getTiebreakers(currentTournament.tiebreakers, currentTournament.tiebreakerOrder, currentTournament.system)
+  );
 
   const standingsByGroup = isGroupPhase && currentTournament.groupStandings
     ? currentTournament.groupPhaseConfig?.groups?.map(group => ({
@@ -47,13 +57,20 @@ export function Standings() {
       })) ?? []
     : [];
 
-  const knockoutPlacements = isKnockout
-    ? calculateKnockoutPlacements(currentTournament.matches, currentTournament.teams, currentTournament.eliminatedTeamIds ?? [])
-    : isPlacementTree
-    ? calculatePlacementTreePlacements(currentTournament.matches, currentTournament.teams)
-    : isShortMainKnockout
-    ? calculateShortMainRoundPlacements(currentTournament.matches, currentTournament.teams)
-    : [];
+  const knockoutPlacements = getBracketPlacements(currentTournament, state.tournaments);
+
+  const renderLotsDraw = (standings: StandingEntry[]) => {
+    const tiedIds = standings.filter(e => e.tiedForLots).map(e => e.teamId);
+    if (tiedIds.length === 0) return null;
+    return (
+      <LotsDraw
+        key={tiedIds.join()}
+        teamIds={tiedIds}
+        getTeamName={getTeamName}
+        onDraw={teamIds => dispatch({ type: 'DRAW_LOTS', payload: { tournamentId: currentTournament.id, teamIds } })}
+      />
+    );
+  };
 
   if (isPlayoff) {
     return (
@@ -73,7 +90,7 @@ export function Standings() {
     );
   }
 
-  if (isKnockout) {
+  if (isKnockout || isPoolPlayKnockout) {
     return (
       <div className="space-y-6 pb-20">
         <StandingsHeader title="K.O.-Platzierungen" completedMatches={completedMatches} totalMatches={totalMatches} />
@@ -88,6 +105,43 @@ export function Standings() {
     );
   }
 
+  if (isDoubleElimination) {
+    return (
+      <div className="space-y-6 pb-20">
+        <StandingsHeader title="Doppel-K.O. - Platzierungen" completedMatches={completedMatches} totalMatches={totalMatches} />
+        {currentTournament.status === 'completed' && knockoutPlacements.length > 0 && (
+          <TournamentCompleteBanner winnerName={getTeamName(knockoutPlacements[0].teamId)} />
+        )}
+        <PlacementsList placements={knockoutPlacements} getTeamName={getTeamName} emptyMessage="Platzierungen werden angezeigt, sobald Teams zum zweiten Mal verloren haben." />
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <p className="text-sm text-gray-500">Teams, die in derselben Runde der Verliererrunde ausscheiden, teilen sich die Platzierung.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isMixer) {
+    const players = currentTournament.players ?? [];
+    const playerStandings = calculatePlayerStandings(
+      players, currentTournament.teams, currentTournament.matches, currentTournament.setsPerMatch
+    ).map(({ playerId, ...entry }) => ({ ...entry, teamId: playerId }));
+    const getPlayerName = (playerId: string) => players.find(p => p.id === playerId)?.name ?? 'Unbekannt';
+    return (
+      <div className="space-y-6 pb-20">
+        <StandingsHeader title="Einzelwertung" completedMatches={completedMatches} totalMatches={totalMatches} />
+        {currentTournament.status === 'completed' && playerStandings.length > 0 && (
+          <TournamentCompleteBanner winnerName={getPlayerName(playerStandings[0].teamId)} />
+        )}
+        <RegularStandingsTable standings={playerStandings} getTeamName={getPlayerName} showSets={showSets} nameLabel="Spieler" />
+        <div className="bg-white rounded-lg p-4 shadow-sm">
+          <p className="text-sm text-gray-500">
+            Jeder Spieler erhält das Ergebnis seines jeweiligen Paares. Sortierung: {showSets ? 'Gewonnene Sätze' : 'Siege'}, dann Punktedifferenz, dann erzielte Punkte.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (isPlacementTree || isShortMainKnockout) {
     const systemTitle = isPlacementTree ? 'Platzierungsbaum' : 'Hauptrunde';
     return (
@@ -117,7 +171,10 @@ export function Standings() {
         )}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {standingsByGroup.map(({ group, standings }) => (
-            <GroupStandingsTable key={group.id} group={group} standings={standings} getTeamName={getTeamName} showSets={showSets} />
+            <div key={group.id} className="space-y-3">
+              <GroupStandingsTable group={group} standings={standings} getTeamName={getTeamName} showSets={showSets} />
+              {renderLotsDraw(standings)}
+            </div>
           ))}
         </div>
         <div className="bg-white rounded-lg p-4 shadow-sm">
@@ -128,7 +185,7 @@ export function Standings() {
             <div className="flex items-center gap-2"><span className="w-4 h-4 bg-red-400 rounded-full"></span><span>Ausgeschieden</span></div>
           </div>
           <p className="text-xs text-gray-500 mt-2">
-            Sortierung: {showSets ? 'Gewonnene Sätze' : 'Siege'}, dann {currentTournament.tiebreakerOrder === 'head-to-head-first' ? 'direkter Vergleich, dann Punktedifferenz' : 'Punktedifferenz, dann direkter Vergleich'}
+            Sortierung: {showSets ? 'Gewonnene Sätze' : 'Siege'}, dann {tiebreakerDescription}
           </p>
         </div>
       </div>
@@ -141,7 +198,13 @@ export function Standings() {
       {currentTournament.status === 'completed' && (
         <TournamentCompleteBanner winnerName={getTeamName(currentTournament.standings[0]?.teamId)} />
       )}
-      <RegularStandingsTable standings={currentTournament.standings} getTeamName={getTeamName} showSets={showSets} />
+      <RegularStandingsTable
+        standings={currentTournament.standings}
+        getTeamName={getTeamName}
+        showSets={showSets}
+        swissScores={isSwiss ? calculateSwissScores(currentTournament.teams.map(t => t.id), currentTournament.matches) : undefined}
+      />
+      {renderLotsDraw(currentTournament.standings)}
       <div className="bg-white rounded-lg p-4 shadow-sm">
         <h3 className="text-sm font-semibold text-gray-700 mb-2">Legende</h3>
         <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-xs text-gray-600">
@@ -150,9 +213,15 @@ export function Standings() {
           <div><span className="font-medium">N</span> = Niederlagen</div>
           <div><span className="font-medium">Punkte</span> = Gewonnen:Verloren</div>
           <div><span className="font-medium">+/-</span> = Punktedifferenz</div>
+          {isSwiss && (
+            <>
+              <div><span className="font-medium">BH</span> = Buchholz (Summe der Gegner-Siege)</div>
+              <div><span className="font-medium">SB</span> = Sonneborn-Berger (Siege der besiegten Gegner)</div>
+            </>
+          )}
         </div>
         <p className="text-xs text-gray-500 mt-2">
-          Sortierung: {showSets ? 'Gewonnene Sätze' : 'Siege'}, dann {currentTournament.tiebreakerOrder === 'head-to-head-first' ? 'direkter Vergleich, dann Punktedifferenz' : 'Punktedifferenz, dann direkter Vergleich'}
+          Sortierung: {showSets ? 'Gewonnene Sätze' : 'Siege'}, dann {tiebreakerDescription}
         </p>
       </div>
       <div className="sm:hidden space-y-3">
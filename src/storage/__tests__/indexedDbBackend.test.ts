@@ -0,0 +1,143 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { getChangedIds, type Revisions } from '../../context/tabSync';
+import type { JournalEntry } from '../../context/journal';
+import {
+  createIndexedDbBackend,
+  createLocalStorageBackend,
+  createTournamentStorage,
+  isQuotaError,
+  MAX_SNAPSHOTS,
+  SNAPSHOT_INTERVAL_MINUTES,
+  type SaveResult,
+} from '..';
+import { JOURNAL_KEY, STATE_KEY } from '../localStorageBackend';
+import { toStorageError } from '../../hooks/useTabSync';
+import { createMemoryStorage, createTeams } from '../../__tests__/utils/testHelpers';
+
+function createTournament(state: TournamentState, name: string): TournamentState {
+  return tournamentReducer(state, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name,
+      system: 'round-robin',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(4),
+    },
+  });
+}
+
+const rename = (state: TournamentState, name: string): TournamentState =>
+  ({ ...state, tournaments: state.tournaments.map(t => ({ ...t, name })) });
+
+const savedRevisions = (result: SaveResult): Revisions => {
+  expect(result.status).toBe('saved');
+  return result.revisions;
+};
+
+describe('IndexedDB backend', () => {
+  beforeEach(() => {
+    // A fresh database per test; tabs are not notified across tests
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('BroadcastChannel', undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('moves the state and journal saved in localStorage over and removes them there', async () => {
+    const localStorage = createMemoryStorage();
+    vi.stubGlobal('localStorage', localStorage);
+    const state = createTournament(createTournament(initialState, 'Sommercup'), 'Wintercup');
+    const journal: JournalEntry[] = [{ id: 'j1', at: '2026-06-13T10:00:00Z', actor: null, type: 'CREATE_TOURNAMENT', tournamentId: null, description: 'Turnier erstellt' }];
+    const legacy = createLocalStorageBackend();
+    await legacy.save(state, getChangedIds(initialState, state), {});
+    await legacy.saveJournal(journal);
+
+    const storage = createTournamentStorage();
+    const loaded = await storage.load();
+
+    expect(loaded?.state.tournaments.map(t => t.name).sort()).toEqual(['Sommercup', 'Wintercup']);
+    expect(localStorage.getItem(STATE_KEY)).toBeNull();
+    expect((await createIndexedDbBackend().load())?.state.tournaments).toHaveLength(2);
+    expect(await storage.loadJournal()).toEqual(journal);
+    expect(localStorage.getItem(JOURNAL_KEY)).toBeNull();
+  });
+
+  it('keeps at most one snapshot per interval and only the newest ones', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-06-13T08:00:00Z'));
+    const backend = createIndexedDbBackend();
+    let saved = initialState;
+    let known: Revisions = {};
+    const saveNext = async (name: string) => {
+      const state = createTournament(saved, name);
+      known = savedRevisions(await backend.save(state, getChangedIds(saved, state), known));
+      saved = state;
+    };
+
+    await saveNext('Cup 1');
+    await saveNext('Cup 2');
+    expect(await backend.listSnapshots()).toHaveLength(1);
+
+    for (let i = 3; i <= MAX_SNAPSHOTS + 5; i++) {
+      vi.setSystemTime(Date.now() + SNAPSHOT_INTERVAL_MINUTES * 60_000);
+      await saveNext(`Cup ${i}`);
+    }
+    const snapshots = await backend.listSnapshots();
+
+    expect(snapshots).toHaveLength(MAX_SNAPSHOTS);
+    expect(snapshots.map(s => s.tournamentCount)).toEqual(Array.from({ length: MAX_SNAPSHOTS }, (_, i) => MAX_SNAPSHOTS + 5 - i));
+    expect((await backend.loadSnapshot(snapshots[0].id))?.tournaments).toHaveLength(MAX_SNAPSHOTS + 5);
+  });
+
+  it('reports a conflict for a record another tab saved and keeps its change', async () => {
+    const tabA = createIndexedDbBackend();
+    const tabB = createIndexedDbBackend();
+    const base = createTournament(initialState, 'Sommercup');
+    const id = base.tournaments[0].id;
+    const revisions = savedRevisions(await tabA.save(base, getChangedIds(initialState, base), {}));
+
+    savedRevisions(await tabA.save(rename(base, 'Cup A'), [id], revisions));
+    const result = await tabB.save(rename(base, 'Cup B'), [id], revisions);
+
+    expect(result).toMatchObject({ status: 'conflict', conflicts: [id] });
+    expect(result.revisions[id]).toBe(revisions[id] + 1);
+    expect((await tabB.load())?.state.tournaments[0].name).toBe('Cup A');
+    expect(await tabB.loadNewer(revisions)).toMatchObject({ state: { tournaments: [{ id, name: 'Cup A' }] } });
+  });
+
+  it('rejects a save the browser refuses for lack of space with an error shown as full storage', async () => {
+    const backend = createIndexedDbBackend();
+    const state = createTournament(initialState, 'Sommercup');
+    const put = IDBObjectStore.prototype.put;
+    // Like a browser out of quota: the write transaction aborts with a QuotaExceededError
+    const refused = new WeakSet<IDBTransaction>();
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(function (this: IDBObjectStore, ...args) {
+      const tx = this.transaction;
+      if (!refused.has(tx)) {
+        refused.add(tx);
+        queueMicrotask(() => {
+          Object.defineProperty(tx, 'error', { value: new DOMException('Quota exceeded', 'QuotaExceededError') });
+          tx.abort();
+        });
+      }
+      return put.apply(this, args);
+    });
+
+    const error = await backend.save(state, getChangedIds(initialState, state), {}).catch((e: unknown) => e);
+
+    expect(isQuotaError(error)).toBe(true);
+    expect(toStorageError(error)).toEqual({ quotaExceeded: true, message: 'Der Speicher des Browsers ist voll.' });
+    expect(await backend.load()).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { getChangedIds } from '../../context/tabSync';
+import type { JournalEntry } from '../../context/journal';
+import { createLocalStorageBackend, isQuotaError } from '..';
+import { createMemoryStorage, createTeams } from '../../__tests__/utils/testHelpers';
+
+function createTournament(state: TournamentState, name: string): TournamentState {
+  return tournamentReducer(state, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name,
+      system: 'round-robin',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(4),
+    },
+  });
+}
+
+describe('localStorage backend', () => {
+  it('saves changed records and loads them with their revisions', async () => {
+    const backend = createLocalStorageBackend(createMemoryStorage());
+    const state = createTournament(initialState, 'Sommercup');
+
+    const changedIds = getChangedIds(initialState, state);
+    const result = await backend.save(state, changedIds, {});
+    const loaded = await backend.load();
+
+    expect(result).toEqual({ status: 'saved', revisions: Object.fromEntries(changedIds.map(id => [id, 1])) });
+    expect(loaded?.state.tournaments.map(t => t.name)).toEqual(['Sommercup']);
+    expect(loaded?.revisions).toEqual(result.revisions);
+  });
+
+  it('reports a conflict for a record saved by another tab and keeps its newer change', async () => {
+    const backend = createLocalStorageBackend(createMemoryStorage());
+    const base = createTournament(initialState, 'Sommercup');
+    const id = base.tournaments[0].id;
+    const { revisions: known } = await backend.save(base, [id], {});
+
+    const started = tournamentReducer(base, { type: 'START_TOURNAMENT', payload: id });
+    await backend.save(started, [id], known);
+    const deleted = tournamentReducer(base, { type: 'DELETE_TOURNAMENT', payload: id });
+
+    expect(await backend.save(deleted, [id], known)).toEqual({ status: 'conflict', conflicts: [id], revisions: { ...known, [id]: 2 } });
+    expect((await backend.load())?.state.tournaments[0].status).toBe('in-progress');
+    expect((await backend.loadNewer(known)).state.tournaments.map(t => t.id)).toEqual([id]);
+  });
+
+  it('rejects with a quota error when the storage is full', async () => {
+    const storage = createMemoryStorage();
+    const backend = createLocalStorageBackend(storage);
+    const state = createTournament(initialState, 'Sommercup');
+    storage.full = true;
+
+    const error = await backend.save(state, getChangedIds(initialState, state), {}).catch(e => e);
+
+    expect(isQuotaError(error)).toBe(true);
+    expect(await backend.load()).toBeNull();
+  });
+
+  it('keeps an unreadable state instead of overwriting it', async () => {
+    const storage = createMemoryStorage();
+    storage.setItem('beachvolleyball-tournament-state', '{"tournaments": 42}');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await createLocalStorageBackend(storage).load()).toBeNull();
+    expect(storage.getItem('beachvolleyball-tournament-state-invalid')).toBe('{"tournaments": 42}');
+    vi.restoreAllMocks();
+  });
+
+  it('skips an invalid tournament, keeps the others and the saved original', async () => {
+    const storage = createMemoryStorage();
+    const backend = createLocalStorageBackend(storage);
+    const state = createTournament(createTournament(initialState, 'Sommercup'), 'Wintercup');
+    await backend.save(state, getChangedIds(initialState, state), {});
+    const saved = JSON.parse(storage.getItem('beachvolleyball-tournament-state')!);
+    saved.tournaments[1].matches = 'kaputt';
+    storage.setItem('beachvolleyball-tournament-state', JSON.stringify(saved));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const loaded = await backend.load();
+
+    expect(loaded?.state.tournaments.map(t => t.name)).toEqual(['Sommercup']);
+    expect(loaded?.state.containers.map(c => c.name)).toEqual(['Sommercup']);
+    expect(storage.getItem('beachvolleyball-tournament-state-invalid')).toBe(JSON.stringify(saved));
+    vi.restoreAllMocks();
+  });
+
+  it('drops the older half of the journal until it fits', async () => {
+    const storage = createMemoryStorage();
+    const backend = createLocalStorageBackend(storage);
+    const journal = Array.from({ length: 8 }, (_, i): JournalEntry => ({
+      id: `entry-${i}`, at: '2026-06-01T10:00:00.000Z', actor: null, type: 'START_TOURNAMENT', tournamentId: null, description: 'Gestartet',
+    }));
+    storage.maxLength = JSON.stringify(journal.slice(3)).length;
+
+    await backend.saveJournal(journal);
+
+    expect((await backend.loadJournal()).map(e => e.id)).toEqual(['entry-4', 'entry-5', 'entry-6', 'entry-7']);
+  });
+});
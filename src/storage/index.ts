@@ -0,0 +1,58 @@
+import { initialState } from '../context/tournamentActions';
+import { getChangedIds, type StoredSnapshot } from '../context/tabSync';
+import type { TournamentStorage } from './types';
+import { createIndexedDbBackend } from './indexedDbBackend';
+import { createLocalStorageBackend, JOURNAL_KEY, REVISIONS_KEY, STATE_KEY } from './localStorageBackend';
+
+export { createIndexedDbBackend, MAX_SNAPSHOTS, SNAPSHOT_INTERVAL_MINUTES } from './indexedDbBackend';
+export { createLocalStorageBackend } from './localStorageBackend';
+export { isQuotaError, readState } from './readState';
+export type { SaveResult, SnapshotInfo, TournamentStorage } from './types';
+
+/** Whether a record was read back or saved before (and deleted since) */
+function isKnown(stored: StoredSnapshot | null, id: string): boolean {
+  return !!stored && (stored.revisions[id] !== undefined
+    || stored.state.tournaments.some(t => t.id === id) || stored.state.containers.some(c => c.id === id));
+}
+
+/**
+ * IndexedDB where the browser offers it, otherwise localStorage
+ * On the first start with IndexedDB the state and journal saved in localStorage
+ * are moved over and removed there once they read back, which frees the
+ * localStorage quota.
+ */
+export function createTournamentStorage(): TournamentStorage {
+  const legacy = createLocalStorageBackend();
+  if (typeof indexedDB === 'undefined') return legacy;
+
+  const backend = createIndexedDbBackend();
+  return {
+    ...backend,
+    load: async () => {
+      const saved = await legacy.load();
+      if (!saved) return backend.load();
+      // Records IndexedDB has never seen, on the first start or after a migration that did not read back
+      const loaded = await backend.load();
+      const savedIds = getChangedIds(initialState, saved.state);
+      const missingIds = savedIds.filter(id => !isKnown(loaded, id));
+      // Another tab migrating at the same time leads to a conflict; its copy is kept
+      if (missingIds.length > 0) await backend.save(saved.state, missingIds, loaded?.revisions ?? {});
+      const migrated = await backend.load();
+      // The localStorage copy is only removed once every record reads back from IndexedDB
+      if (savedIds.every(id => isKnown(migrated, id))) {
+        localStorage.removeItem(STATE_KEY);
+        localStorage.removeItem(REVISIONS_KEY);
+      }
+      return migrated;
+    },
+    loadJournal: async () => {
+      const journal = await backend.loadJournal();
+      if (journal.length > 0) return journal;
+      const saved = await legacy.loadJournal();
+      if (saved.length === 0) return journal;
+      await backend.saveJournal(saved);
+      if ((await backend.loadJournal()).length === saved.length) localStorage.removeItem(JOURNAL_KEY);
+      return saved;
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import type { Tournament, TournamentContainer } from '../types/tournament';
+import type { TournamentState } from '../context/tournamentActions';
+import type { JournalEntry } from '../context/journal';
+import { findConflicts, getNewerIds, type Revisions } from '../context/tabSync';
+import type { SnapshotInfo, TournamentStorage } from './types';
+import { readState } from './readState';
+
+const DB_NAME = 'beachl-turnier';
+const DB_VERSION = 1;
+const CHANNEL_NAME = 'beachl-turnier-storage';
+
+/** The first save after this many minutes takes a snapshot */
+export const SNAPSHOT_INTERVAL_MINUTES = 10;
+/** Older snapshots are deleted */
+export const MAX_SNAPSHOTS = 20;
+
+interface SnapshotRecord {
+  id?: number;
+  at: string;
+  state: TournamentState;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Resolves when the transaction is committed; rejects with its error, e.g. a QuotaExceededError */
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const db = open.result;
+    db.createObjectStore('tournaments', { keyPath: 'id' });
+    db.createObjectStore('containers', { keyPath: 'id' });
+    db.createObjectStore('meta');
+    db.createObjectStore('snapshots', { keyPath: 'id', autoIncrement: true });
+  };
+  return request(open).then(db => {
+    // Let a newer version of the app in another tab upgrade the database
+    db.onversionchange = () => db.close();
+    return db;
+  });
+}
+
+/**
+ * Tournaments and containers as separate records in IndexedDB, so a save only
+ * writes what changed. Revisions and the selection live in the `meta` store;
+ * the check for newer revisions and the write share one transaction, which
+ * IndexedDB runs one after another across tabs. Other tabs are notified through
+ * a BroadcastChannel. Every few minutes a save also keeps a snapshot of the
+ * whole state. The action journal is kept in `meta` as well.
+ */
+export function createIndexedDbBackend(): TournamentStorage {
+  let database: Promise<IDBDatabase> | null = null;
+  const db = () => (database ??= openDatabase());
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  const readMeta = async <T>(tx: IDBTransaction, key: string): Promise<T | undefined> =>
+    request(tx.objectStore('meta').get(key));
+
+  const load: TournamentStorage['load'] = async () => {
+    const tx = (await db()).transaction(['tournaments', 'containers', 'meta'], 'readonly');
+    const [tournaments, containers, revisions, selection] = await Promise.all([
+      request<Tournament[]>(tx.objectStore('tournaments').getAll()),
+      request<TournamentContainer[]>(tx.objectStore('containers').getAll()),
+      readMeta<Revisions>(tx, 'revisions'),
+      readMeta<string | null>(tx, 'selection'),
+    ]);
+    if (!revisions) return null;
+    // Skipped invalid records stay in their stores untouched, saves only write changed records
+    const result = readState({ tournaments, containers, currentTournamentId: selection ?? null });
+    return result && { state: result.state, revisions };
+  };
+
+  const takeSnapshot = async () => {
+    const check = (await db()).transaction(['meta'], 'readonly');
+    const last = await readMeta<string>(check, 'lastSnapshotAt');
+    if (last && Date.now() - Date.parse(last) < SNAPSHOT_INTERVAL_MINUTES * 60_000) return;
+
+    const stored = await load();
+    if (!stored) return;
+    const tx = (await db()).transaction(['snapshots', 'meta'], 'readwrite');
+    const done = completion(tx);
+    const snapshots = tx.objectStore('snapshots');
+    const at = new Date().toISOString();
+    snapshots.add({ at, state: stored.state } satisfies SnapshotRecord);
+    tx.objectStore('meta').put(at, 'lastSnapshotAt');
+    const keys = await request(snapshots.getAllKeys());
+    keys.slice(0, Math.max(0, keys.length - MAX_SNAPSHOTS)).forEach(key => snapshots.delete(key));
+    await done;
+  };
+
+  return {
+    load,
+
+    loadNewer: async known => {
+      const tx = (await db()).transaction(['tournaments', 'containers', 'meta'], 'readonly');
+      const [revisions = {}, selection] = await Promise.all([
+        readMeta<Revisions>(tx, 'revisions'),
+        readMeta<string | null>(tx, 'selection'),
+      ]);
+      const newer = getNewerIds(known, revisions);
+      const [tournaments, containers] = await Promise.all([
+        Promise.all(newer.map(id => request<Tournament | undefined>(tx.objectStore('tournaments').get(id)))),
+        Promise.all(newer.map(id => request<TournamentContainer | undefined>(tx.objectStore('containers').get(id)))),
+      ]);
+      return {
+        state: {
+          tournaments: tournaments.filter((t): t is Tournament => t !== undefined),
+          containers: containers.filter((c): c is TournamentContainer => c !== undefined),
+          currentTournamentId: selection ?? null,
+        },
+        revisions,
+      };
+    },
+
+    save: async (local, changedIds, known) => {
+      const tx = (await db()).transaction(['tournaments', 'containers', 'meta'], 'readwrite');
+      const done = completion(tx);
+      const revisions = (await readMeta<Revisions>(tx, 'revisions')) ?? {};
+      const conflicts = findConflicts(changedIds, known, revisions);
+      if (conflicts.length > 0) {
+        await done;
+        return { status: 'conflict', conflicts, revisions };
+      }
+
+      const next = { ...revisions };
+      const tournaments = new Map(local.tournaments.map(t => [t.id, t]));
+      const containers = new Map(local.containers.map(c => [c.id, c]));
+      changedIds.forEach(id => {
+        next[id] = (next[id] ?? 0) + 1;
+        const tournament = tournaments.get(id);
+        const container = containers.get(id);
+        if (tournament) tx.objectStore('tournaments').put(tournament);
+        else tx.objectStore('tournaments').delete(id);
+        if (container) tx.objectStore('containers').put(container);
+        else tx.objectStore('containers').delete(id);
+      });
+      tx.objectStore('meta').put(next, 'revisions');
+      tx.objectStore('meta').put(local.currentTournamentId, 'selection');
+      await done;
+
+      channel?.postMessage('saved');
+      // A failed snapshot must not count as a failed save
+      await takeSnapshot().catch(e => console.error('Failed to take snapshot:', e));
+      return { status: 'saved', revisions: next };
+    },
+
+    onChange: listener => {
+      if (!channel) return () => {};
+      const handleMessage = () => listener();
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+
+    listSnapshots: async () => {
+      const tx = (await db()).transaction(['snapshots'], 'readonly');
+      const snapshots = await request<SnapshotRecord[]>(tx.objectStore('snapshots').getAll());
+      return snapshots
+        .map((s): SnapshotInfo => ({ id: s.id!, at: s.at, tournamentCount: s.state.tournaments.length }))
+        .reverse();
+    },
+
+    loadSnapshot: async id => {
+      const tx = (await db()).transaction(['snapshots'], 'readonly');
+      const snapshot = await request<SnapshotRecord | undefined>(tx.objectStore('snapshots').get(id));
+      return snapshot ? readState(snapshot.state)?.state ?? null : null;
+    },
+
+    loadJournal: async () => {
+      const tx = (await db()).transaction(['meta'], 'readonly');
+      return (await readMeta<JournalEntry[]>(tx, 'journal')) ?? [];
+    },
+
+    saveJournal: async journal => {
+      const tx = (await db()).transaction(['meta'], 'readwrite');
+      const done = completion(tx);
+      tx.objectStore('meta').put(journal, 'journal');
+      await done;
+    },
+  };
+}
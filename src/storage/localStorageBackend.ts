@@ -0,0 +1,102 @@
+import { initialState } from '../context/tournamentActions';
+import { findConflicts, getNewerIds, mergeIntoStored, type Revisions, type StoredSnapshot } from '../context/tabSync';
+import type { JournalEntry } from '../context/journal';
+import type { TournamentStorage } from './types';
+import { isQuotaError, readState } from './readState';
+
+export const STATE_KEY = 'beachvolleyball-tournament-state';
+export const REVISIONS_KEY = 'beachvolleyball-tournament-revisions';
+export const JOURNAL_KEY = 'beachvolleyball-tournament-journal';
+
+/**
+ * The whole state as one JSON string in localStorage
+ * Used where IndexedDB is not available and as the source of the migration to
+ * IndexedDB. Keeps no snapshots, they would use up the small quota.
+ */
+export function createLocalStorageBackend(storage: Storage = localStorage): TournamentStorage {
+  const readRevisions = (): Revisions => {
+    try {
+      return JSON.parse(storage.getItem(REVISIONS_KEY) ?? '{}');
+    } catch {
+      return {};
+    }
+  };
+
+  const read = (): StoredSnapshot | null => {
+    const saved = storage.getItem(STATE_KEY);
+    if (!saved) return null;
+    let result: ReturnType<typeof readState> = null;
+    try {
+      result = readState(JSON.parse(saved));
+    } catch (e) {
+      console.error('Failed to load saved state:', e);
+    }
+    // Keep the unreadable state or skipped records, the next save would overwrite them
+    if (!result || result.skippedIds.length > 0) storage.setItem(`${STATE_KEY}-invalid`, saved);
+    return result && { state: result.state, revisions: readRevisions() };
+  };
+
+  return {
+    load: async () => read(),
+
+    loadNewer: async known => {
+      const stored = read() ?? { state: initialState, revisions: readRevisions() };
+      const newer = new Set(getNewerIds(known, stored.revisions));
+      return {
+        state: {
+          tournaments: stored.state.tournaments.filter(t => newer.has(t.id)),
+          containers: stored.state.containers.filter(c => newer.has(c.id)),
+          currentTournamentId: stored.state.currentTournamentId,
+        },
+        revisions: stored.revisions,
+      };
+    },
+
+    save: async (local, changedIds, known) => {
+      const stored = read() ?? { state: initialState, revisions: readRevisions() };
+      const conflicts = findConflicts(changedIds, known, stored.revisions);
+      if (conflicts.length > 0) return { status: 'conflict', conflicts, revisions: stored.revisions };
+
+      const next = mergeIntoStored(stored, local, changedIds);
+      // Revisions first: if the state does not fit, other tabs only reload unchanged records
+      storage.setItem(REVISIONS_KEY, JSON.stringify(next.revisions));
+      storage.setItem(STATE_KEY, JSON.stringify(next.state));
+      return { status: 'saved', revisions: next.revisions };
+    },
+
+    onChange: listener => {
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === STATE_KEY) listener();
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+    },
+
+    listSnapshots: async () => [],
+    loadSnapshot: async () => null,
+
+    loadJournal: async () => {
+      try {
+        const journal: unknown = JSON.parse(storage.getItem(JOURNAL_KEY) ?? '[]');
+        return Array.isArray(journal) ? journal : [];
+      } catch (e) {
+        console.error('Failed to load journal:', e);
+        return [];
+      }
+    },
+
+    // The journal must not take the quota the state needs: when full, the older half is dropped until it fits
+    saveJournal: async journal => {
+      let entries: JournalEntry[] = journal;
+      for (;;) {
+        try {
+          storage.setItem(JOURNAL_KEY, JSON.stringify(entries));
+          return;
+        } catch (e) {
+          if (!isQuotaError(e) || entries.length === 0) throw e;
+          entries = entries.slice(Math.ceil(entries.length / 2));
+        }
+      }
+    },
+  };
+}
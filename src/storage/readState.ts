@@ -0,0 +1,28 @@
+import type { TournamentState } from '../context/tournamentActions';
+import { formatFieldErrors, readTransferRecords } from '../utils/transfer';
+
+/**
+ * Migrates and validates a saved state; null if it is unreadable as a whole
+ * An invalid container (with its phases) or standalone tournament is left out
+ * and its ID returned in `skippedIds`, so one broken record does not lose the
+ * others. A selection of a tournament that no longer exists is dropped.
+ */
+export function readState(value: unknown): { state: TournamentState; skippedIds: string[] } | null {
+  const result = readTransferRecords(value);
+  if (!result.ok) {
+    console.error('Saved state is invalid:\n' + formatFieldErrors(result.errors));
+    return null;
+  }
+  result.skipped.forEach(record => {
+    console.error(`Saved tournament ${record.id} is invalid and was skipped:\n` + formatFieldErrors(record.errors));
+  });
+  const { tournaments, containers, currentTournamentId } = result.document;
+  const selected = currentTournamentId && tournaments.some(t => t.id === currentTournamentId) ? currentTournamentId : null;
+  return { state: { tournaments, containers, currentTournamentId: selected }, skippedIds: result.skipped.map(r => r.id) };
+}
+
+/** Whether a failed write ran out of storage space */
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException
+    && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
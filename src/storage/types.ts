@@ -0,0 +1,38 @@
+import type { TournamentState } from '../context/tournamentActions';
+import type { Revisions, StoredSnapshot } from '../context/tabSync';
+import type { JournalEntry } from '../context/journal';
+
+export type SaveResult =
+  | { status: 'saved'; revisions: Revisions }
+  /** Nothing was written: another tab saved newer revisions of these records */
+  | { status: 'conflict'; conflicts: string[]; revisions: Revisions };
+
+/** Automatic copy of the whole state */
+export interface SnapshotInfo {
+  id: number;
+  at: string;
+  tournamentCount: number;
+}
+
+/** Where the tournament state is persisted; shared by all tabs of the browser */
+export interface TournamentStorage {
+  /** Whole saved state; null if nothing (readable) is saved */
+  load(): Promise<StoredSnapshot | null>;
+  /** Saved selection and revisions with only the records saved in a newer revision than the known one */
+  loadNewer(known: Revisions): Promise<StoredSnapshot>;
+  /**
+   * Writes the changed tournaments and containers and the selection and counts
+   * their revisions up, unless another tab has saved a newer revision of one of them
+   * Rejects with the browser's error, e.g. a QuotaExceededError.
+   */
+  save(local: TournamentState, changedIds: string[], known: Revisions): Promise<SaveResult>;
+  /** Calls the listener when another tab has saved */
+  onChange(listener: () => void): () => void;
+  /** Automatic snapshots, newest first; empty if the backend keeps none */
+  listSnapshots(): Promise<SnapshotInfo[]>;
+  loadSnapshot(id: number): Promise<TournamentState | null>;
+  /** Saved action journal; empty if there is none (or it is unreadable) */
+  loadJournal(): Promise<JournalEntry[]>;
+  /** Replaces the saved journal; rejects with the browser's error */
+  saveJournal(journal: JournalEntry[]): Promise<void>;
+}
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSyncStore, type SyncStore } from '../syncStore';
+import { createSyncClient, type SyncClient } from '../syncClient';
+import { createMemoryTransport } from '../transports';
+import type { SyncedAction, SyncResult } from '../types';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+interface TestDevice {
+  client: SyncClient;
+  state: () => TournamentState;
+  selected: Array<string | null | undefined>;
+  conflicts: SyncResult[];
+}
+
+function connectDevice(store: SyncStore, clientId: string, localState?: TournamentState): TestDevice {
+  let state: TournamentState | null = null;
+  const selected: Array<string | null | undefined> = [];
+  const conflicts: SyncResult[] = [];
+
+  const client = createSyncClient({
+    transport: createMemoryTransport(store),
+    clientId,
+    localState,
+    onStateChange: (next, selectedTournamentId) => {
+      state = next;
+      selected.push(selectedTournamentId);
+    },
+    onConflict: result => conflicts.push(result),
+  });
+  client.connect();
+
+  return { client, state: () => state!, selected, conflicts };
+}
+
+describe('createSyncClient', () => {
+  let store: SyncStore;
+  let courtA: TestDevice;
+  let courtB: TestDevice;
+
+  beforeEach(() => {
+    store = createSyncStore();
+    courtA = connectDevice(store, 'court-a');
+    courtB = connectDevice(store, 'court-b');
+  });
+
+  async function startTournament() {
+    courtA.client.dispatch({
+      type: 'CREATE_TOURNAMENT',
+      payload: {
+        name: 'Sync Cup',
+        system: 'round-robin',
+        numberOfCourts: 2,
+        setsPerMatch: 1,
+        pointsPerSet: 21,
+        tiebreakerOrder: 'head-to-head-first',
+        teams: createTeams(4),
+      },
+    });
+    await flush();
+    const tournamentId = courtA.state().tournaments[0].id;
+    courtA.client.dispatch({ type: 'START_TOURNAMENT', payload: tournamentId });
+    await flush();
+    return { tournamentId, matches: courtA.state().tournaments[0].matches };
+  }
+
+  it('shares created tournaments with the same IDs on all devices', async () => {
+    const { tournamentId } = await startTournament();
+
+    expect(courtB.state().tournaments.map(t => t.id)).toEqual([tournamentId]);
+    expect(courtB.state().tournaments[0].matches).toEqual(courtA.state().tournaments[0].matches);
+    // Only the creating device switches to the new tournament
+    expect(courtA.selected).toContain(tournamentId);
+    expect(courtB.selected).not.toContain(tournamentId);
+  });
+
+  it('replays score entry from other devices', async () => {
+    const { tournamentId, matches } = await startTournament();
+    const [first, second] = matches;
+
+    courtA.client.dispatch({ type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: first.id, scores: [{ teamA: 21, teamB: 17 }] } });
+    courtA.client.dispatch({ type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: first.id } });
+    courtB.client.dispatch({ type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: second.id, scores: [{ teamA: 12, teamB: 21 }] } });
+    courtB.client.dispatch({ type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: second.id } });
+    await flush();
+
+    const serverState = store.getSnapshot().state;
+    expect(courtA.conflicts).toEqual([]);
+    expect(courtB.conflicts).toEqual([]);
+    expect(courtA.state().tournaments[0].matches).toEqual(serverState.tournaments[0].matches);
+    expect(courtB.state().tournaments[0].standings).toEqual(serverState.tournaments[0].standings);
+    expect(serverState.tournaments[0].matches.filter(m => m.status === 'completed')).toHaveLength(2);
+  });
+
+  it('keeps the first completed result when two devices complete the same match', async () => {
+    const { tournamentId, matches } = await startTournament();
+    const matchId = matches[0].id;
+
+    // Court B has not seen court A's result yet
+    courtB.client.disconnect();
+    courtA.client.dispatch({ type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 15 }] } });
+    courtA.client.dispatch({ type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+    await flush();
+
+    courtB.client.dispatch({ type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 15, teamB: 21 }] } });
+    expect(courtB.state().tournaments[0].matches[0].scores).toEqual([{ teamA: 15, teamB: 21 }]);
+    await flush();
+
+    expect(courtB.conflicts).toMatchObject([{ status: 'conflict', matchId }]);
+    // The refused local entry is rolled back
+    expect(courtB.state().tournaments[0].matches[0].scores).toEqual(matches[0].scores);
+
+    courtB.client.connect();
+    expect(courtB.state().tournaments[0].matches[0]).toMatchObject({ status: 'completed', scores: [{ teamA: 21, teamB: 15 }] });
+  });
+
+  it('reports refused changes instead of swallowing them', async () => {
+    const emptyStore = createSyncStore();
+    const conflicts: SyncResult[] = [];
+    const connection: boolean[] = [];
+    const client = createSyncClient({
+      transport: createMemoryTransport(emptyStore),
+      onStateChange: () => {},
+      onConflict: result => conflicts.push(result),
+      onConnectionChange: connected => connection.push(connected),
+    });
+    client.connect();
+    client.dispatch({ type: 'COMPLETE_MATCH', payload: { tournamentId: 'x', matchId: 'y' } });
+    await flush();
+
+    expect(connection).toEqual([true]);
+    expect(conflicts).toEqual([{ status: 'rejected', reason: 'Spiel nicht gefunden' }]);
+  });
+
+  it('catches up with missed events on reconnect', async () => {
+    const { tournamentId, matches } = await startTournament();
+
+    courtB.client.disconnect();
+    courtA.client.dispatch({ type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: matches[0].id, scores: [{ teamA: 3, teamB: 1 }] } });
+    await flush();
+    courtB.client.connect();
+
+    expect(courtB.state()).toEqual(store.getSnapshot().state);
+  });
+});
+
+describe('connecting a device with its own state', () => {
+  const createLocal = (name: string) => tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: { name, system: 'round-robin', numberOfCourts: 1, setsPerMatch: 1, pointsPerSet: 21, tiebreakerOrder: 'head-to-head-first', teams: createTeams(4) },
+  });
+
+  it('seeds an empty server instead of dropping the device state', async () => {
+    const store = createSyncStore();
+    const local = createLocal('Offline Cup');
+    const device = connectDevice(store, 'court-a', local);
+
+    // The local tournament stays visible while the merge is on its way
+    expect(device.state().tournaments.map(t => t.id)).toEqual([local.tournaments[0].id]);
+    await flush();
+
+    expect(store.getSnapshot().state.tournaments).toEqual(local.tournaments);
+    expect(device.state().containers).toEqual(local.containers);
+    expect(connectDevice(store, 'court-b').state().tournaments).toEqual(local.tournaments);
+  });
+
+  it('keeps the server version when the device is behind', async () => {
+    const store = createSyncStore();
+    const local = createLocal('Cup');
+    connectDevice(store, 'court-a', local);
+    await flush();
+    const tournamentId = local.tournaments[0].id;
+    store.submit({ clientId: 'court-b', requestId: 'start', action: { type: 'START_TOURNAMENT', payload: tournamentId } });
+
+    const stale = connectDevice(store, 'court-c', local);
+    await flush();
+    expect(stale.state().tournaments[0].status).toBe('in-progress');
+    expect(store.getSnapshot().seq).toBe(2);
+  });
+
+  it('keeps the results of other courts when a device with newer changes reconnects', async () => {
+    const store = createSyncStore();
+    connectDevice(store, 'court-a', createLocal('Cup'));
+    await flush();
+    const tournamentId = store.getSnapshot().state.tournaments[0].id;
+    store.submit({ clientId: 'court-a', requestId: 'start', action: { type: 'START_TOURNAMENT', payload: tournamentId } });
+    const [first, second] = store.getSnapshot().state.tournaments[0].matches;
+    const play = (matchId: string, timestamp: string): SyncedAction[] => [
+      { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 15 }], timestamp } },
+      { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId, timestamp } },
+    ];
+
+    // Court A plays the first match while the server cannot be reached, court B the second one
+    const offline = play(first.id, '2026-06-13T11:00:00.000Z')
+      .reduce((state, action) => tournamentReducer(state, action), store.getSnapshot().state);
+    play(second.id, '2026-06-13T10:00:00.000Z')
+      .forEach((action, i) => store.submit({ clientId: 'court-b', requestId: `court-b-${i}`, action }));
+    const device = connectDevice(store, 'court-a', offline);
+    await flush();
+
+    const [merged] = store.getSnapshot().state.tournaments;
+    const winners = merged.matches.filter(m => m.status === 'completed').map(m => m.winnerId);
+    expect(winners).toEqual([first.teamAId, second.teamAId]);
+    expect(merged.standings.reduce((sum, s) => sum + s.won, 0)).toBe(2);
+    expect(device.state().tournaments).toEqual(store.getSnapshot().state.tournaments);
+  });
+
+  it('sends an import as a validated state and selects it on the importing device', async () => {
+    const store = createSyncStore();
+    const device = connectDevice(store, 'court-a');
+    const { tournaments, containers } = createLocal('Imported Cup');
+
+    device.client.dispatch({ type: 'IMPORT_TOURNAMENTS', payload: { tournaments, containers } });
+    await flush();
+
+    expect(store.getSnapshot().state.tournaments.map(t => t.id)).toEqual([tournaments[0].id]);
+    expect(device.selected).toContain(tournaments[0].id);
+  });
+
+  it('does not bring back a tournament deleted on the server', async () => {
+    const store = createSyncStore();
+    const local = createLocal('Cup');
+    connectDevice(store, 'court-a', local);
+    await flush();
+    store.submit({ clientId: 'court-b', requestId: 'delete', action: { type: 'DELETE_CONTAINER', payload: local.containers[0].id } });
+
+    const stale = connectDevice(store, 'court-c', local);
+    await flush();
+    expect(stale.state().tournaments).toEqual([]);
+    expect(store.getSnapshot().state.tournaments).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createSyncStore, type SyncStore } from '../syncStore';
+import type { SyncEvent, SyncSnapshot, SyncedAction } from '../types';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import { DEFAULT_SCHEDULING } from '../../utils/scheduling';
+
+function createConfig(teamCount: number) {
+  return {
+    name: 'Sync Test',
+    system: 'round-robin' as const,
+    numberOfCourts: 2,
+    setsPerMatch: 1 as const,
+    pointsPerSet: 21 as const,
+    tiebreakerOrder: 'head-to-head-first' as const,
+    teams: createTeams(teamCount),
+  };
+}
+
+let requestCounter = 0;
+function submit(store: SyncStore, action: SyncedAction, baseRevision?: number, clientId = 'client-a') {
+  requestCounter++;
+  return store.submit({ clientId, requestId: `request-${requestCounter}`, action, baseRevision });
+}
+
+function setupStartedTournament(store: SyncStore) {
+  submit(store, { type: 'CREATE_TOURNAMENT', payload: createConfig(4) });
+  const tournamentId = store.getSnapshot().state.tournaments[0].id;
+  submit(store, { type: 'START_TOURNAMENT', payload: tournamentId });
+  const match = store.getSnapshot().state.tournaments[0].matches[0];
+  return { tournamentId, matchId: match.id };
+}
+
+describe('createSyncStore', () => {
+  let store: SyncStore;
+  let events: SyncEvent[];
+
+  beforeEach(() => {
+    store = createSyncStore();
+    events = [];
+    store.subscribe(event => events.push(event));
+  });
+
+  it('numbers accepted actions and broadcasts them', () => {
+    const result = submit(store, { type: 'CREATE_TOURNAMENT', payload: createConfig(4) });
+
+    expect(result).toEqual({ status: 'accepted', seq: 1, revision: undefined });
+    expect(store.getSnapshot().seq).toBe(1);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ seq: 1, clientId: 'client-a', requestId: `request-${requestCounter}` });
+  });
+
+  it('attaches the resulting state to actions with generated IDs', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 10, teamB: 8 }] } });
+
+    expect(events[0].state).toBeDefined();
+    expect(events[1].state).toBeDefined();
+    expect(events[2].state).toBeUndefined();
+  });
+
+  it('bumps the revision of changed matches only', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    const before = store.getSnapshot().revisions;
+
+    const result = submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 5, teamB: 3 }] } });
+
+    expect(result).toMatchObject({ status: 'accepted', revision: before[matchId] + 1 });
+    expect(events[events.length - 1].revisions).toEqual({ [matchId]: before[matchId] + 1 });
+  });
+
+  it('does not count re-planned start times as a change of the other matches', () => {
+    submit(store, { type: 'CREATE_TOURNAMENT', payload: { ...createConfig(4), numberOfCourts: 1, scheduling: DEFAULT_SCHEDULING } });
+    const tournamentId = store.getSnapshot().state.tournaments[0].id;
+    submit(store, { type: 'START_TOURNAMENT', payload: tournamentId });
+    const before = store.getSnapshot().state.tournaments[0].matches;
+    const matchId = before[0].id;
+    const revision = store.getSnapshot().revisions[matchId];
+
+    submit(store, { type: 'START_MATCH', payload: { tournamentId, matchId, timestamp: new Date(2026, 5, 1, 12, 0).toISOString() } });
+
+    const after = store.getSnapshot().state.tournaments[0].matches;
+    expect(after.filter((m, i) => m.scheduledTime !== before[i].scheduledTime).length).toBeGreaterThan(0);
+    expect(events[events.length - 1].revisions).toEqual({ [matchId]: revision + 1 });
+  });
+
+  it('accepts a stale score update while the match is running', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    const base = store.getSnapshot().revisions[matchId];
+    submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 5, teamB: 3 }] } }, base);
+
+    const result = submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 7, teamB: 3 }] } }, base, 'client-b');
+
+    expect(result.status).toBe('accepted');
+    expect(store.getSnapshot().state.tournaments[0].matches[0].scores).toEqual([{ teamA: 7, teamB: 3 }]);
+  });
+
+  it('refuses to complete a match whose score changed meanwhile', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    const base = store.getSnapshot().revisions[matchId];
+    submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 3 }] } }, base);
+
+    const result = submit(store, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } }, base, 'client-b');
+
+    expect(result).toMatchObject({ status: 'conflict', matchId, revision: base + 1 });
+    expect(events).toHaveLength(3);
+  });
+
+  it('keeps a completed result against stale score entry', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    const base = store.getSnapshot().revisions[matchId];
+    submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 3 }] } }, base);
+    submit(store, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } }, base + 1);
+
+    const result = submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 3, teamB: 21 }] } }, base, 'client-b');
+
+    expect(result.status).toBe('conflict');
+    expect(store.getSnapshot().state.tournaments[0].matches[0].scores).toEqual([{ teamA: 21, teamB: 3 }]);
+  });
+
+  it('accepts a result correction only on the latest result', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    submit(store, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 3 }] } });
+    submit(store, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+    const base = store.getSnapshot().revisions[matchId];
+
+    const correction = { tournamentId, matchId, scores: [{ teamA: 21, teamB: 19 }] };
+    expect(submit(store, { type: 'CORRECT_MATCH_RESULT', payload: correction }, base).status).toBe('accepted');
+    const stale = submit(store, { type: 'CORRECT_MATCH_RESULT', payload: { ...correction, scores: [{ teamA: 19, teamB: 21 }] } }, base, 'client-b');
+
+    expect(stale.status).toBe('conflict');
+    expect(store.getSnapshot().state.tournaments[0].matches[0].scores).toEqual([{ teamA: 21, teamB: 19 }]);
+  });
+
+  it('rejects device-local actions and unknown matches', () => {
+    const local = store.submit({
+      clientId: 'client-a',
+      requestId: 'local',
+      action: { type: 'SET_CURRENT_TOURNAMENT', payload: null } as unknown as SyncedAction,
+    });
+    const unknown = submit(store, { type: 'COMPLETE_MATCH', payload: { tournamentId: 'x', matchId: 'y' } });
+
+    expect(local.status).toBe('rejected');
+    expect(unknown).toEqual({ status: 'rejected', reason: 'Spiel nicht gefunden' });
+    expect(events).toHaveLength(0);
+  });
+
+  it('continues from a saved snapshot and reports every change', () => {
+    const { tournamentId, matchId } = setupStartedTournament(store);
+    const saved: SyncSnapshot[] = [];
+    const restarted = createSyncStore({ snapshot: store.getSnapshot(), onChange: snapshot => saved.push(snapshot) });
+
+    const result = submit(restarted, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId, scores: [{ teamA: 5, teamB: 3 }] } });
+
+    expect(result).toMatchObject({ status: 'accepted', seq: 3, revision: store.getSnapshot().revisions[matchId] + 1 });
+    expect(saved).toHaveLength(1);
+    expect(saved[0].state.tournaments[0].matches[0].scores).toEqual([{ teamA: 5, teamB: 3 }]);
+  });
+
+  it('rejects a merged state that fails validation', () => {
+    const result = store.merge({ clientId: 'client-a', requestId: 'merge', state: { tournaments: [{ id: 1 }], containers: [] } as never });
+    expect(result.status).toBe('rejected');
+    expect(events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,97 @@
+import type { TournamentAction, TournamentState } from '../context/tournamentActions';
+import type { Match } from '../types/tournament';
+import type { SyncedAction } from './types';
+
+const LOCAL_ACTIONS = new Set<TournamentAction['type']>([
+  'LOAD_STATE',
+  'APPLY_SYNC_STATE',
+  'SET_CURRENT_TOURNAMENT',
+  'SET_CURRENT_PHASE',
+]);
+
+/** Actions without generated IDs; their effect on other tournaments is checked separately */
+const REPLAYABLE_ACTIONS = new Set<TournamentAction['type']>([
+  'START_MATCH',
+  'UPDATE_MATCH_SCORE',
+  'CLOSE_COURT',
+  'COMPLETE_MATCH',
+  'CORRECT_MATCH_RESULT',
+  'UPDATE_TEAMS',
+  'UPDATE_GROUPS',
+  'DELETE_TOURNAMENT',
+  'DELETE_CONTAINER',
+]);
+
+export function isSyncedAction(action: TournamentAction): action is SyncedAction {
+  return !LOCAL_ACTIONS.has(action.type);
+}
+
+export function isReplayableAction(action: SyncedAction): boolean {
+  return REPLAYABLE_ACTIONS.has(action.type);
+}
+
+/**
+ * Fills in the moment of a match status change, correction or court closure that the sender left open
+ * The reducer re-plans the schedule from it, so every device must replay the same time.
+ */
+export function withActionTime(action: SyncedAction, now = new Date().toISOString()): SyncedAction {
+  switch (action.type) {
+    case 'START_MATCH':
+    case 'UPDATE_MATCH_SCORE':
+    case 'COMPLETE_MATCH':
+    case 'CLOSE_COURT':
+    case 'CORRECT_MATCH_RESULT':
+      return action.payload.timestamp ? action : { ...action, payload: { ...action.payload, timestamp: now } } as SyncedAction;
+    default:
+      return action;
+  }
+}
+
+/** Tournament and match targeted by a score action */
+export function getMatchTarget(action: SyncedAction): { tournamentId: string; matchId: string } | null {
+  if (
+    action.type === 'START_MATCH'
+    || action.type === 'UPDATE_MATCH_SCORE'
+    || action.type === 'COMPLETE_MATCH'
+    || action.type === 'CORRECT_MATCH_RESULT'
+  ) {
+    return { tournamentId: action.payload.tournamentId, matchId: action.payload.matchId };
+  }
+  return null;
+}
+
+export function findMatch(state: TournamentState, tournamentId: string, matchId: string): Match | undefined {
+  return state.tournaments.find(t => t.id === tournamentId)?.matches.find(m => m.id === matchId);
+}
+
+/**
+ * Decides a stale score action (the match changed since the client saw it)
+ * A completed result always wins. A completion or correction based on outdated scores is refused,
+ * while score entry on a running match is accepted (the latest entry wins).
+ * Returns the conflict reason, or null if the action can be applied.
+ */
+export function resolveMatchConflict(action: SyncedAction, serverMatch: Match): string | null {
+  if (action.type === 'CORRECT_MATCH_RESULT') {
+    return 'Das Ergebnis wurde zwischenzeitlich auf einem anderen Gerät geändert';
+  }
+  if (serverMatch.status === 'completed') {
+    return 'Das Spiel wurde bereits auf einem anderen Gerät abgeschlossen';
+  }
+  if (action.type === 'COMPLETE_MATCH') {
+    return 'Der Spielstand wurde zwischenzeitlich auf einem anderen Gerät geändert';
+  }
+  return null;
+}
+
+/**
+ * Whether a replayable action changed anything besides its own tournament
+ * (e.g. a completed group phase populating the knockout phase with new team IDs)
+ */
+export function affectsOtherTournaments(action: SyncedAction, before: TournamentState, after: TournamentState): boolean {
+  if (action.type === 'DELETE_TOURNAMENT' || action.type === 'DELETE_CONTAINER') return false;
+  const target = getMatchTarget(action)?.tournamentId
+    ?? (action.type === 'UPDATE_TEAMS' || action.type === 'UPDATE_GROUPS' ? action.payload.tournamentId : null);
+  if (!target) return true;
+  if (before.containers !== after.containers || before.tournaments.length !== after.tournaments.length) return true;
+  return after.tournaments.some((t, i) => t.id !== target && t !== before.tournaments[i]);
+}
@@ -0,0 +1,16 @@
+export { isSyncedAction, isReplayableAction, resolveMatchConflict, withActionTime } from './conflicts';
+export { createSyncStore } from './syncStore';
+export { getRevertActions } from './revert';
+export { createSyncClient } from './syncClient';
+export { createMemoryTransport, createHttpTransport } from './transports';
+export type { SyncStore } from './syncStore';
+export type { SyncClient, SyncClientOptions } from './syncClient';
+export type {
+  SyncedAction,
+  SyncEvent,
+  SyncMessage,
+  SyncRequest,
+  SyncResult,
+  SyncSnapshot,
+  SyncTransport,
+} from './types';
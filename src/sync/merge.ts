@@ -0,0 +1,129 @@
+import { tournamentReducer } from '../context/tournamentReducer';
+import type { TournamentState } from '../context/tournamentActions';
+import type { Match, Tournament, TournamentContainer } from '../types/tournament';
+import type { SyncedAction } from './types';
+import { findMatch } from './conflicts';
+
+/** Tournament data without the device-local selection */
+export type TournamentData = Pick<TournamentState, 'tournaments' | 'containers'>;
+
+/** How far a match has been played; a scheduled or pending match has no result to lose */
+const PROGRESS: Record<Match['status'], number> = { pending: 0, scheduled: 0, 'in-progress': 1, completed: 2 };
+
+/** Latest change of a container or any of its phases (ISO timestamps compare as strings) */
+function getVersion(data: TournamentData, container: TournamentContainer): string {
+  return data.tournaments
+    .filter(t => t.containerId === container.id)
+    .reduce((latest, t) => (t.updatedAt > latest ? t.updatedAt : latest), container.updatedAt);
+}
+
+/** Whether the device's phases hold every match the server has started, at least as far and with the same result */
+function holdsResults(local: Tournament[], server: Tournament[]): boolean {
+  const localMatches = new Map(local.flatMap(t => t.matches.map(m => [m.id, m] as const)));
+  return server.every(t => t.matches.every(m => {
+    const own = localMatches.get(m.id);
+    if (PROGRESS[m.status] === 0) return true;
+    if (!own || PROGRESS[own.status] < PROGRESS[m.status]) return false;
+    return m.status !== 'completed' || (
+      own.winnerId === m.winnerId
+      && own.resultType === m.resultType
+      && JSON.stringify(own.scores) === JSON.stringify(m.scores)
+    );
+  }));
+}
+
+/**
+ * Actions that bring the server's match to the device's status and scores
+ * Nothing if the teams differ or the server is as far; a match both have in progress keeps the server's scores.
+ */
+function getCatchUpActions(tournamentId: string, server: Match, local: Match): SyncedAction[] {
+  if (server.teamAId !== local.teamAId || server.teamBId !== local.teamBId) return [];
+  if (PROGRESS[local.status] <= PROGRESS[server.status]) return [];
+  if (local.status === 'in-progress' && server.status === 'in-progress') return [];
+
+  const target = { tournamentId, matchId: local.id };
+  const actions: SyncedAction[] = [];
+  if (PROGRESS[server.status] === 0) actions.push({ type: 'START_MATCH', payload: { ...target, timestamp: local.startedAt } });
+  if (local.scores.length > 0 && JSON.stringify(local.scores) !== JSON.stringify(server.scores)) {
+    actions.push({ type: 'UPDATE_MATCH_SCORE', payload: { ...target, scores: local.scores, timestamp: local.completedAt ?? local.startedAt } });
+  }
+  if (local.status === 'completed') {
+    const result = local.resultType && local.resultType !== 'played' && local.winnerId
+      ? { resultType: local.resultType, winnerId: local.winnerId }
+      : undefined;
+    actions.push({ type: 'COMPLETE_MATCH', payload: { ...target, timestamp: local.completedAt, result } });
+  }
+  return actions;
+}
+
+/**
+ * Replays the device's match results on the server state with the shared reducer
+ * Matches go in the order they were played, so a result reaches the next round before that round is replayed.
+ */
+function replayResults(server: TournamentState, local: Tournament[]): TournamentState {
+  const playedAt = (m: Match) => m.completedAt ?? m.startedAt ?? '';
+  return local
+    .flatMap(t => t.matches.filter(m => PROGRESS[m.status] > 0).map(match => ({ tournamentId: t.id, match })))
+    .sort((a, b) => playedAt(a.match).localeCompare(playedAt(b.match)))
+    .reduce((state, { tournamentId, match }) => {
+      const current = findMatch(state, tournamentId, match.id);
+      const actions = current ? getCatchUpActions(tournamentId, current, match) : [];
+      return actions.reduce((next, action) => tournamentReducer(next, action), state);
+    }, server);
+}
+
+/** Containers and standalone tournaments that existed before an action but not after it */
+export function getRemovedIds(before: TournamentData, after: TournamentData): string[] {
+  const containers = new Set(after.containers.map(c => c.id));
+  const tournaments = new Set(after.tournaments.map(t => t.id));
+  return [
+    ...before.containers.filter(c => !containers.has(c.id)).map(c => c.id),
+    ...before.tournaments.filter(t => !t.containerId && !tournaments.has(t.id)).map(t => t.id),
+  ];
+}
+
+/**
+ * Takes over the parts of a device's state the server is missing or behind on
+ * A container the server lacks moves with all of its phases, as does a newer one that holds every
+ * result the server has. Otherwise the server's container stays and the device's match results
+ * are replayed on it, so results entered on other courts survive. Containers the server has
+ * removed stay removed. Returns the server state itself if nothing changes.
+ */
+export function mergeStates(server: TournamentState, local: TournamentData, removedIds: string[] = []): TournamentState {
+  const removed = new Set(removedIds);
+  const serverContainers = new Map(server.containers.map(c => [c.id, c]));
+  const serverTournaments = new Map(server.tournaments.map(t => [t.id, t]));
+  const phasesOf = (data: TournamentData, containerId: string) => data.tournaments.filter(t => t.containerId === containerId);
+
+  const containers: TournamentContainer[] = [];
+  const standalone: Tournament[] = [];
+  const replayed: Tournament[] = [];
+  local.containers.filter(c => !removed.has(c.id)).forEach(c => {
+    const existing = serverContainers.get(c.id);
+    const isAhead = !existing || (
+      getVersion(local, c) > getVersion(server, existing)
+      && holdsResults(phasesOf(local, c.id), phasesOf(server, c.id))
+    );
+    if (isAhead) containers.push(c);
+    else replayed.push(...phasesOf(local, c.id));
+  });
+  local.tournaments.filter(t => !t.containerId && !removed.has(t.id)).forEach(t => {
+    const existing = serverTournaments.get(t.id);
+    if (!existing || (t.updatedAt > existing.updatedAt && holdsResults([t], [existing]))) standalone.push(t);
+    else replayed.push(t);
+  });
+  if (containers.length === 0 && standalone.length === 0) return replayResults(server, replayed);
+
+  const containerIds = new Set(containers.map(c => c.id));
+  const isTaken = (t: Tournament) => (t.containerId ? containerIds.has(t.containerId) : standalone.includes(t));
+  const takenIds = new Set(local.tournaments.filter(isTaken).map(t => t.id));
+
+  return replayResults({
+    ...server,
+    tournaments: [
+      ...server.tournaments.filter(t => !takenIds.has(t.id) && !(t.containerId && containerIds.has(t.containerId))),
+      ...local.tournaments.filter(t => takenIds.has(t.id)),
+    ],
+    containers: [...server.containers.filter(c => !containerIds.has(c.id)), ...containers],
+  }, replayed);
+}
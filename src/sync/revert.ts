@@ -0,0 +1,27 @@
+import type { TournamentState } from '../context/tournamentActions';
+import { getChangedContentIds } from '../context/tabSync';
+import type { SyncedAction } from './types';
+
+/**
+ * Actions that turn the server's records into those of an undo, redo or restore target
+ * A changed container is sent whole, with its phases, as an import replacing it; a container
+ * or standalone tournament the target lacks is deleted.
+ */
+export function getRevertActions(present: TournamentState, target: TournamentState): SyncedAction[] {
+  const containerOf = (id: string) =>
+    [target, present].flatMap(s => s.tournaments).find(t => t.id === id)?.containerId ?? id;
+  const unitIds = new Set(getChangedContentIds(present, target).map(containerOf));
+
+  const containers = target.containers.filter(c => unitIds.has(c.id));
+  const tournaments = target.tournaments.filter(t => unitIds.has(t.containerId ?? t.id));
+  const deletions: SyncedAction[] = [...unitIds]
+    .filter(id => !containers.some(c => c.id === id) && !tournaments.some(t => t.id === id))
+    .map(id => (present.containers.some(c => c.id === id)
+      ? { type: 'DELETE_CONTAINER', payload: id }
+      : { type: 'DELETE_TOURNAMENT', payload: id }));
+
+  const imports: SyncedAction[] = tournaments.length > 0 || containers.length > 0
+    ? [{ type: 'IMPORT_TOURNAMENTS', payload: { tournaments, containers } }]
+    : [];
+  return [...imports, ...deletions];
+}
@@ -0,0 +1,204 @@
+import { v4 as uuidv4 } from 'uuid';
+import { tournamentReducer } from '../context/tournamentReducer';
+import { initialState, type TournamentState } from '../context/tournamentActions';
+import type { SyncedAction, SyncEvent, SyncResult, SyncSnapshot, SyncTransport } from './types';
+import { getMatchTarget, isReplayableAction, withActionTime } from './conflicts';
+import { getRemovedIds, mergeStates } from './merge';
+
+/** Actions that switch the submitting device to the tournament they create */
+const SELECTING_ACTIONS = new Set<SyncedAction['type']>([
+  'CREATE_TOURNAMENT',
+  'CREATE_FINALS_TOURNAMENT',
+  'CREATE_KNOCKOUT_TOURNAMENT',
+  'IMPORT_TOURNAMENTS',
+]);
+
+export interface SyncClientOptions {
+  transport: SyncTransport;
+  clientId?: string;
+  /** State of the device before connecting; the server takes over what it is missing or behind on */
+  localState?: TournamentState;
+  /**
+   * Called with the visible state (confirmed server state plus pending local actions)
+   * selectedTournamentId is set when an own action created a tournament on the server.
+   */
+  onStateChange: (state: TournamentState, selectedTournamentId?: string | null) => void;
+  onConflict?: (result: Exclude<SyncResult, { status: 'accepted' }>) => void;
+  onError?: (error: unknown) => void;
+  /** Called when the event stream drops (reconnecting) and when it is back */
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+export interface SyncClient {
+  clientId: string;
+  connect(): void;
+  disconnect(): void;
+  dispatch(action: SyncedAction): void;
+  getState(): TournamentState;
+}
+
+interface PendingAction {
+  requestId: string;
+  action: SyncedAction;
+}
+
+/**
+ * Client sync adapter
+ * Replays the server's action stream with the shared reducer. Replayable own actions are
+ * applied optimistically until their event arrives; refused actions are dropped again.
+ */
+export function createSyncClient({
+  transport,
+  clientId = uuidv4(),
+  localState,
+  onStateChange,
+  onConflict,
+  onError,
+  onConnectionChange,
+}: SyncClientOptions): SyncClient {
+  let confirmed = initialState;
+  let seq = 0;
+  let revisions: Record<string, number> = {};
+  let pending: PendingAction[] = [];
+  let unsubscribe: (() => void) | null = null;
+  let resyncing = false;
+  let removedIds: string[] = [];
+  // Device state the server has not taken over yet; shown on top of the server state until then
+  let unmerged: TournamentState | null = localState ?? null;
+  let mergeRequestId: string | null = null;
+  let mergeSeq: number | null = null;
+
+  const getBase = () => (unmerged ? mergeStates(confirmed, unmerged, removedIds) : confirmed);
+  const getState = () => pending.reduce((state, p) => tournamentReducer(state, p.action), getBase());
+  const emit = (selectedTournamentId?: string | null) => onStateChange(getState(), selectedTournamentId);
+
+  const dropPending = (requestId: string) => {
+    pending = pending.filter(p => p.requestId !== requestId);
+  };
+
+  const finishMerge = () => {
+    unmerged = null;
+    mergeRequestId = null;
+    mergeSeq = null;
+  };
+
+  const submitMerge = (state: TournamentState) => {
+    const requestId = uuidv4();
+    mergeRequestId = requestId;
+    mergeSeq = null;
+    transport.merge({ clientId, requestId, state: { tournaments: state.tournaments, containers: state.containers } })
+      .then(result => {
+        if (result.status !== 'accepted') {
+          onConflict?.(result);
+          return;
+        }
+        if (mergeRequestId !== requestId) return;
+        // Without changes no event follows; otherwise the event may still be on its way
+        mergeSeq = result.seq;
+        if (seq >= result.seq) {
+          finishMerge();
+          emit();
+        }
+      })
+      .catch(error => onError?.(error));
+  };
+
+  // Events up to the snapshot are contained in it, so pending actions are either
+  // confirmed already or still arrive as a later event. A server that restarted empty
+  // or behind never replaces the device's state: what it lacks is merged first.
+  const applySnapshot = (snapshot: SyncSnapshot) => {
+    const local = getBase();
+    confirmed = snapshot.state;
+    seq = snapshot.seq;
+    revisions = { ...snapshot.revisions };
+    removedIds = snapshot.removedIds;
+    pending = [];
+    unmerged = mergeStates(confirmed, local, removedIds) === confirmed ? null : local;
+    emit();
+    if (unmerged) submitMerge(unmerged);
+    else finishMerge();
+  };
+
+  const resync = () => {
+    if (resyncing) return;
+    resyncing = true;
+    transport.fetchSnapshot()
+      .then(applySnapshot)
+      .catch(error => onError?.(error))
+      .finally(() => { resyncing = false; });
+  };
+
+  const applyEvent = (event: SyncEvent) => {
+    if (event.seq <= seq) return;
+    if (event.seq > seq + 1) {
+      resync();
+      return;
+    }
+
+    const before = confirmed;
+    if (event.state) confirmed = event.state;
+    else if (event.action) confirmed = tournamentReducer(confirmed, event.action);
+    seq = event.seq;
+    Object.assign(revisions, event.revisions);
+    removedIds = [...removedIds, ...getRemovedIds(before, confirmed)];
+
+    const isOwn = event.clientId === clientId;
+    if (isOwn) dropPending(event.requestId);
+    if ((isOwn && event.requestId === mergeRequestId) || (mergeSeq !== null && seq >= mergeSeq)) finishMerge();
+    const selects = isOwn && !!event.action && SELECTING_ACTIONS.has(event.action.type);
+    emit(selects ? event.state?.currentTournamentId : undefined);
+  };
+
+  /** Revision the match will have once the own pending actions on it are applied */
+  const getBaseRevision = (matchId: string) =>
+    (revisions[matchId] ?? 0) + pending.filter(p => getMatchTarget(p.action)?.matchId === matchId).length;
+
+  return {
+    clientId,
+    getState,
+
+    connect() {
+      unsubscribe ??= transport.subscribe(message => {
+        if (message.type === 'snapshot') applySnapshot(message.snapshot);
+        else applyEvent(message.event);
+      }, onConnectionChange);
+    },
+
+    disconnect() {
+      unsubscribe?.();
+      unsubscribe = null;
+    },
+
+    dispatch(dispatched) {
+      const action = withActionTime(dispatched);
+      const requestId = uuidv4();
+      if (action.type === 'IMPORT_TOURNAMENTS') {
+        transport.merge({ clientId, requestId, state: action.payload, replace: true })
+          .then(result => { if (result.status !== 'accepted') onConflict?.(result); })
+          .catch(error => onError?.(error));
+        return;
+      }
+
+      const target = getMatchTarget(action);
+      const baseRevision = target ? getBaseRevision(target.matchId) : undefined;
+
+      if (isReplayableAction(action)) {
+        pending.push({ requestId, action });
+        emit();
+      }
+
+      transport.submit({ clientId, requestId, action, baseRevision })
+        .then(result => {
+          if (result.status === 'accepted') return;
+          dropPending(requestId);
+          emit();
+          onConflict?.(result);
+        })
+        .catch(error => {
+          dropPending(requestId);
+          emit();
+          onError?.(error);
+        });
+    },
+  };
+}
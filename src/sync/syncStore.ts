@@ -0,0 +1,150 @@
+import { tournamentReducer } from '../context/tournamentReducer';
+import { initialState, type TournamentState } from '../context/tournamentActions';
+import type { Match } from '../types/tournament';
+import { createStateExport, readTransferDocument } from '../utils/transfer';
+import type { SyncEvent, SyncMergeRequest, SyncRequest, SyncResult, SyncSnapshot, SyncedAction } from './types';
+import { getRemovedIds, mergeStates } from './merge';
+import {
+  affectsOtherTournaments,
+  findMatch,
+  getMatchTarget,
+  isReplayableAction,
+  isSyncedAction,
+  resolveMatchConflict,
+  withActionTime,
+} from './conflicts';
+
+export interface SyncStore {
+  getSnapshot(): SyncSnapshot;
+  /** Applies an action with the shared reducer; a missing baseRevision skips the conflict check */
+  submit(request: SyncRequest): SyncResult;
+  /** Takes over what the device has and the server is missing or behind on (see mergeStates) */
+  merge(request: SyncMergeRequest): SyncResult;
+  subscribe(listener: (event: SyncEvent) => void): () => void;
+}
+
+/** Whether only the planned court, start time or day differ (re-planning, not a change of the match itself) */
+function isRescheduleOnly(before: Match, after: Match): boolean {
+  const { scheduledTime: _beforeTime, scheduledDate: _beforeDate, courtNumber: _beforeCourt, ...beforeRest } = before;
+  const { scheduledTime: _afterTime, scheduledDate: _afterDate, courtNumber: _afterCourt, ...afterRest } = after;
+  return JSON.stringify(beforeRest) === JSON.stringify(afterRest);
+}
+
+/**
+ * Increments the revision of every match the action changed
+ * Relies on the reducer keeping unchanged tournaments and matches by reference.
+ * Moving a match in the schedule does not count, so re-planning after one court
+ * finished does not turn score entry on another court into a conflict.
+ */
+function bumpChangedMatches(
+  before: TournamentState,
+  after: TournamentState,
+  revisions: Record<string, number>
+): Record<string, number> {
+  const previousMatches = new Map<string, Match>();
+  before.tournaments.forEach(t => t.matches.forEach(m => previousMatches.set(m.id, m)));
+
+  const changed: Record<string, number> = {};
+  after.tournaments
+    .filter(t => !before.tournaments.includes(t))
+    .forEach(t => t.matches.forEach(m => {
+      const previous = previousMatches.get(m.id);
+      if (previous === m || (previous && isRescheduleOnly(previous, m))) return;
+      changed[m.id] = (revisions[m.id] ?? 0) + 1;
+    }));
+
+  Object.assign(revisions, changed);
+  return changed;
+}
+
+export interface SyncStoreOptions {
+  /** Saved snapshot to continue from, e.g. after a server restart */
+  snapshot?: SyncSnapshot;
+  /** Called after every accepted change, e.g. to save the snapshot to disk */
+  onChange?: (snapshot: SyncSnapshot) => void;
+}
+
+/**
+ * Authoritative tournament state of the sync server
+ * Clients submit reducer actions; accepted actions are numbered and broadcast in order.
+ */
+export function createSyncStore({ snapshot, onChange }: SyncStoreOptions = {}): SyncStore {
+  let state = snapshot?.state ?? initialState;
+  let seq = snapshot?.seq ?? 0;
+  const revisions: Record<string, number> = { ...snapshot?.revisions };
+  const removedIds = new Set(snapshot?.removedIds);
+  const listeners = new Set<(event: SyncEvent) => void>();
+
+  const getSnapshot = (): SyncSnapshot => ({ seq, state, revisions: { ...revisions }, removedIds: [...removedIds] });
+
+  /** Takes over the next state, numbers it and broadcasts the event */
+  const commit = (next: TournamentState, event: Omit<SyncEvent, 'seq' | 'revisions'>, withState: boolean): SyncEvent => {
+    const before = state;
+    state = next;
+    seq += 1;
+    getRemovedIds(before, state).forEach(id => removedIds.add(id));
+
+    const accepted: SyncEvent = { ...event, seq, revisions: bumpChangedMatches(before, state, revisions) };
+    if (withState) accepted.state = state;
+    listeners.forEach(listener => listener(accepted));
+    onChange?.(getSnapshot());
+    return accepted;
+  };
+
+  return {
+    getSnapshot,
+
+    submit(request) {
+      if (!isSyncedAction(request.action)) {
+        return { status: 'rejected', reason: 'Diese Aktion wird nicht synchronisiert' };
+      }
+      // Whole tournaments are only accepted validated, through merge
+      if (request.action.type === 'IMPORT_TOURNAMENTS') {
+        return { status: 'rejected', reason: 'Importe werden nur als geprüfter Turnierstand angenommen' };
+      }
+      const action = withActionTime(request.action);
+
+      const target = getMatchTarget(action);
+      if (target) {
+        const match = findMatch(state, target.tournamentId, target.matchId);
+        if (!match) return { status: 'rejected', reason: 'Spiel nicht gefunden' };
+
+        const revision = revisions[target.matchId] ?? 0;
+        const reason = request.baseRevision !== undefined && request.baseRevision < revision
+          ? resolveMatchConflict(action, match)
+          : null;
+        if (reason) return { status: 'conflict', matchId: target.matchId, revision, reason };
+      }
+
+      const next = tournamentReducer(state, action);
+      const withState = !isReplayableAction(action) || affectsOtherTournaments(action, state, next);
+      commit(next, { clientId: request.clientId, requestId: request.requestId, action }, withState);
+
+      return { status: 'accepted', seq, revision: target ? revisions[target.matchId] : undefined };
+    },
+
+    merge(request) {
+      const result = readTransferDocument(createStateExport(request.state));
+      if (!result.ok) return { status: 'rejected', reason: 'Ungültiger Turnierstand' };
+
+      const { tournaments, containers } = result.document;
+      const event = { clientId: request.clientId, requestId: request.requestId };
+      if (request.replace) {
+        [...containers, ...tournaments].forEach(item => removedIds.delete(item.id));
+        const action: SyncedAction = { type: 'IMPORT_TOURNAMENTS', payload: { tournaments, containers } };
+        commit(tournamentReducer(state, action), { ...event, action }, true);
+        return { status: 'accepted', seq };
+      }
+
+      const next = mergeStates(state, result.document, [...removedIds]);
+      if (next === state) return { status: 'accepted', seq };
+      commit(next, { ...event, action: null }, true);
+      return { status: 'accepted', seq };
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
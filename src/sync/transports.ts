@@ -0,0 +1,78 @@
+import type { SyncMessage, SyncResult, SyncSnapshot, SyncTransport } from './types';
+import type { SyncStore } from './syncStore';
+
+/** Delay before reconnecting a closed event stream */
+const RECONNECT_DELAY_MS = 2000;
+
+/** Copies values like a network round trip would, so clients never share objects with the store */
+const transfer = <T>(value: T): T => JSON.parse(JSON.stringify(value)) as T;
+
+/**
+ * Transport to a sync store in the same process, for local testing
+ */
+export function createMemoryTransport(store: SyncStore): SyncTransport {
+  return {
+    fetchSnapshot: async () => transfer(store.getSnapshot()),
+    submit: async request => transfer(store.submit(transfer(request))),
+    merge: async request => transfer(store.merge(transfer(request))),
+    subscribe(listener, onConnectionChange) {
+      onConnectionChange?.(true);
+      listener({ type: 'snapshot', snapshot: transfer(store.getSnapshot()) });
+      return store.subscribe(event => listener({ type: 'event', event: transfer(event) }));
+    },
+  };
+}
+
+/**
+ * Transport to the sync server: REST for snapshots and actions, WebSocket for events
+ * The token is sent with every request; browsers cannot set headers on a WebSocket, so it goes in the URL there.
+ */
+export function createHttpTransport(baseUrl: string, token: string): SyncTransport {
+  const base = baseUrl.replace(/\/$/, '');
+  const headers = { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` };
+
+  const readJson = async <T>(response: Response): Promise<T> => {
+    if (!response.headers.get('content-type')?.includes('application/json')) {
+      throw new Error(`Sync-Server antwortet mit Status ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    fetchSnapshot: async () => readJson<SyncSnapshot>(await fetch(`${base}/api/state`, { headers })),
+
+    submit: async request => readJson<SyncResult>(await fetch(`${base}/api/actions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request),
+    })),
+
+    merge: async request => readJson<SyncResult>(await fetch(`${base}/api/merge`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request),
+    })),
+
+    subscribe(listener, onConnectionChange) {
+      let socket: WebSocket | null = null;
+      let closed = false;
+
+      const open = () => {
+        socket = new WebSocket(`${base.replace(/^http/, 'ws')}/api/events?token=${encodeURIComponent(token)}`);
+        socket.onopen = () => onConnectionChange?.(true);
+        socket.onmessage = message => listener(JSON.parse(message.data) as SyncMessage);
+        socket.onclose = () => {
+          if (closed) return;
+          onConnectionChange?.(false);
+          setTimeout(open, RECONNECT_DELAY_MS);
+        };
+      };
+      open();
+
+      return () => {
+        closed = true;
+        socket?.close();
+      };
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import type { TournamentAction, TournamentState } from '../context/tournamentActions';
+import type { TournamentData } from './merge';
+
+/** Device-local actions (current selection, loading) are never synced */
+export type LocalAction = Extract<TournamentAction, {
+  type: 'LOAD_STATE' | 'APPLY_SYNC_STATE' | 'SET_CURRENT_TOURNAMENT' | 'SET_CURRENT_PHASE';
+}>;
+
+export type SyncedAction = Exclude<TournamentAction, LocalAction>;
+
+/** Authoritative server state with one revision counter per match */
+export interface SyncSnapshot {
+  seq: number;
+  state: TournamentState;
+  revisions: Record<string, number>;
+  /** Deleted containers and standalone tournaments; a merge never brings them back */
+  removedIds: string[];
+}
+
+/** Action submitted by a client; baseRevision is the match revision the client has seen */
+export interface SyncRequest {
+  clientId: string;
+  requestId: string;
+  action: SyncedAction;
+  baseRevision?: number;
+}
+
+/**
+ * Tournament data sent as a whole: a device's own state on connect, so the server takes over
+ * what it is missing or behind on, or an imported file (`replace`), whose containers replace
+ * those with the same ID like `IMPORT_TOURNAMENTS`
+ */
+export interface SyncMergeRequest {
+  clientId: string;
+  requestId: string;
+  state: TournamentData;
+  replace?: boolean;
+}
+
+/**
+ * Accepted action, broadcast to all clients in seq order
+ * Carries the resulting state when replaying the action would not reproduce it (generated IDs).
+ */
+export interface SyncEvent {
+  seq: number;
+  clientId: string;
+  requestId: string;
+  /** Null for a merged device state, which always comes with the resulting state */
+  action: SyncedAction | null;
+  /** New revisions of all matches changed by the action */
+  revisions: Record<string, number>;
+  state?: TournamentState;
+}
+
+export type SyncResult =
+  | { status: 'accepted'; seq: number; revision?: number }
+  | { status: 'conflict'; matchId: string; revision: number; reason: string }
+  | { status: 'rejected'; reason: string };
+
+export type SyncMessage =
+  | { type: 'snapshot'; snapshot: SyncSnapshot }
+  | { type: 'event'; event: SyncEvent };
+
+/** Connection to a sync server (HTTP/WebSocket or in-memory) */
+export interface SyncTransport {
+  fetchSnapshot(): Promise<SyncSnapshot>;
+  submit(request: SyncRequest): Promise<SyncResult>;
+  merge(request: SyncMergeRequest): Promise<SyncResult>;
+  /** Sends a snapshot first, then every accepted event; reports when the stream drops and comes back */
+  subscribe(listener: (message: SyncMessage) => void, onConnectionChange?: (connected: boolean) => void): () => void;
+}
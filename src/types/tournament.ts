@@ -1,18 +1,24 @@
 export type TournamentSystem =
   | 'round-robin'
   | 'swiss'
-  | 'pool-play-single-out'
+  | 'pool-play-single-out'       // Pool Play: Groups, then single-out bracket from pool ranks
+  | 'double-elimination'         // Double Elimination: Winners and losers bracket with grand final
+  | 'mixer'                      // Mixer / King of the Court: Individual players with rotating partners
   | 'playoff'
   | 'group-phase'
   | 'knockout'
   | 'beachl-all-placements'      // BeachL-All-Platzierungen: Full placement tree
   | 'beachl-short-main'          // BeachL-Kurze-Hauptrunde: Shortened main round with byes
   | 'placement-tree'             // Internal: Full placement tree knockout phase
-  | 'short-main-knockout';       // Internal: Shortened main round knockout phase
+  | 'short-main-knockout'        // Internal: Shortened main round knockout phase
+  | 'pool-play-knockout';        // Internal: Single-out bracket after pool play
 
 // Knockout round types for SSVB format and placement tree
 export type KnockoutRoundType =
   | 'intermediate'      // Zwischenrunde: 2. vs 3. from different groups (SSVB)
+  | 'round-of-64'       // Zweiunddreißigstelfinale
+  | 'round-of-32'       // Sechzehntelfinale
+  | 'round-of-16'       // Achtelfinale
   | 'quarterfinal'      // Viertelfinale
   | 'semifinal'         // Halbfinale
   | 'third-place'       // Spiel um Platz 3
@@ -30,7 +36,12 @@ export type KnockoutRoundType =
   | 'top-final'         // Finale im Top-K Bereich
   | 'placement-5-8'     // Platzierungsbaum 5-8
   | 'placement-9-12'    // Platzierungsbaum 9-12
-  | 'placement-13-16';  // Platzierungsbaum 13-16 (Bottom-Bracket)
+  | 'placement-13-16'   // Platzierungsbaum 13-16 (Bottom-Bracket)
+  // Double elimination specific
+  | 'winners-bracket'   // Gewinnerrunde
+  | 'losers-bracket'    // Verliererrunde
+  | 'grand-final'       // Großes Finale (Sieger Gewinnerrunde vs. Sieger Verliererrunde)
+  | 'grand-final-reset'; // Entscheidungsspiel, falls der Sieger der Verliererrunde das Finale gewinnt
 
 // Group structure for group phase tournaments
 export interface Group {
@@ -48,6 +59,11 @@ export interface GroupPhaseConfig {
   seeding: 'snake' | 'random' | 'manual';
 }
 
+// Double elimination configuration
+export interface DoubleEliminationConfig {
+  playGrandFinalReset: boolean; // Play a second final if the losers bracket winner wins the grand final
+}
+
 // Knockout phase configuration
 export interface KnockoutConfig {
   // Qualification rules from group phase
@@ -67,6 +83,20 @@ export interface Team {
   name: string;
   seedPosition: number;
   isPresent?: boolean; // Whether the team is present and ready to play
+  playerIds?: string[]; // Mixer: the players forming this pair
+  // Registration data (e.g. from a CSV import)
+  playerNames?: string[];
+  club?: string;
+  rankingPoints?: number;
+  profileId?: string; // Stable identity across tournaments, assigned when the tournament is archived
+}
+
+// Individual player (Mixer tournaments pair players into rotating teams)
+export interface Player {
+  id: string;
+  name: string;
+  seedPosition: number;
+  isPresent?: boolean;
 }
 
 export interface SetScore {
@@ -74,6 +104,19 @@ export interface SetScore {
   teamB: number;
 }
 
+// How a result came about; anything but 'played' is decided without (or before the end of) the match
+export type MatchResultType = 'played' | 'forfeit' | 'walkover' | 'retired';
+export type SpecialResultType = Exclude<MatchResultType, 'played'>;
+
+// What a special result counts for in the standings
+export type ResultScoringRule =
+  | 'full-score' // Winner gets all sets to 0 (e.g. 21:0)
+  | 'actual-score' // Only the recorded (partial) score counts
+  | 'complete-score' // Recorded score, the remaining points and sets go to the winner
+  | 'no-score'; // Counts as won/lost only, without sets and points
+
+export type ResultScoring = Record<SpecialResultType, ResultScoringRule>;
+
 export interface Match {
   id: string;
   round: number;
@@ -84,6 +127,7 @@ export interface Match {
   scores: SetScore[];
   winnerId: string | null;
   status: 'scheduled' | 'in-progress' | 'completed' | 'pending';
+  resultType?: MatchResultType; // Missing means played
   dependsOn?: {
     teamA?: { matchId: string; result: 'winner' | 'loser' };
     teamB?: { matchId: string; result: 'winner' | 'loser' };
@@ -103,11 +147,16 @@ export interface Match {
   bracketPosition?: number; // Position in bracket for visualization
   // Referee assignment
   refereeTeamId?: string | null; // Team assigned as referee for this match
+  officialId?: string | null; // Official from the event's referee pool assigned to this match
   // Placement tree specific
   placementInterval?: { start: number; end: number }; // Current placement interval [start..end]
   winnerInterval?: { start: number; end: number }; // Interval winner goes to
   loserInterval?: { start: number; end: number }; // Interval loser goes to
   refereePlaceholder?: string; // Placeholder text for referee when not yet determined
+  scheduledTime?: string; // Planned start "HH:MM", assigned together with courtNumber by the scheduler
+  scheduledDate?: string; // Day of the planned start "YYYY-MM-DD" (multi-day events only)
+  startedAt?: string; // Actual start (ISO timestamp), set when the match goes in progress
+  completedAt?: string; // Actual finish (ISO timestamp), set when the match is completed
 }
 
 export interface StandingEntry {
@@ -120,6 +169,13 @@ export interface StandingEntry {
   pointsWon: number;
   pointsLost: number;
   points: number;
+  decidedBy?: TiebreakerCriterion; // Criterion that ranked this entry below the tied entry above
+  tiedForLots?: boolean; // Still tied when the chain reached drawing lots; ranked once the lots are drawn
+}
+
+// Individual standing of a player (Mixer)
+export interface PlayerStandingEntry extends Omit<StandingEntry, 'teamId'> {
+  playerId: string;
 }
 
 // Group standing (extends regular standing with group info)
@@ -130,12 +186,38 @@ export interface GroupStandingEntry extends StandingEntry {
 
 export type TiebreakerOrder = 'head-to-head-first' | 'point-diff-first';
 
+// Single criterion of a configurable tiebreaker chain (applied after wins / sets won)
+export type TiebreakerCriterion =
+  | 'wins'              // Siege (relevant for 2 sets, where sets won rank first)
+  | 'set-quotient'      // Satzquotient (won / lost)
+  | 'point-quotient'    // Ballpunktquotient (won / lost)
+  | 'point-diff'        // Punktedifferenz
+  | 'head-to-head'      // Direkter Vergleich: mini-table among all tied teams
+  | 'buchholz'          // Buchholz: sum of the opponents' scores
+  | 'sonneborn-berger'  // Sonneborn-Berger: scores of beaten opponents
+  | 'lots';             // Losentscheid: order drawn by the organiser (Tournament.lots)
+
 export interface PlayoffSettings {
   setsPerMatch: number;
   pointsPerSet: number;
   pointsPerThirdSet?: number;
 }
 
+// Time span "HH:MM"–"HH:MM", e.g. a lunch break
+export interface TimeWindow {
+  start: string;
+  end: string;
+  date?: string; // "YYYY-MM-DD" - only on this day of a multi-day event, every day if missing
+}
+
+// Opening hours of a single court; a missing bound means open from the start / until the end
+export interface CourtAvailability {
+  courtNumber: number;
+  from?: string; // "HH:MM"
+  until?: string; // "HH:MM" - also set when a court is closed during the tournament
+  date?: string; // "YYYY-MM-DD" - only on this day of a multi-day event, every day if missing
+}
+
 // Scheduling settings for time planning
 export interface SchedulingSettings {
   startTime: string; // Format: "HH:MM" (e.g., "09:00")
@@ -144,6 +226,39 @@ export interface SchedulingSettings {
   minutesPer15PointSet: number; // Default: 12
   minutesBetweenMatches: number; // Default: 5
   minutesBetweenPhases: number; // Default: 0
+  minimumRestMinutes?: number; // Default: 0 - minimum pause of a team between two of its matches
+  assignReferees?: boolean; // Default: false - a referee is planned for every match
+  refereeMode?: RefereeMode; // Default: 'teams'
+  breaks?: TimeWindow[]; // Global breaks without matches on any court
+  courtAvailability?: CourtAvailability[]; // Courts that are not available all day
+}
+
+// Who referees the matches when referees are planned
+export type RefereeMode =
+  | 'teams' // An idle team of the phase
+  | 'officials'; // An official from the event's referee pool
+
+// Referee license; A is the highest
+export type OfficialLicense = 'A' | 'B' | 'C' | 'D';
+
+// Individual referee hired for an event
+export interface Official {
+  id: string;
+  name: string;
+  license: OfficialLicense;
+  availability?: TimeWindow[]; // When the official can take matches; always if empty
+  maxMatches?: number; // No limit if missing
+}
+
+// How a team leaving a running phase is taken out of it
+export type WithdrawalRule =
+  | 'annul-results' // All of the team's table results are removed
+  | 'forfeit-remaining'; // Played results stay, the remaining matches are lost without playing
+
+export interface TeamWithdrawal {
+  teamId: string;
+  rule: WithdrawalRule;
+  withdrawnAt: string;
 }
 
 export interface Tournament {
@@ -154,8 +269,10 @@ export interface Tournament {
   setsPerMatch: number;
   pointsPerSet: number;
   pointsPerThirdSet?: number; // For Best of 3, defaults to 15
-  tiebreakerOrder: TiebreakerOrder; // Tiebreaker priority
-  numberOfRounds?: number; // For Swiss system
+  tiebreakerOrder: TiebreakerOrder; // Tiebreaker priority (legacy, used if no tiebreakers are configured)
+  tiebreakers?: TiebreakerCriterion[]; // Ordered tiebreaker chain
+  resultScoring?: Partial<ResultScoring>; // Standings scoring of forfeits, walkovers and retirements
+  numberOfRounds?: number; // For Swiss and Mixer system
   scheduling?: SchedulingSettings; // Time scheduling settings
   teams: Team[];
   matches: Match[];
@@ -175,8 +292,14 @@ export interface Tournament {
   // Knockout phase specific
   knockoutConfig?: KnockoutConfig; // Configuration for knockout phase
   knockoutSettings?: KnockoutSettings; // Pre-configured settings for knockout phase (SSVB)
+  // Double elimination specific
+  doubleEliminationConfig?: DoubleEliminationConfig;
+  // Mixer specific: individual players, teams are the generated pairs
+  players?: Player[];
   // Eliminated teams (for referee assignment)
   eliminatedTeamIds?: string[]; // Teams that have been eliminated
+  withdrawals?: TeamWithdrawal[]; // Teams that left after the start; ranked last
+  lots?: string[]; // Drawn order of tied teams (team IDs, best first) for the 'lots' tiebreaker
 }
 
 // TournamentContainer: Groups multiple tournament phases together
@@ -188,6 +311,22 @@ export interface TournamentContainer {
   status: 'in-progress' | 'completed';
   createdAt: string;
   updatedAt: string;
+  calendar?: EventCalendar; // Days of a multi-day event
+  officials?: Official[]; // Referee pool of the event
+  archivedAt?: string; // Set when the completed tournament was moved to the archive (season statistics)
+}
+
+// One day of a multi-day event with its own playing hours
+export interface EventDay {
+  date: string; // "YYYY-MM-DD"
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM" - matches not finished by then continue the next day
+}
+
+// Event calendar of a container; phases start on their assigned day at the earliest
+export interface EventCalendar {
+  days: EventDay[]; // Sorted by date
+  phaseDays?: number[]; // Day index per phase order (first entry: phase 1); unassigned phases follow the previous one
 }
 
 export interface TournamentPhaseRef {
@@ -203,15 +342,20 @@ export interface TournamentConfig {
   setsPerMatch: number;
   pointsPerSet: number;
   pointsPerThirdSet?: number; // For Best of 3, defaults to 15
-  tiebreakerOrder: TiebreakerOrder; // Tiebreaker priority
-  numberOfRounds?: number; // For Swiss system
+  tiebreakerOrder: TiebreakerOrder; // Tiebreaker priority (legacy, used if no tiebreakers are configured)
+  tiebreakers?: TiebreakerCriterion[]; // Ordered tiebreaker chain
+  resultScoring?: Partial<ResultScoring>; // Standings scoring of forfeits, walkovers and retirements
+  numberOfRounds?: number; // For Swiss and Mixer system
   scheduling?: SchedulingSettings; // Time scheduling settings
+  calendar?: EventCalendar; // Multi-day event, stored on the container
   teams: Omit<Team, 'id'>[];
   // Group phase specific
   groupPhaseConfig?: Omit<GroupPhaseConfig, 'groups'>; // Groups will be generated
   // Knockout phase specific
   knockoutConfig?: KnockoutConfig;
   knockoutSettings?: KnockoutSettings; // Pre-configured settings for knockout phase (SSVB)
+  // Double elimination specific
+  doubleEliminationConfig?: DoubleEliminationConfig;
 }
 
 // Settings for creating knockout phase from group phase
@@ -221,4 +365,5 @@ export interface KnockoutSettings {
   pointsPerThirdSet?: number;
   playThirdPlaceMatch: boolean;
   useReferees: boolean;
+  qualifiersPerGroup?: number; // Pool play: teams per group advancing to the bracket (default 2)
 }
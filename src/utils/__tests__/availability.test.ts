@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SCHEDULING,
+  formatTimelineMinutes,
+  toTimelineMinutes,
+  estimateMatchesEnd,
+  estimateTournamentDuration,
+  getAvailability,
+  getNextStart,
+  parseTimeToMinutes,
+} from '../scheduling';
+
+const minutes = parseTimeToMinutes;
+
+describe('getNextStart', () => {
+  const availability = getAvailability({
+    ...DEFAULT_SCHEDULING,
+    breaks: [{ start: '12:45', end: '13:30' }, { start: '12:30', end: '13:15' }],
+    courtAvailability: [{ courtNumber: 2, from: '10:00', until: '13:00' }],
+  });
+
+  it('moves a match that would run into a break behind it, also across overlapping breaks', () => {
+    expect(getNextStart(availability, 1, minutes('12:00'), 20)).toBe(minutes('12:00'));
+    expect(getNextStart(availability, 1, minutes('12:15'), 20)).toBe(minutes('13:30'));
+  });
+
+  it('respects the opening hours of a court', () => {
+    expect(getNextStart(availability, 2, minutes('09:00'), 20)).toBe(minutes('10:00'));
+    expect(getNextStart(availability, 2, minutes('12:00'), 20)).toBe(minutes('12:00'));
+    expect(getNextStart(availability, 2, minutes('12:20'), 20)).toBe(Infinity);
+  });
+});
+
+describe('estimateMatchesEnd', () => {
+  it('matches the slot arithmetic without breaks', () => {
+    // 5 matches on 2 courts: 3 slots of 20 minutes with 5 minutes between them
+    expect(estimateMatchesEnd(5, 2, minutes('09:00'), 20, DEFAULT_SCHEDULING)).toBe(minutes('10:10'));
+    expect(estimateMatchesEnd(0, 2, minutes('09:00'), 20, DEFAULT_SCHEDULING)).toBe(minutes('09:00'));
+  });
+
+  it('includes breaks and lost courts in the estimate', () => {
+    const scheduling = {
+      ...DEFAULT_SCHEDULING,
+      breaks: [{ start: '09:45', end: '10:30' }],
+      courtAvailability: [{ courtNumber: 2, until: '09:30' }],
+    };
+    // Court 2 plays one match; court 1 plays 09:00, 09:25, then 10:30 and 10:55 after the break
+    expect(estimateMatchesEnd(5, 2, minutes('09:00'), 20, scheduling)).toBe(minutes('11:15'));
+
+    const estimate = estimateTournamentDuration(4, 'round-robin', 2, undefined, 1, 21, undefined, scheduling);
+    expect(estimate).toMatchObject({ matchCount: 6, endTime: '11:40', totalMinutes: 160 });
+  });
+});
+
+describe('multi-day timeline', () => {
+  const days = [
+    { date: '2026-06-13', startTime: '09:00', endTime: '18:00' },
+    { date: '2026-06-14', startTime: '10:00', endTime: '16:00' },
+  ];
+  const local = (date: string, time: string) => new Date(`${date}T${time}:00`).toISOString();
+
+  it('places timestamps and planned minutes on the days of the calendar', () => {
+    expect(toTimelineMinutes(local('2026-06-13', '11:30'), days)).toBe(minutes('11:30'));
+    expect(toTimelineMinutes(local('2026-06-14', '11:30'), days)).toBe(24 * 60 + minutes('11:30'));
+    expect(formatTimelineMinutes(24 * 60 + minutes('10:05'), days)).toEqual({ time: '10:05', date: '2026-06-14' });
+    expect(formatTimelineMinutes(minutes('10:05'))).toEqual({ time: '10:05' });
+  });
+
+  it('counts on past midnight of the day play began without a calendar', () => {
+    expect(toTimelineMinutes(local('2026-06-13', '11:30'), undefined, '2026-06-13')).toBe(minutes('11:30'));
+    expect(toTimelineMinutes(local('2026-06-14', '00:20'), undefined, '2026-06-13')).toBe(24 * 60 + minutes('00:20'));
+    expect(toTimelineMinutes(local('2026-06-14', '00:20'))).toBe(minutes('00:20'));
+  });
+
+  it('plays nothing in the night and repeats breaks and dated court hours per day', () => {
+    const availability = getAvailability({
+      ...DEFAULT_SCHEDULING,
+      breaks: [{ start: '12:30', end: '13:00' }],
+      courtAvailability: [{ courtNumber: 2, until: '15:00', date: '2026-06-13' }],
+    }, days);
+
+    expect(getNextStart(availability, 1, minutes('17:50'), 20)).toBe(24 * 60 + minutes('10:00'));
+    expect(getNextStart(availability, 1, 24 * 60 + minutes('12:20'), 20)).toBe(24 * 60 + minutes('13:00'));
+    expect(getNextStart(availability, 2, minutes('15:00'), 20)).toBe(24 * 60 + minutes('10:00'));
+    // The last day has no end, so leftover matches are still planned
+    expect(getNextStart(availability, 1, 24 * 60 + minutes('16:00'), 20)).toBe(24 * 60 + minutes('16:00'));
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import type { Match } from '../../types/tournament';
+import { getCourtOverview, getUpcomingMatches } from '../displayViews';
+
+function match(matchNumber: number, courtNumber: number, scheduledTime: string, status: Match['status'] = 'scheduled'): Match {
+  return {
+    id: `m${matchNumber}`,
+    round: 1,
+    matchNumber,
+    teamAId: `a${matchNumber}`,
+    teamBId: `b${matchNumber}`,
+    courtNumber,
+    scores: [],
+    winnerId: null,
+    status,
+    scheduledTime,
+  };
+}
+
+const matches = [
+  match(1, 1, '09:00', 'completed'),
+  match(2, 2, '09:00', 'in-progress'),
+  match(3, 1, '09:25', 'in-progress'),
+  match(4, 1, '09:50'),
+  match(5, 2, '09:50'),
+  match(6, 1, '10:15', 'pending'),
+];
+
+describe('getCourtOverview', () => {
+  it('shows the running and the next match of every court', () => {
+    const courts = getCourtOverview(matches, 3);
+
+    expect(courts.map(c => [c.courtNumber, c.current?.matchNumber, c.next?.matchNumber])).toEqual([
+      [1, 3, 4],
+      [2, 2, 5],
+      [3, undefined, undefined],
+    ]);
+  });
+});
+
+describe('getUpcomingMatches', () => {
+  it('lists matches not yet started in planned order', () => {
+    expect(getUpcomingMatches(matches, 2).map(m => m.matchNumber)).toEqual([4, 5]);
+    expect(getUpcomingMatches(matches, 10).map(m => m.matchNumber)).toEqual([4, 5, 6]);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateDoubleEliminationMatches,
+  updateDoubleEliminationBracket,
+  calculateDoubleEliminationPlacements,
+  getDoubleEliminationRoundLabel,
+} from '../doubleElimination';
+import { createTeams, verifyDependencies, verifyNoSelfMatches, SeededRandom, simulateMatch } from '../../__tests__/utils/testHelpers';
+import type { Match, Team } from '../../types/tournament';
+
+const generate = (teams: Team[], playGrandFinalReset = true) =>
+  generateDoubleEliminationMatches(teams, {
+    numberOfCourts: 4, setsPerMatch: 1, pointsPerSet: 21, config: { playGrandFinalReset },
+  });
+
+/** Plays all scheduled matches; the optional picker decides the winner of a match */
+function playToEnd(matches: Match[], rng: SeededRandom, pickWinner?: (match: Match) => string | null): Match[] {
+  let current = matches;
+  let next = current.find(m => m.status === 'scheduled');
+  while (next) {
+    const match = next;
+    const winnerId = pickWinner?.(match);
+    current = current.map(m => {
+      if (m.id !== match.id) return m;
+      if (!winnerId) return simulateMatch(m, rng);
+      const winnerIsA = winnerId === m.teamAId;
+      return { ...m, winnerId, status: 'completed' as const, scores: [{ teamA: winnerIsA ? 21 : 15, teamB: winnerIsA ? 15 : 21 }] };
+    });
+    current = updateDoubleEliminationBracket(current, match.id, { setsPerMatch: 1, pointsPerSet: 21 });
+    next = current.find(m => m.status === 'scheduled');
+  }
+  return current;
+}
+
+const isPlayed = (m: Match) => m.status === 'completed' && !!m.teamAId && !!m.teamBId;
+
+describe('generateDoubleEliminationMatches', () => {
+  it.each([6, 8, 11, 16, 23, 32])('builds a valid bracket for %i teams', (teamCount) => {
+    const matches = generate(createTeams(teamCount));
+    expect(verifyDependencies(matches).valid).toBe(true);
+    expect(matches.filter(m => m.knockoutRound === 'grand-final')).toHaveLength(1);
+    expect(matches.filter(m => m.knockoutRound === 'grand-final-reset')).toHaveLength(1);
+    expect(matches.every(m => m.status !== 'scheduled' || (m.teamAId && m.teamBId))).toBe(true);
+  });
+
+  it('gives first round byes to the top seeds', () => {
+    const teams = createTeams(6);
+    const matches = generate(teams);
+    const byes = matches.filter(m => m.round === 1 && m.status === 'completed');
+    expect(byes.map(m => m.winnerId).sort()).toEqual([teams[0].id, teams[1].id].sort());
+    expect(byes.every(m => m.courtNumber === null)).toBe(true);
+  });
+
+  it('omits the reset match when disabled', () => {
+    const matches = generate(createTeams(8), false);
+    expect(matches.some(m => m.knockoutRound === 'grand-final-reset')).toBe(false);
+  });
+
+  it.each([5, 33])('rejects %i teams', (teamCount) => {
+    expect(() => generate(createTeams(teamCount))).toThrow('Doppel-K.O. benötigt 6 bis 32 Teams');
+  });
+
+  it('labels winners, losers and final rounds', () => {
+    const matches = generate(createTeams(8));
+    const labels = new Set(matches.map(m => getDoubleEliminationRoundLabel(m, matches)));
+    expect([...labels]).toEqual(expect.arrayContaining([
+      'Gewinnerrunde 1', 'Finale Gewinnerrunde', 'Verliererrunde 1', 'Finale Verliererrunde', 'Großes Finale', 'Entscheidungsspiel',
+    ]));
+  });
+});
+
+describe('updateDoubleEliminationBracket', () => {
+  it.each(Array.from({ length: 27 }, (_, i) => i + 6))('plays %i teams to the end with every team losing twice', (teamCount) => {
+    const teams = createTeams(teamCount);
+    const matches = playToEnd(generate(teams), new SeededRandom(teamCount));
+    expect(matches.every(m => m.status === 'completed')).toBe(true);
+    expect(verifyNoSelfMatches(matches).valid).toBe(true);
+
+    const losses = new Map<string, number>();
+    matches.filter(isPlayed).forEach(m => {
+      const loserId = m.winnerId === m.teamAId ? m.teamBId! : m.teamAId!;
+      losses.set(loserId, (losses.get(loserId) ?? 0) + 1);
+    });
+    const resetPlayed = isPlayed(matches.find(m => m.knockoutRound === 'grand-final-reset')!);
+    expect(matches.filter(isPlayed)).toHaveLength(2 * teamCount - 2 + (resetPlayed ? 1 : 0));
+    expect([...losses.values()].filter(count => count === 2)).toHaveLength(teamCount - 1);
+  });
+
+  it('cancels the reset match when the winners bracket champion wins the grand final', () => {
+    const matches = playToEnd(generate(createTeams(8)), new SeededRandom(1), m =>
+      m.knockoutRound === 'grand-final' ? m.teamAId : null);
+    const reset = matches.find(m => m.knockoutRound === 'grand-final-reset')!;
+    expect(reset).toMatchObject({ status: 'completed', winnerId: null, teamAId: null, teamBId: null });
+  });
+
+  it('plays the reset match when the losers bracket champion wins the grand final', () => {
+    const matches = playToEnd(generate(createTeams(8)), new SeededRandom(1), m =>
+      m.knockoutRound === 'grand-final' ? m.teamBId : null);
+    const grandFinal = matches.find(m => m.knockoutRound === 'grand-final')!;
+    const reset = matches.find(m => m.knockoutRound === 'grand-final-reset')!;
+    expect(isPlayed(reset)).toBe(true);
+    expect(new Set([reset.teamAId, reset.teamBId])).toEqual(new Set([grandFinal.teamAId, grandFinal.teamBId]));
+  });
+});
+
+describe('calculateDoubleEliminationPlacements', () => {
+  it.each([[6, true], [8, false], [12, true], [19, true], [32, false]])(
+    'assigns every team a placement (%i teams, reset %s)', (teamCount, playGrandFinalReset) => {
+      const matches = playToEnd(generate(createTeams(teamCount), playGrandFinalReset), new SeededRandom(teamCount * 7));
+      const placements = calculateDoubleEliminationPlacements(matches);
+      expect(placements).toHaveLength(teamCount);
+      expect(new Set(placements.map(p => p.teamId)).size).toBe(teamCount);
+      ['1.', '2.', '3.'].forEach(place => expect(placements.filter(p => p.placement === place)).toHaveLength(1));
+
+      // Range sizes match the number of teams sharing them
+      const byRange = new Map<string, number>();
+      placements.forEach(p => byRange.set(p.placement, (byRange.get(p.placement) ?? 0) + 1));
+      byRange.forEach((count, placement) => {
+        const [start, end] = placement.split('-').map(part => parseInt(part));
+        expect(count).toBe(end === undefined ? 1 : end - start + 1);
+      });
+    });
+
+  it('has no champion while the reset match is open', () => {
+    const matches = playToEnd(generate(createTeams(8)), new SeededRandom(3), m =>
+      m.knockoutRound === 'grand-final' ? m.teamBId : null);
+    const open = matches.map(m => m.knockoutRound === 'grand-final-reset'
+      ? { ...m, status: 'scheduled' as const, winnerId: null, scores: [] } : m);
+    expect(calculateDoubleEliminationPlacements(open).some(p => p.placement === '1.')).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { adviseFormats } from '../formatAdvisor';
+import { DEFAULT_SCHEDULING } from '../scheduling';
+
+const advise = (teamsCount: number, endTime: string, minMatchesPerTeam = 3) =>
+  adviseFormats({ teamsCount, numberOfCourts: 3, scheduling: { ...DEFAULT_SCHEDULING, endTime }, minMatchesPerTeam });
+
+describe('adviseFormats', () => {
+  it('evaluates only variants that are possible with the number of teams', () => {
+    const options = advise(6, '17:00');
+    const systems = new Set(options.map(o => o.settings.system));
+
+    expect(systems).toEqual(new Set(['round-robin', 'swiss', 'group-phase', 'pool-play-single-out', 'beachl-all-placements', 'beachl-short-main', 'double-elimination']));
+    expect(options.filter(o => o.settings.teamsPerGroup).every(o => o.settings.teamsPerGroup === 3)).toBe(true);
+  });
+
+  it('ranks options that fit and meet the minimum first, the better use of time on top', () => {
+    const options = advise(16, '17:00');
+    const firstMiss = options.findIndex(o => !o.fits || !o.meetsMinimum);
+
+    expect(firstMiss).toBeGreaterThan(0);
+    options.slice(firstMiss).forEach(o => expect(o.fits && o.meetsMinimum).toBe(false));
+    const fitting = options.slice(0, firstMiss);
+    fitting.slice(1).forEach((o, i) => expect(o.avgMatchesPerTeam).toBeLessThanOrEqual(fitting[i].avgMatchesPerTeam));
+    expect(fitting.every(o => o.idleMinutesPerTeam >= 0 && o.estimation.totalMinutes <= 8 * 60)).toBe(true);
+  });
+
+  it('orders options by overrun when nothing fits', () => {
+    const options = advise(32, '10:00', 1);
+
+    expect(options.every(o => !o.fits)).toBe(true);
+    options.slice(1).forEach((o, i) => expect(o.overrunMinutes).toBeGreaterThanOrEqual(options[i].overrunMinutes));
+  });
+});
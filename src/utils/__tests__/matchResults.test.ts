@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { getScoredSets } from '../matchResults';
+import { calculateGroupStandings } from '../groupPhase';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import type { Match, ResultScoring, TournamentSystem } from '../../types/tournament';
+
+const retired = (scores: Match['scores']): Match => ({
+  id: 'm1', round: 1, matchNumber: 1, teamAId: 'a', teamBId: 'b', courtNumber: 1,
+  scores, winnerId: 'a', status: 'completed', resultType: 'retired', groupId: 'g1',
+});
+
+function start(system: TournamentSystem, teamCount: number, resultScoring?: Partial<ResultScoring>): TournamentState {
+  const state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Cup',
+      system,
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      resultScoring,
+      teams: createTeams(teamCount).map(({ id: _id, ...team }) => team),
+    },
+  });
+  return tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+}
+
+describe('scored sets of special results', () => {
+  it('completes a retirement for the winner', () => {
+    const match = retired([{ teamA: 15, teamB: 21 }, { teamA: 10, teamB: 12 }]);
+    expect(getScoredSets(match, 3, { pointsPerSet: 21, pointsPerThirdSet: 15 })).toEqual([
+      { teamA: 15, teamB: 21 }, { teamA: 21, teamB: 12 }, { teamA: 15, teamB: 0 },
+    ]);
+  });
+
+  it('applies the configured rule instead of the default', () => {
+    const match = retired([{ teamA: 10, teamB: 12 }]);
+    expect(getScoredSets(match, 2, { resultScoring: { retired: 'actual-score' } })).toEqual([{ teamA: 10, teamB: 12 }]);
+    expect(getScoredSets(match, 2, { resultScoring: { retired: 'full-score' } })).toEqual([
+      { teamA: 21, teamB: 0 }, { teamA: 21, teamB: 0 },
+    ]);
+  });
+
+  it('counts group standings by the scoring rule', () => {
+    const teams = [{ id: 'a', name: 'A', seedPosition: 1 }, { id: 'b', name: 'B', seedPosition: 2 }];
+    const [a, b] = calculateGroupStandings('g1', teams, [retired([{ teamA: 10, teamB: 12 }])], 1, 'head-to-head-first', {
+      resultScoring: { retired: 'actual-score' },
+    });
+    expect(a).toMatchObject({ teamId: 'a', won: 1, setsWon: 0, setsLost: 1, pointsWon: 10, pointsLost: 12 });
+    expect(b).toMatchObject({ teamId: 'b', won: 0, pointsWon: 12 });
+  });
+});
+
+describe('completing a match with a special result', () => {
+  it('awards a forfeit to the other team and scores it in the standings', () => {
+    const state = start('round-robin', 3);
+    const tournament = state.tournaments[0];
+    const match = tournament.matches.find(m => m.teamAId && m.teamBId)!;
+    const next = tournamentReducer(state, {
+      type: 'COMPLETE_MATCH',
+      payload: { tournamentId: tournament.id, matchId: match.id, result: { resultType: 'forfeit', winnerId: match.teamBId! } },
+    });
+
+    const completed = next.tournaments[0].matches.find(m => m.id === match.id)!;
+    expect(completed).toMatchObject({ status: 'completed', resultType: 'forfeit', winnerId: match.teamBId, scores: [] });
+    expect(next.tournaments[0].standings.find(s => s.teamId === match.teamBId))
+      .toMatchObject({ won: 1, setsWon: 1, pointsWon: 21, pointsLost: 0 });
+  });
+
+  it('counts a walkover without sets unless configured otherwise', () => {
+    const walkover = (state: TournamentState) => {
+      const tournament = state.tournaments[0];
+      const match = tournament.matches.find(m => m.teamAId && m.teamBId)!;
+      const next = tournamentReducer(state, {
+        type: 'COMPLETE_MATCH',
+        payload: { tournamentId: tournament.id, matchId: match.id, result: { resultType: 'walkover', winnerId: match.teamAId! } },
+      });
+      return next.tournaments[0].standings.find(s => s.teamId === match.teamAId);
+    };
+
+    expect(walkover(start('round-robin', 3))).toMatchObject({ won: 1, setsWon: 0, pointsWon: 0 });
+    expect(walkover(start('round-robin', 3, { walkover: 'full-score' }))).toMatchObject({ won: 1, setsWon: 1, pointsWon: 21 });
+  });
+
+  it('advances the other team in a bracket', () => {
+    const state = start('knockout', 4);
+    const tournament = state.tournaments[0];
+    const match = tournament.matches.find(m => m.round === 1)!;
+    const next = tournamentReducer(state, {
+      type: 'COMPLETE_MATCH',
+      payload: { tournamentId: tournament.id, matchId: match.id, result: { resultType: 'retired', winnerId: match.teamBId! } },
+    });
+
+    const final = next.tournaments[0].matches.find(m => m.dependsOn?.teamA?.matchId === match.id && m.dependsOn.teamA.result === 'winner')!;
+    expect(final.teamAId).toBe(match.teamBId);
+  });
+
+  it('ignores a winner outside the match and turns a corrected result back into a played one', () => {
+    const state = start('round-robin', 3);
+    const tournament = state.tournaments[0];
+    const match = tournament.matches.find(m => m.teamAId && m.teamBId)!;
+    const outsider = tournament.teams.find(t => t.id !== match.teamAId && t.id !== match.teamBId)!;
+    const complete = (winnerId: string) => tournamentReducer(state, {
+      type: 'COMPLETE_MATCH',
+      payload: { tournamentId: tournament.id, matchId: match.id, result: { resultType: 'forfeit', winnerId } },
+    });
+
+    expect(complete(outsider.id)).toBe(state);
+
+    const corrected = tournamentReducer(complete(match.teamAId!), {
+      type: 'CORRECT_MATCH_RESULT',
+      payload: { tournamentId: tournament.id, matchId: match.id, scores: [{ teamA: 15, teamB: 21 }] },
+    });
+    const correctedMatch = corrected.tournaments[0].matches.find(m => m.id === match.id)!;
+    expect(correctedMatch.resultType).toBeUndefined();
+    expect(correctedMatch.winnerId).toBe(match.teamBId);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { generateMixerRounds, countRepeatedPartners } from '../mixer';
+import { calculatePlayerStandings } from '../standings';
+import { SeededRandom } from '../../__tests__/utils/testHelpers';
+import type { Player, Match } from '../../types/tournament';
+
+function createPlayers(count: number): Player[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `Spieler ${i + 1}`, seedPosition: i + 1 }));
+}
+
+function getPlayerIds(match: Match, teams: { id: string; playerIds?: string[] }[]): string[] {
+  return [match.teamAId, match.teamBId].flatMap(id => teams.find(t => t.id === id)?.playerIds ?? []);
+}
+
+describe('generateMixerRounds', () => {
+  it.each([4, 5, 6, 7, 8, 9, 12, 13, 16, 22])('creates full rounds for %i players', (playerCount) => {
+    const players = createPlayers(playerCount);
+    const rng = new SeededRandom(playerCount);
+    const { teams, matches } = generateMixerRounds(players, 6, 2, () => rng.next());
+
+    for (let round = 1; round <= 6; round++) {
+      const roundMatches = matches.filter(m => m.round === round);
+      expect(roundMatches).toHaveLength(Math.floor(playerCount / 4));
+
+      const ids = roundMatches.flatMap(m => getPlayerIds(m, teams));
+      expect(ids).toHaveLength(roundMatches.length * 4);
+      expect(new Set(ids).size).toBe(ids.length);
+    }
+    expect(teams.every(t => t.playerIds?.length === 2)).toBe(true);
+  });
+
+  it('balances breaks when the player count is not divisible by 4', () => {
+    const players = createPlayers(10);
+    const rng = new SeededRandom(7);
+    const { teams, matches } = generateMixerRounds(players, 5, 2, () => rng.next());
+
+    const played = new Map(players.map(p => [p.id, 0]));
+    matches.forEach(m => getPlayerIds(m, teams).forEach(id => played.set(id, played.get(id)! + 1)));
+    const counts = Array.from(played.values());
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it.each([1, 2, 3, 4, 5])('avoids repeated partners for 8 players over 5 rounds (seed %i)', (seed) => {
+    const rng = new SeededRandom(seed);
+    const { teams, matches } = generateMixerRounds(createPlayers(8), 5, 2, () => rng.next());
+    expect(countRepeatedPartners(teams, matches)).toBe(0);
+  });
+
+  it('avoids repeated partners for 16 players over 8 rounds', () => {
+    const rng = new SeededRandom(42);
+    const { teams, matches } = generateMixerRounds(createPlayers(16), 8, 4, () => rng.next());
+    expect(countRepeatedPartners(teams, matches)).toBe(0);
+  });
+
+  it('reuses the pair team when partners repeat', () => {
+    const rng = new SeededRandom(3);
+    const { teams, matches } = generateMixerRounds(createPlayers(4), 6, 1, () => rng.next());
+    expect(teams).toHaveLength(6);
+    expect(matches).toHaveLength(6);
+    expect(teams.every(t => t.name.split(' / ').length === 2)).toBe(true);
+  });
+
+  it('assigns courts cyclically', () => {
+    const rng = new SeededRandom(5);
+    const { matches } = generateMixerRounds(createPlayers(12), 1, 2, () => rng.next());
+    expect(matches.map(m => m.courtNumber)).toEqual([1, 2, 1]);
+    expect(matches.every(m => m.status === 'scheduled')).toBe(true);
+  });
+});
+
+describe('calculatePlayerStandings', () => {
+  const players = createPlayers(4);
+  const teams = [
+    { id: 't12', name: 'Spieler 1 / Spieler 2', seedPosition: 1, playerIds: ['p1', 'p2'] },
+    { id: 't34', name: 'Spieler 3 / Spieler 4', seedPosition: 2, playerIds: ['p3', 'p4'] },
+    { id: 't13', name: 'Spieler 1 / Spieler 3', seedPosition: 3, playerIds: ['p1', 'p3'] },
+    { id: 't24', name: 'Spieler 2 / Spieler 4', seedPosition: 4, playerIds: ['p2', 'p4'] },
+  ];
+
+  it('credits both partners with the result of their pair', () => {
+    const matches: Match[] = [
+      { id: '1', round: 1, matchNumber: 1, teamAId: 't12', teamBId: 't34', courtNumber: 1, scores: [{ teamA: 21, teamB: 15 }], winnerId: 't12', status: 'completed' },
+      { id: '2', round: 2, matchNumber: 2, teamAId: 't13', teamBId: 't24', courtNumber: 1, scores: [{ teamA: 21, teamB: 19 }], winnerId: 't13', status: 'completed' },
+    ];
+
+    const standings = calculatePlayerStandings(players, teams, matches, 1);
+    expect(standings.map(s => s.playerId)).toEqual(['p1', 'p2', 'p3', 'p4']);
+    expect(standings[0]).toMatchObject({ played: 2, won: 2, lost: 0, pointsWon: 42, pointsLost: 34 });
+    expect(standings[1]).toMatchObject({ won: 1, lost: 1, pointsWon: 40, pointsLost: 36 });
+    expect(standings[3]).toMatchObject({ won: 0, lost: 2 });
+  });
+
+  it('ignores matches that are not completed', () => {
+    const matches: Match[] = [
+      { id: '1', round: 1, matchNumber: 1, teamAId: 't12', teamBId: 't34', courtNumber: 1, scores: [], winnerId: null, status: 'scheduled' },
+    ];
+
+    const standings = calculatePlayerStandings(players, teams, matches, 1);
+    expect(standings.every(s => s.played === 0)).toBe(true);
+  });
+
+  it('ranks by sets won in 2-set format', () => {
+    const matches: Match[] = [
+      { id: '1', round: 1, matchNumber: 1, teamAId: 't12', teamBId: 't34', courtNumber: 1, scores: [{ teamA: 21, teamB: 15 }, { teamA: 10, teamB: 21 }], winnerId: null, status: 'completed' },
+      { id: '2', round: 2, matchNumber: 2, teamAId: 't13', teamBId: 't24', courtNumber: 1, scores: [{ teamA: 21, teamB: 19 }, { teamA: 21, teamB: 19 }], winnerId: 't13', status: 'completed' },
+    ];
+
+    const standings = calculatePlayerStandings(players, teams, matches, 2);
+    expect(standings[0].playerId).toBe('p3');
+    expect(standings[0].setsWon).toBe(3);
+  });
+});
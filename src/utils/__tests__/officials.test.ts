@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { DEFAULT_SCHEDULING, parseTimeToMinutes } from '../scheduling';
+import { getOfficialWorkload, isDecidingMatch } from '../officials';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import type { Official, Tournament, TournamentSystem } from '../../types/tournament';
+
+function start(system: TournamentSystem, teamCount: number, officials: Official[]): TournamentState {
+  const state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Cup',
+      system,
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      scheduling: { ...DEFAULT_SCHEDULING, assignReferees: true, refereeMode: 'officials' },
+      teams: createTeams(teamCount).map(({ id: _id, ...team }) => team),
+    },
+  });
+  const started = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+  return tournamentReducer(started, { type: 'UPDATE_OFFICIALS', payload: { containerId: started.containers[0].id, officials } });
+}
+
+const official = (id: string, license: Official['license'], options: Partial<Official> = {}): Official =>
+  ({ id, name: id, license, ...options });
+
+const dutiesOf = (t: Tournament, officialId: string) => t.matches.filter(m => m.officialId === officialId);
+
+describe('officials planner', () => {
+  it('gives finals and semifinals to the highest license', () => {
+    const officials = [official('a1', 'A'), official('a2', 'A'), official('c1', 'C'), official('c2', 'C')];
+    const t = start('knockout', 8, officials).tournaments[0];
+    const deciding = t.matches.filter(isDecidingMatch);
+
+    expect(deciding.length).toBeGreaterThan(0);
+    deciding.forEach(m => expect(['a1', 'a2']).toContain(m.officialId));
+  });
+
+  it('staffs every match without putting an official on two at once', () => {
+    const t = start('round-robin', 6, [official('x', 'B'), official('y', 'C'), official('z', 'D')]).tournaments[0];
+
+    expect(t.matches.every(m => m.officialId)).toBe(true);
+    ['x', 'y', 'z'].forEach(id => {
+      const times = dutiesOf(t, id).map(m => m.scheduledTime);
+      expect(new Set(times).size).toBe(times.length);
+    });
+  });
+
+  it('only plans an official inside its availability windows', () => {
+    const early = official('early', 'A', { availability: [{ start: '09:00', end: '10:00' }] });
+    const t = start('round-robin', 6, [early, official('late', 'C'), official('other', 'C')]).tournaments[0];
+    const duties = dutiesOf(t, 'early');
+
+    expect(duties.length).toBeGreaterThan(0);
+    // One set to 21 takes 20 minutes
+    duties.forEach(m => expect(parseTimeToMinutes(m.scheduledTime!) + 20).toBeLessThanOrEqual(parseTimeToMinutes('10:00')));
+  });
+
+  it('respects the maximum number of matches', () => {
+    const t = start('round-robin', 6, [official('few', 'A', { maxMatches: 2 }), official('y', 'C'), official('z', 'C')]).tournaments[0];
+    expect(dutiesOf(t, 'few')).toHaveLength(2);
+  });
+
+  it('sums up the workload per official', () => {
+    const officials = [official('x', 'B'), official('y', 'C')];
+    const state = start('round-robin', 4, officials);
+    const workload = getOfficialWorkload(state.tournaments, officials);
+
+    expect(workload.reduce((sum, w) => sum + w.matches, 0)).toBe(6);
+    workload.forEach(w => expect(w.minutes).toBe(w.matches * 20));
+  });
+
+  it('leaves team referees alone when the pool is used', () => {
+    const t = start('round-robin', 6, [official('x', 'B')]).tournaments[0];
+    expect(t.matches.every(m => !m.refereeTeamId)).toBe(true);
+  });
+});
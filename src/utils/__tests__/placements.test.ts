@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { getFinalPlacements } from '../placements';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import type { Tournament } from '../../types/tournament';
+
+/** Completes every playable match of a phase, the first team always winning 21:15 */
+function playPhase(state: TournamentState, tournamentId: string): TournamentState {
+  let next = state;
+  let match;
+  while ((match = next.tournaments.find(t => t.id === tournamentId)!.matches.find(m => m.status === 'scheduled' && m.teamAId && m.teamBId))) {
+    const payload = { tournamentId, matchId: match.id };
+    next = tournamentReducer(next, { type: 'UPDATE_MATCH_SCORE', payload: { ...payload, scores: [{ teamA: 21, teamB: 15 }] } });
+    next = tournamentReducer(next, { type: 'COMPLETE_MATCH', payload });
+  }
+  return next;
+}
+
+/** Round robin of six teams followed by its finals, both played to the end */
+function playRoundRobinWithFinals(): { preliminary: Tournament; finals: Tournament } {
+  let state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Cup',
+      system: 'round-robin',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(6),
+    },
+  });
+  const preliminaryId = state.tournaments[0].id;
+  state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: preliminaryId });
+  state = playPhase(state, preliminaryId);
+  state = tournamentReducer(state, {
+    type: 'CREATE_FINALS_TOURNAMENT',
+    payload: { parentTournamentId: preliminaryId, settings: { setsPerMatch: 1, pointsPerSet: 21 } },
+  });
+  const finalsId = state.tournaments.at(-1)!.id;
+  state = playPhase(state, finalsId);
+  return { preliminary: state.tournaments[0], finals: state.tournaments.at(-1)! };
+}
+
+const nameOf = (phases: Tournament[], teamId: string) => phases.flatMap(p => p.teams).find(t => t.id === teamId)?.name;
+
+describe('getFinalPlacements', () => {
+  it('ranks every team by the last phase if it includes all of them', () => {
+    const { preliminary, finals } = playRoundRobinWithFinals();
+    const placements = getFinalPlacements([preliminary, finals]);
+
+    expect(placements.map(p => p.placement)).toEqual(['1.', '2.', '3.', '4.', '5.', '6.']);
+    placements.forEach(p => expect(finals.teams.map(t => t.id)).toContain(p.teamId));
+  });
+
+  it('ranks teams out in an earlier phase below the last phase in their table order', () => {
+    const { preliminary, finals } = playRoundRobinWithFinals();
+    // Finals for the top four only
+    const topFour = new Set(finals.standings.slice(0, 4).map(s => s.teamId));
+    const shortFinals: Tournament = {
+      ...finals,
+      teams: finals.teams.filter(t => topFour.has(t.id)),
+      standings: finals.standings.filter(s => topFour.has(s.teamId)),
+      matches: finals.matches.filter(m => topFour.has(m.teamAId!) && topFour.has(m.teamBId!)),
+    };
+    const phases = [preliminary, shortFinals];
+    const placements = getFinalPlacements(phases);
+
+    expect(placements.map(p => p.placement)).toEqual(['1.', '2.', '3.', '4.', '5.', '6.']);
+    expect(placements.slice(4).map(p => nameOf(phases, p.teamId)))
+      .toEqual(preliminary.standings.slice(4).map(s => nameOf(phases, s.teamId)));
+  });
+
+});
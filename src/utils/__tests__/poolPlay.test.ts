@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generatePoolPlayTournamentPlaceholder,
+  populatePoolPlayTeams,
+  calculatePoolPlayPlacements,
+  getBracketSeedPositions,
+} from '../poolPlay';
+import { updateKnockoutBracket } from '../knockout';
+import { generateSnakeDraftGroups, generateGroupPhaseMatches } from '../groupPhase';
+import { createTeams, verifyDependencies, verifyNoSelfMatches, SeededRandom, simulateMatch } from '../../__tests__/utils/testHelpers';
+import type { GroupPhaseConfig, KnockoutSettings, Tournament } from '../../types/tournament';
+import { v4 as uuidv4 } from 'uuid';
+
+function createParentTournament(teamCount: number, groupCount: number): Tournament {
+  const teams = createTeams(teamCount);
+  const groups = generateSnakeDraftGroups(teams, groupCount);
+  const config: GroupPhaseConfig = {
+    numberOfGroups: groupCount, teamsPerGroup: Math.ceil(teamCount / groupCount), seeding: 'snake', groups,
+  };
+  const groupStandings = groups.flatMap((group) =>
+    group.teamIds.map((teamId, index) => ({
+      teamId, played: group.teamIds.length - 1, won: group.teamIds.length - 1 - index, lost: index,
+      setsWon: group.teamIds.length - 1 - index, setsLost: index, pointsWon: 63 - index * 10, pointsLost: 45 + index * 5,
+      points: group.teamIds.length - 1 - index, groupId: group.id, groupRank: index + 1,
+    }))
+  );
+  return {
+    id: uuidv4(), name: 'Test Tournament', system: 'pool-play-single-out', numberOfCourts: 4, setsPerMatch: 1, pointsPerSet: 21,
+    tiebreakerOrder: 'head-to-head-first', teams, matches: generateGroupPhaseMatches(config, teams, 4), standings: [],
+    groupStandings, groupPhaseConfig: config, status: 'completed', createdAt: new Date().toISOString(), updatedAt: new Date().toISOString(),
+  };
+}
+
+const settings = (qualifiersPerGroup: number, playThirdPlaceMatch = true): KnockoutSettings => ({
+  setsPerMatch: 1, pointsPerSet: 21, playThirdPlaceMatch, useReferees: false, qualifiersPerGroup,
+});
+
+function populate(teamCount: number, groupCount: number, qualifiersPerGroup: number, playThirdPlaceMatch = true) {
+  const parent = createParentTournament(teamCount, groupCount);
+  const { tournament } = generatePoolPlayTournamentPlaceholder(parent, settings(qualifiersPerGroup, playThirdPlaceMatch));
+  return { parent, ...populatePoolPlayTeams(tournament, parent, parent.groupStandings!) };
+}
+
+describe('getBracketSeedPositions', () => {
+  it('keeps seed 1 and 2 apart until the final', () => {
+    expect(getBracketSeedPositions(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+});
+
+describe('generatePoolPlayTournamentPlaceholder', () => {
+  it.each([[16, 4, 2, 8], [12, 3, 2, 6], [24, 6, 2, 12], [32, 8, 4, 32]])(
+    '%i teams in %i pools with %i qualifiers build a valid bracket', (teamCount, groupCount, qualifiers, expectedTeams) => {
+      const parent = createParentTournament(teamCount, groupCount);
+      const { tournament } = generatePoolPlayTournamentPlaceholder(parent, settings(qualifiers));
+      const sources = tournament.matches.flatMap(m => [m.teamASource, m.teamBSource]).filter(Boolean);
+      expect(sources).toHaveLength(expectedTeams);
+      expect(verifyDependencies(tournament.matches).valid).toBe(true);
+      expect(tournament.system).toBe('pool-play-knockout');
+      expect(tournament.teams).toHaveLength(0);
+    });
+
+  it('avoids first round rematches of the same pool', () => {
+    for (const [teamCount, groupCount] of [[12, 3], [16, 4], [20, 5], [24, 6], [28, 7]]) {
+      const parent = createParentTournament(teamCount, groupCount);
+      const { tournament } = generatePoolPlayTournamentPlaceholder(parent, settings(2));
+      for (const match of tournament.matches.filter(m => m.teamASource && m.teamBSource)) {
+        expect(match.teamASource).not.toMatchObject({ groupIndex: (match.teamBSource as { groupIndex: number }).groupIndex });
+      }
+    }
+  });
+
+  it('gives byes to the top seeds', () => {
+    const parent = createParentTournament(12, 3);
+    const { tournament } = generatePoolPlayTournamentPlaceholder(parent, settings(2));
+    const byeMatches = tournament.matches.filter(m => m.round === 1 && (!m.teamASource || !m.teamBSource));
+    expect(byeMatches).toHaveLength(2);
+    expect(byeMatches.map(m => m.teamASource)).toEqual([
+      { type: 'group', groupIndex: 0, rank: 1 },
+      { type: 'group', groupIndex: 1, rank: 1 },
+    ]);
+    expect(byeMatches.every(m => m.teamBPlaceholder === 'Freilos' && m.courtNumber === null)).toBe(true);
+  });
+});
+
+describe('populatePoolPlayTeams', () => {
+  it('auto-advances bye matches and schedules the first round', () => {
+    const { tournament, teams, eliminatedTeamIds } = populate(12, 3, 2);
+    expect(teams).toHaveLength(6);
+    expect(eliminatedTeamIds).toHaveLength(6);
+    const round1 = tournament.matches.filter(m => m.round === 1);
+    expect(round1.filter(m => m.status === 'completed')).toHaveLength(2);
+    expect(round1.filter(m => m.status === 'scheduled')).toHaveLength(2);
+    expect(verifyNoSelfMatches(tournament.matches).valid).toBe(true);
+  });
+
+  it('activates matches fed by two byes', () => {
+    const { tournament } = populate(20, 5, 2);
+    const byeIds = new Set(tournament.matches.filter(m => m.round === 1 && m.status === 'completed').map(m => m.id));
+    const fedByByes = tournament.matches.filter(m =>
+      m.dependsOn?.teamA && byeIds.has(m.dependsOn.teamA.matchId) && byeIds.has(m.dependsOn.teamB!.matchId));
+    expect(fedByByes.length).toBeGreaterThan(0);
+    expect(fedByByes.every(m => m.status === 'scheduled' && m.teamAId && m.teamBId)).toBe(true);
+  });
+});
+
+describe('calculatePoolPlayPlacements', () => {
+  it.each([[16, 4, 2, true], [12, 3, 2, true], [20, 5, 3, false]])(
+    'assigns every team a placement (%i teams, %i pools, %i qualifiers)', (teamCount, groupCount, qualifiers, thirdPlace) => {
+      const { tournament, teams, eliminatedTeamIds } = populate(teamCount, groupCount, qualifiers, thirdPlace);
+      const rng = new SeededRandom(42);
+      let matches = tournament.matches;
+      let next = matches.find(m => m.status === 'scheduled');
+      while (next) {
+        matches = matches.map(m => m.id === next!.id ? simulateMatch(m, rng) : m);
+        matches = updateKnockoutBracket(matches, next.id);
+        next = matches.find(m => m.status === 'scheduled');
+      }
+
+      const placements = calculatePoolPlayPlacements(matches, teams, eliminatedTeamIds);
+      expect(placements).toHaveLength(teamCount);
+      expect(new Set(placements.map(p => p.teamId)).size).toBe(teamCount);
+      expect(placements.filter(p => p.placement === '1.')).toHaveLength(1);
+      expect(placements.filter(p => p.placement === '3.')).toHaveLength(thirdPlace ? 1 : 0);
+    });
+
+  it('ranks teams out in the pools by pool rank', () => {
+    const { parent, teams, eliminatedTeamIds } = populate(16, 4, 2);
+    const placements = calculatePoolPlayPlacements([], teams, eliminatedTeamIds, parent.groupStandings);
+    const rankOf = (teamId: string) => parent.groupStandings!.find(s => s.teamId === teamId)!.groupRank;
+
+    expect(placements).toHaveLength(8);
+    placements.forEach(p => expect(p.placement).toBe(rankOf(p.teamId) === 3 ? '9.-12.' : '13.-16.'));
+  });
+});
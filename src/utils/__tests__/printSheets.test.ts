@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { EventDay, Match } from '../../types/tournament';
+import { getScheduleGrid, getScoresheetSets, sortByPlannedStart } from '../printSheets';
+
+function match(matchNumber: number, courtNumber: number | null, scheduledTime?: string, scheduledDate?: string): Match {
+  return {
+    id: `m${matchNumber}`,
+    round: 1,
+    matchNumber,
+    teamAId: `a${matchNumber}`,
+    teamBId: `b${matchNumber}`,
+    courtNumber,
+    scores: [],
+    winnerId: null,
+    status: 'scheduled',
+    scheduledTime,
+    scheduledDate,
+  };
+}
+
+describe('getScheduleGrid', () => {
+  it('puts every match into its start time row and court column', () => {
+    const grid = getScheduleGrid(
+      [match(1, 1, '09:00'), match(2, 2, '09:00'), match(3, 1, '09:25'), match(4, null)],
+      2
+    );
+
+    expect(grid.courts).toEqual([1, 2]);
+    expect(grid.rows.map(r => r.time)).toEqual(['09:00', '09:25']);
+    expect(grid.rows[0].cells.map(c => c.map(m => m.matchNumber))).toEqual([[1], [2]]);
+    expect(grid.rows[1].cells.map(c => c.length)).toEqual([1, 0]);
+    expect(grid.unscheduled.map(m => m.matchNumber)).toEqual([4]);
+  });
+
+  it('orders the rows of a multi-day event by day and leaves out byes', () => {
+    const days: EventDay[] = [
+      { date: '2026-06-13', startTime: '09:00', endTime: '18:00' },
+      { date: '2026-06-14', startTime: '09:00', endTime: '16:00' },
+    ];
+    const bye = { ...match(4, 1, '08:00', '2026-06-13'), teamAPlaceholder: 'Freilos' };
+    const grid = getScheduleGrid([match(1, 1, '09:00', '2026-06-14'), match(2, 3, '17:00', '2026-06-13'), bye], 2, days);
+
+    expect(grid.courts).toEqual([1, 2, 3]);
+    expect(grid.rows.map(r => `${r.date} ${r.time}`)).toEqual(['2026-06-13 17:00', '2026-06-14 09:00']);
+    expect(sortByPlannedStart(grid.rows.flatMap(r => r.cells.flat()), days).map(m => m.matchNumber)).toEqual([2, 1]);
+  });
+});
+
+describe('getScoresheetSets', () => {
+  it('sizes the point boxes by the target score of every set', () => {
+    expect(getScoresheetSets({ setsPerMatch: 3, pointsPerSet: 21, pointsPerThirdSet: 15 }).map(s => [s.label, s.points])).toEqual([
+      ['Satz 1', 21],
+      ['Satz 2', 21],
+      ['Satz 3', 15],
+    ]);
+    const [single] = getScoresheetSets({ setsPerMatch: 1, pointsPerSet: 15 });
+    expect(single.boxes).toBeGreaterThan(single.points);
+  });
+});
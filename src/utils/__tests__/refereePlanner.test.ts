@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { DEFAULT_SCHEDULING } from '../scheduling';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import type { Match, Tournament, TournamentSystem } from '../../types/tournament';
+
+function start(system: TournamentSystem, teamCount: number, options: { groups?: number; assignReferees?: boolean } = {}): TournamentState {
+  const { groups, assignReferees = true } = options;
+  const state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Cup',
+      system,
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      scheduling: { ...DEFAULT_SCHEDULING, assignReferees },
+      teams: createTeams(teamCount).map(({ id: _id, ...team }) => team),
+      ...(groups && {
+        groupPhaseConfig: { numberOfGroups: groups, teamsPerGroup: 4, seeding: 'snake' as const },
+        knockoutSettings: { setsPerMatch: 1 as const, pointsPerSet: 21 as const, playThirdPlaceMatch: true, useReferees: false },
+      }),
+    },
+  });
+  return tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+}
+
+function play(state: TournamentState, matchId: string): TournamentState {
+  const tournamentId = state.tournaments[0].id;
+  const scored = tournamentReducer(state, {
+    type: 'UPDATE_MATCH_SCORE',
+    payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 15 }] },
+  });
+  return tournamentReducer(scored, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+}
+
+/** Whether the team has an unfinished match at the given time */
+const playsAt = (t: Tournament, teamId: string, time: string | undefined) =>
+  t.matches.some(m => m.status !== 'completed' && m.scheduledTime === time && (m.teamAId === teamId || m.teamBId === teamId));
+
+describe('referee planner', () => {
+  it('plans an idle team for every round robin match and balances the duties', () => {
+    const t = start('round-robin', 6).tournaments[0];
+
+    t.matches.forEach(m => {
+      expect(m.refereeTeamId).toBeTruthy();
+      expect(playsAt(t, m.refereeTeamId!, m.scheduledTime)).toBe(false);
+    });
+    const duties = t.teams.map(team => t.matches.filter(m => m.refereeTeamId === team.id).length);
+    expect(Math.max(...duties) - Math.min(...duties)).toBeLessThanOrEqual(1);
+  });
+
+  it('never lets a team referee two matches at once', () => {
+    const t = start('round-robin', 6).tournaments[0];
+    const byTime = new Map<string, Match[]>();
+    t.matches.forEach(m => byTime.set(m.scheduledTime!, [...(byTime.get(m.scheduledTime!) ?? []), m]));
+
+    byTime.forEach(matches => {
+      const referees = matches.map(m => m.refereeTeamId);
+      expect(new Set(referees).size).toBe(referees.length);
+    });
+  });
+
+  it('takes referees from the other group where possible', () => {
+    const t = start('group-phase', 8, { groups: 2 }).tournaments[0];
+    const groupOf = new Map(t.groupPhaseConfig!.groups.flatMap(g => g.teamIds.map(id => [id, g.id] as const)));
+
+    t.matches.forEach(m => {
+      expect(m.refereeTeamId).toBeTruthy();
+      expect(groupOf.get(m.refereeTeamId!)).not.toBe(m.groupId);
+    });
+  });
+
+  it('plans bracket matches once both teams are known', () => {
+    let state = start('knockout', 8);
+    const final = () => state.tournaments[0].matches.find(m => m.knockoutRound === 'final')!;
+    expect(final().refereeTeamId ?? null).toBeNull();
+
+    for (let round = 1; !final().teamBId; round++) {
+      state.tournaments[0].matches.filter(m => m.round === round).forEach(m => { state = play(state, m.id); });
+    }
+
+    const t = state.tournaments[0];
+    expect(final().refereeTeamId).toBeTruthy();
+    expect([final().teamAId, final().teamBId]).not.toContain(final().refereeTeamId);
+    expect(playsAt(t, final().refereeTeamId!, final().scheduledTime)).toBe(false);
+  });
+
+  it('leaves referees alone when planning is off', () => {
+    const t = start('round-robin', 6, { assignReferees: false }).tournaments[0];
+    expect(t.matches.every(m => !m.refereeTeamId)).toBe(true);
+  });
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import type { EventCalendar, Match, Tournament, TournamentConfig } from '../../types/tournament';
+import { DEFAULT_SCHEDULING, addDays, getLocalDate, isByeMatch, parseTimeToMinutes, projectScheduleEnd, schedulePhases } from '../scheduling';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+const MATCH_MINUTES = DEFAULT_SCHEDULING.minutesPer21PointSet;
+
+function start(config: Partial<TournamentConfig> & Pick<TournamentConfig, 'system' | 'teams'>): TournamentState {
+  const state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Zeitplan',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      scheduling: DEFAULT_SCHEDULING,
+      ...config,
+    },
+  });
+  return tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+}
+
+const startOf = (m: Match) => parseTimeToMinutes(m.scheduledTime!);
+
+/** ISO timestamp of today at the given local time "HH:MM" */
+function at(time: string): string {
+  const date = new Date();
+  date.setHours(0, parseTimeToMinutes(time), 0, 0);
+  return date.toISOString();
+}
+
+/** Every pair of matches sharing a team is separated by at least the given rest */
+function expectNoOverlap(tournament: Tournament, rest: number) {
+  const played = tournament.matches.filter(m => !isByeMatch(m));
+  played.forEach(m => expect(m.scheduledTime).toBeDefined());
+  played.forEach(a => played.forEach(b => {
+    if (a === b || startOf(a) > startOf(b)) return;
+    const shared = [a.teamAId, a.teamBId].some(id => id && (id === b.teamAId || id === b.teamBId));
+    const sameCourt = a.courtNumber === b.courtNumber;
+    if (shared) expect(startOf(b)).toBeGreaterThanOrEqual(startOf(a) + MATCH_MINUTES + rest);
+    if (sameCourt) expect(startOf(b)).toBeGreaterThanOrEqual(startOf(a) + MATCH_MINUTES);
+  }));
+}
+
+describe('scheduler', () => {
+  it('never books a team twice and fills the courts from the start time', () => {
+    const state = start({ system: 'round-robin', teams: createTeams(6), numberOfCourts: 3 });
+    const tournament = state.tournaments[0];
+
+    expectNoOverlap(tournament, DEFAULT_SCHEDULING.minutesBetweenMatches);
+    const first = tournament.matches.filter(m => m.scheduledTime === '09:00');
+    expect(first.map(m => m.courtNumber).sort()).toEqual([1, 2, 3]);
+  });
+
+  it('enforces the minimum rest between two matches of a team', () => {
+    const scheduling = { ...DEFAULT_SCHEDULING, minimumRestMinutes: 30 };
+    const state = start({ system: 'round-robin', teams: createTeams(6), numberOfCourts: 3, scheduling });
+
+    expectNoOverlap(state.tournaments[0], 30);
+  });
+
+  it('avoids back-to-back matches where the round allows it', () => {
+    const state = start({ system: 'round-robin', teams: createTeams(6), numberOfCourts: 1 });
+    const matches = [...state.tournaments[0].matches].sort((a, b) => startOf(a) - startOf(b));
+
+    const backToBack = matches.slice(1).filter((m, i) =>
+      [m.teamAId, m.teamBId].some(id => id === matches[i].teamAId || id === matches[i].teamBId));
+    expect(backToBack).toHaveLength(0);
+  });
+
+  it('keeps every group on its own court', () => {
+    const state = start({
+      system: 'group-phase',
+      teams: createTeams(16),
+      numberOfCourts: 4,
+      groupPhaseConfig: { numberOfGroups: 4, teamsPerGroup: 4, seeding: 'snake' },
+      knockoutSettings: { setsPerMatch: 1, pointsPerSet: 21, playThirdPlaceMatch: true, useReferees: false },
+    });
+    const [groupPhase, knockout] = state.tournaments;
+    const groups = groupPhase.groupPhaseConfig!.groups;
+
+    groups.forEach((group, index) => {
+      const courts = new Set(groupPhase.matches.filter(m => m.groupId === group.id).map(m => m.courtNumber));
+      expect([...courts]).toEqual([index + 1]);
+    });
+    expectNoOverlap(groupPhase, DEFAULT_SCHEDULING.minutesBetweenMatches);
+
+    // The knockout phase is planned after the group phase
+    const groupEnd = Math.max(...groupPhase.matches.map(startOf)) + MATCH_MINUTES;
+    expect(Math.min(...knockout.matches.filter(m => m.scheduledTime).map(startOf))).toBeGreaterThanOrEqual(groupEnd);
+  });
+
+  it('starts knockout matches only after the matches they depend on', () => {
+    const state = start({
+      system: 'double-elimination',
+      teams: createTeams(8),
+      numberOfCourts: 3,
+      doubleEliminationConfig: { playGrandFinalReset: true },
+    });
+    const { matches } = state.tournaments[0];
+    const byId = new Map(matches.map(m => [m.id, m]));
+
+    matches.filter(m => !isByeMatch(m)).forEach(match => {
+      [match.dependsOn?.teamA, match.dependsOn?.teamB].forEach(dependency => {
+        const previous = dependency && byId.get(dependency.matchId);
+        if (!previous || isByeMatch(previous)) return;
+        expect(startOf(match)).toBeGreaterThanOrEqual(startOf(previous) + MATCH_MINUTES + DEFAULT_SCHEDULING.minutesBetweenMatches);
+      });
+    });
+  });
+
+  it('keeps played matches in place when the next Swiss round is planned', () => {
+    let state = start({ system: 'swiss', teams: createTeams(8), numberOfCourts: 2, numberOfRounds: 3 });
+    const tournamentId = state.tournaments[0].id;
+    const timestamp = at('10:00');
+    state.tournaments[0].matches.forEach(m => {
+      state = tournamentReducer(state, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: m.id, scores: [{ teamA: 21, teamB: 15 }], timestamp } });
+      state = tournamentReducer(state, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: m.id, timestamp } });
+    });
+    const roundOne = state.tournaments[0].matches;
+
+    state = tournamentReducer(state, { type: 'GENERATE_NEXT_SWISS_ROUND', payload: tournamentId });
+    const { matches } = state.tournaments[0];
+
+    expect(matches.slice(0, roundOne.length)).toEqual(roundOne);
+    matches.filter(m => m.round === 2).forEach(m => expect(startOf(m)).toBeGreaterThan(parseTimeToMinutes('10:00')));
+  });
+});
+
+describe('live re-planning', () => {
+  // Four teams on one court: six matches, planned every 25 minutes from 09:00
+  const setup = () => {
+    const state = start({ system: 'round-robin', teams: createTeams(4), numberOfCourts: 1 });
+    const tournamentId = state.tournaments[0].id;
+    const [first] = [...state.tournaments[0].matches].sort((a, b) => startOf(a) - startOf(b));
+    return { state, tournamentId, first };
+  };
+  const nextOpen = (state: TournamentState, first: Match) => state.tournaments[0].matches
+    .filter(m => m.status === 'scheduled' && m.id !== first.id)
+    .sort((a, b) => startOf(a) - startOf(b))[0];
+
+  it('records when a match starts and finishes', () => {
+    const { state, tournamentId, first } = setup();
+    const started = tournamentReducer(state, { type: 'START_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('09:02') } });
+    const scored = tournamentReducer(started, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: first.id, scores: [{ teamA: 21, teamB: 19 }], timestamp: at('09:18') } });
+    const completed = tournamentReducer(scored, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('09:19') } });
+    const match = completed.tournaments[0].matches.find(m => m.id === first.id)!;
+
+    expect(match).toMatchObject({ status: 'completed', startedAt: at('09:02'), completedAt: at('09:19'), scheduledTime: '09:00' });
+    expect(tournamentReducer(completed, { type: 'START_MATCH', payload: { tournamentId, matchId: first.id } })).toBe(completed);
+  });
+
+  it('pulls the next match forward when a court finishes early', () => {
+    const { state, tournamentId, first } = setup();
+    expect(nextOpen(state, first).scheduledTime).toBe('09:25');
+
+    let next = tournamentReducer(state, { type: 'START_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('09:00') } });
+    next = tournamentReducer(next, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: first.id, scores: [{ teamA: 21, teamB: 5 }], timestamp: at('09:10') } });
+    next = tournamentReducer(next, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('09:10') } });
+
+    expect(nextOpen(next, first).scheduledTime).toBe('09:15');
+    expect(projectScheduleEnd(next.tournaments, parseTimeToMinutes('09:10'))).toBe(parseTimeToMinutes('11:15'));
+  });
+
+  it('projects the finish from a match running late', () => {
+    const { state, tournamentId, first } = setup();
+    const running = tournamentReducer(state, { type: 'START_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('09:00') } });
+    const plannedEnd = projectScheduleEnd(running.tournaments, parseTimeToMinutes('09:00'))!;
+
+    expect(plannedEnd).toBe(parseTimeToMinutes('11:25'));
+    expect(projectScheduleEnd(running.tournaments, parseTimeToMinutes('09:40'))).toBe(plannedEnd + 20);
+  });
+
+  it('never re-plans into the past after midnight', () => {
+    const { state, tournamentId, first } = setup();
+    const afterMidnight = new Date(Date.parse(at('00:10')) + 24 * 60 * 60_000).toISOString();
+    let next = tournamentReducer(state, { type: 'START_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('23:40') } });
+    next = tournamentReducer(next, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: first.id, scores: [{ teamA: 21, teamB: 5 }], timestamp: afterMidnight } });
+    next = tournamentReducer(next, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: first.id, timestamp: afterMidnight } });
+
+    // The day ends at midnight on a timeline without a calendar
+    next.tournaments[0].matches
+      .filter(m => m.status === 'scheduled')
+      .forEach(m => expect(startOf(m)).toBeGreaterThanOrEqual(24 * 60));
+  });
+
+  it('keeps counting the minutes of a schedule that runs past midnight', () => {
+    const { state, tournamentId, first } = setup();
+    const nextDay = (time: string) => new Date(Date.parse(at(time)) + 24 * 60 * 60_000).toISOString();
+    let next = tournamentReducer(state, { type: 'START_MATCH', payload: { tournamentId, matchId: first.id, timestamp: at('23:30') } });
+    next = tournamentReducer(next, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: first.id, scores: [{ teamA: 21, teamB: 19 }], timestamp: nextDay('00:40') } });
+    next = tournamentReducer(next, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: first.id, timestamp: nextDay('00:40') } });
+
+    const open = next.tournaments[0].matches
+      .filter(m => m.status === 'scheduled')
+      .map(m => m.scheduledTime)
+      .sort();
+    expect(open).toEqual(['24:45', '25:10', '25:35', '26:00', '26:25']);
+  });
+});
+
+describe('breaks and court availability', () => {
+  const endOf = (m: Match) => startOf(m) + MATCH_MINUTES;
+
+  it('plans no match into a break', () => {
+    const scheduling = { ...DEFAULT_SCHEDULING, breaks: [{ start: '09:30', end: '10:00' }] };
+    const state = start({ system: 'round-robin', teams: createTeams(6), numberOfCourts: 3, scheduling });
+    const { matches } = state.tournaments[0];
+
+    matches.forEach(m => expect(endOf(m) <= parseTimeToMinutes('09:30') || startOf(m) >= parseTimeToMinutes('10:00')).toBe(true));
+    expect(matches.some(m => m.scheduledTime === '10:00')).toBe(true);
+  });
+
+  it('uses a court only within its opening hours', () => {
+    const scheduling = {
+      ...DEFAULT_SCHEDULING,
+      courtAvailability: [{ courtNumber: 2, from: '10:00' }, { courtNumber: 3, until: '10:00' }],
+    };
+    const state = start({ system: 'round-robin', teams: createTeams(8), numberOfCourts: 3, scheduling });
+    const { matches } = state.tournaments[0];
+
+    matches.filter(m => m.courtNumber === 2).forEach(m => expect(startOf(m)).toBeGreaterThanOrEqual(parseTimeToMinutes('10:00')));
+    matches.filter(m => m.courtNumber === 3).forEach(m => expect(endOf(m)).toBeLessThanOrEqual(parseTimeToMinutes('10:00')));
+    expect(matches.filter(m => m.courtNumber === 3)).toHaveLength(2);
+  });
+
+  it('moves the open matches of a court closed during the tournament', () => {
+    const state = start({ system: 'round-robin', teams: createTeams(6), numberOfCourts: 3 });
+    const tournamentId = state.tournaments[0].id;
+    const running = state.tournaments[0].matches.find(m => m.courtNumber === 3 && m.scheduledTime === '09:00')!;
+    let next = tournamentReducer(state, { type: 'START_MATCH', payload: { tournamentId, matchId: running.id, timestamp: at('09:00') } });
+
+    next = tournamentReducer(next, { type: 'CLOSE_COURT', payload: { tournamentId, courtNumber: 3, timestamp: at('09:10') } });
+    const tournament = next.tournaments[0];
+
+    expect(tournament.scheduling!.courtAvailability).toEqual([{ courtNumber: 3, until: '09:10' }]);
+    expect(tournament.matches.find(m => m.id === running.id)).toMatchObject({ courtNumber: 3, status: 'in-progress' });
+    expect(tournament.matches.filter(m => m.status === 'scheduled' && m.courtNumber === 3)).toEqual([]);
+  });
+
+  it('plans the remaining matches on all courts once every court is closed', () => {
+    const scheduling = { ...DEFAULT_SCHEDULING, courtAvailability: [{ courtNumber: 1, until: '09:30' }] };
+    const state = start({ system: 'round-robin', teams: createTeams(4), numberOfCourts: 1, scheduling });
+
+    expect(state.tournaments[0].matches.every(m => m.scheduledTime && m.courtNumber === 1)).toBe(true);
+  });
+});
+
+describe('multi-day events', () => {
+  const calendar: EventCalendar = {
+    days: [
+      { date: '2026-06-13', startTime: '09:00', endTime: '12:00' },
+      { date: '2026-06-14', startTime: '10:00', endTime: '18:00' },
+    ],
+  };
+
+  it('continues matches that do not fit into the first day on the next morning', () => {
+    const state = start({ system: 'round-robin', teams: createTeams(8), calendar });
+    const { matches } = state.tournaments[0];
+    const firstDay = matches.filter(m => m.scheduledDate === '2026-06-13');
+    const secondDay = matches.filter(m => m.scheduledDate === '2026-06-14');
+
+    expect(firstDay.length + secondDay.length).toBe(matches.length);
+    firstDay.forEach(m => expect(startOf(m) + MATCH_MINUTES).toBeLessThanOrEqual(parseTimeToMinutes('12:00')));
+    secondDay.forEach(m => expect(startOf(m)).toBeGreaterThanOrEqual(parseTimeToMinutes('10:00')));
+    expect(secondDay.some(m => m.scheduledTime === '10:00')).toBe(true);
+  });
+
+  it('starts a phase on its assigned day', () => {
+    const state = start({ system: 'round-robin', teams: createTeams(4) });
+    const phase1 = state.tournaments[0];
+    const phase2: Tournament = { ...phase1, id: 'finale', phaseOrder: 2 };
+
+    const [planned1, planned2] = schedulePhases([phase1, phase2], undefined, { ...calendar, phaseDays: [0, 1] });
+
+    expect(planned1.matches.every(m => m.scheduledDate === '2026-06-13')).toBe(true);
+    expect(planned2.matches.every(m => m.scheduledDate === '2026-06-14')).toBe(true);
+    expect(Math.min(...planned2.matches.map(startOf))).toBe(parseTimeToMinutes('10:00'));
+  });
+
+  it('closes a court for the rest of the current day only', () => {
+    const date = getLocalDate(at('08:00'));
+    const days = [{ date, startTime: '09:00', endTime: '18:00' }, { date: addDays(date, 1), startTime: '09:00', endTime: '18:00' }];
+    const state = start({ system: 'round-robin', teams: createTeams(8), numberOfCourts: 3, calendar: { days } });
+    const tournamentId = state.tournaments[0].id;
+
+    const next = tournamentReducer(state, { type: 'CLOSE_COURT', payload: { tournamentId, courtNumber: 3, timestamp: at('08:00') } });
+
+    expect(next.tournaments[0].scheduling!.courtAvailability).toEqual([{ courtNumber: 3, until: '08:00', date }]);
+    expect(next.tournaments[0].matches.filter(m => m.courtNumber === 3 && m.scheduledDate === date)).toEqual([]);
+  });
+});
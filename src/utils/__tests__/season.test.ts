@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { getBestPlacement, getSeasonStatistics, getSeasonYears } from '../season';
+
+/** Plays a round robin in which the better seed always wins 21:15 */
+function playEvent(state: TournamentState, name: string, teams: { name: string; playerNames?: string[] }[]): TournamentState {
+  let next = tournamentReducer(state, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name,
+      system: 'round-robin',
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: teams.map((team, index) => ({ ...team, seedPosition: index + 1 })),
+    },
+  });
+  const tournamentId = next.tournaments.at(-1)!.id;
+  next = tournamentReducer(next, { type: 'START_TOURNAMENT', payload: tournamentId });
+  const tournament = next.tournaments.at(-1)!;
+  const seed = (teamId: string | null) => tournament.teams.find(t => t.id === teamId)?.seedPosition ?? 0;
+  tournament.matches.filter(m => m.teamAId && m.teamBId).forEach(match => {
+    const scores = [seed(match.teamAId) < seed(match.teamBId) ? { teamA: 21, teamB: 15 } : { teamA: 15, teamB: 21 }];
+    next = tournamentReducer(next, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: match.id, scores } });
+    next = tournamentReducer(next, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: match.id } });
+  });
+  return next;
+}
+
+const archiveLast = (state: TournamentState) =>
+  tournamentReducer(state, { type: 'ARCHIVE_CONTAINER', payload: state.containers.at(-1)!.id });
+
+describe('season statistics', () => {
+  const first = archiveLast(playEvent(initialState, 'Auftakt', [
+    { name: 'Sandflöhe', playerNames: ['Anna', 'Berta'] },
+    { name: 'Strandläufer' },
+    { name: 'Netzroller' },
+  ]));
+  const second = archiveLast(playEvent(first, 'Finale', [
+    { name: 'strandläufer ' },
+    { name: 'Sandflöhe', playerNames: ['Anna', 'Carla'] },
+    { name: 'Netzroller II' },
+  ]));
+
+  it('links teams with the same name across archived tournaments and sums their results', () => {
+    const { teams, players } = getSeasonStatistics(second.tournaments, second.containers);
+    const sandflöhe = teams.find(t => t.name === 'Sandflöhe')!;
+    const strandläufer = teams.find(t => t.name === 'strandläufer ')!;
+
+    expect(teams).toHaveLength(4);
+    expect(sandflöhe.events.map(e => [e.name, e.placement])).toEqual([['Auftakt', '1.'], ['Finale', '2.']]);
+    expect(sandflöhe).toMatchObject({ played: 4, won: 3, lost: 1, setsWon: 3, setsLost: 1, pointsWon: 78, pointsLost: 66 });
+    expect(getBestPlacement(strandläufer)).toBe('1.');
+    expect(players.find(p => p.name === 'Anna')).toMatchObject({ played: 4, won: 3 });
+    expect(players.find(p => p.name === 'Carla')?.events.map(e => e.placement)).toEqual(['2.']);
+  });
+
+  it('counts renamed teams as one after linking their profiles', () => {
+    const profileOf = (name: string) => second.tournaments.flatMap(t => t.teams).find(t => t.name === name)!.profileId!;
+    const merged = tournamentReducer(second, {
+      type: 'MERGE_TEAM_PROFILES',
+      payload: { profileId: profileOf('Netzroller II'), intoProfileId: profileOf('Netzroller') },
+    });
+
+    const netzroller = getSeasonStatistics(merged.tournaments, merged.containers).teams.find(t => t.name === 'Netzroller II');
+    expect(netzroller?.events.map(e => e.placement)).toEqual(['3.', '3.']);
+  });
+
+  it('archives only completed tournaments and lists their years', () => {
+    const open = tournamentReducer(initialState, {
+      type: 'CREATE_TOURNAMENT',
+      payload: {
+        name: 'Offen', system: 'round-robin', numberOfCourts: 1, setsPerMatch: 1, pointsPerSet: 21,
+        tiebreakerOrder: 'head-to-head-first', teams: [{ name: 'A', seedPosition: 1 }, { name: 'B', seedPosition: 2 }],
+      },
+    });
+
+    expect(archiveLast(open)).toBe(open);
+    expect(getSeasonYears(second.containers)).toEqual([new Date().toISOString().slice(0, 4)]);
+  });
+});
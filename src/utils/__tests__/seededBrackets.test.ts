@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { generateSeededKnockoutMatches } from '../knockout';
+import { generateSeededPlacementTreeMatches } from '../placementTree/index';
+import { getBracketPlacements, getPlaceNumber } from '../placements';
+import { createTeams, verifyDependencies } from '../../__tests__/utils/testHelpers';
+import type { Tournament, TournamentSystem } from '../../types/tournament';
+
+/** Starts a bracket from the team list and plays it to the end, the better seed always wins 21:15 */
+function playBracket(system: TournamentSystem, teamCount: number): Tournament {
+  let state: TournamentState = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Cup',
+      system,
+      numberOfCourts: 4,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(teamCount).map(({ id: _id, ...team }) => team),
+    },
+  });
+  const tournamentId = state.tournaments[0].id;
+  state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: tournamentId });
+
+  const current = () => state.tournaments.find(t => t.id === tournamentId)!;
+  const seed = (teamId: string | null) => current().teams.find(t => t.id === teamId)!.seedPosition;
+  let next = current().matches.find(m => m.status === 'scheduled');
+  while (next) {
+    const scores = [seed(next.teamAId) < seed(next.teamBId) ? { teamA: 21, teamB: 15 } : { teamA: 15, teamB: 21 }];
+    state = tournamentReducer(state, { type: 'UPDATE_MATCH_SCORE', payload: { tournamentId, matchId: next.id, scores } });
+    state = tournamentReducer(state, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId: next.id } });
+    next = current().matches.find(m => m.status === 'scheduled');
+  }
+  return current();
+}
+
+const options = { numberOfCourts: 2, setsPerMatch: 1, pointsPerSet: 21 };
+
+describe('seeded knockout', () => {
+  it('gives first round byes to the top seeds', () => {
+    const teams = createTeams(5);
+    const matches = generateSeededKnockoutMatches(teams, { ...options, playThirdPlaceMatch: true });
+    const byes = matches.filter(m => m.round === 1 && m.status === 'completed');
+
+    expect(verifyDependencies(matches).valid).toBe(true);
+    expect(byes.map(m => m.winnerId).sort()).toEqual(teams.slice(0, 3).map(t => t.id).sort());
+    expect(byes.every(m => m.courtNumber === null)).toBe(true);
+    expect(matches.filter(m => m.round === 2 && m.teamAId && m.teamBId)).toHaveLength(1);
+  });
+
+  it.each([4, 5, 12, 64])('places all %i teams when played to the end', (teamCount) => {
+    const tournament = playBracket('knockout', teamCount);
+    const placements = getBracketPlacements(tournament);
+
+    expect(tournament.status).toBe('completed');
+    expect(placements).toHaveLength(teamCount);
+    placements.forEach(({ teamId, placement }) => {
+      const seed = tournament.teams.find(t => t.id === teamId)!.seedPosition;
+      const [first, last = first] = placement.split('-').map(getPlaceNumber);
+      expect(seed).toBeGreaterThanOrEqual(first);
+      expect(seed).toBeLessThanOrEqual(last);
+    });
+  });
+
+  it('labels the first round of 64 teams', () => {
+    const matches = generateSeededKnockoutMatches(createTeams(64), { ...options, playThirdPlaceMatch: false });
+    expect(matches.filter(m => m.knockoutRound === 'round-of-64')).toHaveLength(32);
+    expect(matches.some(m => m.knockoutRound === 'third-place')).toBe(false);
+  });
+
+  it.each([3, 65])('rejects %i teams', (teamCount) => {
+    expect(() => generateSeededKnockoutMatches(createTeams(teamCount), { ...options, playThirdPlaceMatch: true }))
+      .toThrow('K.O.-System benötigt 4 bis 64 Teams');
+  });
+});
+
+describe('seeded placement tree', () => {
+  it.each([4, 5, 11, 24, 64])('plays out places 1 to %i', (teamCount) => {
+    const tournament = playBracket('placement-tree', teamCount);
+    const placements = getBracketPlacements(tournament);
+    const seedOf = (teamId: string) => tournament.teams.find(t => t.id === teamId)!.seedPosition;
+
+    expect(tournament.status).toBe('completed');
+    expect(placements.map(p => [seedOf(p.teamId), p.placement])).toEqual(
+      Array.from({ length: teamCount }, (_, i) => [i + 1, `${i + 1}.`])
+    );
+  });
+
+  it('pairs the top seeds with byes in the first round', () => {
+    const teams = createTeams(6);
+    const round1 = generateSeededPlacementTreeMatches(teams, options).filter(m => m.round === 1);
+
+    expect(round1.filter(m => m.status === 'completed').map(m => m.winnerId)).toEqual([teams[0].id, teams[1].id]);
+    expect(round1.filter(m => m.status === 'scheduled').map(m => m.courtNumber)).toEqual([1, 2]);
+  });
+});
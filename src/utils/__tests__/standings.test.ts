@@ -94,6 +94,35 @@ describe('calculateStandings', () => {
     });
   });
 
+  describe('swiss system', () => {
+    it('counts a recorded bye as a won match', () => {
+      const teams = createTeams(3);
+      const matches: Match[] = [
+        { id: '1', round: 1, matchNumber: 1, teamAId: teams[0].id, teamBId: teams[1].id, courtNumber: 1, scores: [{ teamA: 21, teamB: 15 }], winnerId: teams[0].id, status: 'completed' },
+        { id: '2', round: 1, matchNumber: 2, teamAId: teams[2].id, teamBId: null, teamBPlaceholder: 'Freilos', courtNumber: null, scores: [], winnerId: teams[2].id, status: 'completed' },
+      ];
+
+      const standings = calculateStandings(teams, matches, { setsPerMatch: 2, tiebreakerOrder: 'head-to-head-first', system: 'swiss' });
+      const byeStanding = standings.find(s => s.teamId === teams[2].id);
+      expect(byeStanding).toMatchObject({ played: 1, won: 1, setsWon: 2, pointsWon: 0 });
+    });
+
+    it('breaks ties by Buchholz before point difference', () => {
+      const teams = createTeams(4);
+      const [a, b, c, d] = teams.map(t => t.id);
+      const matches: Match[] = [
+        { id: '1', round: 1, matchNumber: 1, teamAId: a, teamBId: b, courtNumber: 1, scores: [{ teamA: 21, teamB: 15 }], winnerId: a, status: 'completed' },
+        { id: '2', round: 1, matchNumber: 2, teamAId: c, teamBId: d, courtNumber: 2, scores: [{ teamA: 21, teamB: 19 }], winnerId: c, status: 'completed' },
+        { id: '3', round: 2, matchNumber: 3, teamAId: a, teamBId: c, courtNumber: 1, scores: [{ teamA: 21, teamB: 19 }], winnerId: a, status: 'completed' },
+        { id: '4', round: 2, matchNumber: 4, teamAId: d, teamBId: b, courtNumber: 2, scores: [{ teamA: 21, teamB: 5 }], winnerId: d, status: 'completed' },
+      ];
+
+      const standings = calculateStandings(teams, matches, { setsPerMatch: 1, tiebreakerOrder: 'point-diff-first', system: 'swiss' });
+      // C and D both won once; C met stronger opponents (Buchholz 3 vs 1) despite the worse point difference
+      expect(standings.map(s => s.teamId)).toEqual([a, c, d, b]);
+    });
+  });
+
   describe('edge cases', () => {
     it('handles no matches', () => {
       const teams = createTeams(4);
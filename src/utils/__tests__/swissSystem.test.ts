@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { generateSwissRoundMatches } from '../swissSystem';
+import { calculateSwissScores } from '../swissTiebreaks';
+import { calculateStandings } from '../standings';
+import {
+  SeededRandom,
+  createTeams,
+  simulateScheduledMatches,
+  verifyNoDuplicateMatchups,
+  verifyNoSelfMatches,
+} from '../../__tests__/utils/testHelpers';
+import type { Match, Team } from '../../types/tournament';
+
+/** Plays a complete Swiss tournament with random results */
+function playSwiss(teams: Team[], rounds: number, rng: SeededRandom): Match[] {
+  let matches: Match[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const standings = calculateStandings(teams, matches, { setsPerMatch: 1, system: 'swiss' });
+    matches = [...matches, ...generateSwissRoundMatches(teams, standings, matches, round, 4)];
+    matches = simulateScheduledMatches(matches, rng);
+  }
+  return matches;
+}
+
+/** Whether the teams could be paired (with a bye for an odd field) without repeating a matchup */
+function existsRematchFreeRound(teamIds: string[], previous: Match[]): boolean {
+  const played = new Set(previous.filter(m => m.teamBId).map(m => [m.teamAId, m.teamBId].sort().join('|')));
+  const pairable = (remaining: string[]): boolean => {
+    if (remaining.length === 0) return true;
+    const [team, ...others] = remaining;
+    return others.some(other =>
+      !played.has([team, other].sort().join('|')) && pairable(others.filter(o => o !== other)));
+  };
+  return teamIds.length % 2 === 0
+    ? pairable(teamIds)
+    : teamIds.some(bye => pairable(teamIds.filter(t => t !== bye)));
+}
+
+function completed(match: Partial<Match> & Pick<Match, 'teamAId' | 'teamBId' | 'winnerId'>, round = 1): Match {
+  return { id: `${match.teamAId}-${match.teamBId}`, round, matchNumber: 1, courtNumber: 1, scores: [{ teamA: 21, teamB: 15 }], status: 'completed', ...match };
+}
+
+describe('generateSwissRoundMatches', () => {
+  it('pairs the top half against the bottom half in round 1', () => {
+    const teams = createTeams(8);
+    const matches = generateSwissRoundMatches(teams, [], [], 1, 4);
+    const seedPairs = matches.map(m => [m.teamAId, m.teamBId].map(id => teams.find(t => t.id === id)!.seedPosition));
+    expect(seedPairs).toEqual([[1, 5], [2, 6], [3, 7], [4, 8]]);
+  });
+
+  it('pairs within score groups', () => {
+    const teams = createTeams(8);
+    const round1 = simulateScheduledMatches(generateSwissRoundMatches(teams, [], [], 1, 4), new SeededRandom(1));
+    const winners = new Set(round1.map(m => m.winnerId));
+
+    const round2 = generateSwissRoundMatches(teams, [], round1, 2, 4);
+    round2.forEach(m => {
+      expect(winners.has(m.teamAId)).toBe(winners.has(m.teamBId));
+    });
+  });
+
+  it('records a bye for the lowest ranked team in an odd field', () => {
+    const teams = createTeams(5);
+    const matches = generateSwissRoundMatches(teams, [], [], 1, 2);
+    const bye = matches.find(m => !m.teamBId)!;
+
+    expect(matches).toHaveLength(3);
+    expect(bye.teamAId).toBe(teams[4].id);
+    expect(bye).toMatchObject({ status: 'completed', winnerId: teams[4].id, teamBPlaceholder: 'Freilos', courtNumber: null });
+  });
+
+  it('gives the bye to a team that has not had one yet', () => {
+    const teams = createTeams(5);
+    const previous = [
+      completed({ teamAId: teams[0].id, teamBId: teams[1].id, winnerId: teams[0].id }),
+      completed({ teamAId: teams[2].id, teamBId: teams[3].id, winnerId: teams[2].id }),
+      completed({ teamAId: teams[4].id, teamBId: null, winnerId: teams[4].id, scores: [] }),
+    ];
+
+    const matches = generateSwissRoundMatches(teams, [], previous, 2, 2);
+    const bye = matches.find(m => !m.teamBId)!;
+    expect(bye.teamAId).not.toBe(teams[4].id);
+    expect([teams[1].id, teams[3].id]).toContain(bye.teamAId);
+  });
+
+  it('backtracks instead of forcing a rematch', () => {
+    const teams = createTeams(4);
+    const [a, b, c, d] = teams.map(t => t.id);
+    // Round 3 of 4 teams: only A-D / B-C remains
+    const previous = [
+      completed({ teamAId: a, teamBId: c, winnerId: a }),
+      completed({ teamAId: b, teamBId: d, winnerId: b }),
+      completed({ teamAId: a, teamBId: b, winnerId: a }, 2),
+      completed({ teamAId: c, teamBId: d, winnerId: c }, 2),
+    ];
+
+    const matches = generateSwissRoundMatches(teams, [], previous, 3, 2);
+    expect(verifyNoDuplicateMatchups([...previous, ...matches]).valid).toBe(true);
+    expect(matches).toHaveLength(2);
+  });
+
+  it('still pairs every team when rematches are unavoidable', () => {
+    const teams = createTeams(4);
+    const matches = playSwiss(teams, 4, new SeededRandom(3));
+    expect(matches.filter(m => m.round === 4)).toHaveLength(2);
+    expect(verifyNoSelfMatches(matches).valid).toBe(true);
+  });
+
+  // 9 rounds with 10 teams would be a full round robin, which round-by-round pairing cannot guarantee
+  it.each([8, 9, 10, 11, 12, 13, 16, 17, 20, 24, 31, 32])('never produces rematches over up to 9 rounds with %i teams', (teamCount) => {
+    const rounds = Math.min(9, teamCount - 3);
+    for (let seed = 1; seed <= 20; seed++) {
+      const teams = createTeams(teamCount);
+      const matches = playSwiss(teams, rounds, new SeededRandom(teamCount * 100 + seed));
+
+      expect(verifyNoDuplicateMatchups(matches).valid).toBe(true);
+      expect(verifyNoSelfMatches(matches).valid).toBe(true);
+      for (let round = 1; round <= rounds; round++) {
+        const roundTeams = matches.filter(m => m.round === round).flatMap(m => [m.teamAId, m.teamBId]).filter(Boolean);
+        expect(new Set(roundTeams).size).toBe(teamCount);
+      }
+      const byeTeams = matches.filter(m => !m.teamBId).map(m => m.teamAId);
+      expect(byeTeams).toHaveLength(teamCount % 2 === 1 ? rounds : 0);
+      expect(new Set(byeTeams).size).toBe(byeTeams.length);
+    }
+  });
+
+  // Round-by-round pairing can run into a round without new opponents before the last one
+  it.each([6, 7, 8, 9, 10, 11, 12, 13, 16])('repeats a matchup only when no rematch-free round is left, over all rounds with %i teams', (teamCount) => {
+    const rounds = teamCount - 1;
+    for (let seed = 1; seed <= 20; seed++) {
+      const teams = createTeams(teamCount);
+      const matches = playSwiss(teams, rounds, new SeededRandom(teamCount * 100 + seed));
+
+      for (let round = 1; round <= rounds; round++) {
+        const roundMatches = matches.filter(m => m.round === round);
+        const roundTeams = roundMatches.flatMap(m => [m.teamAId, m.teamBId]).filter(Boolean);
+        expect(new Set(roundTeams).size).toBe(teamCount);
+
+        const before = matches.filter(m => m.round < round);
+        if (!verifyNoDuplicateMatchups([...before, ...roundMatches]).valid) {
+          expect(existsRematchFreeRound(teams.map(t => t.id), before)).toBe(false);
+        }
+      }
+    }
+  });
+});
+
+describe('calculateSwissScores', () => {
+  it('calculates Buchholz and Sonneborn-Berger', () => {
+    const teams = createTeams(4);
+    const [a, b, c, d] = teams.map(t => t.id);
+    const matches = [
+      completed({ teamAId: a, teamBId: b, winnerId: a }),
+      completed({ teamAId: c, teamBId: d, winnerId: c }),
+      completed({ teamAId: a, teamBId: c, winnerId: a }, 2),
+      completed({ teamAId: b, teamBId: d, winnerId: null }, 2),
+    ];
+
+    const scores = calculateSwissScores([a, b, c, d], matches);
+    expect(scores.get(a)).toEqual({ score: 2, buchholz: 1.5, sonnebornBerger: 1.5, byes: 0 });
+    expect(scores.get(b)).toEqual({ score: 0.5, buchholz: 2.5, sonnebornBerger: 0.25, byes: 0 });
+    expect(scores.get(c)).toEqual({ score: 1, buchholz: 2.5, sonnebornBerger: 0.5, byes: 0 });
+    expect(scores.get(d)?.score).toBe(0.5);
+  });
+
+  it('counts a bye as a win without tiebreak value', () => {
+    const teams = createTeams(3);
+    const matches = [completed({ teamAId: teams[2].id, teamBId: null, winnerId: teams[2].id, scores: [] })];
+    expect(calculateSwissScores(teams.map(t => t.id), matches).get(teams[2].id)).toEqual({ score: 1, buchholz: 0, sonnebornBerger: 0, byes: 1 });
+  });
+});
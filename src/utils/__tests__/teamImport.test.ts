@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTeamImport,
+  exportTeamList,
+  getDefaultMapping,
+  guessColumnMapping,
+  hasHeaderRow,
+  parseDelimited,
+  parseNumber,
+} from '../teamImport';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+const REGISTRATIONS = [
+  'Team;Spieler 1;Spieler 2;Verein;Ranglistenpunkte',
+  'Sandsturm;Anna Müller;Lea Schmidt;"TV Köln; Abt. Beach";1.250',
+  '"Die ""Blockerinnen""";Eva Klein;Mia Groß;SV Bonn;980,5',
+  ';Ina Wolf;Pia Roth;;1400',
+  'Sandsturm II;Lea Schmidt;Anna Müller;TV Köln;700',
+  'Ohne Punkte;Jana Berg;Kim Horn;;viele',
+].join('\r\n');
+
+function importRegistrations(text = REGISTRATIONS) {
+  const { rows } = parseDelimited(text);
+  return buildTeamImport(rows.slice(1), guessColumnMapping(rows[0].cells), [], 'replace');
+}
+
+describe('parseDelimited', () => {
+  it('detects the delimiter and handles quoted fields', () => {
+    const table = parseDelimited(REGISTRATIONS);
+
+    expect(table.delimiter).toBe(';');
+    expect(table.rows).toHaveLength(6);
+    expect(table.rows[1].cells[3]).toBe('TV Köln; Abt. Beach');
+    expect(table.rows[2].cells[0]).toBe('Die "Blockerinnen"');
+  });
+
+  it('reads tab separated cells pasted from Excel and keeps line numbers', () => {
+    const table = parseDelimited('\uFEFFTeam\tPunkte\n\nAlpha\t"12\n3"\nBeta\t4\n');
+
+    expect(table.delimiter).toBe('\t');
+    expect(table.rows.map(r => r.line)).toEqual([1, 3, 5]);
+    expect(table.rows[0].cells).toEqual(['Team', 'Punkte']);
+    expect(table.rows[1].cells).toEqual(['Alpha', '12\n3']);
+  });
+
+  it('reports an unterminated quote', () => {
+    expect(parseDelimited('Team,Punkte\n"Alpha,3\n').error).toBe('Zeile 2: Anführungszeichen wird nicht geschlossen');
+  });
+});
+
+describe('column mapping', () => {
+  it('recognises German and English headers', () => {
+    expect(guessColumnMapping(['Setzplatz', 'Teamname', 'Player 1', 'Player 2', 'Club', 'Points', 'E-Mail']))
+      .toEqual(['seed', 'name', 'player1', 'player2', 'club', 'rankingPoints', 'ignore']);
+    expect(hasHeaderRow(['Sandsturm', 'Anna Müller'])).toBe(false);
+    expect(getDefaultMapping(6)).toEqual(['name', 'player1', 'player2', 'club', 'rankingPoints', 'ignore']);
+  });
+
+  it('parses German number formats', () => {
+    expect(parseNumber('1.250')).toBe(1250);
+    expect(parseNumber('980,5')).toBe(980.5);
+    expect(parseNumber('1.234,5')).toBe(1234.5);
+    expect(parseNumber('12.5')).toBe(12.5);
+    expect(parseNumber('viele')).toBeNull();
+  });
+});
+
+describe('buildTeamImport', () => {
+  it('seeds by ranking points and reports duplicate and invalid rows', () => {
+    const preview = importRegistrations();
+
+    expect(preview.teams.map(t => [t.seedPosition, t.name, t.rankingPoints])).toEqual([
+      [1, 'Ina Wolf / Pia Roth', 1400],
+      [2, 'Sandsturm', 1250],
+      [3, 'Die "Blockerinnen"', 980.5],
+    ]);
+    expect(preview.teams[1]).toMatchObject({ playerNames: ['Anna Müller', 'Lea Schmidt'], club: 'TV Köln; Abt. Beach' });
+    expect(preview.skipped).toEqual([
+      { line: 5, reason: '„Sandsturm II“ ist doppelt (wie Zeile 2)' },
+      { line: 6, reason: 'Ranglistenpunkte „viele“ sind keine Zahl' },
+    ]);
+  });
+
+  it('prefers an explicit seed column and warns about seeds given twice', () => {
+    const { rows } = parseDelimited('Seed,Team,Punkte\n2,Alpha,100\n,Beta,900\n1,Gamma,50\n2,Delta,10\n0,Epsilon,5');
+    const preview = buildTeamImport(rows.slice(1), guessColumnMapping(rows[0].cells), [], 'replace');
+
+    expect(preview.teams.map(t => t.name)).toEqual(['Gamma', 'Alpha', 'Delta', 'Beta']);
+    expect(preview.warnings).toEqual(['Setzplatz 2 ist mehrfach vergeben (Zeilen 2, 5)']);
+    expect(preview.skipped).toEqual([{ line: 6, reason: 'Setzplatz „0“ ist keine positive ganze Zahl' }]);
+  });
+
+  it('appends after existing teams and skips teams already on the list', () => {
+    const existing = createTeams(2);
+    const { rows } = parseDelimited(`${existing[1].name.toUpperCase()}\nNeu`);
+    const preview = buildTeamImport(rows, ['name'], existing, 'append');
+
+    expect(preview.teams.map(t => t.name)).toEqual([existing[0].name, existing[1].name, 'Neu']);
+    expect(preview.teams[0]).toEqual(existing[0]);
+    expect(preview.importedIds).toEqual([preview.teams[2].id]);
+    expect(preview.skipped[0].reason).toContain('bereits in der Teamliste');
+  });
+
+  it('reads an exported team list back unchanged', () => {
+    const preview = importRegistrations();
+    const { rows } = parseDelimited(exportTeamList(preview.teams));
+    const reimported = buildTeamImport(rows.slice(1), guessColumnMapping(rows[0].cells), [], 'replace');
+
+    const strip = ({ id: _id, ...team }: (typeof preview.teams)[number]) => team;
+    expect(reimported.teams.map(strip)).toEqual(preview.teams.map(strip));
+    expect(reimported.skipped).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState, type TournamentState } from '../../context/tournamentActions';
+import { planTeamWithdrawal } from '../../context/teamWithdrawal';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import type { TournamentSystem, WithdrawalRule } from '../../types/tournament';
+
+function start(system: TournamentSystem, teamCount: number, groups?: number): TournamentState {
+  const state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Cup',
+      system,
+      numberOfCourts: 2,
+      setsPerMatch: 1,
+      pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first',
+      teams: createTeams(teamCount).map(({ id: _id, ...team }) => team),
+      ...(groups && {
+        groupPhaseConfig: { numberOfGroups: groups, teamsPerGroup: 4, seeding: 'snake' as const },
+        knockoutSettings: { setsPerMatch: 1 as const, pointsPerSet: 21 as const, playThirdPlaceMatch: true, useReferees: false },
+      }),
+    },
+  });
+  return tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+}
+
+/** Completes a match won by team A */
+function play(state: TournamentState, matchId: string): TournamentState {
+  const tournamentId = state.tournaments[0].id;
+  const scored = tournamentReducer(state, {
+    type: 'UPDATE_MATCH_SCORE',
+    payload: { tournamentId, matchId, scores: [{ teamA: 21, teamB: 15 }] },
+  });
+  return tournamentReducer(scored, { type: 'COMPLETE_MATCH', payload: { tournamentId, matchId } });
+}
+
+function withdraw(state: TournamentState, teamId: string, rule: WithdrawalRule): TournamentState {
+  return tournamentReducer(state, {
+    type: 'WITHDRAW_TEAM',
+    payload: { tournamentId: state.tournaments[0].id, teamId, rule, timestamp: '2026-05-01T12:00:00.000Z' },
+  });
+}
+
+describe('withdrawing a team from a table', () => {
+  it('annuls all results of the team and leaves it out of the standings', () => {
+    let state = start('round-robin', 4);
+    const teamId = state.tournaments[0].teams[0].id;
+    state = play(state, state.tournaments[0].matches.find(m => m.teamAId === teamId || m.teamBId === teamId)!.id);
+
+    const plan = planTeamWithdrawal(state, { tournamentId: state.tournaments[0].id, teamId, rule: 'annul-results' })!;
+    expect(plan.annulledMatches).toHaveLength(3);
+    expect(plan.annulledMatches.filter(m => m.played)).toHaveLength(1);
+
+    const next = withdraw(state, teamId, 'annul-results').tournaments[0];
+    expect(next.matches).toHaveLength(3);
+    expect(next.matches.some(m => m.teamAId === teamId || m.teamBId === teamId)).toBe(false);
+    expect(next.standings.map(s => s.teamId)).not.toContain(teamId);
+  });
+
+  it('keeps played results, forfeits the rest and ranks the team last', () => {
+    let state = start('round-robin', 4);
+    const teamId = state.tournaments[0].teams[0].id;
+    const first = state.tournaments[0].matches.find(m => m.teamAId === teamId)!;
+    state = play(state, first.id);
+
+    const next = withdraw(state, teamId, 'forfeit-remaining').tournaments[0];
+    const teamMatches = next.matches.filter(m => m.teamAId === teamId || m.teamBId === teamId);
+    expect(teamMatches.every(m => m.status === 'completed')).toBe(true);
+    expect(teamMatches.filter(m => m.resultType === 'walkover')).toHaveLength(2);
+    expect(next.matches.find(m => m.id === first.id)?.winnerId).toBe(teamId);
+    expect(next.standings[next.standings.length - 1]).toMatchObject({ teamId, won: 1, lost: 2 });
+    expect(next.withdrawals).toEqual([{ teamId, rule: 'forfeit-remaining', withdrawnAt: '2026-05-01T12:00:00.000Z' }]);
+  });
+
+  it('ranks the team last in its group', () => {
+    const state = start('group-phase', 8, 2);
+    const group = state.tournaments[0].groupPhaseConfig!.groups[0];
+    const teamId = group.teamIds[0];
+
+    const next = withdraw(state, teamId, 'forfeit-remaining').tournaments[0];
+    const groupStandings = next.groupStandings!.filter(s => s.groupId === group.id);
+    expect(groupStandings[groupStandings.length - 1]).toMatchObject({ teamId, groupRank: groupStandings.length });
+    expect(groupStandings.map(s => s.groupRank)).toEqual(groupStandings.map((_, i) => i + 1));
+  });
+});
+
+describe('withdrawing a team from a bracket', () => {
+  it('gives the opponent a bye into the next round', () => {
+    const state = start('knockout', 4);
+    const match = state.tournaments[0].matches.find(m => m.round === 1)!;
+
+    const plan = planTeamWithdrawal(state, { tournamentId: state.tournaments[0].id, teamId: match.teamAId!, rule: 'forfeit-remaining' })!;
+    expect(plan.byeMatches.map(m => m.matchId)).toEqual([match.id]);
+
+    const next = withdraw(state, match.teamAId!, 'forfeit-remaining').tournaments[0];
+    expect(next.matches.find(m => m.id === match.id)).toMatchObject({ status: 'completed', winnerId: match.teamBId });
+    const final = next.matches.find(m => m.dependsOn?.teamA?.matchId === match.id && m.dependsOn.teamA.result === 'winner')!;
+    expect(final.teamAId).toBe(match.teamBId);
+  });
+
+  it('completes a vacated slot once the opponent is known', () => {
+    let state = start('knockout', 4);
+    const [semiA, semiB] = state.tournaments[0].matches.filter(m => m.round === 1);
+    state = play(state, semiA.id);
+    state = withdraw(state, semiA.teamAId!, 'forfeit-remaining');
+    state = play(state, semiB.id);
+
+    const final = state.tournaments[0].matches.find(m => m.dependsOn?.teamB?.matchId === semiB.id && m.dependsOn.teamB.result === 'winner');
+    expect(final).toMatchObject({ status: 'completed', winnerId: semiB.teamAId });
+  });
+
+  it('refuses a team that already withdrew', () => {
+    const state = start('round-robin', 4);
+    const teamId = state.tournaments[0].teams[0].id;
+    const withdrawn = withdraw(state, teamId, 'annul-results');
+    expect(withdraw(withdrawn, teamId, 'forfeit-remaining')).toBe(withdrawn);
+  });
+});
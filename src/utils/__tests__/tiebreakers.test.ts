@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { rankStandings, getTiebreakers, describeTiebreakers } from '../tiebreakers';
+import { calculateGroupStandings } from '../groupPhase';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+import type { Match, StandingEntry } from '../../types/tournament';
+
+function entry(teamId: string, values: Partial<StandingEntry> = {}): StandingEntry {
+  return { teamId, played: 0, won: 0, lost: 0, setsWon: 0, setsLost: 0, pointsWon: 0, pointsLost: 0, points: 0, ...values };
+}
+
+function win(winnerId: string, loserId: string, score = { teamA: 21, teamB: 15 }): Match {
+  return { id: `${winnerId}-${loserId}`, round: 1, matchNumber: 1, teamAId: winnerId, teamBId: loserId, courtNumber: 1, scores: [score], winnerId, status: 'completed' };
+}
+
+describe('rankStandings', () => {
+  it('ranks by wins before any tiebreaker', () => {
+    const ranked = rankStandings([entry('a', { won: 1 }), entry('b', { won: 2 })], [], { setsPerMatch: 1, tiebreakers: ['point-diff'] });
+    expect(ranked.map(e => e.teamId)).toEqual(['b', 'a']);
+    expect(ranked[1].decidedBy).toBeUndefined();
+  });
+
+  it('applies the criteria in the configured order', () => {
+    const entries = [
+      entry('a', { won: 1, pointsWon: 60, pointsLost: 40 }), // diff +20, quotient 1.5
+      entry('b', { won: 1, pointsWon: 30, pointsLost: 15 }), // diff +15, quotient 2.0
+    ];
+
+    const byDiff = rankStandings(entries, [], { setsPerMatch: 1, tiebreakers: ['point-diff', 'point-quotient'] });
+    expect(byDiff.map(e => e.teamId)).toEqual(['a', 'b']);
+    expect(byDiff[1].decidedBy).toBe('point-diff');
+
+    const byQuotient = rankStandings(entries, [], { setsPerMatch: 1, tiebreakers: ['point-quotient', 'point-diff'] });
+    expect(byQuotient.map(e => e.teamId)).toEqual(['b', 'a']);
+    expect(byQuotient[1].decidedBy).toBe('point-quotient');
+  });
+
+  it('ranks a set quotient without lost sets first', () => {
+    const entries = [entry('a', { won: 1, setsWon: 4, setsLost: 1 }), entry('b', { won: 1, setsWon: 2, setsLost: 0 })];
+    const ranked = rankStandings(entries, [], { setsPerMatch: 1, tiebreakers: ['set-quotient'] });
+    expect(ranked.map(e => e.teamId)).toEqual(['b', 'a']);
+  });
+
+  it('falls through a circular head-to-head to the next criterion', () => {
+    const matches = [win('a', 'b'), win('b', 'c'), win('c', 'a')];
+    const entries = [
+      entry('a', { won: 1, pointsWon: 36, pointsLost: 42 }),
+      entry('b', { won: 1, pointsWon: 36, pointsLost: 36 }),
+      entry('c', { won: 1, pointsWon: 42, pointsLost: 36 }),
+    ];
+
+    const ranked = rankStandings(entries, matches, { setsPerMatch: 1, tiebreakers: ['head-to-head', 'point-diff'] });
+    expect(ranked.map(e => e.teamId)).toEqual(['c', 'b', 'a']);
+    expect(ranked.slice(1).map(e => e.decidedBy)).toEqual(['point-diff', 'point-diff']);
+  });
+
+  it('recalculates the mini-table among the teams still tied', () => {
+    // Mini-table of a-d: a 2, b 2, c 1, d 1 - then a-b and c-d are decided by their own match
+    const matches = [
+      win('a', 'b'), win('a', 'c'), win('d', 'a'), win('b', 'c'), win('b', 'd'), win('c', 'd'),
+      win('c', 'e'), win('d', 'e'),
+    ];
+    const entries = ['d', 'c', 'b', 'a', 'e'].map(id => entry(id, { won: id === 'e' ? 0 : 2 }));
+
+    const ranked = rankStandings(entries, matches, { setsPerMatch: 1, tiebreakers: ['head-to-head'] });
+    expect(ranked.map(e => e.teamId)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(ranked.map(e => e.decidedBy)).toEqual([undefined, 'head-to-head', 'head-to-head', 'head-to-head', undefined]);
+  });
+
+  it('uses sets won in the mini-table for 2 sets', () => {
+    const matches: Match[] = [{
+      ...win('a', 'b'),
+      scores: [{ teamA: 21, teamB: 15 }, { teamA: 15, teamB: 21 }],
+      winnerId: null,
+    }];
+    const entries = [entry('b', { setsWon: 3, won: 1 }), entry('a', { setsWon: 3, won: 0 })];
+
+    const ranked = rankStandings(entries, matches, { setsPerMatch: 2, tiebreakers: ['head-to-head', 'wins'] });
+    expect(ranked.map(e => e.teamId)).toEqual(['b', 'a']);
+    expect(ranked[1].decidedBy).toBe('wins');
+  });
+
+  it('breaks ties by Buchholz using all opponents', () => {
+    const matches = [win('a', 'c'), win('b', 'd'), win('c', 'd')];
+    const entries = ['a', 'b', 'c', 'd'].map(id => entry(id, { won: matches.filter(m => m.winnerId === id).length }));
+
+    const ranked = rankStandings(entries, matches, { setsPerMatch: 1, tiebreakers: ['buchholz'] });
+    // a, b and c won once; b's only opponent d has no win, so b drops behind a and c (Buchholz 1)
+    expect(ranked.map(e => e.teamId)).toEqual(['a', 'c', 'b', 'd']);
+    expect(ranked[2].decidedBy).toBe('buchholz');
+  });
+
+  it('ranks tied teams by the drawn lots', () => {
+    const tied = ['a', 'b', 'c'].map(id => entry(id));
+    const ranked = rankStandings(tied, [], { setsPerMatch: 1, tiebreakers: ['lots'], lots: ['c', 'a', 'b'] });
+
+    expect(ranked.map(e => e.teamId)).toEqual(['c', 'a', 'b']);
+    expect(ranked.map(e => e.decidedBy)).toEqual([undefined, 'lots', 'lots']);
+    expect(ranked.some(e => e.tiedForLots)).toBe(false);
+  });
+
+  it('leaves teams tied and flags them until lots are drawn for all of them', () => {
+    const tied = ['a', 'b', 'c'].map(id => entry(id, { pointsWon: 21 }));
+    const ranked = rankStandings([entry('d', { won: 1 }), ...tied], [], { setsPerMatch: 1, tiebreakers: ['lots'], lots: ['c', 'a'] });
+
+    expect(ranked.map(e => e.teamId)).toEqual(['d', 'a', 'b', 'c']);
+    expect(ranked.map(e => e.tiedForLots ?? false)).toEqual([false, true, true, true]);
+    expect(ranked.some(e => e.decidedBy)).toBe(false);
+  });
+});
+
+describe('getTiebreakers', () => {
+  it('prefers the configured chain', () => {
+    expect(getTiebreakers(['lots'], 'head-to-head-first')).toEqual(['lots']);
+  });
+
+  it('maps the legacy tiebreaker order', () => {
+    expect(getTiebreakers(undefined, 'head-to-head-first')).toEqual(['head-to-head', 'point-diff', 'set-quotient']);
+    expect(getTiebreakers([], 'point-diff-first')).toEqual(['point-diff', 'head-to-head', 'set-quotient']);
+    expect(getTiebreakers(undefined, 'head-to-head-first', 'swiss').slice(0, 2)).toEqual(['buchholz', 'sonneborn-berger']);
+  });
+
+  it('describes a chain', () => {
+    expect(describeTiebreakers(['point-quotient', 'lots'])).toBe('Ballpunktquotient, dann Losentscheid');
+  });
+});
+
+describe('calculateGroupStandings with a tiebreaker chain', () => {
+  it('applies the configured chain within the group', () => {
+    const teams = createTeams(3);
+    const [a, b, c] = teams.map(t => t.id);
+    const matches = [win(a, b, { teamA: 21, teamB: 19 }), win(b, c, { teamA: 21, teamB: 5 }), win(c, a, { teamA: 21, teamB: 19 })]
+      .map(m => ({ ...m, groupId: 'g1' }));
+
+    const standings = calculateGroupStandings('g1', teams, matches, 1, ['point-diff']);
+    expect(standings.map(s => s.teamId)).toEqual([b, a, c]);
+    expect(standings.map(s => s.groupRank)).toEqual([1, 2, 3]);
+    expect(standings[1].decidedBy).toBe('point-diff');
+  });
+});
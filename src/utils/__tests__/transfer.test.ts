@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { tournamentReducer } from '../../context/tournamentReducer';
+import { initialState } from '../../context/tournamentActions';
+import { createContainerExport, createStateExport, getExportFileName, parseTransferFile, readTransferDocument, CURRENT_VERSION } from '../transfer';
+import { DEFAULT_SCHEDULING } from '../scheduling';
+import { createTeams } from '../../__tests__/utils/testHelpers';
+
+function createStartedState() {
+  let state = tournamentReducer(initialState, {
+    type: 'CREATE_TOURNAMENT',
+    payload: {
+      name: 'Sommer Cup Köln', system: 'group-phase', numberOfCourts: 2, setsPerMatch: 1, pointsPerSet: 21,
+      tiebreakerOrder: 'head-to-head-first', teams: createTeams(8),
+      groupPhaseConfig: { numberOfGroups: 2, teamsPerGroup: 4, seeding: 'snake' },
+      knockoutSettings: { setsPerMatch: 1, pointsPerSet: 21, playThirdPlaceMatch: true, useReferees: false },
+    },
+  });
+  state = tournamentReducer(state, { type: 'START_TOURNAMENT', payload: state.tournaments[0].id });
+  return tournamentReducer(state, { type: 'CREATE_TOURNAMENT', payload: { ...state.tournaments[0], name: 'Zweites Turnier', teams: createTeams(4), system: 'round-robin', groupPhaseConfig: undefined } });
+}
+
+describe('transfer', () => {
+  it('exports a container with all phases and reads it back', () => {
+    const state = createStartedState();
+    const container = state.containers[0];
+    const document = createContainerExport(state, container.id, '2026-06-01T10:00:00.000Z')!;
+
+    expect(document.tournaments).toHaveLength(2);
+    expect(getExportFileName(document)).toBe('sommer-cup-koeln-2026-06-01.json');
+
+    const result = parseTransferFile(JSON.stringify(document));
+    expect(result.ok && result.document.tournaments).toEqual(document.tournaments);
+    expect(result.ok && result.document.version).toBe(CURRENT_VERSION);
+  });
+
+  it('migrates a legacy state without containers and with incomplete scheduling', () => {
+    const state = createStartedState();
+    const legacy = {
+      tournaments: state.tournaments.map(({ containerId: _c, phaseOrder: _o, ...t }) => ({
+        ...t,
+        scheduling: { startTime: '10:00', endTime: '18:00' },
+      })),
+      currentTournamentId: state.tournaments[0].id,
+    };
+
+    const result = readTransferDocument(legacy);
+    if (!result.ok) throw new Error(JSON.stringify(result.errors));
+
+    const { containers, tournaments } = result.document;
+    expect(containers).toHaveLength(2);
+    expect(containers[0].phases.map(p => p.tournamentId)).toEqual(state.tournaments.slice(0, 2).map(t => t.id));
+    expect(tournaments[1].containerId).toBe(containers[0].id);
+    expect(tournaments[0].scheduling).toEqual({ ...DEFAULT_SCHEDULING, startTime: '10:00', endTime: '18:00' });
+  });
+
+  it('reports errors per field', () => {
+    const document = createStateExport(createStartedState());
+    const broken = JSON.parse(JSON.stringify(document));
+    delete broken.tournaments[0].name;
+    broken.tournaments[0].matches[2].status = 'done';
+    broken.containers[1].phases[0].tournamentId = 'missing';
+
+    const result = readTransferDocument(broken);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      { path: 'tournaments[0].name', message: 'fehlt' },
+      { path: 'tournaments[0].matches[2].status', message: 'ungültiger Wert "done" (erlaubt: scheduled, in-progress, completed, pending)' },
+    ]);
+
+    delete broken.tournaments[0].matches;
+    broken.tournaments[0].name = 'Repariert';
+    broken.tournaments[0].matches = [];
+    expect(readTransferDocument(broken)).toEqual({
+      ok: false,
+      errors: [{ path: 'containers[1].phases[0].tournamentId', message: 'verweist auf eine fehlende Phase' }],
+    });
+  });
+
+  it('refuses files that are no export or come from a newer version', () => {
+    const document = createStateExport(createStartedState());
+
+    expect(parseTransferFile('{ kaputt')).toMatchObject({ ok: false, errors: [{ message: 'Die Datei ist keine gültige JSON-Datei' }] });
+    expect(readTransferDocument({ ...document, format: 'other' })).toMatchObject({ ok: false });
+    expect(readTransferDocument({ ...document, version: CURRENT_VERSION + 1 })).toMatchObject({
+      ok: false,
+      errors: [{ message: expect.stringContaining('neueren Version') }],
+    });
+  });
+});
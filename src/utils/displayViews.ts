@@ -0,0 +1,42 @@
+import type { EventDay, Match, TournamentSystem } from '../types/tournament';
+import { sortByPlannedStart } from './printSheets';
+
+/** What a court shows on the spectator display */
+export interface CourtOverview {
+  courtNumber: number;
+  /** Match in progress on the court */
+  current: Match | null;
+  /** Next match planned on the court */
+  next: Match | null;
+}
+
+const BRACKET_SYSTEMS: TournamentSystem[] = ['knockout', 'pool-play-knockout', 'short-main-knockout', 'placement-tree', 'double-elimination'];
+
+/** Whether the phase's matches form a bracket that BracketView can draw */
+export function isBracketSystem(system: TournamentSystem): boolean {
+  return BRACKET_SYSTEMS.includes(system);
+}
+
+const isOpen = (match: Match) => match.status === 'scheduled' || match.status === 'pending';
+
+/** Current and next match of every court; courts beyond the configured number only appear while in use */
+export function getCourtOverview(matches: Match[], numberOfCourts: number, days?: EventDay[]): CourtOverview[] {
+  const ordered = sortByPlannedStart(matches, days);
+  const usedCourts = ordered.filter(m => m.status !== 'completed').map(m => m.courtNumber ?? 0);
+  const courtCount = Math.max(numberOfCourts, ...usedCourts);
+
+  return Array.from({ length: courtCount }, (_, i) => {
+    const courtNumber = i + 1;
+    const onCourt = ordered.filter(m => m.courtNumber === courtNumber);
+    return {
+      courtNumber,
+      current: onCourt.find(m => m.status === 'in-progress') ?? null,
+      next: onCourt.find(isOpen) ?? null,
+    };
+  }).filter(court => court.courtNumber <= numberOfCourts || court.current || court.next);
+}
+
+/** Matches not yet started, in planned order */
+export function getUpcomingMatches(matches: Match[], limit: number, days?: EventDay[]): Match[] {
+  return sortByPlannedStart(matches, days).filter(isOpen).slice(0, limit);
+}
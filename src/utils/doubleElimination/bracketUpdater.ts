@@ -0,0 +1,34 @@
+import type { Match } from '../../types/tournament';
+import { updateKnockoutBracket } from '../knockout';
+import { resolveByeMatches, type ByeMatchConfig } from '../knockout/byeHandler';
+
+const RESET_NOT_NEEDED_PLACEHOLDER = 'Nicht erforderlich';
+
+/**
+ * Updates the double elimination bracket after a match is completed
+ * Propagates winners/losers, cancels an unneeded reset match and resolves byes
+ */
+export function updateDoubleEliminationBracket(
+  matches: Match[],
+  completedMatchId: string,
+  config: ByeMatchConfig = {}
+): Match[] {
+  let updatedMatches = updateKnockoutBracket(matches, completedMatchId);
+
+  // Winners bracket champion (team A) won the grand final: no reset needed
+  const completedMatch = updatedMatches.find(m => m.id === completedMatchId);
+  if (completedMatch?.knockoutRound === 'grand-final' && completedMatch.winnerId === completedMatch.teamAId) {
+    updatedMatches = updatedMatches.map(m => m.knockoutRound === 'grand-final-reset' ? {
+      ...m,
+      teamAId: null,
+      teamBId: null,
+      teamAPlaceholder: RESET_NOT_NEEDED_PLACEHOLDER,
+      teamBPlaceholder: RESET_NOT_NEEDED_PLACEHOLDER,
+      courtNumber: null,
+      winnerId: null,
+      status: 'completed' as const,
+    } : m);
+  }
+
+  return resolveByeMatches(updatedMatches, config);
+}
@@ -0,0 +1,198 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Match, Team, DoubleEliminationConfig } from '../../types/tournament';
+import { getBracketSize, getBracketSeedPositions } from '../poolPlay';
+import {
+  MIN_DOUBLE_ELIMINATION_TEAMS,
+  MAX_DOUBLE_ELIMINATION_TEAMS,
+  getWinnersGlobalRound,
+  getLosersGlobalRound,
+} from './helpers';
+import { resolveByeMatches } from '../knockout/byeHandler';
+
+interface DoubleEliminationMatchOptions {
+  numberOfCourts: number;
+  setsPerMatch: number;
+  pointsPerSet: number;
+  config: DoubleEliminationConfig;
+}
+
+type MatchSource = { match: Match; result: 'winner' | 'loser' };
+
+/**
+ * Generates all matches of a double elimination bracket from the seeded team list
+ * Top seeds receive byes; losers bracket slots fed by byes are resolved automatically
+ */
+export function generateDoubleEliminationMatches(
+  teams: Team[],
+  options: DoubleEliminationMatchOptions
+): Match[] {
+  if (teams.length < MIN_DOUBLE_ELIMINATION_TEAMS || teams.length > MAX_DOUBLE_ELIMINATION_TEAMS) {
+    throw new Error(
+      `Doppel-K.O. benötigt ${MIN_DOUBLE_ELIMINATION_TEAMS} bis ${MAX_DOUBLE_ELIMINATION_TEAMS} Teams`
+    );
+  }
+
+  const seededTeams = [...teams].sort((a, b) => a.seedPosition - b.seedPosition);
+  const bracketSize = getBracketSize(seededTeams.length);
+  const numWinnersRounds = Math.log2(bracketSize);
+  const numLosersRounds = 2 * (numWinnersRounds - 1);
+  const { numberOfCourts } = options;
+
+  const matches: Match[] = [];
+  let matchNumber = 1;
+  const courtCounters = new Map<number, number>();
+  const nextCourt = (round: number) => {
+    const count = courtCounters.get(round) ?? 0;
+    courtCounters.set(round, count + 1);
+    return (count % numberOfCourts) + 1;
+  };
+
+  const createMatch = (
+    round: number,
+    knockoutRound: Match['knockoutRound'],
+    bracketPosition: number,
+    sourceA: MatchSource,
+    sourceB: MatchSource
+  ): Match => {
+    const label = (source: MatchSource) =>
+      `${source.result === 'winner' ? 'Sieger' : 'Verlierer'} Spiel ${source.match.matchNumber}`;
+    return {
+      id: uuidv4(),
+      round,
+      matchNumber: matchNumber++,
+      teamAId: null,
+      teamBId: null,
+      teamAPlaceholder: label(sourceA),
+      teamBPlaceholder: label(sourceB),
+      courtNumber: nextCourt(round),
+      scores: [],
+      winnerId: null,
+      status: 'pending',
+      knockoutRound,
+      bracketPosition,
+      dependsOn: {
+        teamA: { matchId: sourceA.match.id, result: sourceA.result },
+        teamB: { matchId: sourceB.match.id, result: sourceB.result },
+      },
+    };
+  };
+
+  // Winners bracket round 1: seeded line-up, missing seeds are byes
+  const positions = getBracketSeedPositions(bracketSize);
+  const winnersRounds: Match[][] = [[]];
+  for (let i = 0; i < positions.length; i += 2) {
+    const teamA = seededTeams[positions[i] - 1] ?? null;
+    const teamB = seededTeams[positions[i + 1] - 1] ?? null;
+    winnersRounds[0].push({
+      id: uuidv4(),
+      round: 1,
+      matchNumber: matchNumber++,
+      teamAId: teamA?.id ?? null,
+      teamBId: teamB?.id ?? null,
+      courtNumber: teamA && teamB ? nextCourt(1) : null,
+      scores: [],
+      winnerId: null,
+      status: teamA && teamB ? 'scheduled' : 'pending',
+      knockoutRound: 'winners-bracket',
+      bracketPosition: i / 2 + 1,
+    });
+  }
+  matches.push(...winnersRounds[0]);
+
+  // Remaining rounds in play order so that match numbers follow the schedule
+  const losersRounds: Match[][] = [];
+  for (let winnersRound = 2; winnersRound <= numWinnersRounds + 1; winnersRound++) {
+    const globalRound = getWinnersGlobalRound(winnersRound);
+
+    // Losers bracket round played alongside this winners round
+    const losersRound = globalRound - 1;
+    if (losersRound >= 1 && losersRound <= numLosersRounds) {
+      losersRounds.push(createLosersRound(losersRound));
+    }
+
+    if (winnersRound <= numWinnersRounds) {
+      const previous = winnersRounds[winnersRound - 2];
+      const roundMatches: Match[] = [];
+      for (let i = 0; i < previous.length; i += 2) {
+        roundMatches.push(createMatch(
+          globalRound, 'winners-bracket', i / 2 + 1,
+          { match: previous[i], result: 'winner' },
+          { match: previous[i + 1], result: 'winner' }
+        ));
+      }
+      winnersRounds.push(roundMatches);
+      matches.push(...roundMatches);
+    }
+
+    // Even losers round (drop-in of winners bracket losers) follows in the next global round
+    if (losersRound + 1 <= numLosersRounds && losersRound >= 1) {
+      losersRounds.push(createLosersRound(losersRound + 1));
+    }
+  }
+
+  function createLosersRound(losersRound: number): Match[] {
+    const round = getLosersGlobalRound(losersRound);
+    const roundMatches: Match[] = [];
+
+    if (losersRound === 1) {
+      // Losers of the first winners round play each other
+      const dropped = winnersRounds[0];
+      for (let i = 0; i < dropped.length; i += 2) {
+        roundMatches.push(createMatch(
+          round, 'losers-bracket', i / 2 + 1,
+          { match: dropped[i], result: 'loser' },
+          { match: dropped[i + 1], result: 'loser' }
+        ));
+      }
+    } else if (losersRound % 2 === 0) {
+      // Survivors meet the losers of the next winners round (alternating order to avoid rematches)
+      const survivors = losersRounds[losersRound - 2];
+      const dropped = winnersRounds[losersRound / 2];
+      const reversed = (losersRound / 2) % 2 === 1;
+      survivors.forEach((survivor, i) => {
+        const droppedMatch = reversed ? dropped[dropped.length - 1 - i] : dropped[i];
+        roundMatches.push(createMatch(
+          round, 'losers-bracket', i + 1,
+          { match: survivor, result: 'winner' },
+          { match: droppedMatch, result: 'loser' }
+        ));
+      });
+    } else {
+      // Survivors play each other
+      const survivors = losersRounds[losersRound - 2];
+      for (let i = 0; i < survivors.length; i += 2) {
+        roundMatches.push(createMatch(
+          round, 'losers-bracket', i / 2 + 1,
+          { match: survivors[i], result: 'winner' },
+          { match: survivors[i + 1], result: 'winner' }
+        ));
+      }
+    }
+
+    matches.push(...roundMatches);
+    return roundMatches;
+  }
+
+  // Grand final: winners bracket champion vs. losers bracket champion
+  const grandFinalRound = 2 * numWinnersRounds;
+  const grandFinal = createMatch(
+    grandFinalRound, 'grand-final', 1,
+    { match: winnersRounds[numWinnersRounds - 1][0], result: 'winner' },
+    { match: losersRounds[numLosersRounds - 1][0], result: 'winner' }
+  );
+  grandFinal.playoffForPlace = 1;
+  matches.push(grandFinal);
+
+  // Optional reset: only played if the losers bracket champion wins the grand final
+  if (options.config.playGrandFinalReset) {
+    const reset = createMatch(
+      grandFinalRound + 1, 'grand-final-reset', 1,
+      { match: grandFinal, result: 'winner' },
+      { match: grandFinal, result: 'loser' }
+    );
+    reset.playoffForPlace = 1;
+    matches.push(reset);
+  }
+
+  return resolveByeMatches(matches, options);
+}
@@ -0,0 +1,73 @@
+import type { Match } from '../../types/tournament';
+
+/** Supported number of teams for double elimination */
+export const MIN_DOUBLE_ELIMINATION_TEAMS = 6;
+export const MAX_DOUBLE_ELIMINATION_TEAMS = 32;
+
+/**
+ * Round within its own bracket, derived from the global round number
+ * Global order: WB 1 | WB 2 + LB 1 | LB 2 | WB 3 + LB 3 | LB 4 | ...
+ */
+export function getBracketRound(match: Match): number {
+  if (match.knockoutRound === 'losers-bracket') return match.round - 1;
+  return match.round === 1 ? 1 : match.round / 2 + 1;
+}
+
+/** Global round number of a winners bracket round */
+export function getWinnersGlobalRound(bracketRound: number): number {
+  return bracketRound === 1 ? 1 : 2 * (bracketRound - 1);
+}
+
+/** Global round number of a losers bracket round */
+export function getLosersGlobalRound(bracketRound: number): number {
+  return bracketRound + 1;
+}
+
+/**
+ * Gets the display label for a double elimination round
+ */
+export function getDoubleEliminationRoundLabel(match: Match, allMatches: Match[]): string {
+  switch (match.knockoutRound) {
+    case 'grand-final': return 'Großes Finale';
+    case 'grand-final-reset': return 'Entscheidungsspiel';
+    case 'winners-bracket':
+    case 'losers-bracket': {
+      const bracketRound = getBracketRound(match);
+      const isLastRound = !allMatches.some(m =>
+        m.knockoutRound === match.knockoutRound && getBracketRound(m) > bracketRound
+      );
+      const bracketName = match.knockoutRound === 'winners-bracket' ? 'Gewinnerrunde' : 'Verliererrunde';
+      return isLastRound ? `Finale ${bracketName}` : `${bracketName} ${bracketRound}`;
+    }
+    default: return 'Runde';
+  }
+}
+
+/**
+ * Determines for every match whether its winner and loser can be a real team
+ * A slot is dead when it is a bye in the first round or fed by a result that can never exist
+ */
+export function getLiveResults(matches: Match[]): Map<string, { winner: boolean; loser: boolean }> {
+  const results = new Map<string, { winner: boolean; loser: boolean }>();
+  const byId = new Map(matches.map(m => [m.id, m]));
+
+  const isSlotLive = (teamId: string | null, source?: { matchId: string; result: 'winner' | 'loser' }): boolean => {
+    if (teamId) return true;
+    if (!source) return false;
+    const sourceMatch = byId.get(source.matchId);
+    return !!sourceMatch && resolve(sourceMatch)[source.result];
+  };
+
+  function resolve(match: Match): { winner: boolean; loser: boolean } {
+    const cached = results.get(match.id);
+    if (cached) return cached;
+    const liveA = isSlotLive(match.teamAId, match.dependsOn?.teamA);
+    const liveB = isSlotLive(match.teamBId, match.dependsOn?.teamB);
+    const result = { winner: liveA || liveB, loser: liveA && liveB };
+    results.set(match.id, result);
+    return result;
+  }
+
+  matches.forEach(resolve);
+  return results;
+}
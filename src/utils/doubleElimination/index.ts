@@ -0,0 +1,16 @@
+/**
+ * Double Elimination Module
+ *
+ * Winners and losers bracket seeded from the team list, followed by a grand final
+ * with an optional reset match. Top seeds receive byes for 6-32 teams.
+ */
+
+export { generateDoubleEliminationMatches } from './generator';
+export { updateDoubleEliminationBracket } from './bracketUpdater';
+export { calculateDoubleEliminationPlacements } from './placements';
+export {
+  getBracketRound,
+  getDoubleEliminationRoundLabel,
+  MIN_DOUBLE_ELIMINATION_TEAMS,
+  MAX_DOUBLE_ELIMINATION_TEAMS,
+} from './helpers';
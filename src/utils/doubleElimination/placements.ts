@@ -0,0 +1,53 @@
+import type { Match } from '../../types/tournament';
+import { getBracketRound, getLiveResults } from './helpers';
+
+const formatRange = (start: number, end: number): string =>
+  start === end ? `${start}.` : `${start}.-${end}.`;
+
+/**
+ * Calculates final placements for a double elimination bracket
+ * Grand final (or reset) decides 1st/2nd, teams knocked out in the same
+ * losers bracket round share the placement range
+ */
+export function calculateDoubleEliminationPlacements(
+  matches: Match[]
+): { teamId: string; placement: string }[] {
+  const placements: { teamId: string; placement: string }[] = [];
+  const getLoserId = (match: Match) =>
+    match.teamAId === match.winnerId ? match.teamBId : match.teamAId;
+
+  const grandFinal = matches.find(m => m.knockoutRound === 'grand-final');
+  const reset = matches.find(m => m.knockoutRound === 'grand-final-reset');
+  const deciding = reset?.winnerId ? reset : grandFinal;
+  const isDecided = deciding?.status === 'completed' && !!deciding.winnerId &&
+    (deciding === reset || !reset || reset.status === 'completed');
+
+  if (deciding && isDecided) {
+    placements.push({ teamId: deciding.winnerId!, placement: '1.' });
+    const loserId = getLoserId(deciding);
+    if (loserId) placements.push({ teamId: loserId, placement: '2.' });
+  }
+
+  // Losers bracket rounds from the final backwards; only matches with two real teams eliminate someone
+  const liveResults = getLiveResults(matches);
+  const losersMatches = matches.filter(m => m.knockoutRound === 'losers-bracket');
+  const numLosersRounds = Math.max(0, ...losersMatches.map(getBracketRound));
+  let nextPlace = 3;
+  for (let round = numLosersRounds; round >= 1; round--) {
+    const roundMatches = losersMatches.filter(m =>
+      getBracketRound(m) === round && liveResults.get(m.id)?.loser
+    );
+    if (roundMatches.length === 0) continue;
+    const placement = formatRange(nextPlace, nextPlace + roundMatches.length - 1);
+    nextPlace += roundMatches.length;
+
+    roundMatches
+      .filter(m => m.status === 'completed' && m.winnerId)
+      .forEach(m => {
+        const loserId = getLoserId(m);
+        if (loserId) placements.push({ teamId: loserId, placement });
+      });
+  }
+
+  return placements;
+}
@@ -0,0 +1,221 @@
+import type { EventCalendar, KnockoutSettings, SchedulingSettings, TournamentSystem } from '../types/tournament';
+import { calculateTimeEstimation, type TimeEstimation } from './timeEstimation';
+import { calculateGroupConfiguration } from './groupConfiguration';
+import { calculateMatchDuration, parseTimeToMinutes } from './scheduling';
+import { MIN_DOUBLE_ELIMINATION_TEAMS, MAX_DOUBLE_ELIMINATION_TEAMS } from './doubleElimination';
+
+/** Form values an advisor option sets */
+export interface FormatSettings {
+  system: TournamentSystem;
+  teamsPerGroup?: 3 | 4 | 5;
+  numberOfRounds?: number;
+  setsPerMatch: number;
+  pointsPerSet: number;
+  pointsPerThirdSet: number;
+  enablePlayoff: boolean;
+  knockoutSettings: KnockoutSettings;
+}
+
+export interface FormatOption {
+  id: string;
+  label: string;
+  settings: FormatSettings;
+  estimation: TimeEstimation;
+  minMatchesPerTeam: number;
+  avgMatchesPerTeam: number;
+  /** Average time per team between arrival and the end without playing */
+  idleMinutesPerTeam: number;
+  /** Estimated duration minus the available time; negative if time is left */
+  overrunMinutes: number;
+  fits: boolean;
+  meetsMinimum: boolean;
+}
+
+export interface AdvisorParams {
+  teamsCount: number;
+  numberOfCourts: number;
+  scheduling: SchedulingSettings;
+  minMatchesPerTeam: number;
+  calendar?: EventCalendar;
+}
+
+interface MatchFormat {
+  setsPerMatch: number;
+  pointsPerSet: number;
+  label: string;
+}
+
+const MATCH_FORMATS: MatchFormat[] = [
+  { setsPerMatch: 1, pointsPerSet: 21, label: '1 Satz bis 21' },
+  { setsPerMatch: 1, pointsPerSet: 15, label: '1 Satz bis 15' },
+  { setsPerMatch: 2, pointsPerSet: 15, label: '2 Sätze bis 15' },
+  { setsPerMatch: 3, pointsPerSet: 21, label: 'Best of 3 (21/21/15)' },
+];
+
+const GROUP_SYSTEMS: Array<{ system: TournamentSystem; label: string; thirdPlace: boolean }> = [
+  { system: 'group-phase', label: 'SSVB', thirdPlace: true },
+  { system: 'pool-play-single-out', label: 'Pool Play', thirdPlace: true },
+  { system: 'beachl-all-placements', label: 'BeachL Alle Platzierungen', thirdPlace: false },
+  { system: 'beachl-short-main', label: 'BeachL Kurze Hauptrunde', thirdPlace: false },
+];
+
+/** System-specific part of a candidate; the match format is varied separately */
+interface Variant {
+  label: string;
+  system: TournamentSystem;
+  teamsPerGroup?: 3 | 4 | 5;
+  numberOfRounds?: number;
+  enablePlayoff?: boolean;
+  playThirdPlaceMatch?: boolean;
+  /** Teams the estimate is based on (group slots including byes) */
+  estimatedTeams: number;
+  minMatchesPerTeam: number;
+}
+
+interface Candidate {
+  label: string;
+  settings: FormatSettings;
+  estimatedTeams: number;
+  minMatchesPerTeam: number;
+}
+
+/** Every supported system and variant that is possible with the given number of teams */
+function getCandidates(teamsCount: number, minMatches: number): Candidate[] {
+  const candidates: Candidate[] = [];
+  const add = (format: MatchFormat, { label, system, teamsPerGroup, numberOfRounds, enablePlayoff = false, playThirdPlaceMatch = false, ...rest }: Variant) => {
+    candidates.push({
+      ...rest,
+      label: `${label} · ${format.label}`,
+      settings: {
+        system,
+        teamsPerGroup,
+        numberOfRounds,
+        enablePlayoff,
+        setsPerMatch: format.setsPerMatch,
+        pointsPerSet: format.pointsPerSet,
+        pointsPerThirdSet: 15,
+        knockoutSettings: {
+          setsPerMatch: format.setsPerMatch === 1 ? 1 : 2,
+          pointsPerSet: format.pointsPerSet,
+          pointsPerThirdSet: 15,
+          playThirdPlaceMatch,
+          useReferees: true,
+        },
+      },
+    });
+  };
+  const oddTeams = teamsCount % 2;
+  const swissRounds = Math.min(teamsCount - 1, Math.max(minMatches + oddTeams, Math.ceil(Math.log2(teamsCount))));
+
+  MATCH_FORMATS.forEach(format => {
+    [false, true].forEach(enablePlayoff => {
+      const playoff = enablePlayoff && !oddTeams ? 1 : 0;
+      const suffix = enablePlayoff ? ' + Platzierungsspiele' : '';
+      add(format, {
+        label: `Jeder gegen Jeden${suffix}`,
+        system: 'round-robin',
+        enablePlayoff,
+        estimatedTeams: teamsCount,
+        minMatchesPerTeam: teamsCount - 1 + playoff,
+      });
+      add(format, {
+        label: `Schweizer System (${swissRounds} Runden)${suffix}`,
+        system: 'swiss',
+        numberOfRounds: swissRounds,
+        enablePlayoff,
+        estimatedTeams: teamsCount,
+        minMatchesPerTeam: swissRounds - oddTeams + playoff,
+      });
+    });
+
+    ([3, 4, 5] as const).forEach(teamsPerGroup => {
+      const groups = calculateGroupConfiguration(teamsCount, teamsPerGroup);
+      if (!groups.isValid) return;
+      const groupMatches = teamsPerGroup - 1 - (groups.byesNeeded > 0 ? 1 : 0);
+      GROUP_SYSTEMS.forEach(({ system, label, thirdPlace }) => {
+        (thirdPlace ? [true, false] : [false]).forEach(playThirdPlaceMatch => {
+          add(format, {
+            label: `${label} · ${teamsPerGroup}er-Gruppen${playThirdPlaceMatch ? ' · Spiel um Platz 3' : ''}`,
+            system,
+            teamsPerGroup,
+            playThirdPlaceMatch,
+            estimatedTeams: groups.totalSlots,
+            minMatchesPerTeam: groupMatches + (system === 'beachl-all-placements' ? 1 : 0),
+          });
+        });
+      });
+    });
+
+    if (teamsCount >= MIN_DOUBLE_ELIMINATION_TEAMS && teamsCount <= MAX_DOUBLE_ELIMINATION_TEAMS) {
+      add(format, { label: 'Doppel-K.O.', system: 'double-elimination', estimatedTeams: teamsCount, minMatchesPerTeam: 2 });
+    }
+  });
+  return candidates;
+}
+
+/** Playing time available on the day or on all days of the event calendar */
+function getAvailableMinutes(scheduling: SchedulingSettings, calendar?: EventCalendar): number {
+  const days = calendar?.days.length ? calendar.days : [scheduling];
+  return days.reduce((sum, day) => sum + parseTimeToMinutes(day.endTime) - parseTimeToMinutes(day.startTime), 0);
+}
+
+/**
+ * Evaluates every supported system and variant (group sizes, match formats,
+ * third-place match, playoff) for the given teams, courts and time and ranks
+ * them: first options that fit into the time and give every team the minimum
+ * number of matches, then the ones that only fit, then the rest by overrun.
+ * Among fitting options more matches per team and less waiting rank higher.
+ * Group systems with byes are estimated with the full group slots.
+ */
+export function adviseFormats({ teamsCount, numberOfCourts, scheduling, minMatchesPerTeam, calendar }: AdvisorParams): FormatOption[] {
+  if (teamsCount < 2) return [];
+  const availableMinutes = getAvailableMinutes(scheduling, calendar);
+
+  const options = getCandidates(teamsCount, minMatchesPerTeam).flatMap((candidate, index): FormatOption[] => {
+    const { settings } = candidate;
+    const isGroupBasedSystem = settings.teamsPerGroup !== undefined;
+    const estimation = calculateTimeEstimation({
+      teamsCount: candidate.estimatedTeams,
+      system: settings.system,
+      isGroupBasedSystem,
+      teamsPerGroup: settings.teamsPerGroup ?? 4,
+      numberOfCourts,
+      numberOfRounds: settings.numberOfRounds ?? 1,
+      setsPerMatch: settings.setsPerMatch,
+      pointsPerSet: settings.pointsPerSet,
+      pointsPerThirdSet: settings.pointsPerThirdSet,
+      knockoutSettings: settings.knockoutSettings,
+      enablePlayoff: settings.enablePlayoff,
+      scheduling,
+      calendar,
+    });
+    if (!estimation) return [];
+
+    const phase1Duration = calculateMatchDuration(settings.setsPerMatch, settings.pointsPerSet, settings.pointsPerThirdSet, scheduling);
+    const knockout = settings.knockoutSettings;
+    const phase2Duration = (knockout.pointsPerSet === 21 ? scheduling.minutesPer21PointSet : scheduling.minutesPer15PointSet)
+      * (knockout.setsPerMatch === 2 ? 2 : 1);
+    const avgMatchesPerTeam = (2 * (estimation.phase1Matches + estimation.phase2Matches)) / teamsCount;
+    const playingMinutes = (2 * (estimation.phase1Matches * phase1Duration + estimation.phase2Matches * phase2Duration)) / teamsCount;
+    const overrunMinutes = estimation.totalMinutes - availableMinutes;
+
+    return [{
+      id: `${settings.system}-${index}`,
+      label: candidate.label,
+      settings,
+      estimation,
+      minMatchesPerTeam: candidate.minMatchesPerTeam,
+      avgMatchesPerTeam,
+      idleMinutesPerTeam: Math.max(0, Math.round(estimation.totalMinutes - playingMinutes)),
+      overrunMinutes,
+      fits: overrunMinutes <= 0,
+      meetsMinimum: candidate.minMatchesPerTeam >= minMatchesPerTeam,
+    }];
+  });
+
+  const tier = (o: FormatOption) => (o.fits ? 0 : 2) + (o.meetsMinimum ? 0 : 1);
+  return options.sort((a, b) =>
+    tier(a) - tier(b)
+    || (a.fits ? b.avgMatchesPerTeam - a.avgMatchesPerTeam || a.idleMinutesPerTeam - b.idleMinutesPerTeam : a.overrunMinutes - b.overrunMinutes)
+  );
+}
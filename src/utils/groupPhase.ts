@@ -1,6 +1,8 @@
 import { v4 as uuidv4 } from 'uuid';
-import type { Team, Match, Group, GroupPhaseConfig, GroupStandingEntry } from '../types/tournament';
+import type { Team, Match, Group, GroupPhaseConfig, GroupStandingEntry, TiebreakerOrder, TiebreakerCriterion } from '../types/tournament';
 import { distributeByesAcrossGroups } from './groupConfiguration';
+import { getTiebreakers, rankStandings } from './tiebreakers';
+import { applyResultScoring, type ResultScoringSettings } from './matchResults';
 
 /**
  * Generates groups using Snake-Draft algorithm
@@ -208,15 +210,14 @@ export function generateGroupPhaseMatches(
   const maxMatchesPerGroup = Math.max(...groupMatches.map(m => m.length));
 
   let overallMatchNumber = 1;
-  let currentCourt = 1;
 
   for (let i = 0; i < maxMatchesPerGroup; i++) {
     for (let g = 0; g < groupMatches.length; g++) {
       if (i < groupMatches[g].length) {
         const match = groupMatches[g][i];
         match.matchNumber = overallMatchNumber++;
-        match.courtNumber = currentCourt;
-        currentCourt = currentCourt >= numberOfCourts ? 1 : currentCourt + 1;
+        // Each group keeps its court; the scheduler only moves matches if that court is busy
+        match.courtNumber = (g % numberOfCourts) + 1;
         allMatches.push(match);
       }
     }
@@ -236,15 +237,23 @@ export function generateGroupPhaseMatches(
 
 /**
  * Calculates standings for a specific group
+ * Accepts a tiebreaker chain or the legacy tiebreaker order; special results count per their scoring rule
+ * `lots` is the drawn order of tied teams (Tournament.lots).
  */
 export function calculateGroupStandings(
   groupId: string,
   teams: Team[],
   matches: Match[],
   setsPerMatch: number,
-  tiebreakerOrder: 'head-to-head-first' | 'point-diff-first'
+  tiebreakers: TiebreakerOrder | TiebreakerCriterion[],
+  scoring: ResultScoringSettings = {},
+  lots: string[] = []
 ): GroupStandingEntry[] {
-  const groupMatches = matches.filter(m => m.groupId === groupId && m.status === 'completed');
+  const groupMatches = applyResultScoring(
+    matches.filter(m => m.groupId === groupId && m.status === 'completed'),
+    setsPerMatch,
+    scoring
+  );
   const groupTeamIds = new Set(
     groupMatches.flatMap(m => [m.teamAId, m.teamBId]).filter((id): id is string => id !== null)
   );
@@ -300,61 +309,19 @@ export function calculateGroupStandings(
     };
   });
 
-  // Sort standings
-  standings.sort((a, b) => {
-    // Primary: points (wins or sets depending on format)
-    if (a.points !== b.points) return b.points - a.points;
-
-    // Secondary: based on tiebreaker order
-    if (tiebreakerOrder === 'head-to-head-first') {
-      // Check head-to-head
-      const headToHead = getHeadToHeadResult(a.teamId, b.teamId, groupMatches);
-      if (headToHead !== 0) return headToHead;
-
-      // Then point difference
-      const pointDiffA = a.pointsWon - a.pointsLost;
-      const pointDiffB = b.pointsWon - b.pointsLost;
-      if (pointDiffA !== pointDiffB) return pointDiffB - pointDiffA;
-    } else {
-      // Point difference first
-      const pointDiffA = a.pointsWon - a.pointsLost;
-      const pointDiffB = b.pointsWon - b.pointsLost;
-      if (pointDiffA !== pointDiffB) return pointDiffB - pointDiffA;
-
-      // Then head-to-head
-      const headToHead = getHeadToHeadResult(a.teamId, b.teamId, groupMatches);
-      if (headToHead !== 0) return headToHead;
-    }
-
-    // Tertiary: set difference
-    const setDiffA = a.setsWon - a.setsLost;
-    const setDiffB = b.setsWon - b.setsLost;
-    return setDiffB - setDiffA;
+  // Sort by points, then by the tiebreaker chain (mini-table among tied teams of this group)
+  const ranked = rankStandings(standings, groupMatches, {
+    setsPerMatch,
+    tiebreakers: Array.isArray(tiebreakers) ? tiebreakers : getTiebreakers(undefined, tiebreakers),
+    lots,
   });
 
   // Assign ranks
-  standings.forEach((entry, index) => {
+  ranked.forEach((entry, index) => {
     entry.groupRank = index + 1;
   });
 
-  return standings;
-}
-
-/**
- * Returns head-to-head result between two teams
- * Returns positive if teamA won, negative if teamB won, 0 if tied or not played
- */
-function getHeadToHeadResult(teamAId: string, teamBId: string, matches: Match[]): number {
-  const match = matches.find(
-    m => (m.teamAId === teamAId && m.teamBId === teamBId) ||
-         (m.teamAId === teamBId && m.teamBId === teamAId)
-  );
-
-  if (!match || !match.winnerId) return 0;
-
-  if (match.winnerId === teamAId) return -1; // teamA is better (lower in sort)
-  if (match.winnerId === teamBId) return 1;  // teamB is better
-  return 0;
+  return ranked;
 }
 
 /**
@@ -365,7 +332,9 @@ export function calculateAllGroupStandings(
   teams: Team[],
   matches: Match[],
   setsPerMatch: number,
-  tiebreakerOrder: 'head-to-head-first' | 'point-diff-first'
+  tiebreakers: TiebreakerOrder | TiebreakerCriterion[],
+  scoring: ResultScoringSettings = {},
+  lots: string[] = []
 ): GroupStandingEntry[] {
   const allStandings: GroupStandingEntry[] = [];
 
@@ -375,7 +344,9 @@ export function calculateAllGroupStandings(
       teams,
       matches,
       setsPerMatch,
-      tiebreakerOrder
+      tiebreakers,
+      scoring,
+      lots
     );
     allStandings.push(...groupStandings);
   }
@@ -13,7 +13,7 @@ const BYE_PLACEHOLDER = 'Freilos';
  * Creates scores for a bye match where the real team wins by default
  * The bye (Freilos) gets 0 points in all sets
  */
-function createByeScores(config: ByeMatchConfig, winnerIsTeamA: boolean): SetScore[] {
+export function createByeScores(config: ByeMatchConfig, winnerIsTeamA: boolean): SetScore[] {
   const setsPerMatch = config.setsPerMatch || 1;
   const pointsPerSet = config.pointsPerSet || 21;
 
@@ -95,3 +95,61 @@ function propagateWinner(matches: Match[], matchId: string, winnerId: string): v
     }
   }
 }
+
+/**
+ * Auto-completes matches where a side can never be filled
+ * (first round byes, losers of bye matches, winners of empty matches)
+ * One remaining team advances; matches without any team are completed without winner
+ */
+export function resolveByeMatches(matches: Match[], config: ByeMatchConfig = {}): Match[] {
+  const updatedMatches = [...matches];
+  const indexById = new Map(updatedMatches.map((m, i) => [m.id, i]));
+
+  const getSlot = (teamId: string | null, source?: { matchId: string; result: 'winner' | 'loser' }) => {
+    if (teamId) return { state: 'team' as const, teamId };
+    if (!source) return { state: 'dead' as const, teamId: null };
+    const sourceMatch = updatedMatches[indexById.get(source.matchId) ?? -1];
+    if (!sourceMatch || sourceMatch.status !== 'completed') return { state: 'waiting' as const, teamId: null };
+    const loserId = sourceMatch.winnerId
+      ? (sourceMatch.teamAId === sourceMatch.winnerId ? sourceMatch.teamBId : sourceMatch.teamAId)
+      : null;
+    const resultId = source.result === 'winner' ? sourceMatch.winnerId : loserId;
+    return resultId ? { state: 'team' as const, teamId: resultId } : { state: 'dead' as const, teamId: null };
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    updatedMatches.forEach((match, i) => {
+      if (match.status === 'completed') return;
+
+      const slotA = getSlot(match.teamAId, match.dependsOn?.teamA);
+      const slotB = getSlot(match.teamBId, match.dependsOn?.teamB);
+
+      // A team advancing from a bye is already shown while its opponent is still waiting
+      const isWaiting = slotA.state === 'waiting' || slotB.state === 'waiting';
+      let updated: Match = { ...match, teamAId: slotA.teamId, teamBId: slotB.teamId };
+      if (!isWaiting && (slotA.state === 'dead' || slotB.state === 'dead')) {
+        const winnerId = slotA.teamId ?? slotB.teamId;
+        updated = {
+          ...updated,
+          teamAPlaceholder: slotA.state === 'dead' ? BYE_PLACEHOLDER : match.teamAPlaceholder,
+          teamBPlaceholder: slotB.state === 'dead' ? BYE_PLACEHOLDER : match.teamBPlaceholder,
+          courtNumber: null,
+          winnerId,
+          status: 'completed',
+          scores: winnerId ? createByeScores(config, winnerId === slotA.teamId) : [],
+        };
+      } else if (!isWaiting && updated.status === 'pending') {
+        updated = { ...updated, status: 'scheduled' };
+      }
+
+      if (updated.status !== match.status || updated.teamAId !== match.teamAId || updated.teamBId !== match.teamBId) {
+        updatedMatches[i] = updated;
+        changed = true;
+      }
+    });
+  }
+
+  return updatedMatches;
+}
@@ -1,9 +1,11 @@
 export { generateKnockoutTournament } from './generator';
 export { generateKnockoutTournamentPlaceholder } from './placeholderGenerator';
+export { generateSeededKnockoutMatches } from './seededGenerator';
 export { populateKnockoutTeams } from './populateTeams';
 export { updateKnockoutBracket } from './bracketUpdater';
 export {
   calculateKnockoutPlacements,
+  calculateSeededKnockoutPlacements,
   getKnockoutRoundLabel,
   getSSVBKnockoutMatchCount,
 } from './placements';
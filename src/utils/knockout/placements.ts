@@ -1,4 +1,5 @@
 import type { Match, Team, KnockoutRoundType } from '../../types/tournament';
+import { calculateSingleOutPlacements } from '../poolPlay/placements';
 
 /**
  * Gets the knockout round label in German
@@ -7,6 +8,12 @@ export function getKnockoutRoundLabel(round: KnockoutRoundType): string {
   switch (round) {
     case 'intermediate':
       return 'Zwischenrunde';
+    case 'round-of-64':
+      return 'Zweiunddreißigstelfinale';
+    case 'round-of-32':
+      return 'Sechzehntelfinale';
+    case 'round-of-16':
+      return 'Achtelfinale';
     case 'quarterfinal':
       return 'Viertelfinale';
     case 'semifinal':
@@ -91,3 +98,11 @@ export function getSSVBKnockoutMatchCount(playThirdPlaceMatch: boolean): number
   // 4 intermediate + 4 quarterfinal + 2 semifinal + final + optional 3rd place
   return playThirdPlaceMatch ? 12 : 11;
 }
+
+/**
+ * Calculates final placements for a knockout started directly from the team list
+ * First round matches with a missing team are byes
+ */
+export function calculateSeededKnockoutPlacements(matches: Match[]): { teamId: string; placement: string }[] {
+  return calculateSingleOutPlacements(matches, m => m.round === 1 && (!m.teamAId || !m.teamBId));
+}
@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Match, Team } from '../../types/tournament';
+import { getBracketSeedPositions, getSingleOutRoundType } from '../poolPlay/helpers';
+import {
+  createTeamSeedOrder,
+  MIN_SEEDED_BRACKET_TEAMS,
+  MAX_SEEDED_BRACKET_TEAMS,
+} from '../placementTree/helpers';
+import { resolveByeMatches, type ByeMatchConfig } from './byeHandler';
+
+interface SeededKnockoutOptions extends ByeMatchConfig {
+  numberOfCourts: number;
+  playThirdPlaceMatch: boolean;
+}
+
+/**
+ * Generates a single-out bracket directly from the seeded team list
+ * Standard line-up (seed 1 and 2 meet in the final at the earliest); top seeds receive byes
+ */
+export function generateSeededKnockoutMatches(teams: Team[], options: SeededKnockoutOptions): Match[] {
+  if (teams.length < MIN_SEEDED_BRACKET_TEAMS || teams.length > MAX_SEEDED_BRACKET_TEAMS) {
+    throw new Error(`K.O.-System benötigt ${MIN_SEEDED_BRACKET_TEAMS} bis ${MAX_SEEDED_BRACKET_TEAMS} Teams`);
+  }
+
+  const { numberOfCourts } = options;
+  const seeded = createTeamSeedOrder(teams);
+  const bracketSize = seeded.length;
+  const numRounds = Math.log2(bracketSize);
+  const positions = getBracketSeedPositions(bracketSize);
+  const matches: Match[] = [];
+  let matchNumber = 1;
+
+  // First round: bye matches are not played and get no court
+  let courtIndex = 0;
+  let prevRoundMatches: Match[] = [];
+  for (let i = 0; i < positions.length; i += 2) {
+    const teamA = seeded[positions[i] - 1];
+    const teamB = seeded[positions[i + 1] - 1];
+    const isBye = !teamA || !teamB;
+    prevRoundMatches.push({
+      id: uuidv4(),
+      round: 1,
+      matchNumber: matchNumber++,
+      teamAId: teamA?.id ?? null,
+      teamBId: teamB?.id ?? null,
+      courtNumber: isBye ? null : (courtIndex++ % numberOfCourts) + 1,
+      scores: [],
+      winnerId: null,
+      status: isBye ? 'pending' : 'scheduled',
+      knockoutRound: getSingleOutRoundType(bracketSize),
+      bracketPosition: i / 2 + 1,
+    });
+  }
+  matches.push(...prevRoundMatches);
+
+  for (let round = 2; round <= numRounds; round++) {
+    const teamsInRound = bracketSize / Math.pow(2, round - 1);
+
+    // Third place match is played in the final round, numbered before the final
+    if (teamsInRound === 2 && options.playThirdPlaceMatch) {
+      const thirdPlace = createDependentMatch(
+        round, matchNumber++, prevRoundMatches[0], prevRoundMatches[1], 'loser', Math.min(2, numberOfCourts), 2
+      );
+      matches.push({ ...thirdPlace, knockoutRound: 'third-place', playoffForPlace: 3 });
+    }
+
+    const roundMatches: Match[] = [];
+    for (let i = 0; i < prevRoundMatches.length; i += 2) {
+      const match = createDependentMatch(
+        round, matchNumber++, prevRoundMatches[i], prevRoundMatches[i + 1], 'winner',
+        ((i / 2) % numberOfCourts) + 1, i / 2 + 1
+      );
+      match.knockoutRound = getSingleOutRoundType(teamsInRound);
+      if (teamsInRound === 2) match.playoffForPlace = 1;
+      roundMatches.push(match);
+    }
+
+    matches.push(...roundMatches);
+    prevRoundMatches = roundMatches;
+  }
+
+  return resolveByeMatches(matches, options);
+}
+
+function createDependentMatch(
+  round: number,
+  matchNumber: number,
+  matchA: Match,
+  matchB: Match,
+  result: 'winner' | 'loser',
+  courtNumber: number,
+  bracketPosition: number
+): Match {
+  const label = result === 'winner' ? 'Sieger' : 'Verlierer';
+  return {
+    id: uuidv4(),
+    round,
+    matchNumber,
+    teamAId: null,
+    teamBId: null,
+    teamAPlaceholder: `${label} Spiel ${matchA.matchNumber}`,
+    teamBPlaceholder: `${label} Spiel ${matchB.matchNumber}`,
+    courtNumber,
+    scores: [],
+    winnerId: null,
+    status: 'pending',
+    bracketPosition,
+    dependsOn: {
+      teamA: { matchId: matchA.id, result },
+      teamB: { matchId: matchB.id, result },
+    },
+  };
+}
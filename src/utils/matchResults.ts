@@ -0,0 +1,119 @@
+import type { Match, ResultScoring, ResultScoringRule, SetScore, SpecialResultType } from '../types/tournament';
+import { getWinnerFromScores } from './resultCorrection';
+
+/** A result decided without (or before the end of) the match, and who gets the win */
+export interface SpecialResult {
+  resultType: SpecialResultType;
+  winnerId: string;
+}
+
+/** Point settings and scoring rules that decide what a special result counts for */
+export interface ResultScoringSettings {
+  pointsPerSet?: number;
+  pointsPerThirdSet?: number;
+  resultScoring?: Partial<ResultScoring>;
+}
+
+export const SPECIAL_RESULT_TYPES: SpecialResultType[] = ['forfeit', 'walkover', 'retired'];
+
+export const RESULT_TYPE_LABELS: Record<SpecialResultType, string> = {
+  forfeit: 'Nicht angetreten',
+  walkover: 'Kampflos',
+  retired: 'Aufgabe',
+};
+
+export const RESULT_TYPE_DESCRIPTIONS: Record<SpecialResultType, string> = {
+  forfeit: 'Ein Team ist nicht erschienen',
+  walkover: 'Ein Team hat vor dem Spiel zurückgezogen, z. B. verletzt',
+  retired: 'Ein Team hat während des Spiels aufgegeben; der bisherige Spielstand bleibt erhalten',
+};
+
+export const RESULT_SCORING_LABELS: Record<ResultScoringRule, string> = {
+  'full-score': 'Voller Sieg (z. B. 21:0)',
+  'actual-score': 'Nur gespielte Punkte',
+  'complete-score': 'Gespielte Punkte, Rest für den Gegner',
+  'no-score': 'Nur Sieg/Niederlage, ohne Sätze und Punkte',
+};
+
+/** Rules that make sense per result type (forfeit and walkover have no score of their own) */
+export const RESULT_SCORING_OPTIONS: Record<SpecialResultType, ResultScoringRule[]> = {
+  forfeit: ['full-score', 'no-score'],
+  walkover: ['full-score', 'no-score'],
+  retired: ['complete-score', 'actual-score', 'full-score', 'no-score'],
+};
+
+export const DEFAULT_RESULT_SCORING: ResultScoring = {
+  forfeit: 'full-score',
+  walkover: 'no-score',
+  retired: 'complete-score',
+};
+
+/**
+ * Sets a completed result on a match
+ * A played result is won on the scores. A special result goes to the given team; only a
+ * retirement keeps the score played so far. Returns null if the winner isn't part of the match.
+ */
+export function withMatchResult(match: Match, scores: SetScore[], result?: SpecialResult): Match | null {
+  const { resultType: _previous, ...played } = match;
+  if (!result) return { ...played, scores, winnerId: getWinnerFromScores(match, scores) };
+  if (!match.teamAId || !match.teamBId) return null;
+  if (result.winnerId !== match.teamAId && result.winnerId !== match.teamBId) return null;
+  return {
+    ...played,
+    resultType: result.resultType,
+    scores: result.resultType === 'retired' ? scores : [],
+    winnerId: result.winnerId,
+  };
+}
+
+/**
+ * Gives the winner the rest of the match: an unfinished set up to its target,
+ * then further sets to 0 until the match is won (2 sets are always played in full)
+ */
+function completeScores(scores: SetScore[], winnerIsTeamA: boolean, setsPerMatch: number, settings: ResultScoringSettings): SetScore[] {
+  const pointsPerSet = settings.pointsPerSet ?? 21;
+  const target = (index: number) => (setsPerMatch === 3 && index === 2 ? settings.pointsPerThirdSet ?? 15 : pointsPerSet);
+  const toSet = (winner: number, loser: number): SetScore =>
+    winnerIsTeamA ? { teamA: winner, teamB: loser } : { teamA: loser, teamB: winner };
+
+  const completed = scores.slice(0, setsPerMatch).map((score, index) => {
+    const [winner, loser] = winnerIsTeamA ? [score.teamA, score.teamB] : [score.teamB, score.teamA];
+    const isFinished = Math.max(winner, loser) >= target(index) && Math.abs(winner - loser) >= 2;
+    return isFinished ? score : toSet(Math.max(winner, target(index), loser + 2), loser);
+  });
+
+  const setsNeeded = setsPerMatch === 3 ? 2 : setsPerMatch;
+  const setsWon = () => completed.filter(s => (winnerIsTeamA ? s.teamA > s.teamB : s.teamB > s.teamA)).length;
+  const isDecided = () => (setsPerMatch === 2 ? completed.length >= 2 : setsWon() >= setsNeeded);
+  while (!isDecided() && completed.length < setsPerMatch) {
+    completed.push(toSet(target(completed.length), 0));
+  }
+  return completed;
+}
+
+/** Set scores of a special result that count for the standings */
+export function getScoredSets(match: Match, setsPerMatch: number, settings: ResultScoringSettings = {}): SetScore[] {
+  if (!match.resultType || match.resultType === 'played') return match.scores;
+  const rule = settings.resultScoring?.[match.resultType] ?? DEFAULT_RESULT_SCORING[match.resultType];
+  const winnerIsTeamA = match.winnerId === match.teamAId;
+
+  switch (rule) {
+    case 'full-score':
+      return completeScores([], winnerIsTeamA, setsPerMatch, settings);
+    case 'complete-score':
+      return completeScores(match.scores, winnerIsTeamA, setsPerMatch, settings);
+    case 'actual-score':
+      return match.scores;
+    case 'no-score':
+      return [];
+  }
+}
+
+/** Completed matches with the scores their result type counts for, as input to the standings */
+export function applyResultScoring(matches: Match[], setsPerMatch: number, settings: ResultScoringSettings = {}): Match[] {
+  return matches.map(m =>
+    m.status === 'completed' && m.resultType && m.resultType !== 'played'
+      ? { ...m, scores: getScoredSets(m, setsPerMatch, settings) }
+      : m
+  );
+}
@@ -0,0 +1,161 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Player, Team, Match } from '../types/tournament';
+
+/** Minimum number of players for one match (2 vs 2) */
+export const MIN_MIXER_PLAYERS = 4;
+/** Number of randomized attempts per round, the best one is kept */
+const MIXER_ATTEMPTS = 60;
+/** A repeated partner weighs more than a repeated opponent */
+const PARTNER_REPEAT_WEIGHT = 10;
+
+type Pair = [Player, Player];
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Tracks how often players have been partners or opponents
+ */
+class EncounterCounter {
+  private counts = new Map<string, number>();
+
+  get(a: string, b: string): number {
+    return this.counts.get(pairKey(a, b)) ?? 0;
+  }
+
+  add(a: string, b: string): void {
+    this.counts.set(pairKey(a, b), this.get(a, b) + 1);
+  }
+}
+
+function getOpponentCost(pairA: Pair, pairB: Pair, opponents: EncounterCounter): number {
+  return pairA.reduce((sum, a) => sum + pairB.reduce((inner, b) => inner + opponents.get(a.id, b.id), 0), 0);
+}
+
+/**
+ * Builds one round greedily from a shuffled player order:
+ * each player takes the least frequent partner, then each pair the least frequent opponents
+ */
+function buildRound(
+  players: Player[],
+  partners: EncounterCounter,
+  opponents: EncounterCounter,
+  random: () => number
+): { games: [Pair, Pair][]; cost: number } {
+  const remaining = shuffle(players, random);
+  const pairs: Pair[] = [];
+  let cost = 0;
+
+  while (remaining.length >= 2) {
+    const player = remaining.shift()!;
+    let bestIndex = 0;
+    remaining.forEach((candidate, i) => {
+      if (partners.get(player.id, candidate.id) < partners.get(player.id, remaining[bestIndex].id)) bestIndex = i;
+    });
+    const [partner] = remaining.splice(bestIndex, 1);
+    cost += partners.get(player.id, partner.id) * PARTNER_REPEAT_WEIGHT;
+    pairs.push([player, partner]);
+  }
+
+  const games: [Pair, Pair][] = [];
+  while (pairs.length >= 2) {
+    const pair = pairs.shift()!;
+    let bestIndex = 0;
+    pairs.forEach((candidate, i) => {
+      if (getOpponentCost(pair, candidate, opponents) < getOpponentCost(pair, pairs[bestIndex], opponents)) bestIndex = i;
+    });
+    const [opponent] = pairs.splice(bestIndex, 1);
+    cost += getOpponentCost(pair, opponent, opponents);
+    games.push([pair, opponent]);
+  }
+
+  return { games, cost };
+}
+
+/**
+ * Generates all rounds of a Mixer (King of the Court) tournament
+ * Players rotate partners every round; repeated partners and opponents are minimised.
+ * If the number of players is not divisible by 4, the players with the fewest breaks sit out.
+ * Returns the generated pair teams and their matches.
+ */
+export function generateMixerRounds(
+  players: Player[],
+  numberOfRounds: number,
+  numberOfCourts: number,
+  random: () => number = Math.random
+): { teams: Team[]; matches: Match[] } {
+  const partners = new EncounterCounter();
+  const opponents = new EncounterCounter();
+  const sitOuts = new Map(players.map(p => [p.id, 0]));
+  const teamsByPair = new Map<string, Team>();
+  const matches: Match[] = [];
+  let matchNumber = 1;
+
+  const getPairTeam = ([a, b]: Pair): Team => {
+    const key = pairKey(a.id, b.id);
+    let team = teamsByPair.get(key);
+    if (!team) {
+      team = { id: uuidv4(), name: `${a.name} / ${b.name}`, seedPosition: teamsByPair.size + 1, playerIds: [a.id, b.id] };
+      teamsByPair.set(key, team);
+    }
+    return team;
+  };
+
+  for (let round = 1; round <= numberOfRounds; round++) {
+    // Players with the fewest breaks so far sit out this round
+    const sitOutCount = players.length % 4;
+    const byBreaks = shuffle(players, random).sort((a, b) => sitOuts.get(a.id)! - sitOuts.get(b.id)!);
+    const sittingOut = byBreaks.slice(0, sitOutCount);
+    sittingOut.forEach(p => sitOuts.set(p.id, sitOuts.get(p.id)! + 1));
+    const active = byBreaks.slice(sitOutCount);
+
+    let best = buildRound(active, partners, opponents, random);
+    for (let attempt = 1; attempt < MIXER_ATTEMPTS && best.cost > 0; attempt++) {
+      const candidate = buildRound(active, partners, opponents, random);
+      if (candidate.cost < best.cost) best = candidate;
+    }
+
+    best.games.forEach(([pairA, pairB], i) => {
+      partners.add(pairA[0].id, pairA[1].id);
+      partners.add(pairB[0].id, pairB[1].id);
+      pairA.forEach(a => pairB.forEach(b => opponents.add(a.id, b.id)));
+
+      matches.push({
+        id: uuidv4(),
+        round,
+        matchNumber: matchNumber++,
+        teamAId: getPairTeam(pairA).id,
+        teamBId: getPairTeam(pairB).id,
+        courtNumber: (i % numberOfCourts) + 1,
+        scores: [],
+        winnerId: null,
+        status: 'scheduled',
+      });
+    });
+  }
+
+  return { teams: Array.from(teamsByPair.values()), matches };
+}
+
+/**
+ * Counts how often each pair of players was partnered more than once
+ */
+export function countRepeatedPartners(teams: Team[], matches: Match[]): number {
+  const teamById = new Map(teams.map(t => [t.id, t]));
+  const counts = new Map<string, number>();
+  matches.forEach(match => {
+    [match.teamAId, match.teamBId].forEach(teamId => {
+      const [a, b] = teamById.get(teamId ?? '')?.playerIds ?? [];
+      if (a && b) counts.set(pairKey(a, b), (counts.get(pairKey(a, b)) ?? 0) + 1);
+    });
+  });
+  return Array.from(counts.values()).reduce((sum, count) => sum + count - 1, 0);
+}
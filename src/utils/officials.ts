@@ -0,0 +1,170 @@
+import type { EventDay, Match, Official, OfficialLicense, Tournament } from '../types/tournament';
+import { MINUTES_PER_DAY, getScheduledMinutes, isByeMatch, parseTimeToMinutes } from './scheduling';
+import { getMatchSlots, isOpen, overlaps, type Slot } from './refereePlanner';
+
+/**
+ * Officials planner: staffs the matches of an event from its referee pool
+ *
+ * Rules:
+ * 1. An official only takes matches inside one of its availability windows
+ * 2. An official is never on two matches at once and never exceeds its maximum
+ * 3. Finals and semifinals are staffed first, with the highest license available
+ * 4. Other matches go to the official with the fewest matches so far
+ *
+ * Unlike team referees, officials don't depend on who plays, so bracket matches
+ * are staffed before their teams are known. A planned official stays while rules 1
+ * and 2 still hold for it.
+ */
+
+export const OFFICIAL_LICENSES: OfficialLicense[] = ['A', 'B', 'C', 'D'];
+
+export const OFFICIAL_LICENSE_LABELS: Record<OfficialLicense, string> = {
+  A: 'A-Lizenz',
+  B: 'B-Lizenz',
+  C: 'C-Lizenz',
+  D: 'D-Lizenz',
+};
+
+const DECIDING_ROUNDS = ['semifinal', 'final', 'top-semifinal', 'top-final', 'grand-final', 'grand-final-reset'];
+
+/** Finals and semifinals, including those of placement trees and final rounds */
+export function isDecidingMatch(match: Match): boolean {
+  if (match.knockoutRound && DECIDING_ROUNDS.includes(match.knockoutRound)) return true;
+  if (match.placementInterval) return match.placementInterval.start === 1 && match.placementInterval.end <= 4;
+  return match.playoffForPlace === 1;
+}
+
+export function usesOfficials(t: Tournament): boolean {
+  return !!t.scheduling?.assignReferees && t.scheduling.refereeMode === 'officials';
+}
+
+/** Availability windows on the timeline; null if the official is available all the time */
+function getAvailableWindows(official: Official, days?: EventDay[]): Slot[] | null {
+  if (!official.availability?.length) return null;
+  const calendar: Array<EventDay | undefined> = days?.length ? days : [undefined];
+  return calendar.flatMap((day, i) => official.availability!
+    .filter(w => !w.date || w.date === day?.date)
+    .map(w => ({ start: i * MINUTES_PER_DAY + parseTimeToMinutes(w.start), end: i * MINUTES_PER_DAY + parseTimeToMinutes(w.end) })));
+}
+
+interface OpenMatch {
+  match: Match;
+  slot: Slot;
+}
+
+/**
+ * Assigns an official to every open match of the phases that use the referee pool
+ * Phases and matches without a change are returned as they were.
+ */
+export function planOfficials(phases: Tournament[], officials: Official[] = [], days?: EventDay[]): Tournament[] {
+  if (!phases.some(usesOfficials)) return phases;
+
+  const windows = new Map(officials.map(o => [o.id, getAvailableWindows(o, days)]));
+  const busy = new Map<string, Slot[]>();
+  const duties = new Map<string, number>();
+  const assign = (officialId: string, slot: Slot | undefined, done = false) => {
+    if (slot && !done) busy.set(officialId, [...(busy.get(officialId) ?? []), slot]);
+    duties.set(officialId, (duties.get(officialId) ?? 0) + 1);
+  };
+
+  const assigned = new Map<string, string | null>();
+  const open: OpenMatch[] = [];
+  phases.forEach(t => {
+    const { slots, timed } = getMatchSlots(t, days);
+    const planned = t.status === 'in-progress' && usesOfficials(t) && timed;
+    t.matches.forEach(m => {
+      const slot = slots.get(m.id);
+      if (planned && m.officialId && isByeMatch(m)) {
+        // A match that turned into a bye needs no official
+        assigned.set(m.id, null);
+      } else if (!isOpen(m)) {
+        // Duties of started and played matches stay as they were
+        if (m.officialId) assign(m.officialId, slot, m.status === 'completed');
+      } else if (planned && slot) {
+        open.push({ match: m, slot });
+      }
+    });
+  });
+  open.sort((a, b) => Number(isDecidingMatch(b.match)) - Number(isDecidingMatch(a.match)) || a.slot.start - b.slot.start);
+
+  const canTake = (official: Official, slot: Slot) => {
+    const available = windows.get(official.id);
+    return (!available || available.some(w => w.start <= slot.start && slot.end <= w.end))
+      && !(busy.get(official.id) ?? []).some(s => overlaps(s, slot))
+      && (official.maxMatches === undefined || (duties.get(official.id) ?? 0) < official.maxMatches);
+  };
+  const cost = (official: Official, match: Match): number[] => {
+    const license = OFFICIAL_LICENSES.indexOf(official.license);
+    const count = duties.get(official.id) ?? 0;
+    return isDecidingMatch(match) ? [license, count] : [count, license];
+  };
+  const compareCosts = (a: number[], b: number[]) => a.reduce((result, value, i) => result || value - b[i], 0);
+
+  // Officials that can still take their match keep it; the others are planned anew
+  open.forEach(({ match, slot }) => {
+    const official = officials.find(o => o.id === match.officialId);
+    if (official && canTake(official, slot)) {
+      assigned.set(match.id, official.id);
+      assign(official.id, slot);
+    }
+  });
+  open.filter(({ match }) => !assigned.has(match.id)).forEach(({ match, slot }) => {
+    const best = officials
+      .filter(o => canTake(o, slot))
+      .sort((a, b) => compareCosts(cost(a, match), cost(b, match)))[0];
+    assigned.set(match.id, best?.id ?? null);
+    if (best) assign(best.id, slot);
+  });
+
+  return phases.map(t => {
+    let changed = false;
+    const matches = t.matches.map(m => {
+      if (!assigned.has(m.id) || (m.officialId ?? null) === assigned.get(m.id)) return m;
+      changed = true;
+      return { ...m, officialId: assigned.get(m.id)! };
+    });
+    return changed ? { ...t, matches } : t;
+  });
+}
+
+/** Matches of one official across the phases, in order of their planned start */
+export function getOfficialSchedule(phases: Tournament[], officialId: string, days?: EventDay[]): { phase: Tournament; match: Match }[] {
+  return phases
+    .flatMap(phase => phase.matches.filter(m => m.officialId === officialId).map(match => ({ phase, match })))
+    .sort((a, b) => (getScheduledMinutes(a.match, days) ?? Infinity) - (getScheduledMinutes(b.match, days) ?? Infinity));
+}
+
+export interface OfficialWorkload {
+  official: Official;
+  matches: number;
+  completed: number;
+  deciding: number;
+  /** Planned minutes on court */
+  minutes: number;
+}
+
+/** Matches, finals and semifinals and time on court per official */
+export function getOfficialWorkload(phases: Tournament[], officials: Official[]): OfficialWorkload[] {
+  const lengths = new Map(phases.map(t => {
+    const { timed, length } = getMatchSlots(t);
+    return [t.id, timed ? length : 0];
+  }));
+  return officials.map(official => {
+    const duties = phases.flatMap(phase => phase.matches
+      .filter(m => m.officialId === official.id)
+      .map(match => ({ match, length: lengths.get(phase.id)! })));
+    return {
+      official,
+      matches: duties.length,
+      completed: duties.filter(d => d.match.status === 'completed').length,
+      deciding: duties.filter(d => isDecidingMatch(d.match)).length,
+      minutes: duties.reduce((sum, d) => sum + d.length, 0),
+    };
+  });
+}
+
+/** Name of the official assigned to a match, if any */
+export function getOfficialName(officials: Official[] | undefined, officialId: string | null | undefined): string | null {
+  if (!officialId) return null;
+  return officials?.find(o => o.id === officialId)?.name ?? null;
+}
@@ -1,12 +1,19 @@
 import { v4 as uuidv4 } from 'uuid';
 import type {
+  Match,
   Team,
   Tournament,
   GroupStandingEntry,
   KnockoutSettings,
   StandingEntry,
 } from '../../types/tournament';
-import { createSeedOrder } from './helpers';
+import { resolveByeMatches, type ByeMatchConfig } from '../knockout/byeHandler';
+import {
+  createSeedOrder,
+  createTeamSeedOrder,
+  MIN_SEEDED_BRACKET_TEAMS,
+  MAX_SEEDED_BRACKET_TEAMS,
+} from './helpers';
 import { generatePlacementTreeMatches } from './matchGenerator';
 
 /**
@@ -84,3 +91,19 @@ export function generatePlacementTreeTournament(
 
   return { tournament, teams, eliminatedTeamIds: [] };
 }
+
+/**
+ * Generates a placement tree directly from the seeded team list
+ * Seeds missing up to the bracket size are byes that always lose, so real teams play out places 1..N
+ */
+export function generateSeededPlacementTreeMatches(
+  teams: Team[],
+  options: ByeMatchConfig & { numberOfCourts: number }
+): Match[] {
+  if (teams.length < MIN_SEEDED_BRACKET_TEAMS || teams.length > MAX_SEEDED_BRACKET_TEAMS) {
+    throw new Error(`Platzierungsbaum benötigt ${MIN_SEEDED_BRACKET_TEAMS} bis ${MAX_SEEDED_BRACKET_TEAMS} Teams`);
+  }
+
+  const matches = generatePlacementTreeMatches(createTeamSeedOrder(teams), options.numberOfCourts);
+  return resolveByeMatches(matches, options);
+}
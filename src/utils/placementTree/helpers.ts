@@ -1,4 +1,9 @@
-import type { GroupStandingEntry, Group } from '../../types/tournament';
+import type { GroupStandingEntry, Group, Team } from '../../types/tournament';
+import { getBracketSize } from '../poolPlay/helpers';
+
+/** Supported number of teams for brackets started directly from the team list */
+export const MIN_SEEDED_BRACKET_TEAMS = 4;
+export const MAX_SEEDED_BRACKET_TEAMS = 64;
 
 /**
  * Creates the seed order from group standings
@@ -25,6 +30,17 @@ export function createSeedOrder(
   return result;
 }
 
+/**
+ * Creates the seed order from the team list, padded with byes (null) up to the bracket size
+ * Byes take the lowest seeds, so the top seeds meet them in the first round
+ */
+export function createTeamSeedOrder(teams: Team[]): (Team | null)[] {
+  const seeded: (Team | null)[] = [...teams].sort((a, b) => a.seedPosition - b.seedPosition);
+  const bracketSize = getBracketSize(teams.length);
+  while (seeded.length < bracketSize) seeded.push(null);
+  return seeded;
+}
+
 /**
  * Get group letter from index (0 -> A, 1 -> B, etc.)
  */
@@ -1,10 +1,11 @@
 /**
  * Placement Tree Module
  *
- * Full placement tree where all positions 1..N are played out.
+ * Full placement tree where all positions 1..N are played out, either after a
+ * group phase or directly from the seeded team list (byes for 4-64 teams).
  */
 
-export { generatePlacementTreeTournament } from './generator';
+export { generatePlacementTreeTournament, generateSeededPlacementTreeMatches } from './generator';
 export { generatePlacementTreeTournamentPlaceholder } from './placeholderGenerator';
 export { populatePlacementTreeTeams } from './populateTeams';
 export { updatePlacementTreeBracket } from './bracketUpdater';
@@ -13,4 +14,9 @@ export {
   getPlacementRoundLabel,
   getPlacementTreeMatchCount,
 } from './placements';
+export {
+  createTeamSeedOrder,
+  MIN_SEEDED_BRACKET_TEAMS,
+  MAX_SEEDED_BRACKET_TEAMS,
+} from './helpers';
 export type { PlacementToken } from './types';
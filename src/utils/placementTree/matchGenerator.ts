@@ -4,9 +4,10 @@ import type { PlacementToken } from './types';
 
 /**
  * Generates all matches for the placement tree
+ * Teams may contain byes (null) padding the seed order to a power of two
  */
 export function generatePlacementTreeMatches(
-  teams: Team[],
+  teams: (Team | null)[],
   numberOfCourts: number
 ): Match[] {
   const numTeams = teams.length;
@@ -17,6 +18,7 @@ export function generatePlacementTreeMatches(
 
   const teamPositions = new Map<string, PlacementToken>();
   teams.forEach((team, index) => {
+    if (!team) return;
     teamPositions.set(team.id, {
       teamId: team.id,
       currentInterval: { start: 1, end: numTeams },
@@ -48,9 +50,10 @@ export function generatePlacementTreeMatches(
 
 /**
  * Generate Round 1 matches: pair by seed (1 vs last, 2 vs second-to-last, etc.)
+ * Bye matches get no court and are resolved by the bye handler
  */
 export function generateRound1Matches(
-  teams: Team[],
+  teams: (Team | null)[],
   numberOfCourts: number,
   startMatchNumber: number
 ): Match[] {
@@ -58,21 +61,23 @@ export function generateRound1Matches(
   const numTeams = teams.length;
   const numMatches = numTeams / 2;
   let matchNumber = startMatchNumber;
+  let courtIndex = 0;
 
   for (let i = 0; i < numMatches; i++) {
-    const teamAIndex = i;
-    const teamBIndex = numTeams - 1 - i;
+    const teamA = teams[i];
+    const teamB = teams[numTeams - 1 - i];
+    const isBye = !teamA || !teamB;
 
     const match: Match = {
       id: uuidv4(),
       round: 1,
       matchNumber: matchNumber++,
-      teamAId: teams[teamAIndex].id,
-      teamBId: teams[teamBIndex].id,
-      courtNumber: (i % numberOfCourts) + 1,
+      teamAId: teamA?.id ?? null,
+      teamBId: teamB?.id ?? null,
+      courtNumber: isBye ? null : (courtIndex++ % numberOfCourts) + 1,
       scores: [],
       winnerId: null,
-      status: 'scheduled',
+      status: isBye ? 'pending' : 'scheduled',
       knockoutRound: 'placement-round-1',
       bracketPosition: i + 1,
       placementInterval: { start: 1, end: numTeams },
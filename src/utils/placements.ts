@@ -0,0 +1,97 @@
+import type { Tournament } from '../types/tournament';
+import { calculateKnockoutPlacements, calculateSeededKnockoutPlacements } from './knockout';
+import { calculatePlacementTreePlacements } from './placementTree/index';
+import { calculateShortMainRoundPlacements } from './shortMainRound';
+import { calculatePoolPlayPlacements } from './poolPlay';
+import { calculateDoubleEliminationPlacements } from './doubleElimination';
+import { isBracketSystem } from './displayViews';
+
+export interface Placement {
+  teamId: string;
+  /** e.g. "1." or "5.-8." for teams sharing a placement */
+  placement: string;
+}
+
+/**
+ * Placements of a bracket phase; empty for systems ranked by their table
+ * Pass the other phases so teams out in the pools can be ranked by their pool rank.
+ */
+export function getBracketPlacements(tournament: Tournament, phases: Tournament[] = []): Placement[] {
+  const eliminated = tournament.eliminatedTeamIds ?? [];
+  switch (tournament.system) {
+    case 'knockout':
+      // SSVB knockout phase after groups, or a bracket started directly from the team list
+      return tournament.parentPhaseId
+        ? calculateKnockoutPlacements(tournament.matches, tournament.teams, eliminated)
+        : calculateSeededKnockoutPlacements(tournament.matches);
+    case 'placement-tree':
+      return calculatePlacementTreePlacements(tournament.matches, tournament.teams);
+    case 'short-main-knockout':
+      return calculateShortMainRoundPlacements(tournament.matches, tournament.teams);
+    case 'pool-play-knockout':
+      return calculatePoolPlayPlacements(
+        tournament.matches,
+        tournament.teams,
+        eliminated,
+        phases.find(p => p.id === tournament.parentPhaseId)?.groupStandings
+      );
+    case 'double-elimination':
+      return calculateDoubleEliminationPlacements(tournament.matches);
+    default:
+      return [];
+  }
+}
+
+/** Placements within one phase: brackets by their placement rules, other systems by table order */
+function getPhasePlacements(phase: Tournament, phases: Tournament[]): Placement[] {
+  if (isBracketSystem(phase.system)) return getBracketPlacements(phase, phases);
+  return phase.standings.map((entry, index) => ({ teamId: entry.teamId, placement: `${index + 1}.` }));
+}
+
+/**
+ * Final placements of a tournament
+ * The last phase ranks its teams; teams that went out in an earlier phase follow
+ * below them in the order of that phase, so every participant gets a placement.
+ * Mixer pairs change every round and get no placement.
+ */
+export function getFinalPlacements(phases: Tournament[]): Placement[] {
+  const [last, ...earlier] = [...phases].sort((a, b) => (b.phaseOrder ?? 1) - (a.phaseOrder ?? 1));
+  if (!last || last.system === 'mixer') return [];
+
+  // Follow-up phases copy the teams with new IDs, so a team is recognised by profile or name
+  const teamById = new Map(phases.flatMap(p => p.teams.map(t => [t.id, t] as const)));
+  const identify = (teamId: string) => {
+    const team = teamById.get(teamId);
+    return team ? team.profileId ?? team.name.trim().toLowerCase() : teamId;
+  };
+  const placements = getPhasePlacements(last, phases);
+  const placed = new Set(placements.map(p => identify(p.teamId)));
+  let above = Math.max(0, ...placements.map(p => getLastPlaceNumber(p.placement)));
+  earlier.filter(phase => phase.system !== 'mixer').forEach(phase => {
+    // Teams sharing a placement in their phase keep sharing it, numbered on from the teams above
+    const shared = new Map<string, Placement[]>();
+    getPhasePlacements(phase, phases)
+      .filter(p => !placed.has(identify(p.teamId)))
+      .sort((a, b) => getPlaceNumber(a.placement) - getPlaceNumber(b.placement))
+      .forEach(p => shared.set(p.placement, [...(shared.get(p.placement) ?? []), p]));
+    shared.forEach(group => {
+      const placement = group.length > 1 ? `${above + 1}.-${above + group.length}.` : `${above + 1}.`;
+      group.forEach(({ teamId }) => {
+        placements.push({ teamId, placement });
+        placed.add(identify(teamId));
+      });
+      above += group.length;
+    });
+  });
+  return placements;
+}
+
+/** First place of a placement, e.g. 5 for "5.-8." */
+export function getPlaceNumber(placement: string): number {
+  return parseInt(placement, 10);
+}
+
+/** Last place of a placement, e.g. 8 for "5.-8." */
+function getLastPlaceNumber(placement: string): number {
+  return parseInt(placement.split('-').at(-1)!, 10);
+}
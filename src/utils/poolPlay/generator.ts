@@ -0,0 +1,21 @@
+import type {
+  Team,
+  Tournament,
+  GroupStandingEntry,
+  KnockoutSettings,
+} from '../../types/tournament';
+import { generatePoolPlayTournamentPlaceholder } from './placeholderGenerator';
+import { populatePoolPlayTeams } from './populateTeams';
+
+/**
+ * Generates a single-out bracket from completed pool standings
+ * Used when transitioning manually after pool play
+ */
+export function generatePoolPlayTournament(
+  parentTournament: Tournament,
+  groupStandings: GroupStandingEntry[],
+  settings: KnockoutSettings
+): { tournament: Tournament; teams: Team[]; eliminatedTeamIds: string[] } {
+  const { tournament: placeholder } = generatePoolPlayTournamentPlaceholder(parentTournament, settings);
+  return populatePoolPlayTeams(placeholder, parentTournament, groupStandings);
+}
@@ -0,0 +1,68 @@
+import type { Group, Match, KnockoutRoundType } from '../../types/tournament';
+
+/** Slot in the single-out bracket, filled by a pool rank */
+export interface PoolSlot {
+  groupIndex: number;
+  rank: number;
+}
+
+/** Default number of teams per pool advancing to the bracket */
+export const DEFAULT_QUALIFIERS_PER_GROUP = 2;
+
+/**
+ * Creates the seed order of all qualified pool ranks
+ * Priority: Pool rank first, then within same rank by group order
+ * Groups with fewer teams than qualifiers only contribute existing ranks
+ */
+export function createPoolSeedOrder(groups: Group[], qualifiersPerGroup: number): PoolSlot[] {
+  const slots: PoolSlot[] = [];
+  for (let rank = 1; rank <= qualifiersPerGroup; rank++) {
+    groups.forEach((group, groupIndex) => {
+      if (group.teamIds.length >= rank) {
+        slots.push({ groupIndex, rank });
+      }
+    });
+  }
+  return slots;
+}
+
+/**
+ * Smallest power of two that holds all qualified teams
+ */
+export function getBracketSize(numTeams: number): number {
+  let size = 2;
+  while (size < numTeams) size *= 2;
+  return size;
+}
+
+/**
+ * Standard bracket line-up: seed 1 and 2 can only meet in the final
+ * Example for 8: [1, 8, 4, 5, 2, 7, 3, 6]
+ */
+export function getBracketSeedPositions(bracketSize: number): number[] {
+  let positions = [1];
+  while (positions.length < bracketSize) {
+    const size = positions.length * 2;
+    positions = positions.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  return positions;
+}
+
+/**
+ * Maps the number of teams in a round to its knockout round type
+ */
+export function getSingleOutRoundType(teamsInRound: number): KnockoutRoundType {
+  if (teamsInRound <= 2) return 'final';
+  if (teamsInRound <= 4) return 'semifinal';
+  if (teamsInRound <= 8) return 'quarterfinal';
+  if (teamsInRound <= 16) return 'round-of-16';
+  if (teamsInRound <= 32) return 'round-of-32';
+  return 'round-of-64';
+}
+
+/**
+ * A first round match is a bye when one side has no pool rank assigned
+ */
+export function isPoolPlayByeMatch(match: Match): boolean {
+  return match.round === 1 && (!match.teamASource || !match.teamBSource);
+}
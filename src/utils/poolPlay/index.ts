@@ -0,0 +1,19 @@
+/**
+ * Pool Play Module
+ *
+ * Pools (groups) followed by a single-out bracket seeded from pool ranks.
+ * Top seeds receive byes when the number of qualifiers is not a power of two.
+ */
+
+export { generatePoolPlayTournament } from './generator';
+export { generatePoolPlayTournamentPlaceholder } from './placeholderGenerator';
+export { populatePoolPlayTeams } from './populateTeams';
+export { calculatePoolPlayPlacements, calculateSingleOutPlacements } from './placements';
+export {
+  createPoolSeedOrder,
+  getBracketSize,
+  getBracketSeedPositions,
+  getSingleOutRoundType,
+  DEFAULT_QUALIFIERS_PER_GROUP,
+} from './helpers';
+export type { PoolSlot } from './helpers';
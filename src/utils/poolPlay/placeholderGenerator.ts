@@ -0,0 +1,209 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Match,
+  Tournament,
+  KnockoutSettings,
+  StandingEntry,
+} from '../../types/tournament';
+import { getGroupLetter, getRankLabel } from '../knockout/brackets/utils';
+import {
+  createPoolSeedOrder,
+  getBracketSize,
+  getBracketSeedPositions,
+  getSingleOutRoundType,
+  isPoolPlayByeMatch,
+  DEFAULT_QUALIFIERS_PER_GROUP,
+  type PoolSlot,
+} from './helpers';
+
+const BYE_PLACEHOLDER = 'Freilos';
+
+/**
+ * Generates a placeholder single-out bracket (before pool play is complete)
+ * Top seeds receive byes when the number of qualifiers is not a power of two
+ */
+export function generatePoolPlayTournamentPlaceholder(
+  parentTournament: Tournament,
+  settings: KnockoutSettings
+): { tournament: Tournament; eliminatedTeamIds: string[] } {
+  const now = new Date().toISOString();
+  const groups = parentTournament.groupPhaseConfig?.groups || [];
+  const qualifiersPerGroup = settings.qualifiersPerGroup ?? DEFAULT_QUALIFIERS_PER_GROUP;
+
+  const slots = createPoolSeedOrder(groups, qualifiersPerGroup);
+  if (slots.length < 2) {
+    throw new Error('Pool Play benötigt mindestens 2 qualifizierte Teams');
+  }
+
+  const matches = generateSingleOutMatchesPlaceholder(
+    slots,
+    parentTournament.numberOfCourts,
+    settings.playThirdPlaceMatch
+  );
+
+  const standings: StandingEntry[] = [];
+
+  const tournament: Tournament = {
+    id: uuidv4(),
+    name: `${parentTournament.name} - K.O.-Runde`,
+    system: 'pool-play-knockout',
+    numberOfCourts: parentTournament.numberOfCourts,
+    setsPerMatch: settings.setsPerMatch,
+    pointsPerSet: settings.pointsPerSet,
+    pointsPerThirdSet: settings.pointsPerThirdSet,
+    tiebreakerOrder: parentTournament.tiebreakerOrder,
+    scheduling: parentTournament.scheduling,
+    teams: [],
+    matches,
+    standings,
+    status: 'in-progress',
+    createdAt: now,
+    updatedAt: now,
+    knockoutConfig: {
+      directQualification: qualifiersPerGroup,
+      playoffQualification: 0,
+      eliminated: 0,
+      playThirdPlaceMatch: settings.playThirdPlaceMatch,
+      useReferees: settings.useReferees,
+    },
+    knockoutSettings: settings,
+    eliminatedTeamIds: [],
+  };
+
+  return { tournament, eliminatedTeamIds: [] };
+}
+
+/**
+ * Pairs the first round by bracket position and swaps opponents of equal pool rank
+ * so that teams from the same pool do not meet in the first round
+ */
+function createFirstRoundPairings(slots: PoolSlot[], bracketSize: number): (PoolSlot | null)[][] {
+  const positions = getBracketSeedPositions(bracketSize);
+  const pairings: (PoolSlot | null)[][] = [];
+  for (let i = 0; i < positions.length; i += 2) {
+    pairings.push([slots[positions[i] - 1] ?? null, slots[positions[i + 1] - 1] ?? null]);
+  }
+
+  const isConflict = (a: PoolSlot | null, b: PoolSlot | null) =>
+    !!a && !!b && a.groupIndex === b.groupIndex;
+
+  pairings.forEach((pairing, i) => {
+    const [slotA, slotB] = pairing;
+    if (!slotA || !slotB || !isConflict(slotA, slotB)) return;
+
+    const swapIndex = pairings.findIndex(([otherA, otherB], j) =>
+      j !== i &&
+      !!otherA && !!otherB &&
+      otherB.rank === slotB.rank &&
+      !isConflict(slotA, otherB) &&
+      !isConflict(otherA, slotB)
+    );
+    if (swapIndex === -1) return;
+
+    pairing[1] = pairings[swapIndex][1];
+    pairings[swapIndex][1] = slotB;
+  });
+
+  return pairings;
+}
+
+function generateSingleOutMatchesPlaceholder(
+  slots: PoolSlot[],
+  numberOfCourts: number,
+  playThirdPlaceMatch: boolean
+): Match[] {
+  const matches: Match[] = [];
+  let matchNumber = 1;
+
+  const bracketSize = getBracketSize(slots.length);
+  const numRounds = Math.log2(bracketSize);
+  const getPlaceholder = (slot: PoolSlot | null) =>
+    slot ? `${getRankLabel(slot.rank)} Gruppe ${getGroupLetter(slot.groupIndex)}` : BYE_PLACEHOLDER;
+
+  // First round: bye matches are not played and get no court
+  let courtIndex = 0;
+  let prevRoundMatches: Match[] = createFirstRoundPairings(slots, bracketSize).map(([slotA, slotB], i) => {
+    const isBye = !slotA || !slotB;
+    return {
+      id: uuidv4(),
+      round: 1,
+      matchNumber: matchNumber++,
+      teamAId: null,
+      teamBId: null,
+      teamAPlaceholder: getPlaceholder(slotA),
+      teamBPlaceholder: getPlaceholder(slotB),
+      teamASource: slotA ? { type: 'group' as const, ...slotA } : undefined,
+      teamBSource: slotB ? { type: 'group' as const, ...slotB } : undefined,
+      courtNumber: isBye ? null : (courtIndex++ % numberOfCourts) + 1,
+      scores: [],
+      winnerId: null,
+      status: 'pending' as const,
+      knockoutRound: getSingleOutRoundType(bracketSize),
+      bracketPosition: i + 1,
+      playoffForPlace: bracketSize === 2 ? 1 : undefined,
+    };
+  });
+  matches.push(...prevRoundMatches);
+
+  for (let round = 2; round <= numRounds; round++) {
+    const teamsInRound = bracketSize / Math.pow(2, round - 1);
+    const roundMatches: Match[] = [];
+
+    // Third place match is played in the final round, numbered before the final
+    // Not possible when a semifinal is a bye (no loser)
+    if (teamsInRound === 2 && playThirdPlaceMatch && !prevRoundMatches.some(isPoolPlayByeMatch)) {
+      const [semiA, semiB] = prevRoundMatches;
+      roundMatches.push(createDependentMatch(
+        round, matchNumber++, semiA, semiB, 'loser', Math.min(2, numberOfCourts), 2
+      ));
+      roundMatches[0].knockoutRound = 'third-place';
+      roundMatches[0].playoffForPlace = 3;
+    }
+
+    const bracketMatches: Match[] = [];
+    for (let i = 0; i < prevRoundMatches.length; i += 2) {
+      const match = createDependentMatch(
+        round, matchNumber++, prevRoundMatches[i], prevRoundMatches[i + 1], 'winner',
+        ((i / 2) % numberOfCourts) + 1, i / 2 + 1
+      );
+      match.knockoutRound = getSingleOutRoundType(teamsInRound);
+      if (teamsInRound === 2) match.playoffForPlace = 1;
+      bracketMatches.push(match);
+    }
+
+    matches.push(...roundMatches, ...bracketMatches);
+    prevRoundMatches = bracketMatches;
+  }
+
+  return matches;
+}
+
+function createDependentMatch(
+  round: number,
+  matchNumber: number,
+  matchA: Match,
+  matchB: Match,
+  result: 'winner' | 'loser',
+  courtNumber: number,
+  bracketPosition: number
+): Match {
+  const label = result === 'winner' ? 'Sieger' : 'Verlierer';
+  return {
+    id: uuidv4(),
+    round,
+    matchNumber,
+    teamAId: null,
+    teamBId: null,
+    teamAPlaceholder: `${label} Spiel ${matchA.matchNumber}`,
+    teamBPlaceholder: `${label} Spiel ${matchB.matchNumber}`,
+    courtNumber,
+    scores: [],
+    winnerId: null,
+    status: 'pending' as const,
+    bracketPosition,
+    dependsOn: {
+      teamA: { matchId: matchA.id, result },
+      teamB: { matchId: matchB.id, result },
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import type { GroupStandingEntry, Match, Team } from '../../types/tournament';
+import { isPoolPlayByeMatch } from './helpers';
+
+const formatRange = (start: number, end: number): string =>
+  start === end ? `${start}.` : `${start}.-${end}.`;
+
+/**
+ * Calculates final placements for the pool play single-out bracket
+ * Teams losing in the same round share the placement range. Teams eliminated in
+ * pool play follow by pool rank (all 3rd places, then all 4th places, …); without
+ * the pool standings they share one range.
+ */
+export function calculatePoolPlayPlacements(
+  matches: Match[],
+  teams: Team[],
+  eliminatedTeamIds: string[],
+  groupStandings: GroupStandingEntry[] = []
+): { teamId: string; placement: string }[] {
+  const placements = calculateSingleOutPlacements(matches, isPoolPlayByeMatch);
+
+  const getRank = (teamId: string) => groupStandings.find(s => s.teamId === teamId)?.groupRank ?? 0;
+  const byRank = new Map<number, string[]>();
+  [...eliminatedTeamIds]
+    .sort((a, b) => getRank(a) - getRank(b))
+    .forEach(id => byRank.set(getRank(id), [...(byRank.get(getRank(id)) ?? []), id]));
+
+  let above = teams.length;
+  byRank.forEach(ids => {
+    const placement = formatRange(above + 1, above + ids.length);
+    ids.forEach(id => placements.push({ teamId: id, placement }));
+    above += ids.length;
+  });
+
+  return placements;
+}
+
+/**
+ * Calculates placements of a single-out bracket with optional third place match
+ * Teams losing in the same round share the placement range; bye matches are not counted
+ */
+export function calculateSingleOutPlacements(
+  matches: Match[],
+  isByeMatch: (match: Match) => boolean
+): { teamId: string; placement: string }[] {
+  const placements: { teamId: string; placement: string }[] = [];
+  const getLoserId = (match: Match) =>
+    match.teamAId === match.winnerId ? match.teamBId : match.teamAId;
+
+  const finalMatch = matches.find(m => m.knockoutRound === 'final');
+  const thirdPlaceMatch = matches.find(m => m.knockoutRound === 'third-place');
+
+  [finalMatch, thirdPlaceMatch].forEach(match => {
+    if (match?.status !== 'completed' || !match.winnerId || !match.playoffForPlace) return;
+    placements.push({ teamId: match.winnerId, placement: `${match.playoffForPlace}.` });
+    const loserId = getLoserId(match);
+    if (loserId) placements.push({ teamId: loserId, placement: `${match.playoffForPlace + 1}.` });
+  });
+
+  // Bracket rounds from the semifinal backwards (semifinal losers only without third place match)
+  const maxRound = Math.max(0, ...matches.map(m => m.round));
+  const bracketSize = Math.pow(2, maxRound);
+  for (let round = maxRound - 1; round >= 1; round--) {
+    if (round === maxRound - 1 && thirdPlaceMatch) continue;
+
+    const roundMatches = matches.filter(m =>
+      m.round === round && m.knockoutRound !== 'third-place' && !isByeMatch(m)
+    );
+    const teamsAfterRound = bracketSize / Math.pow(2, round);
+    const placement = formatRange(teamsAfterRound + 1, teamsAfterRound + roundMatches.length);
+
+    roundMatches
+      .filter(m => m.status === 'completed' && m.winnerId)
+      .forEach(m => {
+        const loserId = getLoserId(m);
+        if (loserId) placements.push({ teamId: loserId, placement });
+      });
+  }
+
+  return placements;
+}
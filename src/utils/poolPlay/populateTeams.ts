@@ -0,0 +1,109 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Team,
+  Tournament,
+  GroupStandingEntry,
+  StandingEntry,
+} from '../../types/tournament';
+import { handleByeMatches } from '../knockout/byeHandler';
+import { createPoolSeedOrder, DEFAULT_QUALIFIERS_PER_GROUP } from './helpers';
+
+/**
+ * Populates the single-out bracket with actual teams from pool standings
+ * Called when pool play completes
+ */
+export function populatePoolPlayTeams(
+  knockoutTournament: Tournament,
+  parentTournament: Tournament,
+  groupStandings: GroupStandingEntry[]
+): { tournament: Tournament; teams: Team[]; eliminatedTeamIds: string[] } {
+  const groups = parentTournament.groupPhaseConfig?.groups || [];
+  const qualifiersPerGroup = knockoutTournament.knockoutSettings?.qualifiersPerGroup
+    ?? DEFAULT_QUALIFIERS_PER_GROUP;
+
+  const teamIdMap = new Map<string, string>();
+  const teams: Team[] = [];
+
+  const findStanding = (groupIndex: number, rank: number) =>
+    groupStandings.find(s => s.groupId === groups[groupIndex]?.id && s.groupRank === rank);
+
+  // Qualified teams get new IDs, seeded by pool rank
+  createPoolSeedOrder(groups, qualifiersPerGroup).forEach(slot => {
+    const standing = findStanding(slot.groupIndex, slot.rank);
+    const originalTeam = parentTournament.teams.find(t => t.id === standing?.teamId);
+    if (!standing || !originalTeam) return;
+
+    const newId = uuidv4();
+    teamIdMap.set(standing.teamId, newId);
+    teams.push({
+      id: newId,
+      name: originalTeam.name,
+      seedPosition: teams.length + 1,
+    });
+  });
+
+  // All other pool teams are eliminated (original IDs, as in the SSVB knockout)
+  const eliminatedTeamIds = groupStandings
+    .filter(s => !teamIdMap.has(s.teamId))
+    .sort((a, b) => a.groupRank - b.groupRank)
+    .map(s => s.teamId);
+
+  const getTeamId = (groupIndex: number, rank: number): string | null => {
+    const standing = findStanding(groupIndex, rank);
+    if (!standing) return null;
+    return teamIdMap.get(standing.teamId) || null;
+  };
+
+  let populatedMatches = knockoutTournament.matches.map(match => {
+    const updatedMatch = { ...match };
+
+    if (match.teamASource?.type === 'group') {
+      updatedMatch.teamAId = getTeamId(match.teamASource.groupIndex, match.teamASource.rank);
+    }
+    if (match.teamBSource?.type === 'group') {
+      updatedMatch.teamBId = getTeamId(match.teamBSource.groupIndex, match.teamBSource.rank);
+    }
+
+    return updatedMatch;
+  });
+
+  // Top seeds without opponent advance automatically
+  populatedMatches = handleByeMatches(populatedMatches, {
+    setsPerMatch: knockoutTournament.setsPerMatch,
+    pointsPerSet: knockoutTournament.pointsPerSet,
+  });
+
+  // Activate every match where both teams are known after bye handling
+  const updatedMatches = populatedMatches.map(match => {
+    if (match.status === 'completed') return match;
+    if (match.teamAId && match.teamBId) {
+      return { ...match, status: 'scheduled' as const };
+    }
+    return match;
+  });
+
+  const standings: StandingEntry[] = teams.map(t => ({
+    teamId: t.id,
+    played: 0,
+    won: 0,
+    lost: 0,
+    setsWon: 0,
+    setsLost: 0,
+    pointsWon: 0,
+    pointsLost: 0,
+    points: 0,
+  }));
+
+  return {
+    tournament: {
+      ...knockoutTournament,
+      teams,
+      matches: updatedMatches,
+      standings,
+      eliminatedTeamIds,
+      updatedAt: new Date().toISOString(),
+    },
+    teams,
+    eliminatedTeamIds,
+  };
+}
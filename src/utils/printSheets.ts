@@ -0,0 +1,74 @@
+import type { EventDay, Match, Tournament } from '../types/tournament';
+import { formatTimelineMinutes, getScheduledMinutes, isByeMatch } from './scheduling';
+
+/** One start time of the printed schedule with the matches per court */
+export interface ScheduleRow {
+  minutes: number;
+  time: string;
+  date?: string;
+  /** Matches per court, index 0 is court 1 */
+  cells: Match[][];
+}
+
+export interface ScheduleGrid {
+  courts: number[];
+  rows: ScheduleRow[];
+  /** Matches without court or start time, listed below the grid */
+  unscheduled: Match[];
+}
+
+/** A set on the scoresheet with the number of point boxes to cross off */
+export interface ScoresheetSet {
+  label: string;
+  points: number;
+  boxes: number;
+}
+
+// Room for sets that go beyond the target score (two points ahead)
+const EXTRA_POINT_BOXES = 9;
+
+/**
+ * Time × court grid of a phase for the printed schedule. Bye matches are left
+ * out; courts beyond the configured number (after a court change) get their
+ * own column.
+ */
+export function getScheduleGrid(matches: Match[], numberOfCourts: number, days?: EventDay[]): ScheduleGrid {
+  const played = matches.filter(m => !isByeMatch(m));
+  const scheduled = played.filter(m => m.courtNumber !== null && getScheduledMinutes(m, days) !== null);
+  const courtCount = Math.max(numberOfCourts, ...scheduled.map(m => m.courtNumber!));
+  const courts = Array.from({ length: courtCount }, (_, i) => i + 1);
+
+  const rowsByMinutes = new Map<number, ScheduleRow>();
+  scheduled.forEach(match => {
+    const minutes = getScheduledMinutes(match, days)!;
+    let row = rowsByMinutes.get(minutes);
+    if (!row) {
+      row = { minutes, ...formatTimelineMinutes(minutes, days), cells: courts.map(() => []) };
+      rowsByMinutes.set(minutes, row);
+    }
+    row.cells[match.courtNumber! - 1].push(match);
+  });
+
+  return {
+    courts,
+    rows: [...rowsByMinutes.values()].sort((a, b) => a.minutes - b.minutes),
+    unscheduled: played.filter(m => !scheduled.includes(m)).sort((a, b) => a.matchNumber - b.matchNumber),
+  };
+}
+
+/** Sets of a match in the phase's format; the third set of a Best of 3 uses its own target score */
+export function getScoresheetSets(tournament: Pick<Tournament, 'setsPerMatch' | 'pointsPerSet' | 'pointsPerThirdSet'>): ScoresheetSet[] {
+  const { setsPerMatch, pointsPerSet } = tournament;
+  return Array.from({ length: setsPerMatch }, (_, i) => {
+    const points = setsPerMatch === 3 && i === 2 ? tournament.pointsPerThirdSet ?? 15 : pointsPerSet;
+    return { label: `Satz ${i + 1}`, points, boxes: points + EXTRA_POINT_BOXES };
+  });
+}
+
+/** Matches in the order they are played: by planned start, then by match number */
+export function sortByPlannedStart(matches: Match[], days?: EventDay[]): Match[] {
+  const start = (match: Match) => getScheduledMinutes(match, days) ?? Infinity;
+  return matches
+    .filter(m => !isByeMatch(m))
+    .sort((a, b) => start(a) - start(b) || (a.courtNumber ?? 0) - (b.courtNumber ?? 0) || a.matchNumber - b.matchNumber);
+}
@@ -0,0 +1,123 @@
+import type { EventDay, Match, Tournament } from '../types/tournament';
+import { calculateMatchDuration, getScheduledMinutes, isByeMatch } from './scheduling';
+import { isWithdrawn } from './teamWithdrawal';
+
+/**
+ * Referee planner for every system
+ *
+ * Rules:
+ * 1. A referee is an idle team: it neither plays nor referees at the same time
+ * 2. Teams playing right before or after the match are avoided
+ * 3. Teams from the group of one of the two teams are avoided where possible
+ * 4. Duties are balanced: the team with the fewest duties so far is preferred
+ *
+ * Only matches with both teams known get a referee, so brackets are covered as
+ * they resolve. A referee stays assigned while rule 1 holds for it.
+ */
+
+/** Period a match occupies: minutes on the timeline, or its round without a schedule */
+export interface Slot {
+  start: number;
+  end: number;
+}
+
+/** The SSVB knockout keeps its own rules (group fourths, losers of the previous round) */
+export function usesRefereePlanner(t: Tournament): boolean {
+  if (t.system === 'mixer' || t.scheduling?.refereeMode === 'officials') return false;
+  if (t.system === 'knockout' && t.parentPhaseId && t.knockoutConfig?.useReferees) return false;
+  return !!t.scheduling?.assignReferees || !!t.knockoutConfig?.useReferees;
+}
+
+/** Slots of all matches except byes; `timed` is false while the phase has no planned times */
+export function getMatchSlots(t: Tournament, days?: EventDay[]): { slots: Map<string, Slot>; length: number; timed: boolean } {
+  const timed = !!t.scheduling && t.matches.some(m => m.scheduledTime);
+  const length = timed ? calculateMatchDuration(t.setsPerMatch, t.pointsPerSet, t.pointsPerThirdSet, t.scheduling!) : 1;
+  const slots = new Map<string, Slot>();
+  t.matches.forEach(m => {
+    if (isByeMatch(m)) return;
+    const start = timed ? getScheduledMinutes(m, days) : m.round;
+    if (start !== null) slots.set(m.id, { start, end: start + length });
+  });
+  return { slots, length, timed };
+}
+
+/** Whether two slots overlap, or come within `margin` of each other */
+export const overlaps = (a: Slot, b: Slot, margin = 0) => a.start < b.end + margin && b.start < a.end + margin;
+
+export const isOpen = (m: Match) => m.status === 'scheduled' || m.status === 'pending';
+
+/**
+ * Assigns a referee team to every open match of the phase whose teams are known
+ * Returns the phase unchanged if the planner is off or nothing changed.
+ */
+export function planReferees(t: Tournament, days?: EventDay[]): Tournament {
+  if (t.status !== 'in-progress' || !usesRefereePlanner(t)) return t;
+
+  const { slots, length } = getMatchSlots(t, days);
+  // Played matches only count for rule 2: their planned slot may lie after the actual finish
+  const playing = new Map<string, Slot[]>();
+  const busy = new Map<string, Slot[]>();
+  const duties = new Map<string, number>();
+  const add = (map: Map<string, Slot[]>, teamId: string, slot: Slot) => map.set(teamId, [...(map.get(teamId) ?? []), slot]);
+  const assign = (teamId: string, slot: Slot | undefined, done = false) => {
+    if (slot && !done) add(busy, teamId, slot);
+    duties.set(teamId, (duties.get(teamId) ?? 0) + 1);
+  };
+
+  t.matches.forEach(m => {
+    const slot = slots.get(m.id);
+    const done = m.status === 'completed';
+    [m.teamAId, m.teamBId].forEach(teamId => {
+      if (!teamId || !slot) return;
+      add(playing, teamId, slot);
+      if (!done) add(busy, teamId, slot);
+    });
+    // Duties of started and played matches stay as they were
+    if (!isOpen(m) && m.refereeTeamId) assign(m.refereeTeamId, slot, done);
+  });
+
+  const groupOf = new Map((t.groupPhaseConfig?.groups ?? []).flatMap(g => g.teamIds.map(id => [id, g.id] as const)));
+  const isIdle = (teamId: string, match: Match, slot: Slot) =>
+    teamId !== match.teamAId && teamId !== match.teamBId && !isWithdrawn(t, teamId)
+    && !(busy.get(teamId) ?? []).some(s => overlaps(s, slot));
+  const cost = (teamId: string, match: Match, slot: Slot): number[] => {
+    const group = groupOf.get(teamId);
+    return [
+      Number((playing.get(teamId) ?? []).some(s => overlaps(s, slot, length))),
+      Number(!!group && [match.teamAId, match.teamBId].some(id => id && groupOf.get(id) === group)),
+      duties.get(teamId) ?? 0,
+    ];
+  };
+  const compareCosts = (a: number[], b: number[]) => a.reduce((result, value, i) => result || value - b[i], 0);
+
+  const open = t.matches
+    .filter(m => isOpen(m) && m.teamAId && m.teamBId && slots.has(m.id))
+    .sort((a, b) => slots.get(a.id)!.start - slots.get(b.id)!.start || a.matchNumber - b.matchNumber);
+
+  // Referees that are still idle keep their duty; the others are planned anew
+  const referees = new Map<string, string | null>();
+  open.forEach(m => {
+    const slot = slots.get(m.id)!;
+    if (m.refereeTeamId && isIdle(m.refereeTeamId, m, slot)) {
+      referees.set(m.id, m.refereeTeamId);
+      assign(m.refereeTeamId, slot);
+    }
+  });
+  open.filter(m => !referees.has(m.id)).forEach(m => {
+    const slot = slots.get(m.id)!;
+    const best = t.teams
+      .filter(team => isIdle(team.id, m, slot))
+      .map(team => ({ teamId: team.id, cost: cost(team.id, m, slot) }))
+      .sort((a, b) => compareCosts(a.cost, b.cost))[0];
+    referees.set(m.id, best?.teamId ?? null);
+    if (best) assign(best.teamId, slot);
+  });
+
+  let changed = false;
+  const matches = t.matches.map(m => {
+    if (!referees.has(m.id) || (m.refereeTeamId ?? null) === referees.get(m.id)) return m;
+    changed = true;
+    return { ...m, refereeTeamId: referees.get(m.id)! };
+  });
+  return changed ? { ...t, matches } : t;
+}
@@ -0,0 +1,81 @@
+import type { Match, SetScore } from '../types/tournament';
+
+type MatchSource = { matchId: string; result: 'winner' | 'loser' };
+
+/**
+ * Determines the winner from the set scores
+ * A drawn set count goes to team B, as it always has when completing a match.
+ */
+export function getWinnerFromScores(match: Match, scores: SetScore[]): string | null {
+  let setsWonA = 0;
+  let setsWonB = 0;
+  scores.forEach(score => {
+    if (score.teamA > score.teamB) setsWonA++;
+    else if (score.teamB > score.teamA) setsWonB++;
+  });
+
+  return setsWonA > setsWonB ? match.teamAId : match.teamBId;
+}
+
+/**
+ * Whether a match has actually been played (or is being played)
+ * Byes and a cancelled grand final reset are completed without two teams and don't count.
+ */
+export function isMatchPlayed(match: Match): boolean {
+  if (match.status === 'in-progress') return true;
+  return match.status === 'completed' && !!match.teamAId && !!match.teamBId;
+}
+
+/**
+ * Collects every match that depends on the result of the given match,
+ * directly or through other dependent matches, in bracket order
+ */
+export function collectDependentMatches(matches: Match[], matchId: string): Match[] {
+  const sourceIds = new Set([matchId]);
+  const dependsOnSource = (source?: MatchSource) => !!source && sourceIds.has(source.matchId);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    matches.forEach(match => {
+      if (sourceIds.has(match.id)) return;
+      if (dependsOnSource(match.dependsOn?.teamA) || dependsOnSource(match.dependsOn?.teamB)) {
+        sourceIds.add(match.id);
+        changed = true;
+      }
+    });
+  }
+
+  return matches.filter(m => m.id !== matchId && sourceIds.has(m.id));
+}
+
+/**
+ * Resets all dependent matches of the given match to their unplayed state
+ * Only slots filled from the given match or another reset match are cleared; a cancelled
+ * grand final reset gets its "Sieger/Verlierer Spiel N" placeholders back.
+ */
+export function clearDependentMatches(matches: Match[], matchId: string): Match[] {
+  const clearedIds = new Set([matchId, ...collectDependentMatches(matches, matchId).map(m => m.id)]);
+  const isCleared = (source?: MatchSource) => !!source && clearedIds.has(source.matchId);
+  const label = (source: MatchSource) => {
+    const sourceMatch = matches.find(m => m.id === source.matchId);
+    return `${source.result === 'winner' ? 'Sieger' : 'Verlierer'} Spiel ${sourceMatch?.matchNumber}`;
+  };
+
+  return matches.map(match => {
+    if (match.id === matchId || !clearedIds.has(match.id)) return match;
+
+    const { teamA, teamB } = match.dependsOn ?? {};
+    const cancelledReset = match.knockoutRound === 'grand-final-reset' && match.status === 'completed' && !match.winnerId;
+    return {
+      ...match,
+      teamAId: isCleared(teamA) ? null : match.teamAId,
+      teamBId: isCleared(teamB) ? null : match.teamBId,
+      teamAPlaceholder: cancelledReset && teamA ? label(teamA) : match.teamAPlaceholder,
+      teamBPlaceholder: cancelledReset && teamB ? label(teamB) : match.teamBPlaceholder,
+      scores: [],
+      winnerId: null,
+      status: 'pending' as const,
+    };
+  });
+}
@@ -0,0 +1,115 @@
+import type { EventDay, SchedulingSettings } from '../../types/tournament';
+import { parseTimeToMinutes } from './core';
+import { MINUTES_PER_DAY } from './calendar';
+
+interface MinuteWindow {
+  start: number;
+  end: number;
+}
+
+/** Times without play on the timeline (see calendar.ts) */
+export interface Availability {
+  /** Breaks and nights between event days, on every court */
+  breaks: MinuteWindow[];
+  /** Times outside a court's opening hours */
+  courts: Map<number, MinuteWindow[]>;
+}
+
+const byStart = (a: MinuteWindow, b: MinuteWindow) => a.start - b.start;
+
+/**
+ * Breaks and court hours repeat on every day of the calendar unless they name a
+ * date. The last day has no end, so matches left over are still planned there.
+ */
+export function getAvailability(scheduling: SchedulingSettings, days?: EventDay[]): Availability {
+  const calendar: Array<EventDay | undefined> = days?.length ? days : [undefined];
+  const last = calendar.length - 1;
+  const breaks: MinuteWindow[] = [];
+  const courts = new Map<number, MinuteWindow[]>();
+  const close = (courtNumber: number, window: MinuteWindow) =>
+    courts.set(courtNumber, [...(courts.get(courtNumber) ?? []), window]);
+
+  calendar.forEach((day, i) => {
+    const offset = i * MINUTES_PER_DAY;
+    const onDay = (entry: { date?: string }) => !entry.date || entry.date === day?.date;
+    (scheduling.breaks ?? []).filter(onDay).forEach(b => {
+      breaks.push({ start: offset + parseTimeToMinutes(b.start), end: offset + parseTimeToMinutes(b.end) });
+    });
+    (scheduling.courtAvailability ?? []).filter(onDay).forEach(c => {
+      if (c.from) close(c.courtNumber, { start: i === 0 ? -Infinity : offset, end: offset + parseTimeToMinutes(c.from) });
+      if (c.until) close(c.courtNumber, { start: offset + parseTimeToMinutes(c.until), end: i === last ? Infinity : offset + MINUTES_PER_DAY });
+    });
+    const next = calendar[i + 1];
+    if (day && next) {
+      breaks.push({
+        start: offset + parseTimeToMinutes(day.endTime),
+        end: offset + MINUTES_PER_DAY + parseTimeToMinutes(next.startTime),
+      });
+    }
+  });
+
+  courts.forEach(windows => windows.sort(byStart));
+  return { breaks: breaks.filter(b => b.end > b.start).sort(byStart), courts };
+}
+
+/** Same breaks, but every court open all day */
+export function withAllCourtsOpen(availability: Availability): Availability {
+  return { breaks: availability.breaks, courts: new Map() };
+}
+
+/**
+ * Earliest start at or after the given minute at which a match of the given
+ * length fits on the court: within its opening hours and outside every break.
+ * Infinity if the court closes before.
+ */
+export function getNextStart(availability: Availability, courtNumber: number, time: number, duration: number): number {
+  const closed = availability.courts.get(courtNumber);
+  const windows = closed ? [...availability.breaks, ...closed].sort(byStart) : availability.breaks;
+  let start = time;
+  for (const pause of windows) {
+    if (start < pause.end && start + duration > pause.start) start = pause.end;
+  }
+  return start;
+}
+
+/**
+ * Next usable start of every court given when it is free
+ * If all courts are closed, the remaining matches are planned as if the courts
+ * stayed open, so the overrun shows up against the planned end time.
+ */
+export function getCourtStarts(
+  availability: Availability,
+  courtFreeAt: number[],
+  duration: number
+): { starts: number[]; availability: Availability } {
+  const starts = courtFreeAt.map((time, i) => getNextStart(availability, i + 1, time, duration));
+  if (starts.some(Number.isFinite) || availability.courts.size === 0) return { starts, availability };
+  return getCourtStarts(withAllCourtsOpen(availability), courtFreeAt, duration);
+}
+
+/**
+ * End (minutes on the timeline) of a number of equally long matches played from
+ * the given start; each match takes the court that can start it first
+ */
+export function estimateMatchesEnd(
+  matchCount: number,
+  numberOfCourts: number,
+  startMinutes: number,
+  matchDuration: number,
+  scheduling: SchedulingSettings,
+  days?: EventDay[]
+): number {
+  let availability = getAvailability(scheduling, days);
+  const courtFreeAt = Array.from({ length: Math.max(1, numberOfCourts) }, () => startMinutes);
+  let end = startMinutes;
+
+  for (let i = 0; i < matchCount; i++) {
+    const fitted = getCourtStarts(availability, courtFreeAt, matchDuration);
+    availability = fitted.availability;
+    const start = Math.min(...fitted.starts);
+    const court = fitted.starts.indexOf(start);
+    end = Math.max(end, start + matchDuration);
+    courtFreeAt[court] = start + matchDuration + scheduling.minutesBetweenMatches;
+  }
+  return end;
+}
@@ -0,0 +1,99 @@
+import type { EventDay, Match, Tournament } from '../../types/tournament';
+import { formatMinutesToTime, getMinutesOfDay, parseTimeToMinutes } from './core';
+
+/**
+ * Multi-day events are planned on one timeline: minute 0 is midnight of the
+ * first day and every further day of the calendar adds 24 hours, so a match
+ * on the second day at 09:00 starts at minute 1980. Without a calendar the
+ * timeline starts at midnight of the day play began on and runs on past 24:00.
+ */
+export const MINUTES_PER_DAY = 24 * 60;
+
+const toUtcDays = (date: string) => Date.parse(`${date}T00:00:00Z`) / 86_400_000;
+
+/** Calendar days from one "YYYY-MM-DD" date to another */
+export function getDaysBetween(from: string, to: string): number {
+  return Math.round(toUtcDays(to) - toUtcDays(from));
+}
+
+/** Date "YYYY-MM-DD" the given number of days after another */
+export function addDays(date: string, days: number): string {
+  return new Date((toUtcDays(date) + days) * 86_400_000).toISOString().slice(0, 10);
+}
+
+/** Local date "YYYY-MM-DD" of an ISO timestamp */
+export function getLocalDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Position of a date on the timeline; dates after the last day count on from it */
+function getDayIndex(date: string, days: EventDay[]): number {
+  const index = days.findIndex(d => d.date === date);
+  if (index >= 0) return index;
+  const last = days.length - 1;
+  return last + Math.max(1, getDaysBetween(days[last].date, date));
+}
+
+/** Start of a day's play on the timeline */
+export function getDayStartMinutes(days: EventDay[], dayIndex: number): number {
+  return dayIndex * MINUTES_PER_DAY + parseTimeToMinutes(days[dayIndex].startTime);
+}
+
+/** End of a day's play on the timeline */
+export function getDayEndMinutes(days: EventDay[], dayIndex: number): number {
+  return dayIndex * MINUTES_PER_DAY + parseTimeToMinutes(days[dayIndex].endTime);
+}
+
+/** Local date of the earliest recorded match start or finish; undefined before play began */
+export function getPlayDate(phases: Tournament[]): string | undefined {
+  const moments = phases.flatMap(p => p.matches.flatMap(m => [m.startedAt, m.completedAt]))
+    .filter((at): at is string => !!at)
+    .map(at => Date.parse(at));
+  return moments.length > 0 ? getLocalDate(new Date(Math.min(...moments)).toISOString()) : undefined;
+}
+
+/**
+ * Moment of an ISO timestamp on the timeline
+ * A moment between two event days counts as the start of the next one. Without
+ * a calendar the minutes count on from the day play began (`playDate`), so a
+ * match after midnight starts at e.g. "24:10" and re-planning never moves
+ * matches back into the past.
+ */
+export function toTimelineMinutes(timestamp: string, days?: EventDay[], playDate?: string): number {
+  const minutes = getMinutesOfDay(timestamp);
+  const date = getLocalDate(timestamp);
+  if (!days?.length) {
+    if (!playDate || date === playDate) return minutes;
+    return date > playDate ? getDaysBetween(playDate, date) * MINUTES_PER_DAY + minutes : 0;
+  }
+  const next = days.findIndex(d => d.date >= date);
+  if (next >= 0 && days[next].date !== date) return next * MINUTES_PER_DAY;
+  return getDayIndex(date, days) * MINUTES_PER_DAY + minutes;
+}
+
+/** Time and (with a calendar) date of a point on the timeline */
+export function formatTimelineMinutes(minutes: number, days?: EventDay[]): { time: string; date?: string } {
+  if (!days?.length) return { time: formatMinutesToTime(minutes) };
+  const dayIndex = Math.max(0, Math.floor(minutes / MINUTES_PER_DAY));
+  const last = days.length - 1;
+  return {
+    time: formatMinutesToTime(minutes - dayIndex * MINUTES_PER_DAY),
+    date: dayIndex <= last ? days[dayIndex].date : addDays(days[last].date, dayIndex - last),
+  };
+}
+
+/** Planned start of a match on the timeline; null if it has none */
+export function getScheduledMinutes(match: Match, days?: EventDay[]): number | null {
+  if (!match.scheduledTime) return null;
+  const offset = days?.length && match.scheduledDate ? getDayIndex(match.scheduledDate, days) * MINUTES_PER_DAY : 0;
+  return offset + parseTimeToMinutes(match.scheduledTime);
+}
+
+/** Short German day label, e.g. "Sa 14.06." */
+export function formatDayLabel(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = ['So', 'Mo', 'Di', 'Mi', 'Do', 'Fr', 'Sa'][new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+  return `${weekday} ${String(day).padStart(2, '0')}.${String(month).padStart(2, '0')}.`;
+}
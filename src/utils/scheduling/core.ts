@@ -8,6 +8,7 @@ export const DEFAULT_SCHEDULING: SchedulingSettings = {
   minutesPer15PointSet: 12,
   minutesBetweenMatches: 5,
   minutesBetweenPhases: 0,
+  minimumRestMinutes: 0,
 };
 
 /**
@@ -27,6 +28,14 @@ export function formatMinutesToTime(totalMinutes: number): string {
   return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
 
+/**
+ * Converts an ISO timestamp into minutes since local midnight
+ */
+export function getMinutesOfDay(timestamp: string): number {
+  const date = new Date(timestamp);
+  return date.getHours() * 60 + date.getMinutes();
+}
+
 /**
  * Calculates the estimated duration of a single match in minutes
  */
@@ -3,31 +3,52 @@ export {
   DEFAULT_SCHEDULING,
   parseTimeToMinutes,
   formatMinutesToTime,
+  getMinutesOfDay,
   calculateMatchDuration,
 } from './core';
 
-// Match time calculations
+// Multi-day timeline
+export {
+  MINUTES_PER_DAY,
+  addDays,
+  getLocalDate,
+  getPlayDate,
+  getDayStartMinutes,
+  getDayEndMinutes,
+  toTimelineMinutes,
+  formatTimelineMinutes,
+  getScheduledMinutes,
+  formatDayLabel,
+} from './calendar';
+
+// Phase end and overrun from the scheduled matches
 export {
-  calculateMatchStartTime,
   calculateTournamentEndTime,
   checkTimeOverrun,
   calculatePhaseEndMinutes,
 } from './matchTime';
 
+// Breaks and court opening hours
+export {
+  getAvailability,
+  getNextStart,
+  estimateMatchesEnd,
+  type Availability,
+} from './availability';
+
 // Tournament duration estimation
 export {
   estimateTournamentDuration,
   estimateSSVBTournamentDuration,
 } from './tournamentEstimation';
 
-// Phase-aware time calculations
-export {
-  calculateMatchStartTimeWithPhases,
-  calculateMatchStartTimeForPhase,
-} from './phaseTime';
-
-// Knockout time calculations (for internal use, but exported if needed)
+// Court and time-slot scheduler
 export {
-  calculateKnockoutMatchStartTime,
-  calculateKnockoutMatchStartTimeWithOffset,
-} from './knockoutTime';
+  scheduleMatches,
+  scheduleTournament,
+  schedulePhases,
+  projectScheduleEnd,
+  isByeMatch,
+  type ScheduledSlot,
+  type SchedulerOptions,
+} from './scheduler';
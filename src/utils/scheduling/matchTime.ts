@@ -1,75 +1,37 @@
-import type { Match, Tournament } from '../../types/tournament';
+import type { Tournament } from '../../types/tournament';
 import { parseTimeToMinutes, formatMinutesToTime, calculateMatchDuration } from './core';
 
 /**
- * Calculates the scheduled start time for a specific match
+ * Calculates the end of the last scheduled match of a phase in minutes
+ * Falls back to the given start (or the configured start time) if nothing is scheduled.
  */
-export function calculateMatchStartTime(
-  match: Match,
-  allMatches: Match[],
-  tournament: Tournament
-): string | null {
+export function calculatePhaseEndMinutes(
+  tournament: Tournament,
+  startMinutes?: number
+): number {
   const scheduling = tournament.scheduling;
-  if (!scheduling) return null;
-
-  const { numberOfCourts, setsPerMatch, pointsPerSet, pointsPerThirdSet } = tournament;
-  const { minutesBetweenMatches } = scheduling;
+  const phaseStart = startMinutes ?? parseTimeToMinutes(scheduling?.startTime ?? '09:00');
+  if (!scheduling) return phaseStart;
 
   const matchDuration = calculateMatchDuration(
-    setsPerMatch,
-    pointsPerSet,
-    pointsPerThirdSet,
+    tournament.setsPerMatch,
+    tournament.pointsPerSet,
+    tournament.pointsPerThirdSet,
     scheduling
   );
+  const ends = tournament.matches
+    .filter(m => m.scheduledTime)
+    .map(m => parseTimeToMinutes(m.scheduledTime!) + matchDuration);
 
-  // Sort matches by round, then by matchNumber to get the order
-  const sortedMatches = [...allMatches].sort((a, b) => {
-    if (a.round !== b.round) return a.round - b.round;
-    return a.matchNumber - b.matchNumber;
-  });
-
-  // Find the index of the current match
-  const matchIndex = sortedMatches.findIndex(m => m.id === match.id);
-  if (matchIndex === -1) return null;
-
-  // Calculate which time slot this match is in
-  // With multiple courts, matches run in parallel
-  const timeSlot = Math.floor(matchIndex / numberOfCourts);
-
-  // Calculate start time
-  const startMinutes = parseTimeToMinutes(scheduling.startTime);
-  const matchStartMinutes = startMinutes + timeSlot * (matchDuration + minutesBetweenMatches);
-
-  return formatMinutesToTime(matchStartMinutes);
+  return Math.max(phaseStart, ...ends);
 }
 
 /**
- * Calculates the estimated end time of the tournament
+ * Calculates the estimated end time of the tournament from the scheduled matches
  */
 export function calculateTournamentEndTime(tournament: Tournament): string | null {
-  const scheduling = tournament.scheduling;
-  if (!scheduling || tournament.matches.length === 0) return null;
-
-  const { numberOfCourts, setsPerMatch, pointsPerSet, pointsPerThirdSet, matches } = tournament;
-  const { minutesBetweenMatches } = scheduling;
-
-  const matchDuration = calculateMatchDuration(
-    setsPerMatch,
-    pointsPerSet,
-    pointsPerThirdSet,
-    scheduling
-  );
-
-  // Calculate number of time slots needed
-  const numberOfTimeSlots = Math.ceil(matches.length / numberOfCourts);
-
-  // Calculate total duration
-  const totalDuration = numberOfTimeSlots * (matchDuration + minutesBetweenMatches) - minutesBetweenMatches;
-
-  const startMinutes = parseTimeToMinutes(scheduling.startTime);
-  const endMinutes = startMinutes + totalDuration;
-
-  return formatMinutesToTime(endMinutes);
+  if (!tournament.scheduling || !tournament.matches.some(m => m.scheduledTime)) return null;
+  return formatMinutesToTime(calculatePhaseEndMinutes(tournament));
 }
 
 /**
@@ -102,35 +64,3 @@ export function checkTimeOverrun(tournament: Tournament): {
     overrunMinutes,
   };
 }
-
-/**
- * Calculates the end time in minutes for a tournament phase
- */
-export function calculatePhaseEndMinutes(
-  tournament: Tournament,
-  startMinutes?: number
-): number {
-  const scheduling = tournament.scheduling;
-  if (!scheduling || tournament.matches.length === 0) {
-    return startMinutes ?? parseTimeToMinutes(scheduling?.startTime ?? '09:00');
-  }
-
-  const { numberOfCourts, setsPerMatch, pointsPerSet, pointsPerThirdSet, matches } = tournament;
-  const { minutesBetweenMatches } = scheduling;
-
-  const matchDuration = calculateMatchDuration(
-    setsPerMatch,
-    pointsPerSet,
-    pointsPerThirdSet,
-    scheduling
-  );
-
-  // Calculate number of time slots needed
-  const numberOfTimeSlots = Math.ceil(matches.length / numberOfCourts);
-
-  // Calculate total duration
-  const totalDuration = numberOfTimeSlots * (matchDuration + minutesBetweenMatches) - minutesBetweenMatches;
-
-  const phaseStart = startMinutes ?? parseTimeToMinutes(scheduling.startTime);
-  return phaseStart + totalDuration;
-}
@@ -0,0 +1,298 @@
+import type { EventCalendar, EventDay, Match, Team, Tournament } from '../../types/tournament';
+import { calculateMatchDuration, parseTimeToMinutes } from './core';
+import { getAvailability, getCourtStarts, type Availability } from './availability';
+import { formatTimelineMinutes, getDayStartMinutes, getPlayDate, getScheduledMinutes, toTimelineMinutes } from './calendar';
+
+/** Court and time assigned to a match (minutes on the timeline, see calendar.ts) */
+export interface ScheduledSlot {
+  courtNumber: number;
+  start: number;
+  end: number;
+}
+
+export interface SchedulerOptions {
+  numberOfCourts: number;
+  startMinutes: number;
+  matchDuration: number;
+  minutesBetweenMatches: number;
+  /** Minimum time between two matches of the same team */
+  minimumRestMinutes: number;
+  /** Home court per group; group matches stay there while it is free */
+  groupCourts?: Map<string, number>;
+  /** Players or teams busy until the given minute (e.g. from the previous phase) */
+  busyUntil?: Map<string, number>;
+  /** Matches that keep their slot (already started or played) */
+  fixed?: Map<string, ScheduledSlot>;
+  /** Breaks and court opening hours; matches are only placed where they fit completely */
+  availability?: Availability;
+}
+
+const BYE_PLACEHOLDER = 'Freilos';
+
+/** Byes never occupy a court */
+export function isByeMatch(match: Match): boolean {
+  return match.teamAPlaceholder === BYE_PLACEHOLDER || match.teamBPlaceholder === BYE_PLACEHOLDER
+    || (match.status === 'completed' && (!match.teamAId || !match.teamBId));
+}
+
+/**
+ * Everyone who must not be on two courts at once: the players of a Mixer pair,
+ * the team, or (before it is known) the group rank or standing the team comes from
+ */
+function getParticipants(match: Match, teams: Map<string, Team>): string[] {
+  const side = (teamId: string | null, source: Match['teamASource']) => {
+    if (teamId) return teams.get(teamId)?.playerIds ?? [teamId];
+    return source ? [`source:${JSON.stringify(source)}`] : [];
+  };
+  return [...side(match.teamAId, match.teamASource), ...side(match.teamBId, match.teamBSource)];
+}
+
+function getDependencies(match: Match): string[] {
+  return [match.dependsOn?.teamA?.matchId, match.dependsOn?.teamB?.matchId].filter((id): id is string => !!id);
+}
+
+/**
+ * Assigns every match a court and a start time by list scheduling
+ * Whenever a court is free, the next match whose teams are rested and whose
+ * preceding matches are scheduled is placed there. Preference: the group's home
+ * court, then lower rounds, then teams that did not just play. A team is never
+ * on two courts at once and a knockout match never starts before the matches
+ * it depends on have ended. No match runs into a break or past its court's closing.
+ */
+export function scheduleMatches(
+  matches: Match[],
+  teams: Team[],
+  options: SchedulerOptions
+): Map<string, ScheduledSlot> {
+  const { numberOfCourts, matchDuration, minutesBetweenMatches, groupCourts, fixed } = options;
+  const rest = Math.max(minutesBetweenMatches, options.minimumRestMinutes);
+  const teamsById = new Map(teams.map(t => [t.id, t]));
+  const participants = new Map(matches.map(m => [m.id, getParticipants(m, teamsById)]));
+  const slots = new Map<string, ScheduledSlot>();
+  const busyUntil = new Map(options.busyUntil);
+  const courtFreeAt = Array.from({ length: Math.max(1, numberOfCourts) }, () => options.startMinutes);
+  let availability: Availability = options.availability ?? { breaks: [], courts: new Map() };
+
+  const occupy = (match: Match, slot: ScheduledSlot) => {
+    slots.set(match.id, slot);
+    participants.get(match.id)!.forEach(p => busyUntil.set(p, Math.max(busyUntil.get(p) ?? -Infinity, slot.end)));
+    const court = slot.courtNumber - 1;
+    if (court < courtFreeAt.length) courtFreeAt[court] = Math.max(courtFreeAt[court], slot.end + minutesBetweenMatches);
+  };
+
+  const open: Match[] = [];
+  matches.forEach(m => {
+    const slot = fixed?.get(m.id);
+    if (slot) occupy(m, slot);
+    else if (!isByeMatch(m)) open.push(m);
+  });
+  const byeIds = new Set(matches.filter(isByeMatch).map(m => m.id));
+
+  /** Earliest start regarding teams and dependencies; null while a dependency is unscheduled */
+  const earliestStart = (match: Match): number | null => {
+    let earliest = options.startMinutes;
+    for (const dependency of getDependencies(match)) {
+      if (byeIds.has(dependency)) continue;
+      const slot = slots.get(dependency);
+      if (!slot) return null;
+      earliest = Math.max(earliest, slot.end + rest);
+    }
+    participants.get(match.id)!.forEach(p => {
+      const until = busyUntil.get(p);
+      if (until !== undefined) earliest = Math.max(earliest, until + rest);
+    });
+    return earliest;
+  };
+
+  const justPlayed = (match: Match, time: number) =>
+    participants.get(match.id)!.some(p => time - (busyUntil.get(p) ?? -Infinity) < matchDuration);
+
+  const compare = (time: number) => (a: Match, b: Match) =>
+    a.round - b.round
+    || Number(justPlayed(a, time)) - Number(justPlayed(b, time))
+    || a.matchNumber - b.matchNumber;
+
+  while (open.length > 0) {
+    const fitted = getCourtStarts(availability, courtFreeAt, matchDuration);
+    availability = fitted.availability;
+    const starts = fitted.starts;
+    const time = Math.min(...starts);
+    const freeCourts = starts.map((t, i) => (t === time ? i + 1 : 0)).filter(c => c > 0);
+    const used = new Set<number>();
+
+    // First every free court takes a match of its own group, then any match
+    for (const homeOnly of [true, false]) {
+      for (const court of freeCourts) {
+        if (used.has(court)) continue;
+        const candidates = open.filter(m => {
+          const earliest = earliestStart(m);
+          if (earliest === null || earliest > time) return false;
+          return !homeOnly || (m.groupId !== undefined && groupCourts?.get(m.groupId) === court);
+        });
+        if (candidates.length === 0) continue;
+        const match = candidates.sort(compare(time))[0];
+        open.splice(open.indexOf(match), 1);
+        occupy(match, { courtNumber: court, start: time, end: time + matchDuration });
+        used.add(court);
+      }
+    }
+
+    // Idle courts wait for the next point in time where something can change
+    const idle = freeCourts.filter(c => !used.has(c));
+    if (idle.length === 0) continue;
+    const nextTimes = [
+      ...open.map(earliestStart).filter((t): t is number => t !== null && t > time),
+      ...starts.filter(t => t > time && t !== Infinity),
+    ];
+    if (nextTimes.length === 0) break; // Only matches with unresolvable dependencies remain
+    const next = Math.min(...nextTimes);
+    idle.forEach(c => { courtFreeAt[c - 1] = next; });
+  }
+
+  return slots;
+}
+
+/**
+ * Slot of a match that already started or was played
+ * Uses the recorded start and finish where available; a running match is
+ * expected to last its estimated duration, but at least until now.
+ */
+function getFixedSlot(match: Match, matchDuration: number, now?: number, days?: EventDay[], playDate?: string): ScheduledSlot | null {
+  if (match.status === 'scheduled' || match.status === 'pending' || match.courtNumber === null) return null;
+  const start = match.startedAt ? toTimelineMinutes(match.startedAt, days, playDate) : getScheduledMinutes(match, days);
+  if (start === null) return null;
+
+  if (match.status === 'completed') {
+    const end = match.completedAt ? Math.max(start, toTimelineMinutes(match.completedAt, days, playDate)) : start + matchDuration;
+    return { courtNumber: match.courtNumber, start, end };
+  }
+  return { courtNumber: match.courtNumber, start, end: Math.max(start + matchDuration, now ?? -Infinity) };
+}
+
+/**
+ * Schedules one phase starting at the given minute
+ * Started and completed matches keep their slot; returns the phase (unchanged
+ * object if nothing moved), its last match end and who is busy until when.
+ * With `now` the remaining matches are re-planned from the actual progress:
+ * nothing starts in the past and a court that finished early takes the next match.
+ * With the days of a multi-day event, matches carry their date and no match
+ * is planned outside the days' playing hours. Without them, `playDate` is the
+ * day the recorded starts and finishes are placed on.
+ */
+export function scheduleTournament(
+  tournament: Tournament,
+  startMinutes: number,
+  busyUntil: Map<string, number> = new Map(),
+  now?: number,
+  days?: EventDay[],
+  playDate?: string
+): { tournament: Tournament; endMinutes: number; busyUntil: Map<string, number> } {
+  const scheduling = tournament.scheduling;
+  if (!scheduling || tournament.matches.length === 0) {
+    return { tournament, endMinutes: startMinutes, busyUntil };
+  }
+
+  const matchDuration = calculateMatchDuration(
+    tournament.setsPerMatch,
+    tournament.pointsPerSet,
+    tournament.pointsPerThirdSet,
+    scheduling
+  );
+  const fixed = new Map<string, ScheduledSlot>();
+  tournament.matches.forEach(m => {
+    const slot = getFixedSlot(m, matchDuration, now, days, playDate);
+    if (slot) fixed.set(m.id, slot);
+  });
+  const groups = tournament.groupPhaseConfig?.groups ?? [];
+  const numberOfCourts = Math.max(1, tournament.numberOfCourts);
+
+  // Open matches are never planned before a match that already started
+  const slots = scheduleMatches(tournament.matches, tournament.teams, {
+    numberOfCourts,
+    startMinutes: Math.max(startMinutes, now ?? -Infinity, ...[...fixed.values()].map(s => s.start)),
+    matchDuration,
+    minutesBetweenMatches: scheduling.minutesBetweenMatches,
+    minimumRestMinutes: scheduling.minimumRestMinutes ?? 0,
+    groupCourts: new Map(groups.map((g, i) => [g.id, (i % numberOfCourts) + 1])),
+    busyUntil,
+    fixed,
+    availability: getAvailability(scheduling, days),
+  });
+
+  let changed = false;
+  const matches = tournament.matches.map(m => {
+    if (fixed.has(m.id)) return m;
+    const slot = slots.get(m.id);
+    const { time: scheduledTime, date: scheduledDate } = slot ? formatTimelineMinutes(slot.start, days) : {};
+    const courtNumber = slot ? slot.courtNumber : isByeMatch(m) ? null : m.courtNumber;
+    if (m.scheduledTime === scheduledTime && m.scheduledDate === scheduledDate && m.courtNumber === courtNumber) return m;
+    changed = true;
+    return { ...m, scheduledTime, scheduledDate, courtNumber };
+  });
+
+  const teamsById = new Map(tournament.teams.map(t => [t.id, t]));
+  const nextBusyUntil = new Map(busyUntil);
+  tournament.matches.forEach(m => {
+    const slot = slots.get(m.id);
+    if (!slot) return;
+    getParticipants(m, teamsById).forEach(p => nextBusyUntil.set(p, Math.max(nextBusyUntil.get(p) ?? -Infinity, slot.end)));
+  });
+  const endMinutes = Math.max(startMinutes, ...[...slots.values()].map(s => s.end));
+
+  return { tournament: changed ? { ...tournament, matches } : tournament, endMinutes, busyUntil: nextBusyUntil };
+}
+
+/** Schedules the phases in order; returns them and the end of the last scheduled phase */
+function planPhases(
+  phases: Tournament[],
+  now?: number,
+  calendar?: EventCalendar
+): { phases: Tournament[]; endMinutes: number | null } {
+  const days = calendar?.days.length ? calendar.days : undefined;
+  const playDate = days ? undefined : getPlayDate(phases);
+  /** Start of the day a phase is assigned to, or of the first day */
+  const getDayStart = (phase: Tournament, assignedOnly: boolean): number | null => {
+    if (!days) return null;
+    const assigned = calendar?.phaseDays?.[(phase.phaseOrder ?? 1) - 1];
+    if (assigned !== undefined && assigned < days.length) return getDayStartMinutes(days, assigned);
+    return assignedOnly ? null : getDayStartMinutes(days, 0);
+  };
+  const ordered = [...phases].sort((a, b) => (a.phaseOrder ?? 0) - (b.phaseOrder ?? 0));
+  let previousEnd: number | null = null;
+  let busyUntil = new Map<string, number>();
+  const scheduled = new Map<string, Tournament>();
+
+  ordered.forEach(phase => {
+    if (!phase.scheduling || phase.status === 'configuration') {
+      scheduled.set(phase.id, phase);
+      return;
+    }
+    const startMinutes: number = previousEnd === null
+      ? getDayStart(phase, false) ?? parseTimeToMinutes(phase.scheduling.startTime)
+      : Math.max(previousEnd + phase.scheduling.minutesBetweenPhases, getDayStart(phase, true) ?? -Infinity);
+    const result = scheduleTournament(phase, startMinutes, busyUntil, now, days, playDate);
+    scheduled.set(phase.id, result.tournament);
+    previousEnd = result.endMinutes;
+    busyUntil = result.busyUntil;
+  });
+
+  return { phases: phases.map(p => scheduled.get(p.id)!), endMinutes: previousEnd };
+}
+
+/**
+ * Schedules all phases of a tournament one after another
+ * Each phase starts when the previous one ends plus the pause between phases,
+ * but not before the day the event calendar assigns it to.
+ * `now` (minutes on the timeline) re-plans the remaining matches from the actual progress.
+ */
+export function schedulePhases(phases: Tournament[], now?: number, calendar?: EventCalendar): Tournament[] {
+  return planPhases(phases, now, calendar).phases;
+}
+
+/**
+ * Projected end (minutes on the timeline) of the last match of all phases if the
+ * remaining matches were planned from now on; null if nothing is scheduled
+ */
+export function projectScheduleEnd(phases: Tournament[], now: number, calendar?: EventCalendar): number | null {
+  return planPhases(phases, now, calendar).endMinutes;
+}
@@ -1,9 +1,12 @@
-import type { SchedulingSettings } from '../../types/tournament';
+import type { EventDay, SchedulingSettings } from '../../types/tournament';
 import { parseTimeToMinutes, formatMinutesToTime, calculateMatchDuration } from './core';
+import { estimateMatchesEnd } from './availability';
 
 /**
  * Estimates the total match count and duration for planning purposes
- * (before the tournament has started)
+ * (before the tournament has started); breaks and court opening hours are honoured
+ * With the days of a multi-day event, play starts on the first day and minutes
+ * count on the timeline (see calendar.ts).
  */
 export function estimateTournamentDuration(
   teamCount: number,
@@ -13,7 +16,8 @@ export function estimateTournamentDuration(
   setsPerMatch: number,
   pointsPerSet: number,
   pointsPerThirdSet: number | undefined,
-  scheduling: SchedulingSettings
+  scheduling: SchedulingSettings,
+  days?: EventDay[]
 ): {
   matchCount: number;
   totalMinutes: number;
@@ -35,6 +39,18 @@ export function estimateTournamentDuration(
     const numberOfGroups = Math.ceil(teamCount / teamsPerGroup);
     const matchesPerGroup = (teamsPerGroup * (teamsPerGroup - 1)) / 2; // 6 for 4 teams
     matchCount = numberOfGroups * matchesPerGroup;
+  } else if (system === 'mixer') {
+    // Mixer: one match per 4 players each round, the rest sit out
+    matchCount = Math.floor(teamCount / 4) * (numberOfRounds ?? 1);
+  } else if (system === 'double-elimination') {
+    // Double elimination: every team but the champion loses twice (reset match not included)
+    matchCount = 2 * teamCount - 2;
+  } else if (system === 'knockout') {
+    // Single out: every team but the champion loses once (third place match not included)
+    matchCount = teamCount - 1;
+  } else if (system === 'placement-tree') {
+    // Placement tree: at most N/2 matches per round (upper bound, matches against byes are not played)
+    matchCount = Math.floor(teamCount / 2) * Math.ceil(Math.log2(teamCount));
   } else {
     // Default fallback
     matchCount = teamCount;
@@ -47,14 +63,10 @@ export function estimateTournamentDuration(
     scheduling
   );
 
-  const { minutesBetweenMatches } = scheduling;
-  const numberOfTimeSlots = Math.ceil(matchCount / numberOfCourts);
-  const totalMinutes = numberOfTimeSlots * (matchDuration + minutesBetweenMatches) - minutesBetweenMatches;
-
-  const startMinutes = parseTimeToMinutes(scheduling.startTime);
-  const endTime = formatMinutesToTime(startMinutes + totalMinutes);
+  const startMinutes = parseTimeToMinutes(days?.length ? days[0].startTime : scheduling.startTime);
+  const endMinutes = estimateMatchesEnd(matchCount, numberOfCourts, startMinutes, matchDuration, scheduling, days);
 
-  return { matchCount, totalMinutes, endTime };
+  return { matchCount, totalMinutes: endMinutes - startMinutes, endTime: formatMinutesToTime(endMinutes) };
 }
 
 /**
@@ -117,7 +129,8 @@ export function estimateSSVBTournamentDuration(
   knockoutPointsPerThirdSet: number | undefined,
   playThirdPlaceMatch: boolean,
   scheduling: SchedulingSettings,
-  teamsPerGroup: number = 4
+  teamsPerGroup: number = 4,
+  days?: EventDay[]
 ): {
   groupPhaseMatchCount: number;
   knockoutMatchCount: number;
@@ -153,10 +166,6 @@ export function estimateSSVBTournamentDuration(
     scheduling
   );
 
-  const groupPhaseTimeSlots = Math.ceil(groupPhaseMatchCount / numberOfCourts);
-  const groupPhaseMinutes = groupPhaseTimeSlots * (groupPhaseMatchDuration + scheduling.minutesBetweenMatches)
-    - scheduling.minutesBetweenMatches;
-
   // Calculate knockout duration
   const knockoutMatchDuration = calculateMatchDuration(
     knockoutSetsPerMatch,
@@ -165,15 +174,17 @@ export function estimateSSVBTournamentDuration(
     scheduling
   );
 
-  const knockoutTimeSlots = Math.ceil(knockoutMatchCount / numberOfCourts);
-  const knockoutMinutes = knockoutTimeSlots * (knockoutMatchDuration + scheduling.minutesBetweenMatches)
-    - scheduling.minutesBetweenMatches;
-
-  // Calculate times
-  const startMinutes = parseTimeToMinutes(scheduling.startTime);
-  const groupPhaseEndMinutes = startMinutes + groupPhaseMinutes;
+  // Calculate times (breaks and court opening hours included)
+  const startMinutes = parseTimeToMinutes(days?.length ? days[0].startTime : scheduling.startTime);
+  const groupPhaseEndMinutes = estimateMatchesEnd(
+    groupPhaseMatchCount, numberOfCourts, startMinutes, groupPhaseMatchDuration, scheduling, days
+  );
   const knockoutStartMinutes = groupPhaseEndMinutes + scheduling.minutesBetweenPhases;
-  const knockoutEndMinutes = knockoutStartMinutes + knockoutMinutes;
+  const knockoutEndMinutes = estimateMatchesEnd(
+    knockoutMatchCount, numberOfCourts, knockoutStartMinutes, knockoutMatchDuration, scheduling, days
+  );
+  const groupPhaseMinutes = groupPhaseEndMinutes - startMinutes;
+  const knockoutMinutes = knockoutEndMinutes - knockoutStartMinutes;
 
   return {
     groupPhaseMatchCount,
@@ -181,7 +192,7 @@ export function estimateSSVBTournamentDuration(
     totalMatchCount: groupPhaseMatchCount + knockoutMatchCount,
     groupPhaseMinutes,
     knockoutMinutes,
-    totalMinutes: groupPhaseMinutes + scheduling.minutesBetweenPhases + knockoutMinutes,
+    totalMinutes: knockoutEndMinutes - startMinutes,
     groupPhaseEndTime: formatMinutesToTime(groupPhaseEndMinutes),
     knockoutEndTime: formatMinutesToTime(knockoutEndMinutes),
   };
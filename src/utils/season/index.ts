@@ -0,0 +1,11 @@
+export { assignTeamProfiles, normalizeName } from './profiles';
+export {
+  getBestPlacement,
+  getEventDate,
+  getSeasonStatistics,
+  getSeasonYears,
+  getWinRate,
+  type SeasonEvent,
+  type SeasonRecord,
+  type SeasonStatistics,
+} from './statistics';
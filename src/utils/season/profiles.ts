@@ -0,0 +1,39 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Team, Tournament } from '../../types/tournament';
+
+/** Team and player names compared case-insensitively and without surrounding or repeated spaces */
+export function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Gives every team of a tournament's phases a stable profile ID
+ * Later phases copy the teams with new IDs, so the same name within the
+ * tournament shares one profile. A name already known from archived
+ * tournaments reuses that profile; teams that have one keep it.
+ * Mixer pairs are generated per round and get none.
+ */
+export function assignTeamProfiles(phases: Tournament[], archivedTeams: Team[]): Tournament[] {
+  const profiles = new Map<string, string>();
+  archivedTeams.forEach(team => {
+    const name = normalizeName(team.name);
+    if (team.profileId && !profiles.has(name)) profiles.set(name, team.profileId);
+  });
+  // Existing profiles in this tournament win over name matches from the archive
+  phases.forEach(phase => phase.teams.forEach(team => {
+    if (team.profileId && phase.system !== 'mixer') profiles.set(normalizeName(team.name), team.profileId);
+  }));
+
+  return phases.map(phase => {
+    if (phase.system === 'mixer') return phase;
+    return {
+      ...phase,
+      teams: phase.teams.map(team => {
+        if (team.profileId) return team;
+        const name = normalizeName(team.name);
+        if (!profiles.has(name)) profiles.set(name, uuidv4());
+        return { ...team, profileId: profiles.get(name) };
+      }),
+    };
+  });
+}
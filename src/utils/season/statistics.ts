@@ -0,0 +1,180 @@
+import type { Match, Team, Tournament, TournamentContainer } from '../../types/tournament';
+import { getFinalPlacements, getPlaceNumber } from '../placements';
+import { calculatePlayerStandings } from '../standings';
+import { normalizeName } from './profiles';
+
+/** One tournament a team or player took part in */
+export interface SeasonEvent {
+  containerId: string;
+  name: string;
+  /** "YYYY-MM-DD" */
+  date: string;
+  /** null if no phase ranks them (e.g. a tournament without standings) */
+  placement: string | null;
+}
+
+/** Results of a team or player over all tournaments of a season */
+export interface SeasonRecord {
+  /** Profile ID of a team, normalized name of a player */
+  key: string;
+  /** Name in the most recent tournament */
+  name: string;
+  /** Sorted by date */
+  events: SeasonEvent[];
+  played: number;
+  won: number;
+  lost: number;
+  setsWon: number;
+  setsLost: number;
+  pointsWon: number;
+  pointsLost: number;
+}
+
+export interface SeasonStatistics {
+  teams: SeasonRecord[];
+  players: SeasonRecord[];
+}
+
+/** First day of a multi-day event, otherwise the day the tournament was created */
+export function getEventDate(container: TournamentContainer): string {
+  return container.calendar?.days[0]?.date ?? container.createdAt.slice(0, 10);
+}
+
+/** Years with archived tournaments, newest first */
+export function getSeasonYears(containers: TournamentContainer[]): string[] {
+  const years = containers.filter(c => c.archivedAt).map(c => getEventDate(c).slice(0, 4));
+  return [...new Set(years)].sort().reverse();
+}
+
+export function getWinRate(record: SeasonRecord): number {
+  return record.played > 0 ? record.won / record.played : 0;
+}
+
+/** Best placement of all events, null without any */
+export function getBestPlacement(record: SeasonRecord): string | null {
+  const placements = record.events.map(e => e.placement).filter((p): p is string => p !== null);
+  if (placements.length === 0) return null;
+  return placements.reduce((best, p) => (getPlaceNumber(p) < getPlaceNumber(best) ? p : best));
+}
+
+const teamKey = (team: Team) => team.profileId ?? `name:${normalizeName(team.name)}`;
+
+function createRecord(key: string, name: string): SeasonRecord {
+  return { key, name, events: [], played: 0, won: 0, lost: 0, setsWon: 0, setsLost: 0, pointsWon: 0, pointsLost: 0 };
+}
+
+function addMatch(record: SeasonRecord, match: Match, teamId: string): void {
+  const isTeamA = match.teamAId === teamId;
+  record.played++;
+  if (match.winnerId === teamId) record.won++;
+  else record.lost++;
+  match.scores.forEach(score => {
+    const [own, other] = isTeamA ? [score.teamA, score.teamB] : [score.teamB, score.teamA];
+    record.pointsWon += own;
+    record.pointsLost += other;
+    if (own > other) record.setsWon++;
+    else if (other > own) record.setsLost++;
+  });
+}
+
+const isPlayed = (match: Match) => match.status === 'completed' && !!match.teamAId && !!match.teamBId && !!match.winnerId;
+
+/** Keeps the better of two placements */
+const better = (current: string | null, next: string) =>
+  current === null || getPlaceNumber(next) < getPlaceNumber(current) ? next : current;
+
+/**
+ * Team and player statistics over the given tournaments
+ * Teams are linked across tournaments by their profile ID, players by name.
+ * Players come from the registered player names of a team or, in a mixer,
+ * from its players, and are credited with their pair's results.
+ */
+export function getSeasonStatistics(tournaments: Tournament[], containers: TournamentContainer[]): SeasonStatistics {
+  const tournamentById = new Map(tournaments.map(t => [t.id, t]));
+  const teamRecords = new Map<string, SeasonRecord>();
+  const playerRecords = new Map<string, SeasonRecord>();
+
+  [...containers].sort((a, b) => getEventDate(a).localeCompare(getEventDate(b))).forEach(container => {
+    const phases = container.phases
+      .map(ref => tournamentById.get(ref.tournamentId))
+      .filter((t): t is Tournament => t !== undefined);
+    const events = new Map<SeasonRecord, SeasonEvent>();
+    const eventOf = (record: SeasonRecord) => {
+      let event = events.get(record);
+      if (!event) {
+        event = { containerId: container.id, name: container.name, date: getEventDate(container), placement: null };
+        record.events.push(event);
+        events.set(record, event);
+      }
+      return event;
+    };
+    const teamRecord = (team: Team) => {
+      const key = teamKey(team);
+      const record = teamRecords.get(key) ?? createRecord(key, team.name);
+      record.name = team.name;
+      teamRecords.set(key, record);
+      eventOf(record);
+      return record;
+    };
+    const playerRecord = (name: string) => {
+      const key = normalizeName(name);
+      const record = playerRecords.get(key) ?? createRecord(key, name.trim());
+      record.name = name.trim();
+      playerRecords.set(key, record);
+      eventOf(record);
+      return record;
+    };
+
+    const teamById = new Map(phases.flatMap(p => p.teams.map(t => [t.id, t] as const)));
+    const registeredPlayers = new Map<string, string[]>();
+    teamById.forEach(team => {
+      if (team.playerNames?.length) registeredPlayers.set(teamKey(team), team.playerNames);
+    });
+    const playersOf = (team: Team, phase: Tournament): string[] => phase.players && team.playerIds
+      ? team.playerIds.map(id => phase.players!.find(p => p.id === id)?.name).filter((n): n is string => !!n)
+      : registeredPlayers.get(teamKey(team)) ?? [];
+
+    phases.forEach(phase => {
+      const isMixer = phase.system === 'mixer';
+      if (!isMixer) phase.teams.forEach(teamRecord);
+      phase.matches.filter(isPlayed).forEach(match => {
+        [match.teamAId!, match.teamBId!].forEach(teamId => {
+          const team = teamById.get(teamId);
+          if (!team) return;
+          if (!isMixer) addMatch(teamRecord(team), match, teamId);
+          playersOf(team, phase).forEach(name => addMatch(playerRecord(name), match, teamId));
+        });
+      });
+    });
+
+    getFinalPlacements(phases).forEach(({ teamId, placement }) => {
+      const team = teamById.get(teamId);
+      if (!team) return;
+      const event = eventOf(teamRecord(team));
+      event.placement = better(event.placement, placement);
+      registeredPlayers.get(teamKey(team))?.forEach(name => {
+        const playerEvent = eventOf(playerRecord(name));
+        playerEvent.placement = better(playerEvent.placement, placement);
+      });
+    });
+
+    const last = phases.at(-1);
+    if (last?.system === 'mixer' && last.players) {
+      calculatePlayerStandings(last.players, last.teams, last.matches, last.setsPerMatch).forEach((entry, index) => {
+        const player = last.players!.find(p => p.id === entry.playerId);
+        if (player) eventOf(playerRecord(player.name)).placement = `${index + 1}.`;
+      });
+    }
+  });
+
+  const byParticipation = (a: SeasonRecord, b: SeasonRecord) =>
+    b.events.length - a.events.length
+    || getPlaceNumber(getBestPlacement(a) ?? '999') - getPlaceNumber(getBestPlacement(b) ?? '999')
+    || getWinRate(b) - getWinRate(a)
+    || a.name.localeCompare(b.name);
+
+  return {
+    teams: [...teamRecords.values()].sort(byParticipation),
+    players: [...playerRecords.values()].sort(byParticipation),
+  };
+}
@@ -1,64 +1,19 @@
-import type { Team, Match, StandingEntry, TiebreakerOrder, TournamentSystem } from '../types/tournament';
+import type { Team, Match, StandingEntry, PlayerStandingEntry, Player, SetScore, TiebreakerOrder, TiebreakerCriterion, TournamentSystem } from '../types/tournament';
+import { isSwissByeMatch } from './swissTiebreaks';
+import { getTiebreakers, rankStandings } from './tiebreakers';
+import { applyResultScoring, type ResultScoringSettings } from './matchResults';
 
-interface StandingsOptions {
+interface StandingsOptions extends ResultScoringSettings {
   setsPerMatch: number;
   tiebreakerOrder?: TiebreakerOrder;
+  tiebreakers?: TiebreakerCriterion[]; // Overrides tiebreakerOrder if set
+  lots?: string[]; // Drawn order of tied teams, see Tournament.lots
   system?: TournamentSystem;
 }
 
-interface HeadToHeadResult {
-  wins: number;
-  losses: number;
-  pointDiff: number;
-}
-
-function getHeadToHead(
-  teamAId: string,
-  teamBId: string,
-  matches: Match[]
-): HeadToHeadResult {
-  let wins = 0;
-  let losses = 0;
-  let pointDiff = 0;
-
-  matches
-    .filter(m => m.status === 'completed')
-    .filter(m =>
-      (m.teamAId === teamAId && m.teamBId === teamBId) ||
-      (m.teamAId === teamBId && m.teamBId === teamAId)
-    )
-    .forEach(match => {
-      const isTeamA = match.teamAId === teamAId;
-
-      // Calculate points in this match
-      let teamPoints = 0;
-      let opponentPoints = 0;
-      match.scores.forEach(score => {
-        if (isTeamA) {
-          teamPoints += score.teamA;
-          opponentPoints += score.teamB;
-        } else {
-          teamPoints += score.teamB;
-          opponentPoints += score.teamA;
-        }
-      });
-
-      pointDiff += teamPoints - opponentPoints;
-
-      // Determine winner
-      if (match.winnerId === teamAId) {
-        wins++;
-      } else if (match.winnerId === teamBId) {
-        losses++;
-      }
-    });
-
-  return { wins, losses, pointDiff };
-}
-
 export function calculateStandings(
   teams: Team[],
-  matches: Match[],
+  allMatches: Match[],
   options: StandingsOptions | number = 1
 ): StandingEntry[] {
   // Handle legacy call with just setsPerMatch number
@@ -67,6 +22,8 @@ export function calculateStandings(
     : { tiebreakerOrder: 'head-to-head-first', ...options };
 
   const { setsPerMatch, tiebreakerOrder, system } = opts;
+  // Forfeits, walkovers and retirements count as their scoring rule says
+  const matches = applyResultScoring(allMatches, setsPerMatch, opts);
 
   // For playoff tournaments, use special ranking logic
   if (system === 'playoff') {
@@ -135,43 +92,73 @@ export function calculateStandings(
       }
     });
 
-  // Sort standings
-  const standingsArray = Array.from(standings.values());
-
-  // Primary sorting: by wins (for 1 set or Best of 3) or sets won (for 2 sets)
-  standingsArray.sort((a, b) => {
-    // Primary: wins or sets won
-    if (setsPerMatch === 2) {
-      // For 2 sets mode: sort by sets won
-      if (b.setsWon !== a.setsWon) return b.setsWon - a.setsWon;
-    } else {
-      // For 1 set or Best of 3: sort by match wins
-      if (b.won !== a.won) return b.won - a.won;
-    }
+  // Swiss: a bye counts as a won match
+  if (system === 'swiss') {
+    matches.filter(isSwissByeMatch).forEach(match => {
+      const stats = standings.get(match.teamAId!);
+      if (!stats) return;
+      stats.played++;
+      stats.won++;
+      stats.setsWon += setsPerMatch === 3 ? 2 : setsPerMatch;
+    });
+  }
 
-    // If equal, apply tiebreaker
-    if (tiebreakerOrder === 'head-to-head-first') {
-      // First: head-to-head
-      const h2h = getHeadToHead(a.teamId, b.teamId, matches);
-      if (h2h.wins !== h2h.losses) {
-        return h2h.losses - h2h.wins; // More wins = better rank (lower index)
-      }
-      // If h2h is tied, use overall point difference
-      const pointDiffA = a.pointsWon - a.pointsLost;
-      const pointDiffB = b.pointsWon - b.pointsLost;
-      return pointDiffB - pointDiffA;
-    } else {
-      // First: overall point difference
-      const pointDiffA = a.pointsWon - a.pointsLost;
-      const pointDiffB = b.pointsWon - b.pointsLost;
-      if (pointDiffB !== pointDiffA) return pointDiffB - pointDiffA;
-      // If point diff is tied, use head-to-head
-      const h2h = getHeadToHead(a.teamId, b.teamId, matches);
-      return h2h.losses - h2h.wins;
-    }
+  // Rank by wins or sets won, then by the tiebreaker chain
+  return rankStandings(Array.from(standings.values()), matches, {
+    setsPerMatch,
+    tiebreakers: getTiebreakers(opts.tiebreakers, tiebreakerOrder, system),
+    lots: opts.lots,
   });
+}
 
-  return standingsArray;
+/**
+ * Calculate individual standings for Mixer tournaments.
+ * Every player is credited with the result of the pair they played in.
+ * Sorted by wins (sets won for 2 sets), then point difference, then points won.
+ */
+export function calculatePlayerStandings(
+  players: Player[],
+  teams: Team[],
+  matches: Match[],
+  setsPerMatch: number
+): PlayerStandingEntry[] {
+  const standings = new Map<string, PlayerStandingEntry>(players.map(player => [player.id, {
+    playerId: player.id, played: 0, won: 0, lost: 0, setsWon: 0, setsLost: 0, pointsWon: 0, pointsLost: 0, points: 0,
+  }]));
+  const teamById = new Map(teams.map(team => [team.id, team]));
+
+  matches
+    .filter(m => m.status === 'completed' && m.teamAId && m.teamBId)
+    .forEach(match => {
+      const sides = [
+        { teamId: match.teamAId!, sets: (score: SetScore) => [score.teamA, score.teamB] },
+        { teamId: match.teamBId!, sets: (score: SetScore) => [score.teamB, score.teamA] },
+      ];
+      sides.forEach(({ teamId, sets }) => {
+        teamById.get(teamId)?.playerIds?.forEach(playerId => {
+          const entry = standings.get(playerId);
+          if (!entry) return;
+          entry.played++;
+          if (match.winnerId === teamId) entry.won++;
+          else if (match.winnerId) entry.lost++;
+          match.scores.forEach(score => {
+            const [own, other] = sets(score);
+            entry.pointsWon += own;
+            entry.pointsLost += other;
+            if (own > other) entry.setsWon++;
+            else if (other > own) entry.setsLost++;
+          });
+        });
+      });
+    });
+
+  return Array.from(standings.values()).sort((a, b) => {
+    const primary = setsPerMatch === 2 ? b.setsWon - a.setsWon : b.won - a.won;
+    if (primary !== 0) return primary;
+    const pointDiff = (b.pointsWon - b.pointsLost) - (a.pointsWon - a.pointsLost);
+    if (pointDiff !== 0) return pointDiff;
+    return b.pointsWon - a.pointsWon;
+  });
 }
 
 /**
@@ -1,6 +1,146 @@
 import { v4 as uuidv4 } from 'uuid';
 import type { Team, Match, StandingEntry } from '../types/tournament';
+import { calculateSwissScores, type SwissScore } from './swissTiebreaks';
 
+/** Placeholder for the missing opponent of a bye */
+const BYE_PLACEHOLDER = 'Freilos';
+/** Backtracking budget per pairing attempt before rematches are allowed */
+const MAX_PAIRING_STEPS = 50000;
+
+type Pairing = [Team, Team][];
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+/**
+ * Ranks teams by Swiss score, Buchholz, Sonneborn-Berger, point difference and seed
+ */
+function rankTeams(teams: Team[], standings: StandingEntry[], scores: Map<string, SwissScore>): Team[] {
+  const getPointDiff = (teamId: string) => {
+    const standing = standings.find(s => s.teamId === teamId);
+    return standing ? standing.pointsWon - standing.pointsLost : 0;
+  };
+
+  return [...teams].sort((a, b) => {
+    const scoreA = scores.get(a.id)!;
+    const scoreB = scores.get(b.id)!;
+    if (scoreB.score !== scoreA.score) return scoreB.score - scoreA.score;
+    if (scoreB.buchholz !== scoreA.buchholz) return scoreB.buchholz - scoreA.buchholz;
+    if (scoreB.sonnebornBerger !== scoreA.sonnebornBerger) return scoreB.sonnebornBerger - scoreA.sonnebornBerger;
+    const pointDiff = getPointDiff(b.id) - getPointDiff(a.id);
+    if (pointDiff !== 0) return pointDiff;
+    return a.seedPosition - b.seedPosition;
+  });
+}
+
+/**
+ * Orders the possible opponents of the highest ranked remaining team
+ * Within its score group the top half meets the bottom half (1 vs k/2+1),
+ * teams from lower score groups follow in ranking order (floaters).
+ */
+function orderCandidates(team: Team, others: Team[], scores: Map<string, SwissScore>): Team[] {
+  const score = scores.get(team.id)!.score;
+  const sameGroup = others.filter(t => scores.get(t.id)!.score === score);
+  const lowerGroups = others.filter(t => scores.get(t.id)!.score !== score);
+  const ideal = Math.floor((sameGroup.length + 1) / 2) - 1;
+
+  const orderedGroup = sameGroup
+    .map((t, index) => ({ t, index }))
+    .sort((a, b) => Math.abs(a.index - ideal) - Math.abs(b.index - ideal) || b.index - a.index)
+    .map(({ t }) => t);
+
+  return [...orderedGroup, ...lowerGroups];
+}
+
+/** Options of a pairing search */
+interface PairingSearch {
+  playedPairs: Set<string>;
+  scores: Map<string, SwissScore>;
+  allowRematches: boolean;
+  budget: { steps: number };
+  // Checks a complete pairing, e.g. whether the next round can still be paired
+  accept?: (pairs: Pairing) => boolean;
+}
+
+/**
+ * Pairs the ranked teams by depth-first search with backtracking
+ * Returns null if no acceptable pairing exists (or the step budget is exhausted).
+ */
+function pairTeams(remaining: Team[], search: PairingSearch, paired: Pairing = []): Pairing | null {
+  if (remaining.length === 0) return !search.accept || search.accept(paired) ? paired : null;
+  if (--search.budget.steps < 0) return null;
+
+  const { playedPairs, scores, allowRematches } = search;
+  const [team, ...others] = remaining;
+  const candidates = orderCandidates(team, others, scores);
+  const isNew = (c: Team) => !playedPairs.has(pairKey(team.id, c.id));
+  // Even when rematches are allowed, new opponents are tried first
+  const ordered = allowRematches
+    ? [...candidates.filter(isNew), ...candidates.filter(c => !isNew(c))]
+    : candidates.filter(isNew);
+
+  for (const candidate of ordered) {
+    const result = pairTeams(others.filter(t => t !== candidate), search, [...paired, [team, candidate]]);
+    if (result) return result;
+  }
+  return null;
+}
+
+/**
+ * Looks one round ahead: the next round must still be pairable without rematches
+ * Prevents dead ends like an odd cycle of remaining opponents in small fields.
+ */
+function allowsNextRound(
+  pairs: Pairing,
+  byeTeam: Team | null,
+  ranked: Team[],
+  search: PairingSearch
+): boolean {
+  const playedPairs = new Set(search.playedPairs);
+  pairs.forEach(([a, b]) => playedPairs.add(pairKey(a.id, b.id)));
+
+  const withoutBye = ranked.filter(t => t !== byeTeam && search.scores.get(t.id)!.byes === 0);
+  const nextByeCandidates: (Team | null)[] = ranked.length % 2 === 0
+    ? [null]
+    : withoutBye.length > 0 ? withoutBye : ranked.filter(t => t !== byeTeam);
+
+  return nextByeCandidates.some(nextBye =>
+    pairTeams(ranked.filter(t => t !== nextBye), { ...search, playedPairs, accept: undefined }) !== null
+  );
+}
+
+/**
+ * Finds the pairing and (for odd fields) the team receiving the bye
+ * The bye goes to the lowest ranked team with the fewest byes whose absence still allows a rematch-free pairing.
+ */
+function findPairing(
+  ranked: Team[],
+  playedPairs: Set<string>,
+  scores: Map<string, SwissScore>
+): { pairs: Pairing; byeTeam: Team | null } {
+  const byeCandidates: (Team | null)[] = ranked.length % 2 === 0
+    ? [null]
+    : [...ranked].reverse().sort((a, b) => scores.get(a.id)!.byes - scores.get(b.id)!.byes);
+
+  for (const lookAhead of [true, false]) {
+    for (const byeTeam of byeCandidates) {
+      const search: PairingSearch = { playedPairs, scores, allowRematches: false, budget: { steps: MAX_PAIRING_STEPS } };
+      if (lookAhead) search.accept = pairs => allowsNextRound(pairs, byeTeam, ranked, search);
+      const pairs = pairTeams(ranked.filter(t => t !== byeTeam), search);
+      if (pairs) return { pairs, byeTeam };
+    }
+  }
+
+  // Every team has met every possible opponent: allow as few rematches as the search finds
+  const byeTeam = byeCandidates[0];
+  const search: PairingSearch = { playedPairs, scores, allowRematches: true, budget: { steps: MAX_PAIRING_STEPS } };
+  return { pairs: pairTeams(ranked.filter(t => t !== byeTeam), search) ?? [], byeTeam };
+}
+
+/**
+ * Generates the matches of a Swiss round
+ * Teams are paired within score groups without rematches (backtracking if needed).
+ * With an odd number of teams, one team gets a recorded bye (completed match without opponent).
+ */
 export function generateSwissRoundMatches(
   teams: Team[],
   standings: StandingEntry[],
@@ -8,74 +148,45 @@ export function generateSwissRoundMatches(
   roundNumber: number,
   numberOfCourts: number
 ): Match[] {
-  const matches: Match[] = [];
-
-  // Sort teams by current standings (points, then tiebreakers)
-  const sortedTeams = [...teams].sort((a, b) => {
-    const standingA = standings.find(s => s.teamId === a.id);
-    const standingB = standings.find(s => s.teamId === b.id);
-    if (!standingA || !standingB) return 0;
-
-    if (standingB.points !== standingA.points) return standingB.points - standingA.points;
-    const setDiffA = standingA.setsWon - standingA.setsLost;
-    const setDiffB = standingB.setsWon - standingB.setsLost;
-    if (setDiffB !== setDiffA) return setDiffB - setDiffA;
-    return (standingB.pointsWon - standingB.pointsLost) - (standingA.pointsWon - standingA.pointsLost);
-  });
+  const scores = calculateSwissScores(teams.map(t => t.id), previousMatches);
+  const ranked = rankTeams(teams, standings, scores);
 
   // Track which teams have already played each other
   const playedPairs = new Set<string>();
   previousMatches.forEach(m => {
-    if (m.teamAId && m.teamBId) {
-      playedPairs.add(`${m.teamAId}-${m.teamBId}`);
-      playedPairs.add(`${m.teamBId}-${m.teamAId}`);
-    }
+    if (m.teamAId && m.teamBId) playedPairs.add(pairKey(m.teamAId, m.teamBId));
   });
 
-  // Greedy pairing: pair teams with similar standings who haven't played yet
-  const paired = new Set<string>();
-  const matchPairs: [Team, Team][] = [];
-
-  for (let i = 0; i < sortedTeams.length; i++) {
-    const teamA = sortedTeams[i];
-    if (paired.has(teamA.id)) continue;
-
-    for (let j = i + 1; j < sortedTeams.length; j++) {
-      const teamB = sortedTeams[j];
-      if (paired.has(teamB.id)) continue;
-
-      const pairKey = `${teamA.id}-${teamB.id}`;
-      if (!playedPairs.has(pairKey)) {
-        matchPairs.push([teamA, teamB]);
-        paired.add(teamA.id);
-        paired.add(teamB.id);
-        break;
-      }
-    }
-  }
+  const { pairs, byeTeam } = findPairing(ranked, playedPairs, scores);
 
-  // If odd number of teams, one gets a bye
-  // Handle unpaired teams (they already played everyone available at their level)
-  const unpaired = sortedTeams.filter(t => !paired.has(t.id));
-  for (let i = 0; i < unpaired.length - 1; i += 2) {
-    matchPairs.push([unpaired[i], unpaired[i + 1]]);
-  }
+  // Annulled matches of a withdrawn team leave gaps in the numbering
+  const startMatchNumber = Math.max(0, ...previousMatches.map(m => m.matchNumber)) + 1;
+  const matches: Match[] = pairs.map((pair, index) => ({
+    id: uuidv4(),
+    round: roundNumber,
+    matchNumber: startMatchNumber + index,
+    teamAId: pair[0].id,
+    teamBId: pair[1].id,
+    courtNumber: index < numberOfCourts ? index + 1 : null,
+    scores: [],
+    winnerId: null,
+    status: 'scheduled',
+  }));
 
-  // Create matches
-  const startMatchNumber = previousMatches.length + 1;
-  matchPairs.forEach((pair, index) => {
+  if (byeTeam) {
     matches.push({
       id: uuidv4(),
       round: roundNumber,
-      matchNumber: startMatchNumber + index,
-      teamAId: pair[0].id,
-      teamBId: pair[1].id,
-      courtNumber: index < numberOfCourts ? index + 1 : null,
+      matchNumber: startMatchNumber + pairs.length,
+      teamAId: byeTeam.id,
+      teamBId: null,
+      teamBPlaceholder: BYE_PLACEHOLDER,
+      courtNumber: null,
       scores: [],
-      winnerId: null,
-      status: 'scheduled',
+      winnerId: byeTeam.id,
+      status: 'completed',
     });
-  });
+  }
 
   return matches;
 }
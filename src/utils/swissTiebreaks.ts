@@ -0,0 +1,59 @@
+import type { Match } from '../types/tournament';
+
+/** Swiss score and tiebreaks of a team */
+export interface SwissScore {
+  score: number;            // Wins count 1, draws 0.5, a bye counts as a win
+  buchholz: number;         // Sum of the opponents' scores
+  sonnebornBerger: number;  // Sum of the scores of beaten opponents plus half of drawn opponents
+  byes: number;             // Number of byes received
+}
+
+/**
+ * A Swiss bye is a completed match with only one team (the other side is "Freilos")
+ */
+export function isSwissByeMatch(match: Match): boolean {
+  return match.status === 'completed' && !!match.teamAId && !match.teamBId;
+}
+
+/**
+ * Calculates the Swiss score, Buchholz and Sonneborn-Berger values for all teams
+ * Byes count as a win but have no opponent, so they add nothing to the tiebreaks.
+ */
+export function calculateSwissScores(teamIds: string[], matches: Match[]): Map<string, SwissScore> {
+  const scores = new Map<string, SwissScore>(
+    teamIds.map(id => [id, { score: 0, buchholz: 0, sonnebornBerger: 0, byes: 0 }])
+  );
+  const results: { teamId: string; opponentId: string; result: number }[] = [];
+
+  matches.filter(m => m.status === 'completed').forEach(match => {
+    if (isSwissByeMatch(match)) {
+      const entry = scores.get(match.teamAId!);
+      if (entry) {
+        entry.score += 1;
+        entry.byes += 1;
+      }
+      return;
+    }
+    if (!match.teamAId || !match.teamBId) return;
+
+    const resultA = match.winnerId === match.teamAId ? 1 : match.winnerId === match.teamBId ? 0 : 0.5;
+    results.push({ teamId: match.teamAId, opponentId: match.teamBId, result: resultA });
+    results.push({ teamId: match.teamBId, opponentId: match.teamAId, result: 1 - resultA });
+  });
+
+  results.forEach(({ teamId, result }) => {
+    const entry = scores.get(teamId);
+    if (entry) entry.score += result;
+  });
+
+  // Tiebreaks need the final scores of all opponents
+  results.forEach(({ teamId, opponentId, result }) => {
+    const entry = scores.get(teamId);
+    const opponentScore = scores.get(opponentId)?.score ?? 0;
+    if (!entry) return;
+    entry.buchholz += opponentScore;
+    entry.sonnebornBerger += opponentScore * result;
+  });
+
+  return scores;
+}
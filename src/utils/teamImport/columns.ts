@@ -0,0 +1,51 @@
+/** Meaning of a column in a team list file */
+export type TeamColumn = 'name' | 'player1' | 'player2' | 'club' | 'rankingPoints' | 'seed' | 'ignore';
+
+export const TEAM_COLUMN_LABELS: Record<TeamColumn, string> = {
+  name: 'Teamname',
+  player1: 'Spieler 1',
+  player2: 'Spieler 2',
+  club: 'Verein',
+  rankingPoints: 'Ranglistenpunkte',
+  seed: 'Setzplatz',
+  ignore: 'Ignorieren',
+};
+
+/** Header names (lowercase, letters and digits only) recognised per column */
+const HEADER_NAMES: Array<[TeamColumn, string[]]> = [
+  ['name', ['team', 'teamname', 'name', 'mannschaft', 'paarung']],
+  ['player1', ['spieler1', 'spielerin1', 'player1', 'vorname1', 'name1']],
+  ['player2', ['spieler2', 'spielerin2', 'player2', 'vorname2', 'name2']],
+  ['club', ['verein', 'club', 'klub', 'vereine']],
+  ['rankingPoints', ['punkte', 'ranglistenpunkte', 'ranglistenpkt', 'rankingpunkte', 'ranking', 'rangliste', 'points', 'dvvpunkte']],
+  ['seed', ['setzplatz', 'setzposition', 'setzung', 'seed', 'position', 'nr']],
+];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9äöüß]/g, '');
+
+/**
+ * Guesses the meaning of each column from the header row
+ * Every meaning is assigned at most once; unknown columns are ignored.
+ */
+export function guessColumnMapping(header: string[]): TeamColumn[] {
+  const used = new Set<TeamColumn>();
+  return header.map(cell => {
+    const normalized = normalizeHeader(cell);
+    const match = HEADER_NAMES.find(([column, names]) => !used.has(column) && names.includes(normalized));
+    if (!match) return 'ignore';
+    used.add(match[0]);
+    return match[0];
+  });
+}
+
+/** True if the first row looks like a header (it names at least one known column) */
+export function hasHeaderRow(firstRow: string[]): boolean {
+  return guessColumnMapping(firstRow).some(column => column !== 'ignore');
+}
+
+/** Mapping for files without header: name, then both players, club, points */
+export function getDefaultMapping(columnCount: number): TeamColumn[] {
+  const order: TeamColumn[] = ['name', 'player1', 'player2', 'club', 'rankingPoints'];
+  return Array.from({ length: columnCount }, (_, i) => order[i] ?? 'ignore');
+}
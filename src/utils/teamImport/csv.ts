@@ -0,0 +1,94 @@
+/** One record of a CSV/TSV file with the line it starts on (1-based) */
+export interface DelimitedRow {
+  line: number;
+  cells: string[];
+}
+
+export type Delimiter = ',' | ';' | '\t';
+
+export interface DelimitedTable {
+  delimiter: Delimiter;
+  rows: DelimitedRow[];
+  /** Set if a quoted field is not closed; rows up to that point are kept */
+  error?: string;
+}
+
+const DELIMITERS: Delimiter[] = ['\t', ';', ','];
+
+/**
+ * Picks the delimiter occurring most often outside quotes in the first line
+ * Excel writes ";" in German locales, "," elsewhere and tabs when copying cells.
+ */
+function detectDelimiter(text: string): Delimiter {
+  const counts = new Map<Delimiter, number>(DELIMITERS.map(d => [d, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char as Delimiter)) counts.set(char as Delimiter, counts.get(char as Delimiter)! + 1);
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best), ';');
+}
+
+/**
+ * Parses CSV/TSV text as written by Excel, LibreOffice or registration portals
+ * Handles quoted fields with delimiters, line breaks and doubled quotes; skips empty lines.
+ */
+export function parseDelimited(text: string, delimiter: Delimiter = detectDelimiter(text)): DelimitedTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows: DelimitedRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell.trim());
+    if (cells.some(c => c !== '')) rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return { delimiter, rows, error: `Zeile ${rowLine}: Anführungszeichen wird nicht geschlossen` };
+  }
+  endRow();
+  return { delimiter, rows };
+}
+
+function quote(value: string, delimiter: Delimiter): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Writes rows as CSV with CRLF line endings, quoting only where needed */
+export function formatDelimited(rows: string[][], delimiter: Delimiter = ';'): string {
+  return rows.map(row => row.map(value => quote(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
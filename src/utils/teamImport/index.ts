@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Team } from '../../types/tournament';
+import { formatDelimited, type DelimitedRow } from './csv';
+import type { TeamColumn } from './columns';
+
+export { parseDelimited, type DelimitedRow, type DelimitedTable, type Delimiter } from './csv';
+export { guessColumnMapping, hasHeaderRow, getDefaultMapping, TEAM_COLUMN_LABELS, type TeamColumn } from './columns';
+
+/** Replace the team list or add the imported teams after the existing ones */
+export type TeamImportMode = 'replace' | 'append';
+
+export interface SkippedRow {
+  line: number;
+  reason: string;
+}
+
+export interface TeamImportPreview {
+  /** Resulting team list with seed positions 1..n */
+  teams: Team[];
+  /** IDs of the teams taken from the file */
+  importedIds: string[];
+  /** Rows that could not be parsed or are duplicates */
+  skipped: SkippedRow[];
+  warnings: string[];
+}
+
+interface ParsedRow {
+  line: number;
+  team: Team;
+  seed?: number;
+}
+
+/** Parses "1234", "1.234", "12,5" and "1.234,5" */
+export function parseNumber(value: string): number | null {
+  let normalized = value.replace(/\s/g, '');
+  if (normalized.includes(',')) normalized = normalized.replace(/\./g, '').replace(',', '.');
+  else if (/^\d{1,3}(\.\d{3})+$/.test(normalized)) normalized = normalized.replace(/\./g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/** Keys under which a team counts as duplicate: its name and its pair of players */
+function getDuplicateKeys(team: Pick<Team, 'name' | 'playerNames'>): string[] {
+  const keys = [`name:${normalizeName(team.name)}`];
+  if (team.playerNames?.length === 2) {
+    keys.push(`players:${team.playerNames.map(normalizeName).sort().join('|')}`);
+  }
+  return keys;
+}
+
+function parseRow(row: DelimitedRow, mapping: TeamColumn[]): ParsedRow | SkippedRow {
+  const value = (column: TeamColumn) => {
+    const index = mapping.indexOf(column);
+    return index >= 0 ? row.cells[index] ?? '' : '';
+  };
+
+  const playerNames = [value('player1'), value('player2')].filter(p => p !== '');
+  const name = value('name') || playerNames.join(' / ');
+  if (!name) return { line: row.line, reason: 'Kein Teamname und keine Spieler' };
+
+  const team: Team = { id: uuidv4(), name, seedPosition: 0, isPresent: false };
+  if (playerNames.length > 0) team.playerNames = playerNames;
+  if (value('club')) team.club = value('club');
+
+  if (value('rankingPoints')) {
+    const points = parseNumber(value('rankingPoints'));
+    if (points === null) return { line: row.line, reason: `Ranglistenpunkte „${value('rankingPoints')}“ sind keine Zahl` };
+    team.rankingPoints = points;
+  }
+
+  let seed: number | undefined;
+  if (value('seed')) {
+    const parsed = parseNumber(value('seed'));
+    if (parsed === null || !Number.isInteger(parsed) || parsed < 1) {
+      return { line: row.line, reason: `Setzplatz „${value('seed')}“ ist keine positive ganze Zahl` };
+    }
+    seed = parsed;
+  }
+  return { line: row.line, team, seed };
+}
+
+/**
+ * Seeding of imported teams: explicit seed first, then ranking points
+ * (highest first), then the order in the file
+ */
+function compareImported(a: ParsedRow, b: ParsedRow): number {
+  return (a.seed ?? Infinity) - (b.seed ?? Infinity)
+    || (b.team.rankingPoints ?? -Infinity) - (a.team.rankingPoints ?? -Infinity)
+    || a.line - b.line;
+}
+
+/**
+ * Builds the team list resulting from an import
+ * Rows are mapped column by column; rows without name, with invalid numbers or
+ * duplicating a team (same name or same two players) are skipped and reported.
+ */
+export function buildTeamImport(
+  rows: DelimitedRow[],
+  mapping: TeamColumn[],
+  existingTeams: Team[],
+  mode: TeamImportMode
+): TeamImportPreview {
+  const kept = mode === 'append' ? existingTeams : [];
+  const seen = new Map<string, string>();
+  kept.forEach(t => getDuplicateKeys(t).forEach(key => seen.set(key, 'bereits in der Teamliste')));
+
+  const parsed: ParsedRow[] = [];
+  const skipped: SkippedRow[] = [];
+  rows.forEach(row => {
+    const result = parseRow(row, mapping);
+    if (!('team' in result)) {
+      skipped.push(result);
+      return;
+    }
+    const keys = getDuplicateKeys(result.team);
+    const duplicate = keys.map(key => seen.get(key)).find(Boolean);
+    if (duplicate) {
+      skipped.push({ line: row.line, reason: `„${result.team.name}“ ist doppelt (${duplicate})` });
+      return;
+    }
+    keys.forEach(key => seen.set(key, `wie Zeile ${row.line}`));
+    parsed.push(result);
+  });
+
+  const warnings: string[] = [];
+  const linesBySeed = new Map<number, number[]>();
+  parsed.forEach(p => p.seed !== undefined && linesBySeed.set(p.seed, [...(linesBySeed.get(p.seed) ?? []), p.line]));
+  linesBySeed.forEach((lines, seed) => {
+    if (lines.length > 1) warnings.push(`Setzplatz ${seed} ist mehrfach vergeben (Zeilen ${lines.join(', ')})`);
+  });
+
+  const imported = [...parsed].sort(compareImported).map(p => p.team);
+  return {
+    teams: [...kept, ...imported].map((t, index) => ({ ...t, seedPosition: index + 1 })),
+    importedIds: imported.map(t => t.id),
+    skipped: skipped.sort((a, b) => a.line - b.line),
+    warnings,
+  };
+}
+
+/** Team list as semicolon-separated CSV that Excel opens directly and the import reads back */
+export function exportTeamList(teams: Team[]): string {
+  const rows = [...teams]
+    .sort((a, b) => a.seedPosition - b.seedPosition)
+    .map(t => [
+      String(t.seedPosition),
+      t.name,
+      t.playerNames?.[0] ?? '',
+      t.playerNames?.[1] ?? '',
+      t.club ?? '',
+      t.rankingPoints !== undefined ? String(t.rankingPoints).replace('.', ',') : '',
+    ]);
+  return formatDelimited([['Setzplatz', 'Team', 'Spieler 1', 'Spieler 2', 'Verein', 'Ranglistenpunkte'], ...rows]);
+}
@@ -0,0 +1,124 @@
+import type { GroupStandingEntry, Match, StandingEntry, Team, TeamWithdrawal, Tournament, WithdrawalRule } from '../types/tournament';
+import { handleByeMatches } from './knockout/byeHandler';
+import { withMatchResult } from './matchResults';
+
+/** Systems whose matches all count for one table */
+const TABLE_SYSTEMS = ['round-robin', 'swiss'];
+
+export const WITHDRAWAL_RULE_LABELS: Record<WithdrawalRule, string> = {
+  'annul-results': 'Alle Ergebnisse annullieren',
+  'forfeit-remaining': 'Gespielte Ergebnisse behalten, restliche Spiele kampflos verloren',
+};
+
+/** Mixer pairs are regenerated every round, so a single player can't be withdrawn from them */
+export function canWithdrawTeams(t: Tournament): boolean {
+  return t.status === 'in-progress' && t.system !== 'mixer';
+}
+
+export function isWithdrawn(t: Tournament, teamId: string): boolean {
+  return (t.withdrawals ?? []).some(w => w.teamId === teamId);
+}
+
+/** Matches counted in a table (group, round robin, Swiss), as opposed to bracket matches */
+export function isTableMatch(t: Tournament, match: Match): boolean {
+  return !!match.groupId || TABLE_SYSTEMS.includes(t.system);
+}
+
+const involves = (match: Match, teamId: string) => match.teamAId === teamId || match.teamBId === teamId;
+
+/** Matches of a phase that a withdrawal changes */
+export interface WithdrawalChanges {
+  /** Table matches removed together with their results */
+  annulled: Match[];
+  /** Open table matches the team loses without playing */
+  forfeited: Match[];
+  /** Open bracket matches in which the team's slot becomes a bye */
+  byes: Match[];
+}
+
+export function getWithdrawalChanges(t: Tournament, teamId: string, rule: WithdrawalRule): WithdrawalChanges {
+  const teamMatches = t.matches.filter(m => involves(m, teamId));
+  const isOpen = (m: Match) => m.status !== 'completed';
+  const tableMatches = teamMatches.filter(m => isTableMatch(t, m));
+  return {
+    annulled: rule === 'annul-results' ? tableMatches : [],
+    forfeited: rule === 'forfeit-remaining' ? tableMatches.filter(m => isOpen(m) && m.teamAId && m.teamBId) : [],
+    byes: teamMatches.filter(m => !isTableMatch(t, m) && isOpen(m)),
+  };
+}
+
+/** Frees the team's slot of a bracket match; it no longer waits for a result either */
+function vacateSlot(match: Match, teamId: string, placeholder: string): Match {
+  const { teamA, teamB } = match.dependsOn ?? {};
+  if (match.teamAId === teamId) {
+    return { ...match, teamAId: null, teamAPlaceholder: placeholder, dependsOn: teamB ? { teamB } : undefined };
+  }
+  return { ...match, teamBId: null, teamBPlaceholder: placeholder, dependsOn: teamA ? { teamA } : undefined };
+}
+
+/**
+ * Takes a team out of the matches of a phase
+ * Table matches are annulled or lost without playing, as the rule says. Open bracket slots of
+ * the team become byes, completed through handleByeMatches once the opponent is known.
+ * The team's open referee duties are dropped.
+ */
+export function withdrawTeamFromMatches(t: Tournament, teamId: string, rule: WithdrawalRule, now: string): Match[] {
+  const { annulled, forfeited, byes } = getWithdrawalChanges(t, teamId, rule);
+  const annulledIds = new Set(annulled.map(m => m.id));
+  const forfeitedIds = new Set(forfeited.map(m => m.id));
+  const byeIds = new Set(byes.map(m => m.id));
+  const placeholder = `${t.teams.find(team => team.id === teamId)?.name ?? 'Team'} (zurückgezogen)`;
+
+  const matches = t.matches
+    .filter(m => !annulledIds.has(m.id))
+    .map(m => {
+      if (forfeitedIds.has(m.id)) {
+        const winnerId = (m.teamAId === teamId ? m.teamBId : m.teamAId)!;
+        const decided = withMatchResult(m, [], { resultType: 'walkover', winnerId })!;
+        return { ...decided, status: 'completed' as const, completedAt: now };
+      }
+      const open = byeIds.has(m.id) ? vacateSlot(m, teamId, placeholder) : m;
+      return open.status !== 'completed' && open.refereeTeamId === teamId ? { ...open, refereeTeamId: null } : open;
+    });
+
+  return handleByeMatches(matches, { setsPerMatch: t.setsPerMatch, pointsPerSet: t.pointsPerSet });
+}
+
+/** Teams listed in the standings; teams whose results were annulled are left out */
+export function getStandingsTeams(t: Tournament): Team[] {
+  const annulled = new Set((t.withdrawals ?? []).filter(w => w.rule === 'annul-results').map(w => w.teamId));
+  return t.teams.filter(team => !annulled.has(team.id));
+}
+
+/** Ranks withdrawn teams below all others, keeping the order within both parts */
+export function rankWithdrawnLast<T extends StandingEntry>(entries: T[], withdrawals: TeamWithdrawal[] = []): T[] {
+  if (withdrawals.length === 0) return entries;
+  const withdrawn = new Set(withdrawals.map(w => w.teamId));
+  return [...entries.filter(e => !withdrawn.has(e.teamId)), ...entries.filter(e => withdrawn.has(e.teamId))];
+}
+
+/** Same per group, with the group ranks renumbered */
+export function rankWithdrawnLastInGroups(entries: GroupStandingEntry[], withdrawals: TeamWithdrawal[] = []): GroupStandingEntry[] {
+  if (withdrawals.length === 0) return entries;
+  const groupIds = [...new Set(entries.map(e => e.groupId))];
+  return groupIds.flatMap(groupId =>
+    rankWithdrawnLast(entries.filter(e => e.groupId === groupId), withdrawals).map((e, i) => ({ ...e, groupRank: i + 1 }))
+  );
+}
+
+/**
+ * Carries the withdrawals of a phase into a follow-up phase populated from its standings
+ * Teams are matched by name, as each phase has its own team IDs; their slots become byes.
+ */
+export function carryOverWithdrawals(child: Tournament, parent: Tournament): Tournament {
+  return (parent.withdrawals ?? []).reduce((result, withdrawal) => {
+    const name = parent.teams.find(t => t.id === withdrawal.teamId)?.name;
+    const team = result.teams.find(t => t.name === name);
+    if (!team || isWithdrawn(result, team.id)) return result;
+    return {
+      ...result,
+      matches: withdrawTeamFromMatches(result, team.id, withdrawal.rule, withdrawal.withdrawnAt),
+      withdrawals: [...(result.withdrawals ?? []), { ...withdrawal, teamId: team.id }],
+    };
+  }, child);
+}
@@ -0,0 +1,170 @@
+import type { Match, StandingEntry, TiebreakerCriterion, TiebreakerOrder, TournamentSystem } from '../types/tournament';
+import { calculateSwissScores, type SwissScore } from './swissTiebreaks';
+
+/** Display labels of the tiebreaker criteria */
+export const TIEBREAKER_LABELS: Record<TiebreakerCriterion, string> = {
+  'wins': 'Siege',
+  'set-quotient': 'Satzquotient',
+  'point-quotient': 'Ballpunktquotient',
+  'point-diff': 'Punktedifferenz',
+  'head-to-head': 'Direkter Vergleich',
+  'buchholz': 'Buchholz',
+  'sonneborn-berger': 'Sonneborn-Berger',
+  'lots': 'Losentscheid',
+};
+
+/** All available criteria in their default display order */
+export const ALL_TIEBREAKERS = Object.keys(TIEBREAKER_LABELS) as TiebreakerCriterion[];
+
+/**
+ * Returns the configured tiebreaker chain, or the chain equivalent to the legacy tiebreaker order
+ * Swiss tournaments rank by Buchholz and Sonneborn-Berger first by default.
+ */
+export function getTiebreakers(
+  tiebreakers: TiebreakerCriterion[] | undefined,
+  tiebreakerOrder: TiebreakerOrder = 'head-to-head-first',
+  system?: TournamentSystem
+): TiebreakerCriterion[] {
+  if (tiebreakers && tiebreakers.length > 0) return tiebreakers;
+  const legacy: TiebreakerCriterion[] = tiebreakerOrder === 'head-to-head-first'
+    ? ['head-to-head', 'point-diff', 'set-quotient']
+    : ['point-diff', 'head-to-head', 'set-quotient'];
+  return system === 'swiss' ? ['buchholz', 'sonneborn-berger', ...legacy] : legacy;
+}
+
+/**
+ * Short description of a chain, e.g. "Direkter Vergleich, dann Punktedifferenz"
+ */
+export function describeTiebreakers(tiebreakers: TiebreakerCriterion[]): string {
+  return tiebreakers.map(c => TIEBREAKER_LABELS[c]).join(', dann ');
+}
+
+interface RankingContext {
+  matches: Match[];
+  setsPerMatch: number;
+  allTeamIds: string[];
+  lots: string[];
+  swissScores?: Map<string, SwissScore>;
+}
+
+/** Wins rank first, or sets won in 2-set format */
+const getPrimaryValue = (entry: StandingEntry, setsPerMatch: number) =>
+  setsPerMatch === 2 ? entry.setsWon : entry.won;
+
+const getQuotient = (won: number, lost: number) =>
+  lost === 0 ? (won > 0 ? Infinity : 0) : won / lost;
+
+/**
+ * Mini-table among the tied teams: wins (or sets won for 2 sets) in their matches against each other
+ */
+function getMiniTableValues(teamIds: string[], context: RankingContext): Map<string, number> {
+  const ids = new Set(teamIds);
+  const values = new Map(teamIds.map(id => [id, 0]));
+  const credit = (teamId: string | null) => {
+    if (teamId && values.has(teamId)) values.set(teamId, values.get(teamId)! + 1);
+  };
+
+  context.matches
+    .filter(m => m.status === 'completed' && ids.has(m.teamAId ?? '') && ids.has(m.teamBId ?? ''))
+    .forEach(match => {
+      if (context.setsPerMatch !== 2) {
+        credit(match.winnerId);
+        return;
+      }
+      match.scores.forEach(score => {
+        if (score.teamA > score.teamB) credit(match.teamAId);
+        else if (score.teamB > score.teamA) credit(match.teamBId);
+      });
+    });
+
+  return values;
+}
+
+function getCriterionValues(
+  criterion: TiebreakerCriterion,
+  group: StandingEntry[],
+  context: RankingContext
+): Map<string, number> {
+  if (criterion === 'head-to-head') {
+    return getMiniTableValues(group.map(e => e.teamId), context);
+  }
+  if (criterion === 'buchholz' || criterion === 'sonneborn-berger') {
+    context.swissScores ??= calculateSwissScores(context.allTeamIds, context.matches);
+    const scores = context.swissScores;
+    return new Map(group.map(e => [
+      e.teamId,
+      criterion === 'buchholz' ? scores.get(e.teamId)?.buchholz ?? 0 : scores.get(e.teamId)?.sonnebornBerger ?? 0,
+    ]));
+  }
+
+  return new Map(group.map(e => {
+    switch (criterion) {
+      case 'wins': return [e.teamId, e.won];
+      case 'set-quotient': return [e.teamId, getQuotient(e.setsWon, e.setsLost)];
+      case 'point-quotient': return [e.teamId, getQuotient(e.pointsWon, e.pointsLost)];
+      case 'point-diff': return [e.teamId, e.pointsWon - e.pointsLost];
+      case 'lots': return [e.teamId, -context.lots.indexOf(e.teamId)];
+    }
+  }));
+}
+
+/** Splits entries into groups of equal value, best value first (stable) */
+function splitByValue<T extends StandingEntry>(entries: T[], getValue: (entry: T) => number): T[][] {
+  // Quotients may be Infinity, so compare instead of subtracting
+  const sorted = [...entries].sort((a, b) => (getValue(a) === getValue(b) ? 0 : getValue(b) > getValue(a) ? 1 : -1));
+  const groups: T[][] = [];
+  sorted.forEach((entry, i) => {
+    if (i > 0 && getValue(entry) === getValue(sorted[i - 1])) groups[groups.length - 1].push(entry);
+    else groups.push([entry]);
+  });
+  return groups;
+}
+
+/**
+ * Applies the criteria to a group of tied entries
+ * After a head-to-head split, the mini-table is recalculated among the teams still tied.
+ * Lots only decide once they are drawn for every team of the group; until then the
+ * teams stay tied and are flagged with `tiedForLots`.
+ */
+function resolveTie<T extends StandingEntry>(
+  group: T[],
+  criteria: TiebreakerCriterion[],
+  context: RankingContext
+): T[] {
+  if (group.length <= 1 || criteria.length === 0) return group;
+
+  const [criterion, ...rest] = criteria;
+  if (criterion === 'lots' && !group.every(e => context.lots.includes(e.teamId))) {
+    group.forEach(e => { e.tiedForLots = true; });
+    return group;
+  }
+  const values = getCriterionValues(criterion, group, context);
+  const subgroups = splitByValue(group, e => values.get(e.teamId) ?? 0);
+
+  return subgroups.flatMap((subgroup, index) => {
+    const nextCriteria = criterion === 'head-to-head' && subgroup.length < group.length ? criteria : rest;
+    const resolved = resolveTie(subgroup, nextCriteria, context);
+    if (index > 0) resolved[0].decidedBy = criterion;
+    return resolved;
+  });
+}
+
+/**
+ * Ranks standing entries by wins (sets won for 2 sets), then by the tiebreaker chain
+ * Entries separated by a tiebreaker get `decidedBy` set to the deciding criterion.
+ */
+export function rankStandings<T extends StandingEntry>(
+  entries: T[],
+  matches: Match[],
+  options: { setsPerMatch: number; tiebreakers: TiebreakerCriterion[]; lots?: string[] }
+): T[] {
+  const context: RankingContext = {
+    matches,
+    setsPerMatch: options.setsPerMatch,
+    allTeamIds: entries.map(e => e.teamId),
+    lots: options.lots ?? [],
+  };
+
+  return splitByValue(entries, e => getPrimaryValue(e, options.setsPerMatch))
+    .flatMap(group => resolveTie(group, options.tiebreakers, context));
+}
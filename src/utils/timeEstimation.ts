@@ -1,5 +1,24 @@
-import type { TournamentSystem, SchedulingSettings, KnockoutSettings } from '../types/tournament';
-import { estimateTournamentDuration, estimateSSVBTournamentDuration } from './scheduling';
+import type { TournamentSystem, SchedulingSettings, KnockoutSettings, EventCalendar, EventDay } from '../types/tournament';
+import {
+  estimateTournamentDuration,
+  estimateSSVBTournamentDuration,
+  estimateMatchesEnd,
+  parseTimeToMinutes,
+  formatMinutesToTime,
+  getDayStartMinutes,
+  getDayEndMinutes,
+  MINUTES_PER_DAY,
+} from './scheduling';
+
+/** Estimated play on one day of a multi-day event */
+export interface DayEstimation {
+  date: string;
+  endTime: string; // Planned end of the day
+  estimatedEnd: string | null; // End of the last match that day, null if nothing is played
+  phases: string[];
+  carriedOver: string[]; // Phases that did not finish on an earlier day
+  overrunMinutes: number;
+}
 
 export interface TimeEstimation {
   phase1Name: string;
@@ -10,6 +29,7 @@ export interface TimeEstimation {
   phase2Minutes: number;
   totalMinutes: number;
   hasPhase2: boolean;
+  days?: DayEstimation[]; // Multi-day events only
 }
 
 interface TimeEstimationParams {
@@ -25,6 +45,56 @@ interface TimeEstimationParams {
   knockoutSettings: KnockoutSettings;
   enablePlayoff: boolean;
   scheduling: SchedulingSettings;
+  calendar?: EventCalendar;
+}
+
+interface PhaseWindow {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/** Minutes between two points of the timeline without the nights between event days */
+function getPlayingMinutes(start: number, end: number, days: EventDay[]): number {
+  let minutes = end - start;
+  for (let i = 0; i < days.length - 1; i++) {
+    const nightStart = Math.max(start, getDayEndMinutes(days, i));
+    const nightEnd = Math.min(end, getDayStartMinutes(days, i + 1));
+    if (nightEnd > nightStart) minutes -= nightEnd - nightStart;
+  }
+  return minutes;
+}
+
+/** Estimated end of play on every day and which phases it has to hold */
+function estimateDays(phases: PhaseWindow[], days: EventDay[]): DayEstimation[] {
+  return days.map((day, i) => {
+    const dayStart = i * MINUTES_PER_DAY;
+    const dayEnd = i === days.length - 1 ? Infinity : dayStart + MINUTES_PER_DAY;
+    const played = phases.filter(p => p.end > p.start && p.start < dayEnd && p.end > dayStart);
+    const end = played.length > 0 ? Math.max(...played.map(p => Math.min(p.end, dayEnd))) : null;
+    return {
+      date: day.date,
+      endTime: day.endTime,
+      estimatedEnd: end === null ? null : formatMinutesToTime(end - dayStart),
+      phases: played.map(p => p.name),
+      carriedOver: played.filter(p => p.start < dayStart).map(p => p.name),
+      overrunMinutes: end === null ? 0 : Math.max(0, end - getDayEndMinutes(days, i)),
+    };
+  });
+}
+
+/** Durations of a multi-day estimate as playing time, plus the per-day view */
+function withDays(estimation: TimeEstimation, phases: PhaseWindow[], days: EventDay[] | undefined): TimeEstimation {
+  if (!days) return estimation;
+  const [phase1, phase2] = phases;
+  const last = phase2 ?? phase1;
+  return {
+    ...estimation,
+    phase1Minutes: getPlayingMinutes(phase1.start, phase1.end, days),
+    phase2Minutes: phase2 ? getPlayingMinutes(phase2.start, phase2.end, days) : 0,
+    totalMinutes: getPlayingMinutes(phase1.start, last.end, days),
+    days: estimateDays(phases, days),
+  };
 }
 
 export function calculateTimeEstimation({
@@ -40,9 +110,19 @@ export function calculateTimeEstimation({
   knockoutSettings,
   enablePlayoff,
   scheduling,
+  calendar,
 }: TimeEstimationParams): TimeEstimation | null {
   if (teamsCount < 2) return null;
 
+  // Multi-day events start on the first day; the second phase waits for its day
+  const days = calendar?.days.length ? calendar.days : undefined;
+  const startMinutes = parseTimeToMinutes(days ? days[0].startTime : scheduling.startTime);
+  const getPhase2Start = (phase1Minutes: number) => {
+    const day = calendar?.phaseDays?.[1];
+    const dayStart = days && day !== undefined && day < days.length ? getDayStartMinutes(days, day) : -Infinity;
+    return Math.max(startMinutes + phase1Minutes + scheduling.minutesBetweenPhases, dayStart);
+  };
+
   // Group-based systems (SSVB, All-Placements, Short-Main)
   const minTeamsForGroups = teamsPerGroup * 2;
   if (isGroupBasedSystem && teamsCount >= minTeamsForGroups && teamsCount % teamsPerGroup === 0) {
@@ -57,7 +137,8 @@ export function calculateTimeEstimation({
       knockoutSettings.setsPerMatch === 2 ? knockoutSettings.pointsPerThirdSet : undefined,
       knockoutSettings.playThirdPlaceMatch,
       scheduling,
-      teamsPerGroup
+      teamsPerGroup,
+      days
     );
 
     // Adjust knockout match count for different systems
@@ -72,16 +153,28 @@ export function calculateTimeEstimation({
       // Shortened main round: 24 matches for 16 teams
       knockoutMatchCount = 24;
       phase2Name = 'Hauptrunde';
+    } else if (system === 'pool-play-single-out') {
+      // Single-out bracket: qualifiers - 1 matches (+ third place), byes are not played
+      const qualifiers = (teamsCount / teamsPerGroup) * Math.min(knockoutSettings.qualifiersPerGroup ?? 2, teamsPerGroup);
+      knockoutMatchCount = qualifiers - 1 + (knockoutSettings.playThirdPlaceMatch && qualifiers >= 4 ? 1 : 0);
+      phase2Name = 'K.O.-Runde';
     }
 
     // Recalculate knockout minutes based on adjusted match count
     const knockoutMinutesPerMatch = knockoutSettings.pointsPerSet === 21
       ? scheduling.minutesPer21PointSet
       : scheduling.minutesPer15PointSet;
-    const adjustedKnockoutMinutes = Math.ceil(knockoutMatchCount / numberOfCourts) *
-      (knockoutMinutesPerMatch * (knockoutSettings.setsPerMatch === 2 ? 2 : 1) + scheduling.minutesBetweenMatches);
+    const knockoutStart = getPhase2Start(result.groupPhaseMinutes);
+    const adjustedKnockoutMinutes = estimateMatchesEnd(
+      knockoutMatchCount,
+      numberOfCourts,
+      knockoutStart,
+      knockoutMinutesPerMatch * (knockoutSettings.setsPerMatch === 2 ? 2 : 1),
+      scheduling,
+      days
+    ) - knockoutStart;
 
-    return {
+    return withDays({
       phase1Name: 'Gruppenphase',
       phase1Matches: result.groupPhaseMatchCount,
       phase1Minutes: result.groupPhaseMinutes,
@@ -90,7 +183,10 @@ export function calculateTimeEstimation({
       phase2Minutes: adjustedKnockoutMinutes,
       totalMinutes: result.groupPhaseMinutes + scheduling.minutesBetweenPhases + adjustedKnockoutMinutes,
       hasPhase2: true,
-    };
+    }, [
+      { name: 'Gruppenphase', start: startMinutes, end: startMinutes + result.groupPhaseMinutes },
+      { name: phase2Name, start: knockoutStart, end: knockoutStart + adjustedKnockoutMinutes },
+    ], days);
   }
 
   // For round-robin and swiss
@@ -102,12 +198,20 @@ export function calculateTimeEstimation({
     setsPerMatch,
     pointsPerSet,
     pointsPerThirdSet,
-    scheduling
+    scheduling,
+    days
   );
+  const phase1Window = { start: startMinutes, end: startMinutes + phase1Result.totalMinutes };
 
   if (!enablePlayoff) {
-    return {
-      phase1Name: system === 'swiss' ? 'Swiss Runden' : 'Vorrunde',
+    const phase1Name = system === 'swiss' ? 'Swiss Runden'
+      : system === 'double-elimination' ? 'Doppel-K.O.'
+      : system === 'knockout' ? 'K.O.-Runde'
+      : system === 'placement-tree' ? 'Platzierungsbaum'
+      : system === 'mixer' ? 'Mixer-Runden'
+      : 'Vorrunde';
+    return withDays({
+      phase1Name,
       phase1Matches: phase1Result.matchCount,
       phase1Minutes: phase1Result.totalMinutes,
       phase2Name: null,
@@ -115,7 +219,7 @@ export function calculateTimeEstimation({
       phase2Minutes: 0,
       totalMinutes: phase1Result.totalMinutes,
       hasPhase2: false,
-    };
+    }, [{ name: phase1Name, ...phase1Window }], days);
   }
 
   // Calculate playoff matches (simplified: teams/2 matches for bracket)
@@ -123,11 +227,19 @@ export function calculateTimeEstimation({
   const playoffMinutesPerMatch = knockoutSettings.pointsPerSet === 21
     ? scheduling.minutesPer21PointSet
     : scheduling.minutesPer15PointSet;
-  const playoffMinutes = Math.ceil(playoffMatches / numberOfCourts) *
-    (playoffMinutesPerMatch * (knockoutSettings.setsPerMatch === 2 ? 2 : 1) + scheduling.minutesBetweenMatches);
+  const playoffStart = getPhase2Start(phase1Result.totalMinutes);
+  const playoffMinutes = estimateMatchesEnd(
+    playoffMatches,
+    numberOfCourts,
+    playoffStart,
+    playoffMinutesPerMatch * (knockoutSettings.setsPerMatch === 2 ? 2 : 1),
+    scheduling,
+    days
+  ) - playoffStart;
+  const phase1Name = system === 'swiss' ? 'Swiss Runden' : 'Vorrunde';
 
-  return {
-    phase1Name: system === 'swiss' ? 'Swiss Runden' : 'Vorrunde',
+  return withDays({
+    phase1Name,
     phase1Matches: phase1Result.matchCount,
     phase1Minutes: phase1Result.totalMinutes,
     phase2Name: 'Finale',
@@ -135,7 +247,10 @@ export function calculateTimeEstimation({
     phase2Minutes: playoffMinutes,
     totalMinutes: phase1Result.totalMinutes + scheduling.minutesBetweenPhases + playoffMinutes,
     hasPhase2: true,
-  };
+  }, [
+    { name: phase1Name, ...phase1Window },
+    { name: 'Finale', start: playoffStart, end: playoffStart + playoffMinutes },
+  ], days);
 }
 
 export function calculateEndTime(timeEstimation: TimeEstimation | null, startTime: string | null): string | null {
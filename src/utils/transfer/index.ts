@@ -0,0 +1,151 @@
+import type { Tournament, TournamentContainer } from '../../types/tournament';
+import { CURRENT_VERSION, migrateDocument } from './migrations';
+import { validateTournamentData, type FieldError } from './schema';
+
+export { CURRENT_VERSION } from './migrations';
+export type { FieldError } from './schema';
+
+/** Versioned JSON export of tournaments with all their phases */
+export interface TransferDocument {
+  format: 'beachl-turnier';
+  version: number;
+  exportedAt: string;
+  /** Whole app state or a single tournament (container) with all phases */
+  scope: 'state' | 'container';
+  tournaments: Tournament[];
+  containers: TournamentContainer[];
+  /** Selection at the time of export (legacy state only) */
+  currentTournamentId?: string | null;
+}
+
+export type TransferResult =
+  | { ok: true; document: TransferDocument }
+  | { ok: false; errors: FieldError[] };
+
+/** A container (with its phases) or standalone tournament left out because it is invalid */
+export interface SkippedRecord {
+  id: string;
+  errors: FieldError[];
+}
+
+export type TransferRecordsResult =
+  | { ok: true; document: TransferDocument; skipped: SkippedRecord[] }
+  | { ok: false; errors: FieldError[] };
+
+interface TournamentData {
+  tournaments: Tournament[];
+  containers: TournamentContainer[];
+}
+
+export function createStateExport(data: TournamentData, exportedAt = new Date().toISOString()): TransferDocument {
+  return {
+    format: 'beachl-turnier',
+    version: CURRENT_VERSION,
+    exportedAt,
+    scope: 'state',
+    tournaments: data.tournaments,
+    containers: data.containers,
+  };
+}
+
+/** Exports one container with all of its phases; null if the container does not exist */
+export function createContainerExport(
+  data: TournamentData,
+  containerId: string,
+  exportedAt = new Date().toISOString()
+): TransferDocument | null {
+  const container = data.containers.find(c => c.id === containerId);
+  if (!container) return null;
+  const phaseIds = new Set(container.phases.map(p => p.tournamentId));
+  return {
+    format: 'beachl-turnier',
+    version: CURRENT_VERSION,
+    exportedAt,
+    scope: 'container',
+    tournaments: data.tournaments.filter(t => phaseIds.has(t.id) || t.containerId === containerId),
+    containers: [container],
+  };
+}
+
+/**
+ * Migrates and validates parsed JSON (an export or a legacy localStorage state)
+ * Never throws; invalid data results in a list of field errors.
+ */
+export function readTransferDocument(value: unknown): TransferResult {
+  const migrated = migrateDocument(value);
+  if ('error' in migrated) return { ok: false, errors: [{ path: '', message: migrated.error }] };
+
+  const errors = validateTournamentData(migrated.document);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, document: migrated.document as unknown as TransferDocument };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Like readTransferDocument, but an invalid container (together with its phases)
+ * or standalone tournament is skipped instead of rejecting everything
+ * Fails only if the document itself is unreadable or the valid records do not fit together.
+ */
+export function readTransferRecords(value: unknown): TransferRecordsResult {
+  const result = readTransferDocument(value);
+  if (result.ok) return { ...result, skipped: [] };
+  const migrated = migrateDocument(value);
+  if ('error' in migrated) return result;
+  const { tournaments, containers, ...envelope } = migrated.document;
+  if (!Array.isArray(tournaments) || !Array.isArray(containers)) return result;
+
+  // Records are grouped by the container they belong to, standalone tournaments by their own ID
+  const groupOf = (record: unknown, field: 'id' | 'containerId', fallback: string): string => {
+    const key = isObject(record) ? record[field] ?? record.id : undefined;
+    return typeof key === 'string' ? key : fallback;
+  };
+  const units = new Map<string, { tournaments: unknown[]; containers: unknown[] }>();
+  const unit = (key: string) => units.get(key) ?? units.set(key, { tournaments: [], containers: [] }).get(key)!;
+  tournaments.forEach((t, i) => unit(groupOf(t, 'containerId', `tournaments[${i}]`)).tournaments.push(t));
+  containers.forEach((c, i) => unit(groupOf(c, 'id', `containers[${i}]`)).containers.push(c));
+
+  const valid = { tournaments: [] as unknown[], containers: [] as unknown[] };
+  const skipped: SkippedRecord[] = [];
+  units.forEach((records, id) => {
+    const errors = validateTournamentData(records);
+    if (errors.length > 0) {
+      skipped.push({ id, errors });
+      return;
+    }
+    valid.tournaments.push(...records.tournaments);
+    valid.containers.push(...records.containers);
+  });
+
+  const remaining = readTransferDocument({ ...envelope, ...valid });
+  return remaining.ok ? { ...remaining, skipped } : remaining;
+}
+
+/** Reads the text of an export file */
+export function parseTransferFile(text: string): TransferResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    return { ok: false, errors: [{ path: '', message: 'Die Datei ist keine gültige JSON-Datei' }] };
+  }
+  return readTransferDocument(value);
+}
+
+/** One line per error, e.g. "tournaments[0].matches[3].status: fehlt" */
+export function formatFieldErrors(errors: FieldError[], limit = 10): string {
+  const lines = errors.slice(0, limit).map(e => (e.path ? `${e.path}: ${e.message}` : e.message));
+  if (errors.length > limit) lines.push(`… und ${errors.length - limit} weitere Fehler`);
+  return lines.join('\n');
+}
+
+/** File name like "sommercup-2026-06-01.json" */
+export function getExportFileName(document: TransferDocument): string {
+  const date = document.exportedAt.slice(0, 10);
+  if (document.scope === 'state') return `beachl-turniere-${date}.json`;
+  const slug = document.containers[0].name.toLowerCase()
+    .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'turnier'}-${date}.json`;
+}
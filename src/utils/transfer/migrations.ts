@@ -0,0 +1,110 @@
+import { DEFAULT_SCHEDULING } from '../scheduling';
+
+/** Version of the export format written by this app */
+export const CURRENT_VERSION = 2;
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Groups tournaments without container into containers: every phase without parent
+ * starts a container, follow-up phases join the container of their parent.
+ */
+function createMissingContainers(tournaments: RawObject[], containers: unknown[]): unknown[] {
+  const byId = new Map(tournaments.map(t => [t.id, t]));
+  const known = new Set(containers.filter(isObject).map(c => c.id));
+  const created = new Map<string, RawObject>();
+
+  const rootOf = (t: RawObject): RawObject => {
+    const seen = new Set<unknown>();
+    let current = t;
+    while (typeof current.parentPhaseId === 'string' && byId.has(current.parentPhaseId) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parentPhaseId)!;
+    }
+    return current;
+  };
+
+  tournaments.forEach(t => {
+    if (typeof t.containerId === 'string' && known.has(t.containerId)) return;
+    const root = rootOf(t);
+    const containerId = typeof root.containerId === 'string' ? root.containerId : `container-${String(root.id)}`;
+    let container = created.get(containerId);
+    if (!container) {
+      container = {
+        id: containerId,
+        name: root.name,
+        phases: [],
+        currentPhaseIndex: 0,
+        status: 'in-progress',
+        createdAt: root.createdAt,
+        updatedAt: root.updatedAt,
+      };
+      created.set(containerId, container);
+    }
+    const phases = container.phases as RawObject[];
+    const order = typeof t.phaseOrder === 'number' ? t.phaseOrder : phases.length + 1;
+    const name = typeof t.phaseName === 'string' ? t.phaseName : String(t.name);
+    phases.push({ tournamentId: t.id, order, name });
+    Object.assign(t, { containerId, phaseOrder: order, phaseName: name });
+  });
+
+  created.forEach(c => (c.phases as RawObject[]).sort((a, b) => (a.order as number) - (b.order as number)));
+  return [...containers, ...created.values()];
+}
+
+/**
+ * Version 1: the raw localStorage state (no envelope), possibly from before
+ * containers, complete scheduling settings or the tiebreaker order existed
+ */
+function migrateV1(document: RawObject): RawObject {
+  if (!Array.isArray(document.tournaments)) return { ...document, version: 2 };
+
+  const tournaments = document.tournaments.map(t => (isObject(t) ? {
+    ...t,
+    standings: t.standings ?? [],
+    tiebreakerOrder: t.tiebreakerOrder ?? 'head-to-head-first',
+    scheduling: isObject(t.scheduling) ? { ...DEFAULT_SCHEDULING, ...t.scheduling } : t.scheduling,
+  } : t));
+  const containers = document.containers ?? [];
+  return {
+    ...document,
+    version: 2,
+    tournaments,
+    containers: Array.isArray(containers)
+      ? createMissingContainers(tournaments.filter(isObject), containers)
+      : containers,
+    currentTournamentId: document.currentTournamentId ?? null,
+  };
+}
+
+const MIGRATIONS: Record<number, (document: RawObject) => RawObject> = {
+  1: migrateV1,
+};
+
+/**
+ * Brings a parsed document to the current version
+ * A plain state without envelope counts as version 1. Returns an error message
+ * for documents that are not a tournament export or come from a newer app version.
+ */
+export function migrateDocument(value: unknown): { document: RawObject } | { error: string } {
+  if (!isObject(value)) return { error: 'Die Datei enthält keine Turnierdaten' };
+
+  let document: RawObject = value.format === undefined
+    ? { format: 'beachl-turnier', version: 1, scope: 'state', ...value }
+    : value;
+  if (document.format !== 'beachl-turnier') return { error: 'Die Datei ist kein Turnier-Export' };
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version) || document.version < 1) {
+    return { error: 'Die Datei hat keine gültige Versionsnummer' };
+  }
+  if (document.version > CURRENT_VERSION) {
+    return { error: `Die Datei stammt aus einer neueren Version (v${document.version}) und kann nicht gelesen werden` };
+  }
+
+  while ((document.version as number) < CURRENT_VERSION) {
+    document = MIGRATIONS[document.version as number](document);
+  }
+  return { document };
+}
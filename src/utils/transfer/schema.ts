@@ -0,0 +1,240 @@
+/** Validation error for a single field, e.g. "tournaments[0].matches[3].status" */
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+type Check = (value: unknown, path: string, errors: FieldError[]) => void;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text: Check = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push({ path, message: 'muss ein Text sein' });
+};
+
+const num: Check = (value, path, errors) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) errors.push({ path, message: 'muss eine Zahl sein' });
+};
+
+const bool: Check = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push({ path, message: 'muss ja/nein sein' });
+};
+
+const nullable = (check: Check): Check => (value, path, errors) => {
+  if (value !== null) check(value, path, errors);
+};
+
+const oneOf = (values: readonly string[]): Check => (value, path, errors) => {
+  if (typeof value !== 'string' || !values.includes(value)) {
+    errors.push({ path, message: `ungültiger Wert ${JSON.stringify(value)} (erlaubt: ${values.join(', ')})` });
+  }
+};
+
+const listOf = (check: Check): Check => (value, path, errors) => {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: 'muss eine Liste sein' });
+    return;
+  }
+  value.forEach((item, i) => check(item, `${path}[${i}]`, errors));
+};
+
+/** Required fields must be present, optional fields are only checked if set */
+const shape = (required: Record<string, Check>, optional: Record<string, Check> = {}): Check =>
+  (value, path, errors) => {
+    if (!isObject(value)) {
+      errors.push({ path, message: 'muss ein Objekt sein' });
+      return;
+    }
+    const field = (key: string) => (path ? `${path}.${key}` : key);
+    Object.entries(required).forEach(([key, check]) => {
+      if (value[key] === undefined) errors.push({ path: field(key), message: 'fehlt' });
+      else check(value[key], field(key), errors);
+    });
+    Object.entries(optional).forEach(([key, check]) => {
+      if (value[key] !== undefined && value[key] !== null) check(value[key], field(key), errors);
+    });
+  };
+
+const TOURNAMENT_SYSTEMS = [
+  'round-robin', 'swiss', 'pool-play-single-out', 'double-elimination', 'mixer', 'playoff', 'group-phase',
+  'knockout', 'beachl-all-placements', 'beachl-short-main', 'placement-tree', 'short-main-knockout',
+  'pool-play-knockout',
+] as const;
+
+const TIEBREAKER_CRITERIA = [
+  'wins', 'set-quotient', 'point-quotient', 'point-diff', 'head-to-head', 'buchholz', 'sonneborn-berger', 'lots',
+] as const;
+
+const RESULT_SCORING_RULES = ['full-score', 'actual-score', 'complete-score', 'no-score'] as const;
+
+const MATCH_SOURCE: Check = (value, path, errors) => {
+  if (isObject(value) && value.type === 'group') shape({ groupIndex: num, rank: num })(value, path, errors);
+  else if (isObject(value) && value.type === 'standing') shape({ rank: num })(value, path, errors);
+  else errors.push({ path, message: 'ungültige Herkunft (erwartet: group oder standing)' });
+};
+
+const MATCH_DEPENDENCY = shape({ matchId: text, result: oneOf(['winner', 'loser']) });
+const INTERVAL = shape({ start: num, end: num });
+
+const MATCH = shape(
+  {
+    id: text,
+    round: num,
+    matchNumber: num,
+    teamAId: nullable(text),
+    teamBId: nullable(text),
+    courtNumber: nullable(num),
+    scores: listOf(shape({ teamA: num, teamB: num })),
+    winnerId: nullable(text),
+    status: oneOf(['scheduled', 'in-progress', 'completed', 'pending']),
+  },
+  {
+    resultType: oneOf(['played', 'forfeit', 'walkover', 'retired']),
+    dependsOn: shape({}, { teamA: MATCH_DEPENDENCY, teamB: MATCH_DEPENDENCY }),
+    teamAPlaceholder: text,
+    teamBPlaceholder: text,
+    teamASource: MATCH_SOURCE,
+    teamBSource: MATCH_SOURCE,
+    groupId: text,
+    knockoutRound: text,
+    refereeTeamId: text,
+    officialId: text,
+    scheduledTime: text,
+    scheduledDate: text,
+    startedAt: text,
+    completedAt: text,
+    placementInterval: INTERVAL,
+    winnerInterval: INTERVAL,
+    loserInterval: INTERVAL,
+  }
+);
+
+const STANDING = shape({
+  teamId: text, played: num, won: num, lost: num, setsWon: num, setsLost: num, pointsWon: num, pointsLost: num, points: num,
+});
+
+const PARTICIPANT = shape(
+  { id: text, name: text, seedPosition: num },
+  { isPresent: bool, playerIds: listOf(text), playerNames: listOf(text), club: text, rankingPoints: num, profileId: text }
+);
+
+const SCHEDULING = shape(
+  {
+    startTime: text,
+    endTime: text,
+    minutesPer21PointSet: num,
+    minutesPer15PointSet: num,
+    minutesBetweenMatches: num,
+    minutesBetweenPhases: num,
+  },
+  {
+    minimumRestMinutes: num,
+    assignReferees: bool,
+    refereeMode: oneOf(['teams', 'officials']),
+    breaks: listOf(shape({ start: text, end: text }, { date: text })),
+    courtAvailability: listOf(shape({ courtNumber: num }, { from: text, until: text, date: text })),
+  }
+);
+
+const TOURNAMENT = shape(
+  {
+    id: text,
+    name: text,
+    system: oneOf(TOURNAMENT_SYSTEMS),
+    numberOfCourts: num,
+    setsPerMatch: num,
+    pointsPerSet: num,
+    tiebreakerOrder: oneOf(['head-to-head-first', 'point-diff-first']),
+    teams: listOf(PARTICIPANT),
+    matches: listOf(MATCH),
+    standings: listOf(STANDING),
+    status: oneOf(['configuration', 'in-progress', 'completed']),
+    createdAt: text,
+    updatedAt: text,
+  },
+  {
+    pointsPerThirdSet: num,
+    tiebreakers: listOf(oneOf(TIEBREAKER_CRITERIA)),
+    resultScoring: shape({}, {
+      forfeit: oneOf(RESULT_SCORING_RULES),
+      walkover: oneOf(RESULT_SCORING_RULES),
+      retired: oneOf(RESULT_SCORING_RULES),
+    }),
+    numberOfRounds: num,
+    scheduling: SCHEDULING,
+    currentRound: num,
+    containerId: text,
+    phaseOrder: num,
+    phaseName: text,
+    parentPhaseId: text,
+    groupPhaseConfig: shape({
+      numberOfGroups: num,
+      teamsPerGroup: num,
+      groups: listOf(shape({ id: text, name: text, teamIds: listOf(text) })),
+      seeding: oneOf(['snake', 'random', 'manual']),
+    }),
+    groupStandings: listOf(STANDING),
+    knockoutSettings: shape({ setsPerMatch: num, pointsPerSet: num, playThirdPlaceMatch: bool, useReferees: bool }),
+    doubleEliminationConfig: shape({ playGrandFinalReset: bool }),
+    players: listOf(PARTICIPANT),
+    eliminatedTeamIds: listOf(text),
+    withdrawals: listOf(shape({ teamId: text, rule: oneOf(['annul-results', 'forfeit-remaining']), withdrawnAt: text })),
+    lots: listOf(text),
+  }
+);
+
+const CALENDAR = shape(
+  { days: listOf(shape({ date: text, startTime: text, endTime: text })) },
+  { phaseDays: listOf(num) }
+);
+
+const OFFICIAL = shape(
+  { id: text, name: text, license: oneOf(['A', 'B', 'C', 'D']) },
+  { availability: listOf(shape({ start: text, end: text }, { date: text })), maxMatches: num }
+);
+
+const CONTAINER = shape(
+  {
+    id: text,
+    name: text,
+    phases: listOf(shape({ tournamentId: text, order: num, name: text })),
+    currentPhaseIndex: num,
+    status: oneOf(['in-progress', 'completed']),
+    createdAt: text,
+    updatedAt: text,
+  },
+  { calendar: CALENDAR, officials: listOf(OFFICIAL), archivedAt: text }
+);
+
+/** References between tournaments and containers that the field checks cannot see */
+function checkReferences(value: Record<string, unknown>, errors: FieldError[]): void {
+  const tournaments = value.tournaments as Array<{ id: string; parentPhaseId?: string }>;
+  const containers = value.containers as Array<{ id: string; phases: Array<{ tournamentId: string }> }>;
+  const ids = new Set<string>();
+  tournaments.forEach((t, i) => {
+    if (ids.has(t.id)) errors.push({ path: `tournaments[${i}].id`, message: `doppelte ID ${t.id}` });
+    ids.add(t.id);
+  });
+  tournaments.forEach((t, i) => {
+    if (t.parentPhaseId && !ids.has(t.parentPhaseId)) {
+      errors.push({ path: `tournaments[${i}].parentPhaseId`, message: 'verweist auf eine fehlende Phase' });
+    }
+  });
+  containers.forEach((c, i) => c.phases.forEach((p, j) => {
+    if (!ids.has(p.tournamentId)) {
+      errors.push({ path: `containers[${i}].phases[${j}].tournamentId`, message: 'verweist auf eine fehlende Phase' });
+    }
+  }));
+}
+
+/**
+ * Validates tournaments and containers of an import
+ * Returns all field errors; an empty list means the data can be loaded.
+ */
+export function validateTournamentData(value: unknown): FieldError[] {
+  const errors: FieldError[] = [];
+  shape({ tournaments: listOf(TOURNAMENT), containers: listOf(CONTAINER) }, { currentTournamentId: text })(value, '', errors);
+  if (errors.length === 0) checkReferences(value as Record<string, unknown>, errors);
+  return errors;
+}